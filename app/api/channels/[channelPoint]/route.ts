@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { requireLnd } from '../../../utils/lightningBackend';
+import { badRequest, lndErrorResponse, streamLnd, toTxid } from '../../../utils/lnd';
+import { parseChannelPoint } from '../../../utils/channels';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * DELETE /api/channels/:channelPoint?force=true&sat_per_vbyte=N
+ * Close a channel, cooperatively unless force is set. Returns the closing
+ * transaction id once it is broadcast, without waiting for confirmation.
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ channelPoint: string }> }
+) {
+  const unavailable = requireLnd('Channel management');
+  if (unavailable) return unavailable;
+
+  const { channelPoint } = await params;
+  const point = parseChannelPoint(decodeURIComponent(channelPoint));
+  const query = new URL(request.url).searchParams;
+  const force = query.get('force') === 'true';
+  const feeRate = query.get('sat_per_vbyte');
+
+  if (!point) {
+    return badRequest('Channel point must look like <txid>:<output index>');
+  }
+  if (feeRate !== null && (force || !/^[1-9]\d*$/.test(feeRate))) {
+    return badRequest('sat_per_vbyte must be a positive whole number, and only applies to cooperative closes');
+  }
+
+  const path = `/v1/channels/${point.txid}/${point.index}?force=${force}${feeRate ? `&sat_per_vbyte=${feeRate}` : ''}`;
+  const controller = new AbortController();
+
+  try {
+    // CloseChannel streams updates until the close confirms; the first one carries the closing txid
+    for await (const update of streamLnd<{ close_pending?: { txid: string } }>(path, {
+      method: 'DELETE',
+      signal: controller.signal,
+    })) {
+      if (update.close_pending) {
+        return NextResponse.json({ closing_txid: toTxid(update.close_pending.txid) });
+      }
+    }
+    return lndErrorResponse(new Error('Close stream ended early'), 'Failed to close channel');
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to close channel');
+  } finally {
+    controller.abort();
+  }
+}
@@ -0,0 +1,115 @@
+import { NextResponse } from 'next/server';
+import { requireLnd } from '../../utils/lightningBackend';
+import { badRequest, getLndClient, lndErrorResponse, toTxid } from '../../utils/lnd';
+import {
+  ChannelFeePolicy,
+  ChannelsOverview,
+  isNodePubkey,
+  MIN_CHANNEL_SIZE_SAT,
+  PendingChannel,
+  PendingChannelStatus,
+} from '../../utils/channels';
+
+export const dynamic = 'force-dynamic';
+
+interface LndPendingChannel {
+  channel?: {
+    remote_node_pub: string;
+    channel_point: string;
+    capacity?: string;
+    local_balance?: string;
+  };
+  closing_txid?: string;
+  limbo_balance?: string;
+  blocks_til_maturity?: number;
+}
+
+function toPendingChannel(entry: LndPendingChannel, status: PendingChannelStatus): PendingChannel {
+  return {
+    status,
+    remote_pubkey: entry.channel?.remote_node_pub ?? '',
+    channel_point: entry.channel?.channel_point ?? '',
+    capacity: Number(entry.channel?.capacity ?? 0),
+    local_balance: Number(entry.channel?.local_balance ?? 0),
+    closing_txid: entry.closing_txid || undefined,
+    limbo_balance: entry.limbo_balance !== undefined ? Number(entry.limbo_balance) : undefined,
+    blocks_til_maturity: entry.blocks_til_maturity,
+  };
+}
+
+/**
+ * GET /api/channels
+ * Channels being opened or closed, and the forwarding fees set on open channels.
+ * Balances of open channels are served by /api/node/liquidity.
+ */
+export async function GET() {
+  const unavailable = requireLnd('Channel management');
+  if (unavailable) return unavailable;
+
+  try {
+    const client = getLndClient();
+    const [pending, feeReport] = await Promise.all([client.pendingChannels(), client.feeReport()]);
+
+    const overview: ChannelsOverview = {
+      pending: [
+        ...(pending.pending_open_channels ?? []).map((entry: LndPendingChannel) => toPendingChannel(entry, 'opening')),
+        ...(pending.waiting_close_channels ?? []).map((entry: LndPendingChannel) => toPendingChannel(entry, 'closing')),
+        ...(pending.pending_force_closing_channels ?? []).map(
+          (entry: LndPendingChannel) => toPendingChannel(entry, 'force_closing')
+        ),
+      ],
+      fees: (feeReport.channel_fees ?? []).map(
+        (fee: { chan_id: string; channel_point: string; base_fee_msat?: string; fee_per_mil?: string }): ChannelFeePolicy => ({
+          chan_id: fee.chan_id,
+          channel_point: fee.channel_point,
+          base_fee_msat: Number(fee.base_fee_msat ?? 0),
+          fee_per_mil: Number(fee.fee_per_mil ?? 0),
+        })
+      ),
+    };
+
+    return NextResponse.json(overview);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to fetch channels');
+  }
+}
+
+/**
+ * POST /api/channels
+ * Open a channel to a connected peer with
+ * { node_pubkey, local_funding_amount, sat_per_vbyte?, private? }.
+ * Returns once the funding transaction is broadcast; the channel is usable
+ * after it confirms.
+ */
+export async function POST(request: Request) {
+  const unavailable = requireLnd('Channel management');
+  if (unavailable) return unavailable;
+
+  const body = await request.json().catch(() => null);
+  const amount = Number(body?.local_funding_amount);
+  const feeRate = body?.sat_per_vbyte === undefined ? undefined : Number(body.sat_per_vbyte);
+
+  if (typeof body?.node_pubkey !== 'string' || !isNodePubkey(body.node_pubkey)) {
+    return badRequest('node_pubkey must be a 33-byte hex public key');
+  }
+  if (!Number.isInteger(amount) || amount < MIN_CHANNEL_SIZE_SAT) {
+    return badRequest(`local_funding_amount must be at least ${MIN_CHANNEL_SIZE_SAT.toLocaleString()} sats`);
+  }
+  if (feeRate !== undefined && (!Number.isInteger(feeRate) || feeRate <= 0)) {
+    return badRequest('sat_per_vbyte must be a positive whole number');
+  }
+
+  try {
+    const channelPoint = await getLndClient().openChannelSync({
+      node_pubkey: Buffer.from(body.node_pubkey, 'hex').toString('base64'),
+      local_funding_amount: String(amount),
+      sat_per_vbyte: feeRate !== undefined ? String(feeRate) : undefined,
+      private: body.private === true,
+    });
+
+    const txid = channelPoint.funding_txid_str || toTxid(channelPoint.funding_txid_bytes);
+    return NextResponse.json({ channel_point: `${txid}:${channelPoint.output_index ?? 0}` }, { status: 201 });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to open channel');
+  }
+}
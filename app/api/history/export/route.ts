@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import type { ListTransactionHistoryResponse } from 'flndr';
+import { format } from 'date-fns';
+import { getBackend } from '../../../utils/lightningBackend';
+import { badRequest } from '../../../utils/lnd';
+import { withPayComments } from '../../../utils/lnurlHost';
+import { EXPORT_FORMATS, ExportFormat, LEDGER_FORMATS } from '../../../utils/ledgerExport';
+import { matchesSearch, parseHistoryFilters, parseHistorySearch } from '../../../utils/transactions';
+
+export const dynamic = 'force-dynamic';
+
+// Transactions fetched from the node per page while exporting
+const PAGE_SIZE = 100;
+
+/**
+ * GET /api/history/export?format=csv|json|ofx|qif&<history filters>
+ * Download the full ledger matching the filters. Pages are fetched from the
+ * node only as the download is read, so memory use stays at one page however
+ * large the history is. OFX and QIF only include succeeded payments and
+ * settled invoices, whatever the status filter.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const formatName = (params.get('format') || 'csv') as ExportFormat;
+
+  if (!EXPORT_FORMATS.includes(formatName)) {
+    return badRequest(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+  }
+
+  const ledger = LEDGER_FORMATS[formatName];
+  const requested = parseHistoryFilters(params);
+  const statuses = ledger.statuses
+    ? (requested.statuses ?? ledger.statuses).filter(status => ledger.statuses?.includes(status))
+    : requested.statuses;
+  const filters = { ...requested, statuses };
+  const search = parseHistorySearch(params);
+  const context = {
+    generatedAt: new Date(),
+    start: filters.creation_date_start ? Number(filters.creation_date_start) : undefined,
+  };
+
+  const encoder = new TextEncoder();
+  // Nothing to export when none of the requested statuses can be booked
+  let cursor: ListTransactionHistoryResponse['next_cursor'] | undefined = statuses?.length === 0
+    ? undefined
+    : { offset: 0, limit: PAGE_SIZE };
+  let index = 0;
+  let started = false;
+
+  const stream = new ReadableStream({
+    async pull(controller) {
+      if (!started) {
+        started = true;
+        controller.enqueue(encoder.encode(ledger.header(context)));
+        return;
+      }
+
+      if (!cursor) {
+        controller.enqueue(encoder.encode(ledger.footer(context)));
+        controller.close();
+        return;
+      }
+
+      try {
+        const page: ListTransactionHistoryResponse = await getBackend().listTransactions({
+          offset: cursor.offset,
+          limit: PAGE_SIZE,
+          payment_cursor: cursor.payment_cursor ?? undefined,
+          invoice_cursor: cursor.invoice_cursor ?? undefined,
+          ...filters,
+        });
+
+        const chunk = (await withPayComments(page.transactions))
+          .filter(tx => matchesSearch(tx, search))
+          .map(tx => ledger.row(tx, index++))
+          .join('');
+        if (chunk) {
+          controller.enqueue(encoder.encode(chunk));
+        }
+        cursor = page.has_more && page.transactions.length > 0 ? page.next_cursor : undefined;
+      } catch (error) {
+        // Headers are already sent, so the only way to signal failure is to abort the download
+        console.error('Failed to export transactions:', error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const filename = `lightning-transactions-${format(context.generatedAt, 'yyyy-MM-dd')}.${ledger.extension}`;
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': ledger.contentType,
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ListTransactionHistoryResponse, Transaction } from 'flndr';
+import { lndErrorResponse } from '../../utils/lnd';
+import { withFiatSnapshots } from '../../utils/fiatValues';
+import { getBackend } from '../../utils/lightningBackend';
+import { withPayComments } from '../../utils/lnurlHost';
+import { hasHistorySearch, matchesSearch, parseHistoryFilters, parseHistorySearch } from '../../utils/transactions';
+
+// Most node pages scanned for one page of search results
+const MAX_SEARCH_PAGES = 20;
+
+/**
+ * GET /api/history
+ * List sent and received transactions with cursor-based pagination
+ * With search or amount filters, node pages are scanned until a page of
+ * matches is found, so next_cursor continues after the last page scanned.
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const filters = parseHistoryFilters(params);
+  const search = parseHistorySearch(params);
+  const limit = Number(params.get('limit') ?? 10);
+
+  const fetchPage = async (cursor: { offset: number; payment_cursor?: string; invoice_cursor?: string }) => {
+    const page: ListTransactionHistoryResponse = await getBackend().listTransactions({
+      ...cursor,
+      limit,
+      ...filters,
+    });
+    return { ...page, transactions: await withFiatSnapshots(await withPayComments(page.transactions)) };
+  };
+
+  try {
+    let history = await fetchPage({
+      offset: Number(params.get('offset') ?? 0),
+      payment_cursor: params.get('payment_cursor') ?? undefined,
+      invoice_cursor: params.get('invoice_cursor') ?? undefined,
+    });
+
+    if (!hasHistorySearch(search)) {
+      return NextResponse.json(history);
+    }
+
+    const matches: Transaction[] = history.transactions.filter(tx => matchesSearch(tx, search));
+    for (let scanned = 1; scanned < MAX_SEARCH_PAGES && matches.length < limit; scanned++) {
+      const cursor = history.next_cursor;
+      if (!history.has_more || !cursor || history.transactions.length === 0) break;
+
+      history = await fetchPage({
+        offset: cursor.offset,
+        payment_cursor: cursor.payment_cursor ?? undefined,
+        invoice_cursor: cursor.invoice_cursor ?? undefined,
+      });
+      matches.push(...history.transactions.filter(tx => matchesSearch(tx, search)));
+    }
+
+    return NextResponse.json({
+      ...history,
+      transactions: matches,
+      // The node can only count unfiltered rows
+      total_count: history.has_more ? Math.max(history.total_count, matches.length) : matches.length,
+    });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to fetch transactions');
+  }
+}
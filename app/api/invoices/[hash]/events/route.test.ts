@@ -0,0 +1,52 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSimulatedNode } from '../../../../utils/simulatedNode';
+import { GET } from './route';
+
+// flndr is only needed by the LND backend; these tests follow the simulated node
+vi.mock('flndr', () => ({ LndClient: class {} }));
+
+const HASH = 'ab'.repeat(32);
+
+// Open the event stream and read it until the server closes it
+async function events(hash: string) {
+  const response = await GET(
+    new Request(`http://localhost/api/invoices/${hash}/events`),
+    { params: Promise.resolve({ hash }) }
+  );
+  const text = await response.text();
+  return text.split('\n\n').filter(block => block.startsWith('event:'));
+}
+
+describe('GET /api/invoices/:hash/events', () => {
+  beforeEach(() => {
+    vi.stubEnv('LIGHTNING_BACKEND', 'simulated');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reports an invoice the node does not know', async () => {
+    vi.spyOn(getSimulatedNode(), 'lookupInvoice').mockResolvedValue(null);
+
+    expect(await events(HASH)).toEqual(['event: invoice-error\ndata: {"error":"Invoice not found"}']);
+  });
+
+  it('closes without a final event when the lookup fails, so the browser reconnects', async () => {
+    vi.spyOn(getSimulatedNode(), 'lookupInvoice').mockRejectedValue(new Error('node unavailable'));
+
+    expect(await events(HASH)).toEqual([]);
+    expect(console.error).toHaveBeenCalledWith('Failed to look up invoice for event stream:', expect.any(Error));
+  });
+
+  it('sends a settled invoice and closes', async () => {
+    vi.spyOn(getSimulatedNode(), 'lookupInvoice').mockResolvedValue({
+      r_hash: HASH,
+      payment_request: 'lnbcrt1',
+      value_msat: '1000',
+      state: 'SETTLED',
+      settled: true,
+    });
+
+    const [event] = await events(HASH);
+    expect(event.startsWith('event: invoice\n')).toBe(true);
+    expect(JSON.parse(event.split('data: ')[1])).toMatchObject({ r_hash: HASH, state: 'SETTLED' });
+  });
+});
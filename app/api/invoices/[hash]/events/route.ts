@@ -0,0 +1,102 @@
+import { getBackend } from '../../../../utils/lightningBackend';
+import { toHexHash } from '../../../../utils/lnd';
+import { getInvoiceSubscription, InvoiceUpdate } from '../../../../utils/invoiceSubscription';
+
+export const dynamic = 'force-dynamic';
+
+// Keep-alive interval so proxies don't close an idle event stream
+const HEARTBEAT_MS = 15000;
+
+/**
+ * GET /api/invoices/:hash/events
+ * Server-Sent Events stream of state changes for a single invoice.
+ * Sends the current state immediately, then every update from the node's
+ * invoice subscription, and closes once the invoice is settled or canceled.
+ * An unknown invoice is reported with an "invoice-error" event before
+ * closing; a named "error" event would look like a dropped connection to
+ * EventSource. When the lookup itself fails the stream is just closed, so the
+ * browser reconnects and tries again.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+  const targetHash = toHexHash(decodeURIComponent(hash));
+  const encoder = new TextEncoder();
+
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const send = (event: string, data: unknown) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+
+      const sendInvoice = (invoice: InvoiceUpdate) => {
+        send('invoice', invoice);
+        if (invoice.state === 'SETTLED' || invoice.state === 'CANCELED') {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = getInvoiceSubscription().subscribe(invoice => {
+        if (toHexHash(invoice.r_hash) === targetHash) {
+          sendInvoice(invoice);
+        }
+      });
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener('abort', cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Stream was already canceled by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', cleanup);
+
+      // Tell EventSource how long to wait before reconnecting on its own
+      controller.enqueue(encoder.encode('retry: 2000\n\n'));
+
+      // The invoice may already have been paid before the browser connected
+      getBackend()
+        .lookupInvoice(targetHash)
+        .then(invoice => {
+          if (invoice) {
+            sendInvoice(invoice);
+          } else {
+            send('invoice-error', { error: 'Invoice not found' });
+            cleanup();
+          }
+        })
+        .catch((error: unknown) => {
+          console.error('Failed to look up invoice for event stream:', error);
+          cleanup();
+        });
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
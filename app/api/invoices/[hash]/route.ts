@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getBackend } from '../../../utils/lightningBackend';
+import { lndErrorResponse, toHexHash } from '../../../utils/lnd';
+
+/**
+ * GET /api/invoices/:hash
+ * Look up the current state of an invoice by its payment hash
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+
+  try {
+    const invoice = await getBackend().lookupInvoice(toHexHash(decodeURIComponent(hash)));
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 });
+    }
+    return NextResponse.json(invoice);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to look up invoice');
+  }
+}
+
+/**
+ * DELETE /api/invoices/:hash
+ * Cancel an open invoice so it can no longer be paid. Accepted hold invoices
+ * are canceled too, which returns the held payment to the payer.
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const { hash } = await params;
+
+  try {
+    await getBackend().cancelInvoice(toHexHash(decodeURIComponent(hash)));
+    return NextResponse.json({ canceled: true });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to cancel invoice');
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { requireLnd } from '../../../../utils/lightningBackend';
+import { lndErrorResponse, toHexHash } from '../../../../utils/lnd';
+import { listHoldInvoiceHashes, settleHoldInvoice } from '../../../../utils/holdInvoices';
+
+/**
+ * POST /api/invoices/:hash/settle
+ * Settle an accepted hold invoice, releasing the held payment to the wallet
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const unavailable = requireLnd('Hold invoices');
+  if (unavailable) return unavailable;
+
+  const paymentHash = toHexHash(decodeURIComponent((await params).hash));
+
+  if (!(await listHoldInvoiceHashes()).has(paymentHash)) {
+    return NextResponse.json({ error: 'Not a hold invoice created by this wallet' }, { status: 404 });
+  }
+
+  try {
+    await settleHoldInvoice(paymentHash);
+    return NextResponse.json({ settled: true });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to settle invoice');
+  }
+}
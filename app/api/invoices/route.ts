@@ -0,0 +1,104 @@
+import { NextResponse } from 'next/server';
+import { getBackend, requireLnd } from '../../utils/lightningBackend';
+import { badRequest, lndErrorResponse, toHexHash } from '../../utils/lnd';
+import { DEFAULT_EXPIRY_SECONDS, invoiceStatus, MAX_EXPIRY_SECONDS, OpenInvoice } from '../../utils/invoices';
+import { createHoldInvoice, listHoldInvoiceHashes } from '../../utils/holdInvoices';
+import type { InvoiceUpdate } from '../../utils/invoiceSubscription';
+
+// Earliest expiry height among HTLCs that are still being held
+function heldUntilHeight(invoice: InvoiceUpdate): number | undefined {
+  const heights = (invoice.htlcs ?? [])
+    .filter(htlc => htlc.state === 'ACCEPTED')
+    .map(htlc => Number(htlc.expiry_height));
+  return heights.length > 0 ? Math.min(...heights) : undefined;
+}
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/invoices
+ * List the node's unsettled invoices, newest first: every open and accepted
+ * invoice, and the most recent expired and canceled ones. Accepted invoices include how many blocks
+ * are left before their held HTLCs time out.
+ */
+export async function GET() {
+  const backend = getBackend();
+
+  try {
+    const [recent, holdHashes] = await Promise.all([
+      backend.listInvoices(),
+      listHoldInvoiceHashes(),
+    ]);
+    const unsettled = recent.filter(invoice => invoice.state !== 'SETTLED');
+    const now = Date.now();
+
+    const blockHeight = unsettled.some(invoice => invoice.state === 'ACCEPTED')
+      ? Number((await backend.getInfo()).block_height)
+      : 0;
+
+    const invoices: OpenInvoice[] = unsettled
+      .map(invoice => {
+        const paymentHash = toHexHash(invoice.r_hash);
+        const heldUntil = invoice.state === 'ACCEPTED' ? heldUntilHeight(invoice) : undefined;
+
+        return {
+          payment_hash: paymentHash,
+          payment_request: invoice.payment_request,
+          value_msat: invoice.value_msat,
+          memo: invoice.memo || undefined,
+          creation_date: Number(invoice.creation_date),
+          expiry: Number(invoice.expiry),
+          status: invoiceStatus(invoice.state, Number(invoice.creation_date), Number(invoice.expiry), now),
+          hold: holdHashes.has(paymentHash) || undefined,
+          blocks_left: heldUntil !== undefined ? heldUntil - blockHeight : undefined,
+        };
+      })
+      .sort((a, b) => b.creation_date - a.creation_date);
+
+    return NextResponse.json(invoices);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to list invoices');
+  }
+}
+
+/**
+ * POST /api/invoices
+ * Create a new invoice on the node. With hold: true the wallet keeps the
+ * preimage and the payment has to be settled through /api/invoices/:hash/settle.
+ * Hold invoices are only available with the LND backend.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  if (body?.hold === true) {
+    const unavailable = requireLnd('Hold invoices');
+    if (unavailable) return unavailable;
+  }
+
+  if (!body || !body.value_msat || isNaN(Number(body.value_msat)) || Number(body.value_msat) <= 0) {
+    return badRequest('A positive value_msat is required');
+  }
+
+  const expiry = body.expiry === undefined ? DEFAULT_EXPIRY_SECONDS : Number(body.expiry);
+  if (!Number.isInteger(expiry) || expiry < 60 || expiry > MAX_EXPIRY_SECONDS) {
+    return badRequest(`expiry must be between 60 and ${MAX_EXPIRY_SECONDS} seconds`);
+  }
+
+  try {
+    const invoice = body.hold === true
+      ? await createHoldInvoice({
+        value_msat: String(body.value_msat),
+        memo: body.memo || 'Lightning Payment',
+        expiry,
+      })
+      : await getBackend().createInvoice({
+        value_msat: String(body.value_msat),
+        memo: body.memo || 'Lightning Payment',
+        expiry,
+      });
+
+    return NextResponse.json(invoice);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to create invoice');
+  }
+}
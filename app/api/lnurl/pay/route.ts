@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { badRequest } from '../../../utils/lnd';
+import { LnurlError, describePayParams, parseLnurlTarget } from '../../../utils/lnurl';
+import { fetchPayInvoice, fetchPayParams } from '../../../utils/lnurlPay';
+
+export const dynamic = 'force-dynamic';
+
+// Map handshake failures to a JSON error the send form can show as-is
+function lnurlErrorResponse(error: unknown) {
+  if (error instanceof LnurlError) {
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+  console.error('LNURL-pay request failed:', error);
+  return NextResponse.json({ error: 'LNURL-pay request failed' }, { status: 502 });
+}
+
+/**
+ * GET /api/lnurl/pay?target=<lnurl or lightning address>
+ * Resolve the pay request and return what the payer needs to choose an amount
+ */
+export async function GET(request: NextRequest) {
+  const target = parseLnurlTarget(request.nextUrl.searchParams.get('target') || '');
+  if (!target) {
+    return badRequest('Not a valid LNURL or Lightning Address');
+  }
+
+  try {
+    const params = await fetchPayParams(target);
+    return NextResponse.json(describePayParams(target, params));
+  } catch (error) {
+    return lnurlErrorResponse(error);
+  }
+}
+
+/**
+ * POST /api/lnurl/pay
+ * Request an invoice for { target, amount_msat, comment } from the service's
+ * callback. The pay parameters are fetched again rather than trusted from the
+ * browser, and the invoice is checked against them before it is returned.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const target = parseLnurlTarget(body?.target || '');
+
+  if (!target) {
+    return badRequest('Not a valid LNURL or Lightning Address');
+  }
+  if (!/^\d+$/.test(String(body.amount_msat ?? ''))) {
+    return badRequest('amount_msat must be a whole number of millisatoshis');
+  }
+
+  try {
+    const params = await fetchPayParams(target);
+    const invoice = await fetchPayInvoice(
+      params,
+      Number(body.amount_msat),
+      typeof body.comment === 'string' && body.comment.trim() !== '' ? body.comment.trim() : undefined
+    );
+    return NextResponse.json(invoice);
+  } catch (error) {
+    return lnurlErrorResponse(error);
+  }
+}
@@ -0,0 +1,63 @@
+import { mkdtemp, rm } from 'fs/promises';
+import { NextRequest } from 'next/server';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Transaction } from 'flndr';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSimulatedNode } from '../../../../utils/simulatedNode';
+import { normalizePaymentHash } from '../../../../utils/transactions';
+import { GET as getHistory } from '../../../history/route';
+import { GET } from './route';
+
+// flndr is only needed by the LND backend; these tests run against the simulated node
+vi.mock('flndr', () => ({ LndClient: class {} }));
+
+async function requestInvoice(query: string) {
+  const response = await GET(
+    new NextRequest(`http://localhost/api/lnurlp/tips/callback?${query}`),
+    { params: Promise.resolve({ name: 'tips' }) }
+  );
+  return { status: response.status, body: await response.json() };
+}
+
+async function historyRow(paymentHash: string): Promise<Transaction | undefined> {
+  const response = await getHistory(new NextRequest('http://localhost/api/history?limit=10'));
+  const { transactions } = await response.json();
+  return transactions.find((tx: Transaction) => normalizePaymentHash(tx.payment_hash) === normalizePaymentHash(paymentHash));
+}
+
+describe('GET /api/lnurlp/:name/callback', () => {
+  let storeDir: string;
+
+  beforeAll(async () => {
+    storeDir = await mkdtemp(join(tmpdir(), 'lnurlp-comments-'));
+  });
+
+  afterAll(async () => {
+    await rm(storeDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.stubEnv('LIGHTNING_BACKEND', 'simulated');
+    vi.stubEnv('SIMULATED_HISTORY_SIZE', '0');
+    vi.stubEnv('LNURL_PAY_COMMENT_STORE', join(storeDir, 'comments.json'));
+    getSimulatedNode().reset();
+  });
+
+  it('shows the payer\'s comment as the description of the payment', async () => {
+    const { body } = await requestInvoice('amount=21000&comment=Thanks%20for%20the%20podcast');
+    const paid = getSimulatedNode().receivePayment({ payment_request: body.pr });
+
+    expect(await historyRow(paid.r_hash))
+      .toMatchObject({ type: 'received', description: 'Thanks for the podcast' });
+  });
+
+  it('refuses a comment longer than it advertises', async () => {
+    vi.stubEnv('LNURL_PAY_COMMENT_LENGTH', '5');
+
+    const { status, body } = await requestInvoice('amount=21000&comment=Too%20long');
+
+    expect(status).toBe(400);
+    expect(body).toEqual({ status: 'ERROR', reason: 'Comments are limited to 5 characters' });
+  });
+});
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getBackend } from '../../../../utils/lightningBackend';
+import {
+  getLnurlPayConfig,
+  getPublicOrigin,
+  lnurlErrorResponse,
+  payMetadata,
+  recordPayComment,
+} from '../../../../utils/lnurlHost';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/lnurlp/:name/callback?amount=<msat>&comment=<text>
+ * Second step of LNURL-pay: create an invoice that commits to the metadata
+ * through its description hash. The payer's comment is stored next to the
+ * invoice and shown as the description once it is paid.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+  const name = (await params).name.toLowerCase();
+  const config = getLnurlPayConfig();
+
+  if (!config.names.includes(name)) {
+    return lnurlErrorResponse('Unknown Lightning Address', 404);
+  }
+
+  const amount = request.nextUrl.searchParams.get('amount') || '';
+  const comment = request.nextUrl.searchParams.get('comment') || '';
+
+  if (!/^\d+$/.test(amount)) {
+    return lnurlErrorResponse('amount must be a whole number of millisatoshis');
+  }
+  if (Number(amount) < config.minSendableSat * 1000 || Number(amount) > config.maxSendableSat * 1000) {
+    return lnurlErrorResponse(
+      `Amount must be between ${config.minSendableSat} and ${config.maxSendableSat} sats`
+    );
+  }
+  if (comment.length > config.commentAllowed) {
+    return lnurlErrorResponse(`Comments are limited to ${config.commentAllowed} characters`);
+  }
+
+  const metadata = payMetadata(name, new URL(getPublicOrigin(request)).host);
+
+  try {
+    const invoice = await getBackend().createInvoice({
+      value_msat: amount,
+      hashed_description: metadata,
+      expiry: 3600,
+    });
+
+    // The invoice only commits to the metadata's hash, so the comment is kept beside it
+    if (comment) {
+      await recordPayComment(invoice.r_hash, comment);
+    }
+
+    return NextResponse.json({ pr: invoice.payment_request, routes: [] });
+  } catch (error) {
+    console.error('Failed to create LNURL-pay invoice:', error);
+    return lnurlErrorResponse('Failed to create invoice', 502);
+  }
+}
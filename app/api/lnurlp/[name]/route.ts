@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { getLnurlPayConfig, getPublicOrigin, lnurlErrorResponse, payMetadata } from '../../../utils/lnurlHost';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/lnurlp/:name (also served as /.well-known/lnurlp/:name)
+ * First step of LNURL-pay: describe what the payer can send to this address
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ name: string }> }) {
+  const name = (await params).name.toLowerCase();
+  const config = getLnurlPayConfig();
+
+  if (!config.names.includes(name)) {
+    return lnurlErrorResponse('Unknown Lightning Address', 404);
+  }
+
+  const origin = getPublicOrigin(request);
+
+  return NextResponse.json({
+    tag: 'payRequest',
+    callback: `${origin}/api/lnurlp/${name}/callback`,
+    minSendable: config.minSendableSat * 1000,
+    maxSendable: config.maxSendableSat * 1000,
+    metadata: payMetadata(name, new URL(origin).host),
+    commentAllowed: config.commentAllowed,
+  });
+}
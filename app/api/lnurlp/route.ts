@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { encodeLnurl } from '../../utils/lnurl';
+import { getLnurlPayConfig, getPublicOrigin } from '../../utils/lnurlHost';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/lnurlp
+ * The wallet's own Lightning Addresses, each with its static LNURL for a QR code
+ */
+export async function GET(request: Request) {
+  const origin = getPublicOrigin(request);
+  const host = new URL(origin).host;
+  const { names, minSendableSat, maxSendableSat } = getLnurlPayConfig();
+
+  return NextResponse.json({
+    minSendableSat,
+    maxSendableSat,
+    addresses: names.map(name => ({
+      name,
+      address: `${name}@${host}`,
+      lnurl: encodeLnurl(`${origin}/api/lnurlp/${name}`),
+    })),
+  });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { recordFiatValue } from '../../../../utils/fiatValues';
+import { getBackend } from '../../../../utils/lightningBackend';
+import { claimVoucher, getRedeemableVoucher, lnurlErrorResponse, settleVoucher } from '../../../../utils/lnurlHost';
+import { enforcePaymentPolicy, getPaymentPolicy, PaymentPolicyError } from '../../../../utils/paymentPolicy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Pay the redeemer's invoice and record the outcome on the voucher
+ * Only an explicit FAILED status reopens the voucher; if the stream drops
+ * mid-payment the voucher stays pending rather than risk paying twice.
+ */
+async function payVoucher(
+  id: string,
+  paymentRequest: string,
+  feeLimitSat: number,
+  timeoutSeconds: number,
+  releaseBudget: () => void
+) {
+  try {
+    const updates = getBackend().sendPayment(
+      { payment_request: paymentRequest },
+      { fee_limit_sat: feeLimitSat, timeout_seconds: timeoutSeconds, final_only: true }
+    );
+
+    for await (const update of updates) {
+      if (update.status === 'SUCCEEDED' || update.status === 'FAILED') {
+        settleVoucher(id, update.status === 'SUCCEEDED', update.payment_hash);
+        if (update.status === 'SUCCEEDED') {
+          void recordFiatValue(update.payment_hash);
+        }
+        return;
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to pay out voucher ${id}:`, error);
+  } finally {
+    releaseBudget();
+  }
+}
+
+/**
+ * GET /api/lnurlw/:id/callback?k1=<secret>&pr=<invoice>
+ * Second step of LNURL-withdraw: pay the redeemer's invoice. Per LUD-03 the
+ * wallet answers as soon as the payment is accepted, without waiting for it
+ * to complete.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const k1 = request.nextUrl.searchParams.get('k1') || '';
+  const paymentRequest = request.nextUrl.searchParams.get('pr') || '';
+  const voucher = getRedeemableVoucher(id);
+
+  if (!voucher || voucher.k1 !== k1) {
+    return lnurlErrorResponse('This voucher has expired or was already used', 404);
+  }
+  if (!paymentRequest) {
+    return lnurlErrorResponse('An invoice (pr) is required');
+  }
+
+  let invoiceMsat: number;
+  try {
+    const decoded = await getBackend().decodePaymentRequest(paymentRequest);
+    invoiceMsat = Number(decoded.num_msat || 0) || Number(decoded.num_satoshis || 0) * 1000;
+  } catch {
+    return lnurlErrorResponse('Invalid invoice');
+  }
+
+  if (invoiceMsat !== voucher.amountSat * 1000) {
+    return lnurlErrorResponse(`The invoice must be for exactly ${voucher.amountSat} sats`);
+  }
+  if (!claimVoucher(id, k1)) {
+    return lnurlErrorResponse('This voucher has expired or was already used', 404);
+  }
+
+  const policy = getPaymentPolicy();
+  let feeLimitSat: number;
+  let releaseBudget: () => void;
+
+  try {
+    // The voucher itself is the confirmation, but amount and budget limits still apply
+    ({ feeLimitSat, release: releaseBudget } = await enforcePaymentPolicy(voucher.amountSat, true, policy));
+  } catch (error) {
+    settleVoucher(id, false);
+    if (error instanceof PaymentPolicyError) {
+      return lnurlErrorResponse(error.message, error.status);
+    }
+    console.error('Failed to check voucher against spending limits:', error);
+    return lnurlErrorResponse('Failed to check spending limits', 502);
+  }
+
+  void payVoucher(id, paymentRequest, feeLimitSat, policy.timeoutSeconds, releaseBudget);
+
+  return NextResponse.json({ status: 'OK' });
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { getPublicOrigin, getRedeemableVoucher, lnurlErrorResponse } from '../../../utils/lnurlHost';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/lnurlw/:id
+ * First step of LNURL-withdraw: describe the voucher to the redeeming wallet
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const voucher = getRedeemableVoucher(id);
+
+  if (!voucher) {
+    return lnurlErrorResponse('This voucher has expired or was already used', 404);
+  }
+
+  return NextResponse.json({
+    tag: 'withdrawRequest',
+    callback: `${getPublicOrigin(request)}/api/lnurlw/${id}/callback`,
+    k1: voucher.k1,
+    defaultDescription: voucher.description,
+    minWithdrawable: voucher.amountSat * 1000,
+    maxWithdrawable: voucher.amountSat * 1000,
+  });
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { getBackend } from '../../../utils/lightningBackend';
+import { lndErrorResponse } from '../../../utils/lnd';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/node/liquidity
+ * On-chain and channel balances, plus each channel's local and remote liquidity
+ */
+export async function GET() {
+  try {
+    const overview = await getBackend().getBalances();
+    return NextResponse.json(overview);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to fetch node liquidity');
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { getBackend } from '../../utils/lightningBackend';
+import { lndErrorResponse } from '../../utils/lnd';
+
+/**
+ * GET /api/node
+ * Basic information about the connected node
+ */
+export async function GET() {
+  try {
+    const info = await getBackend().getInfo();
+    return NextResponse.json(info);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to fetch node info');
+  }
+}
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiHandler, jsonResponse, mockApi, notFound } from '../../../../test/api';
+import { POST } from './route';
+
+// flndr is only needed for LND calls, which this route doesn't make
+vi.mock('flndr', () => ({ LndClient: class {} }));
+
+// BOLT 12 test vectors: an offer without an amount, and one for 10000 msat
+const OPEN_OFFER = 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg';
+const PRICED_OFFER = 'lno1pqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj';
+const USD_OFFER = 'lno1qcp4256ypqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj';
+
+const INVOICE = 'lni1qqg0invoicefromtheissuer';
+const PAYMENT_HASH = 'ab'.repeat(32);
+
+// Core Lightning node answering fetchinvoice with INVOICE, decoded with the given fields
+function clnNode(decoded: Record<string, unknown> = {}, fetchInvoice?: ApiHandler): ApiHandler {
+  return request => {
+    if (request.path === '/v1/fetchinvoice') {
+      return fetchInvoice?.(request) ?? jsonResponse({ invoice: INVOICE, changes: {} });
+    }
+    if (request.path === '/v1/decode') {
+      return jsonResponse({
+        type: 'bolt12 invoice',
+        valid: true,
+        invoice_amount_msat: 21000,
+        invoice_payment_hash: PAYMENT_HASH,
+        ...decoded,
+      });
+    }
+    return notFound(request);
+  };
+}
+
+function post(body: unknown) {
+  return POST(new Request('http://localhost/api/offers/invoice', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('POST /api/offers/invoice', () => {
+  beforeEach(() => {
+    vi.stubEnv('CLN_REST_URL', 'https://cln.test:3010/');
+    vi.stubEnv('CLN_RUNE', 'test-rune');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('fetches an invoice for the amount the payer chose', async () => {
+    const requests = mockApi(clnNode());
+
+    const response = await post({ offer: `lightning:${OPEN_OFFER}`, amount_msat: '21000', payer_note: 'Thanks' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      invoice: INVOICE,
+      amount_msat: '21000',
+      payment_hash: PAYMENT_HASH,
+      changes: {},
+    });
+    expect(requests.map(request => request.path)).toEqual(['/v1/fetchinvoice', '/v1/decode']);
+    expect(requests[0].body).toEqual({ offer: OPEN_OFFER, amount_msat: 21000, payer_note: 'Thanks' });
+  });
+
+  it('leaves the amount to an offer that has one and passes on what the issuer changed', async () => {
+    const requests = mockApi(clnNode(
+      { invoice_amount_msat: '10000msat' },
+      () => jsonResponse({ invoice: INVOICE, changes: { description_appended: ' (gift)' } })
+    ));
+
+    const response = await post({ offer: PRICED_OFFER });
+
+    expect(await response.json()).toMatchObject({ amount_msat: '10000', changes: { description_appended: ' (gift)' } });
+    expect(requests[0].body).toEqual({ offer: PRICED_OFFER });
+  });
+
+  it('rejects an invoice for a different amount than asked for', async () => {
+    mockApi(clnNode({ invoice_amount_msat: 99000 }));
+
+    const response = await post({ offer: OPEN_OFFER, amount_msat: '21000' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'The issuer returned an invoice for 99000 msat instead of 21000 msat' });
+    expect(console.error).not.toHaveBeenCalled();
+  });
+
+  it('rejects an invoice the node does not consider valid', async () => {
+    mockApi(clnNode({ valid: false }));
+
+    const response = await post({ offer: OPEN_OFFER, amount_msat: '21000' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'The issuer returned an invalid invoice' });
+  });
+
+  it('rejects something other than a BOLT12 invoice', async () => {
+    mockApi(clnNode({ type: 'bolt11 invoice' }));
+
+    const response = await post({ offer: OPEN_OFFER, amount_msat: '21000' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'The issuer returned a bolt11 invoice instead of a BOLT12 invoice' });
+  });
+
+  it('reports when the issuer does not answer', async () => {
+    mockApi(clnNode({}, () => jsonResponse({ code: 1005, message: 'Timeout waiting for response' }, 500)));
+
+    const response = await post({ offer: OPEN_OFFER, amount_msat: '21000' });
+
+    expect(response.status).toBe(502);
+    expect(await response.json()).toEqual({ error: 'Failed to get an invoice from the offer' });
+  });
+
+  it.each([
+    ['no offer', { amount_msat: '21000' }, 'An offer is required'],
+    ['a malformed offer', { offer: 'lno1', amount_msat: '21000' }, 'Offer is empty'],
+    ['a fractional amount', { offer: OPEN_OFFER, amount_msat: '21000.5' }, 'amount_msat must be a positive whole number of millisatoshis'],
+    ['an amount for an offer that has one', { offer: PRICED_OFFER, amount_msat: '21000' }, 'This offer already specifies an amount'],
+    ['no amount for an offer without one', { offer: OPEN_OFFER }, 'This offer lets the payer choose; an amount_msat is required'],
+    ['an offer priced in another currency', { offer: USD_OFFER }, 'Offers priced in USD are not supported'],
+  ])('refuses %s without asking the node', async (_, body, error) => {
+    const requests = mockApi(clnNode());
+
+    const response = await post(body);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error });
+    expect(requests).toEqual([]);
+  });
+
+  it('needs a Core Lightning node', async () => {
+    vi.stubEnv('CLN_RUNE', '');
+
+    const response = await post({ offer: OPEN_OFFER, amount_msat: '21000' });
+
+    expect(response.status).toBe(501);
+  });
+});
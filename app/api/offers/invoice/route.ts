@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { badRequest, lndErrorResponse } from '../../../utils/lnd';
+import { Bolt12Error, decodeOffer } from '../../../utils/bolt12';
+import { isClnConfigured, offersUnavailable, requestCln } from '../../../utils/cln';
+import type { OfferInvoice } from '../../../utils/offers';
+
+export const dynamic = 'force-dynamic';
+
+interface ClnDecodedInvoice {
+  type: string;
+  valid: boolean;
+  // A number of msat, or a string such as "1000msat" on older nodes
+  invoice_amount_msat: number | string;
+  invoice_payment_hash: string;
+}
+
+// The issuer answered with an invoice we won't pay; the node itself worked fine
+function unusableInvoice(reason: string) {
+  return NextResponse.json({ error: reason }, { status: 502 });
+}
+
+/**
+ * POST /api/offers/invoice
+ * Request an invoice from a BOLT12 offer with { offer, amount_msat?, payer_note? }.
+ * The Core Lightning node sends the invoice request to the issuer over onion
+ * messages. The returned invoice is checked against the amount asked for and
+ * can then be paid with POST /api/payments { bolt12_invoice }.
+ */
+export async function POST(request: Request) {
+  if (!isClnConfigured()) {
+    return offersUnavailable();
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body.offer !== 'string') {
+    return badRequest('An offer is required');
+  }
+  if (body.amount_msat !== undefined && !/^[1-9]\d*$/.test(String(body.amount_msat))) {
+    return badRequest('amount_msat must be a positive whole number of millisatoshis');
+  }
+
+  let offer;
+  try {
+    offer = decodeOffer(body.offer);
+  } catch (error) {
+    return badRequest(error instanceof Bolt12Error ? error.message : 'Invalid offer');
+  }
+
+  if (offer.currency) {
+    return badRequest(`Offers priced in ${offer.currency} are not supported`);
+  }
+  if (offer.amount_msat && body.amount_msat !== undefined) {
+    return badRequest('This offer already specifies an amount');
+  }
+  if (!offer.amount_msat && body.amount_msat === undefined) {
+    return badRequest('This offer lets the payer choose; an amount_msat is required');
+  }
+
+  const expectedMsat = offer.amount_msat ?? String(body.amount_msat);
+
+  try {
+    const { invoice, changes } = await requestCln<{ invoice: string; changes?: Record<string, unknown> }>('fetchinvoice', {
+      offer: body.offer.trim().replace(/^lightning:/i, ''),
+      amount_msat: offer.amount_msat ? undefined : Number(body.amount_msat),
+      quantity: offer.quantity_max !== undefined ? 1 : undefined,
+      payer_note: typeof body.payer_note === 'string' && body.payer_note ? body.payer_note : undefined,
+    }, request.signal);
+
+    const decoded = await requestCln<ClnDecodedInvoice>('decode', { string: invoice });
+    const amountMsat = String(decoded.invoice_amount_msat).replace(/msat$/, '');
+
+    if (decoded.type !== 'bolt12 invoice') {
+      return unusableInvoice(`The issuer returned a ${decoded.type} instead of a BOLT12 invoice`);
+    }
+    if (!decoded.valid) {
+      return unusableInvoice('The issuer returned an invalid invoice');
+    }
+    if (amountMsat !== expectedMsat) {
+      return unusableInvoice(`The issuer returned an invoice for ${amountMsat} msat instead of ${expectedMsat} msat`);
+    }
+
+    const result: OfferInvoice = {
+      invoice,
+      amount_msat: amountMsat,
+      payment_hash: decoded.invoice_payment_hash,
+      changes: changes ?? {},
+    };
+    return NextResponse.json(result);
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to get an invoice from the offer');
+  }
+}
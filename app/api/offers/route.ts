@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { badRequest, lndErrorResponse } from '../../utils/lnd';
+import { isClnConfigured, offersUnavailable, requestCln } from '../../utils/cln';
+import type { CreatedOffer } from '../../utils/offers';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/offers
+ * Create a BOLT12 offer with { description, amount_msat?, issuer?, single_use? }.
+ * Offers without an amount let the payer choose one. The offer is created on
+ * the Core Lightning node, which answers invoice requests for it.
+ */
+export async function POST(request: Request) {
+  if (!isClnConfigured()) {
+    return offersUnavailable();
+  }
+
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body.description !== 'string' || body.description.trim() === '') {
+    return badRequest('A description is required');
+  }
+  if (body.amount_msat !== undefined && !/^[1-9]\d*$/.test(String(body.amount_msat))) {
+    return badRequest('amount_msat must be a positive whole number of millisatoshis');
+  }
+
+  try {
+    const offer = await requestCln<CreatedOffer>('offer', {
+      amount: body.amount_msat !== undefined ? `${body.amount_msat}msat` : 'any',
+      description: body.description.trim(),
+      issuer: typeof body.issuer === 'string' && body.issuer.trim() ? body.issuer.trim() : undefined,
+      single_use: body.single_use === true,
+    });
+
+    return NextResponse.json({
+      offer_id: offer.offer_id,
+      bolt12: offer.bolt12,
+      single_use: offer.single_use,
+      active: offer.active,
+      used: offer.used,
+    });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to create offer');
+  }
+}
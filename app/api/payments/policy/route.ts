@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { lndErrorResponse } from '../../../utils/lnd';
+import { getPaymentPolicy, getSpentTodaySat } from '../../../utils/paymentPolicy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/payments/policy
+ * Current spending limits and how much of today's budget has been used
+ */
+export async function GET() {
+  const policy = getPaymentPolicy();
+
+  try {
+    const spentTodaySat = await getSpentTodaySat();
+
+    return NextResponse.json({
+      ...policy,
+      spentTodaySat,
+      remainingTodaySat: policy.dailyBudgetSat === null
+        ? null
+        : Math.max(policy.dailyBudgetSat - spentTodaySat, 0),
+    });
+  } catch (error) {
+    return lndErrorResponse(error, 'Failed to load spending limits');
+  }
+}
@@ -0,0 +1,75 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { makeInvoice } from '../../../test/fixtures';
+import { getSimulatedNode } from '../../utils/simulatedNode';
+import { POST } from './route';
+
+// flndr is only needed by the LND backend; these tests pay through the simulated node
+vi.mock('flndr', () => ({ LndClient: class {} }));
+
+function post(body: unknown) {
+  return POST(new Request('http://localhost/api/payments', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  }));
+}
+
+// Lines of the NDJSON payment stream
+async function updates(response: Response) {
+  const text = await response.text();
+  return text.trim().split('\n').map(line => JSON.parse(line));
+}
+
+describe('POST /api/payments with an invoice', () => {
+  beforeEach(() => {
+    vi.stubEnv('LIGHTNING_BACKEND', 'simulated');
+    vi.stubEnv('SIMULATED_ATTEMPT_DELAY_MS', '0');
+    vi.stubEnv('SIMULATED_HISTORY_SIZE', '0');
+    vi.stubEnv('PAYMENT_MAX_AMOUNT_SAT', '100000');
+    vi.stubEnv('PAYMENT_CONFIRM_ABOVE_SAT', '10000');
+    getSimulatedNode().reset();
+  });
+
+  it('pays an invoice without an amount with the amt_msat given', async () => {
+    const response = await post({ payment_request: makeInvoice(), amt_msat: '5000500' });
+
+    expect(response.status).toBe(200);
+    const lines = await updates(response);
+    expect(lines.at(-1).result).toMatchObject({ status: 'SUCCEEDED', value_msat: '5000500' });
+  });
+
+  it('refuses amt_msat for an invoice that already has an amount', async () => {
+    const response = await post({ payment_request: makeInvoice({ amount_msat: '21000' }), amt_msat: '1500' });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'This invoice already specifies an amount' });
+  });
+
+  it('asks for an amount when the invoice has none', async () => {
+    const response = await post({ payment_request: makeInvoice() });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ code: 'AMOUNT_REQUIRED' });
+  });
+
+  it.each(['-1', '1.5', 'lots'])('rejects amt_msat %s', async amtMsat => {
+    const response = await post({ payment_request: makeInvoice(), amt_msat: amtMsat });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({ error: 'amt_msat must be a whole number of millisatoshis' });
+  });
+
+  it('checks the entered amount against the spending limits', async () => {
+    const tooLarge = await post({ payment_request: makeInvoice(), amt_msat: '100000001' });
+    expect(tooLarge.status).toBe(403);
+    expect(await tooLarge.json()).toMatchObject({ code: 'MAX_AMOUNT_EXCEEDED' });
+
+    // 10,000.001 sats rounds up to 10,001 and needs confirming
+    const unconfirmed = await post({ payment_request: makeInvoice(), amt_msat: '10000001' });
+    expect(unconfirmed.status).toBe(409);
+    expect(await unconfirmed.json()).toMatchObject({ code: 'CONFIRMATION_REQUIRED' });
+
+    const confirmed = await post({ payment_request: makeInvoice(), amt_msat: '10000001', confirmed: true });
+    expect((await updates(confirmed)).at(-1).result).toMatchObject({ status: 'SUCCEEDED', value_msat: '10000001' });
+  });
+});
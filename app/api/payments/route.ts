@@ -0,0 +1,197 @@
+import { NextResponse } from 'next/server';
+import { badRequest, lndErrorResponse } from '../../utils/lnd';
+import { isNodePubkey } from '../../utils/channels';
+import { isClnConfigured, offersUnavailable, requestCln } from '../../utils/cln';
+import { clnBackend } from '../../utils/clnBackend';
+import { recordFiatValue } from '../../utils/fiatValues';
+import { MAX_KEYSEND_MESSAGE_BYTES, messageByteLength } from '../../utils/keysend';
+import { getBackend, LightningBackend, PaymentTarget } from '../../utils/lightningBackend';
+import { enforcePaymentPolicy, getPaymentPolicy, PaymentPolicyError } from '../../utils/paymentPolicy';
+
+export const dynamic = 'force-dynamic';
+
+// Amount checked against the spending policy, and what to pay through which node
+interface PreparedPayment {
+  amountSat: number;
+  target: PaymentTarget;
+  backend: LightningBackend;
+}
+
+// Round msat amounts up so the limits are never undercut by a fraction of a sat
+const toPolicySats = (msat: number) => Math.ceil(msat / 1000);
+
+/**
+ * Validate a BOLT11 payment; invoices without an amount need an explicit amt_msat
+ */
+async function prepareInvoicePayment(body: Record<string, unknown>): Promise<PreparedPayment | NextResponse> {
+  if (typeof body.payment_request !== 'string' || body.payment_request.trim() === '') {
+    return badRequest('A payment_request is required');
+  }
+
+  const paymentRequest = body.payment_request.trim();
+  const amtMsat = body.amt_msat !== undefined ? String(body.amt_msat) : undefined;
+  const backend = getBackend();
+  const decoded = await backend.decodePaymentRequest(paymentRequest);
+  const invoiceMsat = Number(decoded.num_msat || 0) || Number(decoded.num_satoshis || 0) * 1000;
+
+  if (invoiceMsat > 0 && amtMsat !== undefined) {
+    return badRequest('This invoice already specifies an amount');
+  }
+
+  return {
+    amountSat: toPolicySats(invoiceMsat || Number(amtMsat ?? 0)),
+    target: { payment_request: paymentRequest, amt_msat: amtMsat },
+    backend,
+  };
+}
+
+// Validate a keysend payment to { dest, amt_msat, message? }
+function prepareKeysend(body: Record<string, unknown>): PreparedPayment | NextResponse {
+  const dest = String(body.dest);
+  const message = typeof body.message === 'string' ? body.message : '';
+
+  if (!isNodePubkey(dest)) {
+    return badRequest('dest must be a 33-byte hex node public key');
+  }
+  if (body.amt_msat === undefined || !/^[1-9]\d*$/.test(String(body.amt_msat))) {
+    return badRequest('Keysend payments need a positive amt_msat');
+  }
+  if (messageByteLength(message) > MAX_KEYSEND_MESSAGE_BYTES) {
+    return badRequest(`message must be at most ${MAX_KEYSEND_MESSAGE_BYTES} bytes`);
+  }
+
+  return {
+    amountSat: toPolicySats(Number(body.amt_msat)),
+    target: { keysend: { dest, amt_msat: String(body.amt_msat), message: message || undefined } },
+    backend: getBackend(),
+  };
+}
+
+/**
+ * Validate a BOLT12 invoice fetched from an offer; it is decoded and paid by
+ * the Core Lightning node, whatever the configured backend
+ */
+async function prepareBolt12Payment(body: Record<string, unknown>): Promise<PreparedPayment | NextResponse> {
+  if (!isClnConfigured()) {
+    return offersUnavailable();
+  }
+  if (typeof body.bolt12_invoice !== 'string' || !/^lni1/i.test(body.bolt12_invoice.trim())) {
+    return badRequest('bolt12_invoice must be a BOLT12 invoice (lni1...)');
+  }
+
+  const invoice = body.bolt12_invoice.trim();
+  const decoded = await requestCln<{
+    type: string;
+    valid: boolean;
+    invoice_amount_msat: number | string;
+    invoice_payment_hash: string;
+  }>('decode', { string: invoice });
+
+  if (decoded.type !== 'bolt12 invoice' || !decoded.valid) {
+    return badRequest('Invalid BOLT12 invoice');
+  }
+
+  const amountMsat = String(decoded.invoice_amount_msat).replace(/msat$/, '');
+  return {
+    amountSat: toPolicySats(Number(amountMsat)),
+    target: { payment_request: invoice },
+    backend: clnBackend,
+  };
+}
+
+/**
+ * POST /api/payments
+ * Pay a BOLT11 invoice, or send a keysend payment to a node pubkey. Payment
+ * updates from the node are streamed back as newline-delimited JSON
+ * ({ result } per update, or { error }) so the client can show each HTLC
+ * attempt as it happens.
+ *
+ * The payment is checked against the spending policy first. Violations are
+ * returned as JSON { error, code } before any update is streamed; payments
+ * above the confirmation threshold must be resent with confirmed: true.
+ *
+ * Invoices without an amount must be paid with an explicit amt_msat.
+ * Keysend payments are sent with { dest, amt_msat, message? } instead of a
+ * payment_request, and BOLT12 invoices from /api/offers/invoice with
+ * { bolt12_invoice }.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  if (!body || typeof body !== 'object') {
+    return badRequest('A payment_request, bolt12_invoice or keysend dest is required');
+  }
+
+  if (body.amt_msat !== undefined && !/^\d+$/.test(String(body.amt_msat))) {
+    return badRequest('amt_msat must be a whole number of millisatoshis');
+  }
+
+  const policy = getPaymentPolicy();
+  let prepared: PreparedPayment;
+  let feeLimitSat: number;
+  let releaseBudget: () => void;
+
+  try {
+    const result = body.dest !== undefined
+      ? prepareKeysend(body)
+      : body.bolt12_invoice !== undefined
+        ? await prepareBolt12Payment(body)
+        : await prepareInvoicePayment(body);
+    if (result instanceof NextResponse) return result;
+
+    prepared = result;
+    ({ feeLimitSat, release: releaseBudget } = await enforcePaymentPolicy(
+      prepared.amountSat,
+      body.confirmed === true,
+      policy
+    ));
+  } catch (error) {
+    if (error instanceof PaymentPolicyError) {
+      return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+    }
+    return lndErrorResponse(error, 'Failed to check payment against spending limits');
+  }
+
+  const encoder = new TextEncoder();
+  const writeLine = (controller: ReadableStreamDefaultController, data: unknown) => {
+    controller.enqueue(encoder.encode(`${JSON.stringify(data)}\n`));
+  };
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      try {
+        const updates = prepared.backend.sendPayment(prepared.target, {
+          fee_limit_sat: feeLimitSat,
+          timeout_seconds: policy.timeoutSeconds,
+          signal: request.signal,
+        });
+
+        for await (const update of updates) {
+          if (update.status === 'SUCCEEDED') {
+            void recordFiatValue(update.payment_hash);
+          }
+          writeLine(controller, { result: update });
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          console.error('Failed to send payment:', error);
+          writeLine(controller, { error: { message: 'Failed to send payment' } });
+        }
+      } finally {
+        releaseBudget();
+        try {
+          controller.close();
+        } catch {
+          // Stream was already canceled by the client
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Cache-Control': 'no-cache, no-transform',
+    },
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { requireLnd } from '../../utils/lightningBackend';
+import { badRequest, getLndClient, lndErrorResponse } from '../../utils/lnd';
+import { parseNodeUri } from '../../utils/channels';
+
+/**
+ * POST /api/peers
+ * Connect to a peer given as { uri: "<pubkey>@<host>:<port>" }. Connecting to
+ * an already connected peer succeeds.
+ */
+export async function POST(request: Request) {
+  const unavailable = requireLnd('Channel management');
+  if (unavailable) return unavailable;
+
+  const body = await request.json().catch(() => null);
+  const node = typeof body?.uri === 'string' ? parseNodeUri(body.uri) : null;
+
+  if (!node) {
+    return badRequest('uri must look like <pubkey>@<host>:<port>');
+  }
+
+  try {
+    await getLndClient().connectPeer({ addr: node, perm: true, timeout: '30' });
+  } catch (error) {
+    if (!/already connected/i.test(error instanceof Error ? error.message : String(error))) {
+      return lndErrorResponse(error, 'Failed to connect to peer');
+    }
+  }
+
+  return NextResponse.json({ pubkey: node.pubkey, connected: true });
+}
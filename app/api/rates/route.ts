@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { getBtcRates } from '../../utils/rates';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/rates
+ * BTC exchange rates for the supported fiat currencies
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getBtcRates());
+  } catch (error) {
+    console.error('Failed to fetch exchange rates:', error);
+    return NextResponse.json({ error: 'Exchange rates are unavailable' }, { status: 502 });
+  }
+}
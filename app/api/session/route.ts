@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { isValidToken, SESSION_COOKIE, SESSION_MAX_AGE_SECONDS, sessionValue } from '../../utils/auth';
+
+export const dynamic = 'force-dynamic';
+
+const cookieOptions = {
+  httpOnly: true,
+  // Strict keeps other sites from making requests with the operator's session
+  sameSite: 'strict' as const,
+  secure: process.env.NODE_ENV === 'production',
+  path: '/',
+};
+
+/**
+ * POST /api/session
+ * Sign in with { token }, the server's WALLET_ACCESS_TOKEN, and receive the
+ * session cookie that the middleware checks
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+
+  if (typeof body?.token !== 'string' || body.token.trim() === '') {
+    return NextResponse.json({ error: 'A token is required' }, { status: 400 });
+  }
+
+  const token = body.token.trim();
+  if (!(await isValidToken(token))) {
+    return NextResponse.json({ error: 'Invalid access token' }, { status: 401 });
+  }
+
+  const response = NextResponse.json({ authenticated: true });
+  response.cookies.set(SESSION_COOKIE, await sessionValue(token), {
+    ...cookieOptions,
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  });
+  return response;
+}
+
+/**
+ * DELETE /api/session
+ * Sign out by clearing the session cookie
+ */
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.set(SESSION_COOKIE, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { requireSimulated } from '../../../utils/lightningBackend';
+import { Bolt11Error } from '../../../utils/bolt11';
+import { badRequest } from '../../../utils/lnd';
+import { getSimulatedNode, SimulatedNodeError } from '../../../utils/simulatedNode';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/simulator/receive
+ * Pay one of the wallet's invoices as if from another node, with
+ * { payment_request, amt_msat? }, or send it a keysend payment with
+ * { amt_msat, message? }. Returns the settled invoice.
+ */
+export async function POST(request: Request) {
+  const unavailable = requireSimulated();
+  if (unavailable) return unavailable;
+
+  const body = await request.json().catch(() => null);
+
+  if (!body || (typeof body.payment_request !== 'string' && body.amt_msat === undefined)) {
+    return badRequest('A payment_request or amt_msat is required');
+  }
+  if (body.amt_msat !== undefined && !/^[1-9]\d*$/.test(String(body.amt_msat))) {
+    return badRequest('amt_msat must be a positive whole number of millisatoshis');
+  }
+
+  try {
+    const invoice = getSimulatedNode().receivePayment({
+      payment_request: typeof body.payment_request === 'string' ? body.payment_request.trim() : undefined,
+      amt_msat: body.amt_msat !== undefined ? String(body.amt_msat) : undefined,
+      message: typeof body.message === 'string' ? body.message : undefined,
+    });
+    return NextResponse.json(invoice);
+  } catch (error) {
+    if (error instanceof SimulatedNodeError || error instanceof Bolt11Error) {
+      return badRequest(error.message);
+    }
+    throw error;
+  }
+}
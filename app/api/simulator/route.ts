@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import { requireSimulated } from '../../utils/lightningBackend';
+import { badRequest } from '../../utils/lnd';
+import { getSimulatedNode, parsePaymentScripts, SimulatedNodeError } from '../../utils/simulatedNode';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/simulator
+ * The simulated node's pubkey and the payment scripts still to be applied
+ */
+export async function GET() {
+  const unavailable = requireSimulated();
+  if (unavailable) return unavailable;
+
+  const node = getSimulatedNode();
+  return NextResponse.json({ pubkey: node.pubkey, scripts: node.getScripts() });
+}
+
+/**
+ * PUT /api/simulator
+ * Replace the payment scripts with { scripts: PaymentScript[] }, e.g.
+ * [{ failed_attempts: 2 }, { amount_sat: 666, failure_reason: "FAILURE_REASON_NO_ROUTE" }]
+ */
+export async function PUT(request: Request) {
+  const unavailable = requireSimulated();
+  if (unavailable) return unavailable;
+
+  const body = await request.json().catch(() => null);
+
+  try {
+    const scripts = parsePaymentScripts(body?.scripts);
+    getSimulatedNode().setScripts(scripts);
+    return NextResponse.json({ scripts });
+  } catch (error) {
+    if (error instanceof SimulatedNodeError) return badRequest(error.message);
+    throw error;
+  }
+}
+
+/**
+ * DELETE /api/simulator
+ * Start over with fresh channels, seeded history and no scripts
+ */
+export async function DELETE() {
+  const unavailable = requireSimulated();
+  if (unavailable) return unavailable;
+
+  getSimulatedNode().reset();
+  return NextResponse.json({ reset: true });
+}
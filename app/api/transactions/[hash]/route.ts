@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getBackend } from '../../../utils/lightningBackend';
+import { badRequest, toHexHash } from '../../../utils/lnd';
+import type { TransactionDetail } from '../../../utils/payments';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/transactions/:hash
+ * Full details of a transaction by payment hash: the invoice for received
+ * payments, or the payment with its HTLC routes for sent ones
+ */
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  const paymentHash = toHexHash(decodeURIComponent((await params).hash));
+  if (!/^[0-9a-f]{64}$/.test(paymentHash)) {
+    return badRequest('A 32-byte payment hash is required');
+  }
+
+  const backend = getBackend();
+
+  try {
+    const invoice = await backend.lookupInvoice(paymentHash);
+    if (invoice) {
+      return NextResponse.json({ type: 'received', invoice } satisfies TransactionDetail);
+    }
+  } catch (error) {
+    console.error('Failed to look up invoice:', error);
+  }
+
+  // Not one of our invoices; look for an outgoing payment instead
+  try {
+    const payment = await backend.lookupPayment(paymentHash);
+    if (payment) {
+      return NextResponse.json({ type: 'sent', payment } satisfies TransactionDetail);
+    }
+  } catch (error) {
+    console.error('Failed to look up payment:', error);
+  }
+
+  return NextResponse.json({ error: 'Transaction not found' }, { status: 404 });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { describeVoucher, getPublicOrigin, revokeVoucher } from '../../../utils/lnurlHost';
+
+/**
+ * DELETE /api/vouchers/:id
+ * Revoke a voucher that hasn't been redeemed yet
+ */
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const voucher = revokeVoucher((await params).id);
+
+  if (!voucher) {
+    return NextResponse.json({ error: 'Voucher not found' }, { status: 404 });
+  }
+
+  return NextResponse.json(describeVoucher(voucher, getPublicOrigin(request)));
+}
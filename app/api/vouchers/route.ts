@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { badRequest } from '../../utils/lnd';
+import { createVoucher, describeVoucher, getPublicOrigin, listVouchers } from '../../utils/lnurlHost';
+import { getPaymentPolicy } from '../../utils/paymentPolicy';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/vouchers
+ * List LNURL-withdraw vouchers created by this wallet
+ */
+export async function GET(request: Request) {
+  const origin = getPublicOrigin(request);
+  return NextResponse.json(listVouchers().map(voucher => describeVoucher(voucher, origin)));
+}
+
+/**
+ * POST /api/vouchers
+ * Create a single-use voucher for { amount_sat, description, expires_in }.
+ * The amount must fit the per-payment limit; the rest of the spending policy
+ * is checked when the voucher is redeemed.
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const amountSat = Number(body?.amount_sat);
+  const expiresIn = body?.expires_in === undefined ? 86400 : Number(body.expires_in);
+
+  if (!Number.isInteger(amountSat) || amountSat <= 0) {
+    return badRequest('amount_sat must be a positive whole number of sats');
+  }
+  if (!Number.isInteger(expiresIn) || expiresIn <= 0) {
+    return badRequest('expires_in must be a positive number of seconds');
+  }
+
+  const { maxAmountSat } = getPaymentPolicy();
+  if (maxAmountSat !== null && amountSat > maxAmountSat) {
+    return badRequest(`Vouchers cannot exceed the per-payment limit of ${maxAmountSat.toLocaleString()} sats`);
+  }
+
+  const description = typeof body.description === 'string' && body.description.trim() !== ''
+    ? body.description.trim()
+    : 'Lightning voucher';
+
+  const voucher = createVoucher(amountSat, description, expiresIn);
+  return NextResponse.json(describeVoucher(voucher, getPublicOrigin(request)), { status: 201 });
+}
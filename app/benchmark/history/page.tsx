@@ -0,0 +1,15 @@
+import { notFound } from "next/navigation";
+import HistoryBenchmark from "../../components/HistoryBenchmark";
+
+// Development-only scroll benchmark for the history table, using fixture data
+export default function HistoryBenchmarkPage() {
+  if (process.env.NODE_ENV === "production") {
+    notFound();
+  }
+
+  return (
+    <main className="p-6 md:p-12">
+      <HistoryBenchmark />
+    </main>
+  );
+}
@@ -0,0 +1,308 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import walletApi from '../utils/walletApi';
+import {
+  ChannelsOverview,
+  isNodePubkey,
+  MIN_CHANNEL_SIZE_SAT,
+  parseNodeUri,
+  PendingChannelStatus,
+} from '../utils/channels';
+import type { ChannelLiquidity } from '../utils/liquidity';
+import { useLiquidity } from './LiquidityProvider';
+
+// Pending opens and closes move with each block; poll for their progress
+const REFRESH_INTERVAL_MS = 30000;
+
+const PENDING_LABELS: Record<PendingChannelStatus, { label: string; style: string }> = {
+  opening: { label: 'opening', style: 'bg-blue-100 text-blue-800' },
+  closing: { label: 'closing', style: 'bg-yellow-100 text-yellow-800' },
+  force_closing: { label: 'force closing', style: 'bg-red-100 text-red-800' },
+};
+
+const shorten = (value: string) => (value.length > 20 ? `${value.slice(0, 10)}…${value.slice(-6)}` : value);
+
+/**
+ * Operator tools for channels: connect to a peer and open a channel, follow
+ * pending opens and closes, and close open channels cooperatively or by force.
+ * Also shows the forwarding fee policy set on each channel.
+ */
+const ChannelManager: React.FC = () => {
+  const { liquidity, refresh: refreshLiquidity } = useLiquidity();
+  const [overview, setOverview] = useState<ChannelsOverview | null>(null);
+  const [peer, setPeer] = useState<string>('');
+  const [amount, setAmount] = useState<string>('');
+  const [feeRate, setFeeRate] = useState<string>('');
+  const [privateChannel, setPrivateChannel] = useState<boolean>(false);
+  const [opening, setOpening] = useState<boolean>(false);
+  const [closingPoint, setClosingPoint] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadChannels = useCallback(async () => {
+    try {
+      setOverview(await walletApi.listChannels());
+    } catch (err) {
+      console.error('Error loading channels:', err);
+      setError('Failed to load channels.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadChannels();
+    const timer = setInterval(loadChannels, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadChannels]);
+
+  const refreshAll = () => {
+    loadChannels();
+    refreshLiquidity();
+  };
+
+  const peerTarget = peer.trim();
+  const peerUri = parseNodeUri(peerTarget);
+  const amountSat = Number(amount);
+  const feeRateValue = feeRate.trim() === '' ? undefined : Number(feeRate);
+
+  const formError = (() => {
+    if (peerTarget && !peerUri && !isNodePubkey(peerTarget)) {
+      return 'Enter a node URI (pubkey@host:port) or the pubkey of a connected peer';
+    }
+    if (amount && (!Number.isInteger(amountSat) || amountSat < MIN_CHANNEL_SIZE_SAT)) {
+      return `Channels must be at least ${MIN_CHANNEL_SIZE_SAT.toLocaleString()} sats`;
+    }
+    if (feeRateValue !== undefined && (!Number.isInteger(feeRateValue) || feeRateValue <= 0)) {
+      return 'Fee rate must be a whole number of sat/vB';
+    }
+    return null;
+  })();
+
+  // Connect first when given a URI, then open the channel
+  const openChannel = async () => {
+    if (formError || !peerTarget || !amount) return;
+
+    try {
+      setOpening(true);
+      setError(null);
+      setMessage(null);
+
+      const nodePubkey = peerUri ? (await walletApi.connectPeer(peerTarget)).pubkey : peerTarget.toLowerCase();
+      const { channel_point } = await walletApi.openChannel({
+        node_pubkey: nodePubkey,
+        local_funding_amount: amountSat,
+        sat_per_vbyte: feeRateValue,
+        private: privateChannel,
+      });
+
+      setMessage(`Funding transaction broadcast: ${shorten(channel_point)}. The channel opens once it confirms.`);
+      setPeer('');
+      setAmount('');
+      setFeeRate('');
+      refreshAll();
+    } catch (err) {
+      console.error('Error opening channel:', err);
+      setError(err instanceof Error ? err.message : 'Failed to open channel.');
+    } finally {
+      setOpening(false);
+    }
+  };
+
+  const closeChannel = async (channel: ChannelLiquidity, force: boolean) => {
+    const name = channel.peer_alias || shorten(channel.remote_pubkey);
+    const warning = force
+      ? `Force close the channel with ${name}? Your ${channel.local_balance.toLocaleString()} sats stay locked on-chain until the channel's timelock expires.`
+      : `Close the channel with ${name}? Your balance returns on-chain once the closing transaction confirms.`;
+    if (!window.confirm(warning)) return;
+
+    try {
+      setClosingPoint(channel.channel_point);
+      setError(null);
+      setMessage(null);
+      const { closing_txid } = await walletApi.closeChannel(channel.channel_point, { force });
+      setMessage(`Closing transaction broadcast: ${shorten(closing_txid)}`);
+      refreshAll();
+    } catch (err) {
+      console.error('Error closing channel:', err);
+      setError(err instanceof Error ? err.message : 'Failed to close channel.');
+    } finally {
+      setClosingPoint(null);
+    }
+  };
+
+  const feesByPoint = new Map((overview?.fees ?? []).map(fee => [fee.channel_point, fee]));
+  const channels = liquidity?.channels ?? [];
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-slate-800">Channels</h2>
+        <button onClick={refreshAll} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+          Refresh
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {/* Open a channel */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-slate-700">Open Channel</h3>
+          <div>
+            <label htmlFor="channelPeer" className="block text-xs text-slate-500 mb-1">Peer</label>
+            <input
+              id="channelPeer"
+              type="text"
+              value={peer}
+              onChange={e => setPeer(e.target.value)}
+              placeholder="pubkey@host:9735"
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <label htmlFor="channelAmount" className="block text-xs text-slate-500 mb-1">Amount (sats)</label>
+              <input
+                id="channelAmount"
+                type="number"
+                min={MIN_CHANNEL_SIZE_SAT}
+                value={amount}
+                onChange={e => setAmount(e.target.value)}
+                placeholder={String(MIN_CHANNEL_SIZE_SAT * 5)}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <div className="w-32">
+              <label htmlFor="channelFeeRate" className="block text-xs text-slate-500 mb-1">Fee rate (sat/vB)</label>
+              <input
+                id="channelFeeRate"
+                type="number"
+                min="1"
+                value={feeRate}
+                onChange={e => setFeeRate(e.target.value)}
+                placeholder="auto"
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          </div>
+          <label className="flex items-center text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={privateChannel}
+              onChange={e => setPrivateChannel(e.target.checked)}
+              className="mr-2"
+            />
+            Private (not announced to the network)
+          </label>
+          {liquidity && (
+            <p className="text-xs text-slate-500">
+              {liquidity.onchain.confirmed.toLocaleString()} sats available on-chain
+            </p>
+          )}
+          {formError && <p className="text-xs text-red-600">{formError}</p>}
+          <button
+            onClick={openChannel}
+            disabled={opening || !peerTarget || !amount || formError !== null}
+            className="w-full py-2 px-4 rounded-md text-white font-medium bg-blue-600 hover:bg-blue-700 disabled:bg-slate-400 disabled:cursor-not-allowed"
+          >
+            {opening ? 'Opening...' : 'Open Channel'}
+          </button>
+        </div>
+
+        {/* Pending opens and closes */}
+        <div>
+          <h3 className="text-sm font-semibold text-slate-700 mb-3">Pending</h3>
+          {!overview ? (
+            <p className="text-sm text-slate-500">Loading...</p>
+          ) : overview.pending.length === 0 ? (
+            <p className="text-sm text-slate-500">No channels opening or closing.</p>
+          ) : (
+            <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md">
+              {overview.pending.map(channel => (
+                <li key={`${channel.status}-${channel.channel_point}`} className="px-3 py-2 text-sm">
+                  <div className="flex justify-between items-center">
+                    <span className="font-mono text-xs text-slate-800">{shorten(channel.remote_pubkey)}</span>
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${PENDING_LABELS[channel.status].style}`}>
+                      {PENDING_LABELS[channel.status].label}
+                    </span>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {channel.capacity.toLocaleString()} sats capacity · {channel.local_balance.toLocaleString()} sats local
+                  </div>
+                  {channel.closing_txid && (
+                    <div className="text-xs text-slate-500 font-mono">closing tx {shorten(channel.closing_txid)}</div>
+                  )}
+                  {channel.blocks_til_maturity !== undefined && channel.blocks_til_maturity > 0 && (
+                    <div className="text-xs text-slate-500">
+                      {(channel.limbo_balance ?? 0).toLocaleString()} sats unlock in {channel.blocks_til_maturity} blocks
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Open channels with fee policy and close actions */}
+      {channels.length > 0 && (
+        <div className="mt-6">
+          <h3 className="text-sm font-semibold text-slate-700 mb-3">Open Channels</h3>
+          <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md max-h-96 overflow-y-auto">
+            {channels.map(channel => {
+              const fee = feesByPoint.get(channel.channel_point);
+              const busy = closingPoint === channel.channel_point;
+
+              return (
+                <li key={channel.channel_point} className="px-3 py-2 text-sm flex justify-between items-center">
+                  <div className="min-w-0">
+                    <div className="font-medium text-slate-800">
+                      {channel.peer_alias || shorten(channel.remote_pubkey)}
+                    </div>
+                    <div className="text-xs text-slate-500">
+                      {channel.capacity.toLocaleString()} sats · {channel.active ? 'active' : 'inactive'}
+                    </div>
+                    {fee && (
+                      <div className="text-xs text-slate-500">
+                        Fee policy: {fee.base_fee_msat.toLocaleString()} msat base + {fee.fee_per_mil.toLocaleString()} ppm
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex space-x-3 text-xs font-medium shrink-0">
+                    <button
+                      onClick={() => closeChannel(channel, false)}
+                      disabled={busy || !channel.active}
+                      title={channel.active ? undefined : 'The peer must be online to close cooperatively'}
+                      className="text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+                    >
+                      Close
+                    </button>
+                    <button
+                      onClick={() => closeChannel(channel, true)}
+                      disabled={busy}
+                      className="text-red-600 hover:text-red-800 disabled:text-slate-400"
+                    >
+                      Force close
+                    </button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
+
+      {message && (
+        <div className="mt-4 p-3 bg-green-50 text-green-700 rounded-md text-sm font-medium border border-green-200 break-all">
+          {message}
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChannelManager;
@@ -0,0 +1,30 @@
+"use client";
+
+import React from 'react';
+import { FiatCurrency, SUPPORTED_CURRENCIES } from '../utils/amounts';
+import { useFiat } from './FiatProvider';
+
+// Lets the user pick the fiat currency amounts are shown in
+const CurrencySelector: React.FC = () => {
+  const { available, currency, setCurrency } = useFiat();
+
+  if (!available) return null;
+
+  return (
+    <label className="flex items-center justify-end space-x-2 text-sm text-slate-600">
+      <span>Display currency</span>
+      <select
+        value={currency ?? 'none'}
+        onChange={(e) => setCurrency(e.target.value === 'none' ? null : e.target.value as FiatCurrency)}
+        className="px-2 py-1 border border-slate-300 rounded-md bg-white text-slate-800 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+      >
+        <option value="none">Sats only</option>
+        {SUPPORTED_CURRENCIES.map(code => (
+          <option key={code} value={code}>{code}</option>
+        ))}
+      </select>
+    </label>
+  );
+};
+
+export default CurrencySelector;
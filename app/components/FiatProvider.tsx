@@ -0,0 +1,95 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { FiatCurrency, FiatRates, formatFiat, satsToFiat, SUPPORTED_CURRENCIES } from '../utils/amounts';
+import walletApi from '../utils/walletApi';
+
+// Refresh rates every five minutes; the server caches them for a minute
+const RATES_REFRESH_MS = 5 * 60 * 1000;
+const CURRENCY_STORAGE_KEY = 'wallet:currency';
+
+interface FiatContextValue {
+  // Whether the server has a rate provider; without one amounts are shown in sats only
+  available: boolean;
+  // Chosen display currency, or null to show sats only
+  currency: FiatCurrency | null;
+  setCurrency: (currency: FiatCurrency | null) => void;
+  // Fiat per BTC in the chosen currency, once loaded
+  rate: number | null;
+  // Format a sats amount in the chosen currency, or null when unavailable
+  formatSats: (sats: number) => string | null;
+}
+
+const FiatContext = createContext<FiatContextValue>({
+  available: false,
+  currency: null,
+  setCurrency: () => {},
+  rate: null,
+  formatSats: () => null,
+});
+
+export function useFiat(): FiatContextValue {
+  return useContext(FiatContext);
+}
+
+/**
+ * Loads exchange rates and holds the user's display currency
+ * Fiat amounts are only shown when the server has a rate provider; USD is
+ * shown until the user picks a currency.
+ */
+const FiatProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // Undefined until the user has picked a currency
+  const [choice, setChoice] = useState<FiatCurrency | null | undefined>(undefined);
+  const [rates, setRates] = useState<FiatRates | null>(null);
+
+  useEffect(() => {
+    const stored = window.localStorage.getItem(CURRENCY_STORAGE_KEY);
+    if (stored === 'none') {
+      setChoice(null);
+    } else if (SUPPORTED_CURRENCIES.includes(stored as FiatCurrency)) {
+      setChoice(stored as FiatCurrency);
+    }
+  }, []);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    const loadRates = () => {
+      walletApi.getRates()
+        .then(next => {
+          setRates(next);
+          // Nothing to refresh without a provider
+          if (!next.provider && timer) clearInterval(timer);
+        })
+        .catch(err => console.error('Error loading exchange rates:', err));
+    };
+
+    loadRates();
+    timer = setInterval(loadRates, RATES_REFRESH_MS);
+    return () => {
+      if (timer) clearInterval(timer);
+    };
+  }, []);
+
+  const setCurrency = useCallback((next: FiatCurrency | null) => {
+    setChoice(next);
+    window.localStorage.setItem(CURRENCY_STORAGE_KEY, next ?? 'none');
+  }, []);
+
+  const available = Boolean(rates?.provider);
+  const currency = available ? (choice === undefined ? 'USD' : choice) : null;
+  const rate = (currency && rates?.rates[currency]) || null;
+
+  const formatSats = useCallback((sats: number) => {
+    return currency && rate ? formatFiat(satsToFiat(sats, rate), currency) : null;
+  }, [currency, rate]);
+
+  const value = useMemo(
+    () => ({ available, currency, setCurrency, rate, formatSats }),
+    [available, currency, setCurrency, rate, formatSats]
+  );
+
+  return <FiatContext.Provider value={value}>{children}</FiatContext.Provider>;
+};
+
+export default FiatProvider;
@@ -0,0 +1,117 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { createFakeTransactions } from '../utils/fakeTransactions';
+import TransactionTable from './TransactionTable';
+
+// Total rows in the fixture, and how long one scripted pass through them takes
+const ROW_COUNT = 50000;
+const SCROLL_DURATION_MS = 10000;
+
+// Frames slower than this are noticeable as jank
+const SLOW_FRAME_MS = 50;
+
+interface BenchmarkResult {
+  frames: number;
+  averageMs: number;
+  p95Ms: number;
+  slowFrames: number;
+}
+
+function summarize(frameTimes: number[]): BenchmarkResult {
+  const sorted = [...frameTimes].sort((a, b) => a - b);
+  const total = frameTimes.reduce((sum, time) => sum + time, 0);
+  return {
+    frames: frameTimes.length,
+    averageMs: frameTimes.length ? total / frameTimes.length : 0,
+    p95Ms: sorted[Math.floor(sorted.length * 0.95)] ?? 0,
+    slowFrames: frameTimes.filter(time => time > SLOW_FRAME_MS).length,
+  };
+}
+
+/**
+ * Scroll benchmark for the history table
+ * Renders a 50k row fixture and scrolls from top to bottom while recording
+ * frame times, so virtualization regressions show up as numbers.
+ */
+const HistoryBenchmark: React.FC = () => {
+  const transactions = useMemo(() => createFakeTransactions(ROW_COUNT), []);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [renderMs, setRenderMs] = useState<number | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const [result, setResult] = useState<BenchmarkResult | null>(null);
+
+  // Time from the first render to the first painted frame
+  useEffect(() => {
+    const startedAt = performance.now();
+    requestAnimationFrame(() => setRenderMs(performance.now() - startedAt));
+  }, []);
+
+  const run = useCallback(() => {
+    const container = scrollRef.current;
+    if (!container || running) return;
+
+    setRunning(true);
+    setResult(null);
+    container.scrollTop = 0;
+
+    const frameTimes: number[] = [];
+    const distance = container.scrollHeight - container.clientHeight;
+    const startedAt = performance.now();
+    let previous = startedAt;
+
+    const step = (now: number) => {
+      frameTimes.push(now - previous);
+      previous = now;
+
+      const progress = Math.min((now - startedAt) / SCROLL_DURATION_MS, 1);
+      container.scrollTop = distance * progress;
+
+      if (progress < 1) {
+        requestAnimationFrame(step);
+      } else {
+        setResult(summarize(frameTimes.slice(1)));
+        setRunning(false);
+      }
+    };
+    requestAnimationFrame(step);
+  }, [running]);
+
+  return (
+    <div className="container mx-auto p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">History Table Benchmark</h1>
+        <button
+          onClick={run}
+          disabled={running}
+          className="px-4 py-2 rounded-md bg-blue-600 hover:bg-blue-700 disabled:bg-gray-400 text-white transition"
+        >
+          {running ? 'Scrolling…' : 'Run scroll benchmark'}
+        </button>
+      </div>
+
+      <div className="text-sm text-gray-700 space-y-1">
+        <p>{ROW_COUNT.toLocaleString()} fixture rows, scrolled top to bottom in {SCROLL_DURATION_MS / 1000}s.</p>
+        {renderMs !== null && <p>First paint: {renderMs.toFixed(1)} ms</p>}
+        {result && (
+          <p>
+            {result.frames} frames · average {result.averageMs.toFixed(1)} ms · p95 {result.p95Ms.toFixed(1)} ms ·{' '}
+            {result.slowFrames} frames over {SLOW_FRAME_MS} ms
+          </p>
+        )}
+      </div>
+
+      <div className="bg-white shadow-md rounded-lg overflow-hidden">
+        <TransactionTable
+          transactions={transactions}
+          loading={false}
+          hasMore={false}
+          onLoadMore={() => undefined}
+          scrollRef={scrollRef}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default HistoryBenchmark;
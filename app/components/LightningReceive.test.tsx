@@ -0,0 +1,123 @@
+/** @vitest-environment jsdom */
+
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import eventBus from '../utils/eventBus';
+import { ApiHandler, jsonResponse, mockApi, notFound } from '../../test/api';
+import { installEventSource, latestEventSource } from '../../test/eventSource';
+import { makeInvoice } from '../../test/fixtures';
+import LightningReceive from './LightningReceive';
+
+const HASH = 'ef'.repeat(32);
+const EVENTS_URL = `/api/invoices/${HASH}/events`;
+
+function walletWith(invoice: string, lookup: ApiHandler = notFound): ApiHandler {
+  return request => {
+    if (request.method === 'POST' && request.path === '/api/invoices') {
+      return jsonResponse({ r_hash: HASH, payment_request: invoice });
+    }
+    if (request.path === `/api/invoices/${HASH}`) return lookup(request);
+    return notFound(request);
+  };
+}
+
+async function createInvoice(amount = '250', memo = 'Tip') {
+  const user = userEvent.setup();
+  await user.clear(screen.getByLabelText('Amount (sats)'));
+  await user.type(screen.getByLabelText('Amount (sats)'), amount);
+  await user.type(screen.getByLabelText(/^Memo/), memo);
+  await user.click(screen.getByRole('button', { name: 'Create Invoice' }));
+  await screen.findByText(/Waiting for payment/);
+  return user;
+}
+
+describe('LightningReceive', () => {
+  beforeEach(() => {
+    installEventSource();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    eventBus.clear();
+  });
+
+  it('creates an invoice for the entered amount and follows it', async () => {
+    const created = vi.fn();
+    eventBus.on('invoice:created', created);
+    const invoice = makeInvoice({ amount_msat: '250000', description: 'Tip' });
+    const requests = mockApi(walletWith(invoice));
+    render(<LightningReceive />);
+
+    await createInvoice();
+
+    expect(requests[0].body).toEqual({ value_msat: '250000', memo: 'Tip', expiry: '3600' });
+    expect(screen.getByText(invoice)).toBeTruthy();
+    expect(screen.getByText('250')).toBeTruthy();
+    expect(created).toHaveBeenCalledWith(expect.objectContaining({ payment_hash: HASH, settled: false }));
+    expect(latestEventSource(EVENTS_URL)).toBeDefined();
+  });
+
+  it('copies the invoice to the clipboard', async () => {
+    const invoice = makeInvoice({ amount_msat: '250000' });
+    mockApi(walletWith(invoice));
+    render(<LightningReceive />);
+
+    const user = await createInvoice();
+    await user.click(screen.getByRole('button', { name: 'Copy to clipboard' }));
+
+    expect(await navigator.clipboard.readText()).toBe(invoice);
+    expect(await screen.findByText('Copied!')).toBeTruthy();
+  });
+
+  it('checks the status by hand while the event stream is reconnecting', async () => {
+    let settled = false;
+    mockApi(walletWith(makeInvoice({ amount_msat: '250000' }), () => jsonResponse({ settled, state: settled ? 'SETTLED' : 'OPEN' })));
+    render(<LightningReceive />);
+
+    const user = await createInvoice();
+    act(() => latestEventSource(EVENTS_URL)?.fail());
+
+    await user.click(await screen.findByRole('button', { name: 'Check Payment' }));
+    expect(await screen.findByText('Payment not detected yet. Please try again in a moment.')).toBeTruthy();
+
+    settled = true;
+    await user.click(screen.getByRole('button', { name: 'Check Payment' }));
+    expect(await screen.findByText('Payment received!')).toBeTruthy();
+  });
+
+  it('offers to check by hand once live updates have stopped', async () => {
+    mockApi(walletWith(makeInvoice({ amount_msat: '250000' }), () => jsonResponse({ settled: true, state: 'SETTLED' })));
+    render(<LightningReceive />);
+
+    const user = await createInvoice();
+    act(() => {
+      const source = latestEventSource(EVENTS_URL);
+      source?.open();
+      source?.send('invoice-error', { error: 'Invoice not found' });
+    });
+
+    expect(await screen.findByText('Live updates stopped. Use Check Payment to see if it was paid.')).toBeTruthy();
+    await user.click(screen.getByRole('button', { name: 'Check Payment' }));
+    expect(await screen.findByText('Payment received!')).toBeTruthy();
+  });
+
+  it('flips to paid when the settle event arrives', async () => {
+    const settled = vi.fn();
+    eventBus.on('transaction:new', settled);
+    mockApi(walletWith(makeInvoice({ amount_msat: '250000' })));
+    render(<LightningReceive />);
+
+    await createInvoice();
+    const source = latestEventSource(EVENTS_URL);
+    act(() => {
+      source?.open();
+      source?.send('invoice', { r_hash: HASH, state: 'SETTLED', settled: true });
+    });
+
+    expect(await screen.findByText('Payment received')).toBeTruthy();
+    expect(screen.getByText('✓ Paid')).toBeTruthy();
+    expect(settled).toHaveBeenCalledTimes(1);
+    await waitFor(() => expect(source?.closed).toBe(true));
+  });
+});
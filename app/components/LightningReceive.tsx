@@ -1,9 +1,26 @@
 "use client";
 
-import React, { useState } from 'react';
-import { LndClient } from 'flndr';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import QRCode from './QRCode';
 import eventBus from '../utils/eventBus';
+import walletApi from '../utils/walletApi';
+import { useEventBus } from '../utils/useEventBus';
+import { useInvoiceEvents } from '../utils/useInvoiceEvents';
+import {
+  DEADLINE_WARNING_BLOCKS,
+  DEFAULT_EXPIRY_SECONDS,
+  EXPIRY_OPTIONS,
+  formatBlocks,
+  formatCountdown,
+  invoiceExpiry,
+} from '../utils/invoices';
+import { normalizePaymentHash } from '../utils/transactions';
+import { formatMsat, parseFiatToMsat } from '../utils/amounts';
+import { liquidityWarning } from '../utils/liquidity';
+import { useFiat } from './FiatProvider';
+import { useLiquidity } from './LiquidityProvider';
+import type { InvoiceUpdate } from '../utils/invoiceSubscription';
+import type { CreatedOffer } from '../utils/offers';
 
 // Types based on FLNDR API responses
 interface Invoice {
@@ -14,45 +31,71 @@ interface Invoice {
   expiry: string;
   memo?: string;
   settled: boolean;
+  canceled?: boolean;
+  // Hold invoices are paid into an accepted state and settled by hand
+  hold?: boolean;
+  accepted?: boolean;
+}
+
+// A BOLT12 offer as shown after creating it
+interface Offer extends CreatedOffer {
+  description: string;
+  amount_msat?: string;
 }
 
 const LightningReceive: React.FC = () => {
   const [amount, setAmount] = useState<number>(10);
+  // Amounts can also be entered in the display currency and converted at the current rate
+  const [amountUnit, setAmountUnit] = useState<'sat' | 'fiat'>('sat');
+  const [fiatAmount, setFiatAmount] = useState<string>('');
   const [memo, setMemo] = useState<string>('');
+  const [expiry, setExpiry] = useState<number>(DEFAULT_EXPIRY_SECONDS);
+  const [holdInvoice, setHoldInvoice] = useState<boolean>(false);
+  // Create a reusable BOLT12 offer instead of a single-use invoice
+  const [createAsOffer, setCreateAsOffer] = useState<boolean>(false);
+  const [offer, setOffer] = useState<Offer | null>(null);
+  const [blocksLeft, setBlocksLeft] = useState<number | null>(null);
   const [invoice, setInvoice] = useState<Invoice | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [copyMessage, setCopyMessage] = useState<boolean>(false);
   const [checkingPayment, setCheckingPayment] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Date.now());
+  const { currency, rate, formatSats } = useFiat();
 
-  // Initialize the LND client
-  const lnd = new LndClient({
-    baseUrl: process.env.NEXT_PUBLIC_LND_REST_API_URL || 'https://your-lnd-proxy:8080',
-    macaroon: process.env.NEXT_PUBLIC_LND_MACAROON || '',
-  });
+  const fiatInput = amountUnit === 'fiat' && !!currency && !!rate;
+  const valueMsat = fiatInput
+    ? parseFiatToMsat(fiatAmount, rate)
+    : amount > 0 ? String(amount * 1000) : null;
+  const { liquidity } = useLiquidity();
+  const inboundWarning = valueMsat ? liquidityWarning(Number(valueMsat) / 1000, 'receive', liquidity) : null;
 
   const createInvoice = async () => {
+    if (!valueMsat) return;
+
     try {
       setLoading(true);
       setError(null);
 
       // Create invoice with amount in satoshis
-      const newInvoice = await lnd.addInvoice({
-        value_msat: amount * 1000 + '', // Convert sats to msats and to string
+      const newInvoice = await walletApi.addInvoice({
+        value_msat: valueMsat,
         memo: memo || 'Lightning Payment',
-        expiry: '3600', // 1 hour expiry as string
+        expiry: String(expiry),
+        hold: holdInvoice || undefined,
       });
 
       // Transform the response to match our Invoice interface
       const formattedInvoice = {
         payment_request: newInvoice.payment_request,
         payment_hash: newInvoice.r_hash,
-        value_msat: (amount * 1000) + '',
+        value_msat: valueMsat,
         timestamp: Math.floor(Date.now() / 1000) + '',
-        expiry: '3600',
+        expiry: String(expiry),
         memo: memo || 'Lightning Payment',
-        settled: false
+        settled: false,
+        hold: holdInvoice,
       };
 
       setInvoice(formattedInvoice);
@@ -67,35 +110,152 @@ const LightningReceive: React.FC = () => {
     }
   };
 
+  // Offers without an amount let the payer choose how much to send
+  const createOffer = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const description = memo || 'Lightning Payment';
+      const created = await walletApi.createOffer({ description, amount_msat: valueMsat ?? undefined });
+      setOffer({ ...created, description, amount_msat: valueMsat ?? undefined });
+    } catch (err) {
+      console.error('Error creating offer:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create offer.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Hash of the invoice we've already announced as paid, so we only emit once
+  const settledHashRef = useRef<string | null>(null);
+
+  /**
+   * Mark the current invoice as paid and notify other components
+   */
+  const markSettled = useCallback((current: Invoice) => {
+    if (settledHashRef.current === current.payment_hash) return;
+    settledHashRef.current = current.payment_hash;
+
+    const settledInvoice = { ...current, settled: true };
+    setInvoice(settledInvoice);
+    eventBus.emit('transaction:new', settledInvoice);
+    setSuccessMessage('Payment received!');
+    // Automatically clear success message after 5 seconds
+    setTimeout(() => setSuccessMessage(null), 5000);
+  }, []);
+
+  const handleInvoiceUpdate = useCallback((update: InvoiceUpdate) => {
+    if (!invoice) return;
+    if (update.state === 'SETTLED') {
+      markSettled(invoice);
+    } else if (update.state === 'CANCELED') {
+      setInvoice(current => current && { ...current, canceled: true });
+    } else if (update.state === 'ACCEPTED' && !invoice.accepted) {
+      const acceptedInvoice = { ...invoice, accepted: true };
+      setInvoice(acceptedInvoice);
+      eventBus.emit('invoice:accepted', acceptedInvoice);
+    }
+  }, [invoice, markSettled]);
+
+  // Show an invoice picked from the open invoices list
+  useEventBus('invoice:selected', selected => {
+    setInvoice({ ...selected, expiry: selected.expiry ?? String(DEFAULT_EXPIRY_SECONDS) });
+    setError(null);
+  });
+
+  const expiresAt = invoice ? invoiceExpiry({ creation_date: invoice.timestamp, expiry: invoice.expiry }) : 0;
+  const held = !!invoice && !!invoice.accepted && !invoice.settled && !invoice.canceled;
+  const expired = !!invoice && !invoice.settled && !invoice.accepted && expiresAt * 1000 <= now;
+  const payable = !!invoice && !invoice.settled && !invoice.canceled && !invoice.accepted && !expired;
+
+  // Tick once a second while the invoice is payable to drive the expiry countdown
+  useEffect(() => {
+    if (!payable) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [payable]);
+
+  // Follow the invoice over Server-Sent Events and flip to paid as soon as it settles
+  const streamStatus = useInvoiceEvents(
+    payable || held ? invoice.payment_hash : null,
+    handleInvoiceUpdate
+  );
+  // Live updates aren't arriving, so a payment has to be checked for by hand
+  const needsManualCheck = payable && (streamStatus === 'reconnecting' || streamStatus === 'closed');
+
+  // While a payment is held, keep track of how long until its HTLCs time out
+  useEffect(() => {
+    if (!held) {
+      setBlocksLeft(null);
+      return;
+    }
+
+    const hash = normalizePaymentHash(invoice.payment_hash);
+    const loadDeadline = () => {
+      walletApi.listInvoices()
+        .then(invoices => {
+          const listed = invoices.find(entry => entry.payment_hash === hash);
+          setBlocksLeft(listed?.blocks_left ?? null);
+        })
+        .catch(err => console.error('Error loading hold invoice deadline:', err));
+    };
+
+    loadDeadline();
+    const timer = setInterval(loadDeadline, 60000);
+    return () => clearInterval(timer);
+  }, [held, invoice?.payment_hash]);
+
+  // Release a held payment to the wallet
+  const settleHeldInvoice = async () => {
+    if (!invoice) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      await walletApi.settleInvoice(invoice.payment_hash);
+      markSettled(invoice);
+    } catch (err) {
+      console.error('Error settling invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to settle invoice.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Refund a held payment to the payer
+  const cancelHeldInvoice = async () => {
+    if (!invoice) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      await walletApi.cancelInvoice(invoice.payment_hash);
+      setInvoice({ ...invoice, canceled: true });
+    } catch (err) {
+      console.error('Error canceling invoice:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel invoice.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Manually check the invoice status
+   * Only offered while the live event stream is reconnecting or has stopped.
+   */
   const checkInvoiceStatus = async () => {
     if (!invoice) return;
 
     try {
       setLoading(true);
       setCheckingPayment(true);
-      // Cast to string if needed by the library
-      console.log(invoice);
-      const updatedInvoice = await lnd.lookupInvoiceV2(invoice.payment_hash);
-      
-      const wasSettledBefore = invoice.settled;
-      const isSettledNow = updatedInvoice.settled;
-      
-      // Update local state
-      const updatedInvoiceState = {
-        ...invoice,
-        settled: isSettledNow
-      };
-      
-      setInvoice(updatedInvoiceState);
-      
-      // If the invoice was just paid (status changed from unsettled to settled),
-      // emit a transaction event
-      if (!wasSettledBefore && isSettledNow) {
-        eventBus.emit('transaction:new', updatedInvoiceState);
-        setSuccessMessage('Payment received!');
-        // Automatically clear success message after 5 seconds
-        setTimeout(() => setSuccessMessage(null), 5000);
-      } else if (!isSettledNow) {
+      const updatedInvoice = await walletApi.lookupInvoice(invoice.payment_hash);
+
+      if (updatedInvoice.settled) {
+        markSettled(invoice);
+      } else {
         setSuccessMessage('Payment not detected yet. Please try again in a moment.');
         setTimeout(() => setSuccessMessage(null), 5000);
       }
@@ -124,20 +284,105 @@ const LightningReceive: React.FC = () => {
     <div className="max-w-md mx-auto bg-white rounded-xl shadow-md overflow-hidden md:max-w-2xl p-6">
       <h2 className="text-2xl font-bold text-center mb-6 text-slate-800">Lightning Invoice</h2>
       
-      {!invoice ? (
+      {offer ? (
+        <div className="space-y-6">
+          <QRCode data={offer.bolt12} size={200} />
+
+          <div className="text-center">
+            {offer.amount_msat ? (
+              <>
+                <span className="text-3xl font-bold text-slate-800">{formatMsat(offer.amount_msat)}</span>
+                {formatSats(Number(offer.amount_msat) / 1000) && (
+                  <p className="text-sm text-slate-500">≈ {formatSats(Number(offer.amount_msat) / 1000)}</p>
+                )}
+              </>
+            ) : (
+              <span className="text-xl font-bold text-slate-800">Any amount</span>
+            )}
+            <p className="text-sm text-slate-600 mt-1">{offer.description}</p>
+            <p className="text-xs text-slate-500 mt-1">
+              Reusable offer: it can be paid any number of times. Payments arrive at the Core Lightning node.
+            </p>
+          </div>
+
+          <div className="bg-slate-100 p-3 rounded-md relative">
+            <div className="text-xs text-slate-600 mb-1 font-medium">Offer</div>
+            <div className="text-xs font-mono break-all pr-6 text-slate-800">{offer.bolt12}</div>
+            <div className="absolute top-3 right-3">
+              <button
+                onClick={() => copyToClipboard(offer.bolt12)}
+                className="text-blue-600 hover:text-blue-800 relative"
+                aria-label="Copy to clipboard"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" />
+                </svg>
+                {copyMessage && (
+                  <span className="absolute -top-8 -left-6 bg-black text-white text-xs py-1 px-2 rounded shadow-md whitespace-nowrap">
+                    Copied!
+                  </span>
+                )}
+              </button>
+            </div>
+          </div>
+
+          <button
+            onClick={() => setOffer(null)}
+            className="w-full py-2 px-4 border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            New Offer
+          </button>
+        </div>
+      ) : !invoice ? (
         <div className="space-y-4">
           <div>
             <label htmlFor="amount" className="block text-sm font-medium text-slate-700 mb-1">
-              Amount (sats)
+              Amount ({fiatInput ? currency : 'sats'})
             </label>
-            <input
-              type="number"
-              id="amount"
-              value={amount}
-              onChange={(e) => setAmount(parseInt(e.target.value) || 0)}
-              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-              min="1"
-            />
+            <div className="flex space-x-2">
+              {fiatInput ? (
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  id="amount"
+                  value={fiatAmount}
+                  onChange={(e) => setFiatAmount(e.target.value)}
+                  placeholder="0.00"
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                />
+              ) : (
+                <input
+                  type="number"
+                  id="amount"
+                  value={amount}
+                  onChange={(e) => setAmount(parseInt(e.target.value) || 0)}
+                  className="flex-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  min="1"
+                />
+              )}
+              {currency && rate && (
+                <select
+                  value={amountUnit}
+                  onChange={(e) => setAmountUnit(e.target.value as 'sat' | 'fiat')}
+                  aria-label="Amount unit"
+                  className="px-2 py-2 border border-slate-300 rounded-md shadow-sm text-slate-800 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                >
+                  <option value="sat">sats</option>
+                  <option value="fiat">{currency}</option>
+                </select>
+              )}
+            </div>
+            {valueMsat && (
+              <div className="text-xs text-slate-500 mt-1">
+                {fiatInput ? `≈ ${formatMsat(valueMsat)}` : formatSats(amount) && `≈ ${formatSats(amount)}`}
+              </div>
+            )}
+            {inboundWarning && (
+              <div className="text-xs text-yellow-700 mt-1">⚠ {inboundWarning}; payers may not find a route.</div>
+            )}
+            {createAsOffer && !valueMsat && (
+              <div className="text-xs text-slate-500 mt-1">No amount: the payer chooses how much to send.</div>
+            )}
           </div>
           
           <div>
@@ -152,33 +397,146 @@ const LightningReceive: React.FC = () => {
               className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
             />
           </div>
+
+          {!createAsOffer && (
+            <div>
+              <label htmlFor="expiry" className="block text-sm font-medium text-slate-700 mb-1">
+                Expires after
+              </label>
+              <select
+                id="expiry"
+                value={expiry}
+                onChange={(e) => setExpiry(Number(e.target.value))}
+                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm text-slate-800 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              >
+                {EXPIRY_OPTIONS.map(option => (
+                  <option key={option.seconds} value={option.seconds}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <label className="flex items-start space-x-2 text-sm text-slate-700">
+            <input
+              type="checkbox"
+              checked={createAsOffer}
+              onChange={(e) => setCreateAsOffer(e.target.checked)}
+              className="mt-1"
+            />
+            <span>
+              Reusable offer (BOLT12)
+              <span className="block text-xs text-slate-500">
+                A payment code that can be paid many times and doesn&apos;t expire
+              </span>
+            </span>
+          </label>
+
+          {!createAsOffer && (
+            <label className="flex items-start space-x-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={holdInvoice}
+                onChange={(e) => setHoldInvoice(e.target.checked)}
+                className="mt-1"
+              />
+              <span>
+                Hold invoice
+                <span className="block text-xs text-slate-500">
+                  The payment is held until you settle or cancel it, e.g. for escrow
+                </span>
+              </span>
+            </label>
+          )}
           
           <button
-            onClick={createInvoice}
-            disabled={loading || amount <= 0}
+            onClick={createAsOffer ? createOffer : createInvoice}
+            disabled={loading || (!valueMsat && !createAsOffer)}
             className={`w-full py-2 px-4 rounded-md text-white font-medium ${
-              loading || amount <= 0 
+              loading || (!valueMsat && !createAsOffer)
                 ? 'bg-slate-400 cursor-not-allowed' 
                 : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
             }`}
           >
-            {loading ? 'Creating...' : 'Create Invoice'}
+            {loading ? 'Creating...' : createAsOffer ? 'Create Offer' : 'Create Invoice'}
           </button>
         </div>
       ) : (
         <div className="space-y-6">
           <div className="flex justify-center">
-            <QRCode data={invoice.payment_request} size={200} />
+            {invoice.settled ? (
+              <div className="w-[200px] h-[200px] flex flex-col items-center justify-center rounded-md bg-green-50 border border-green-200 text-green-700">
+                <span className="text-5xl">✓</span>
+                <span className="mt-2 font-medium">Payment received</span>
+              </div>
+            ) : held ? (
+              <div className="w-[200px] h-[200px] flex flex-col items-center justify-center rounded-md bg-yellow-50 border border-yellow-200 text-yellow-700">
+                <span className="text-5xl">⏸</span>
+                <span className="mt-2 font-medium">Payment held</span>
+              </div>
+            ) : !payable ? (
+              <div className="w-[200px] h-[200px] flex flex-col items-center justify-center rounded-md bg-slate-100 border border-slate-200 text-slate-500">
+                <span className="text-5xl">✕</span>
+                <span className="mt-2 font-medium">{invoice.canceled && !expired ? 'Invoice canceled' : 'Invoice expired'}</span>
+              </div>
+            ) : (
+              <QRCode data={invoice.payment_request} size={200} />
+            )}
           </div>
           
           <div className="text-center">
-            <span className="text-3xl font-bold text-slate-800">{amount}</span>
+            <span className="text-3xl font-bold text-slate-800">{(Number(invoice.value_msat) / 1000).toLocaleString()}</span>
             <span className="text-xl ml-1 text-slate-800">sats</span>
+            {formatSats(Number(invoice.value_msat) / 1000) && (
+              <p className="text-sm text-slate-500">≈ {formatSats(Number(invoice.value_msat) / 1000)}</p>
+            )}
             <p className="text-sm text-slate-600 mt-1 font-medium">
-              {invoice.settled ? '✓ Paid' : 'Waiting for payment...'}
+              {invoice.settled
+                ? '✓ Paid'
+                : held
+                  ? 'Settle to receive the funds, or cancel to refund the payer'
+                  : !payable
+                  ? 'This invoice can no longer be paid'
+                  : streamStatus === 'reconnecting'
+                    ? 'Reconnecting to node...'
+                    : streamStatus === 'closed'
+                    ? 'Live updates stopped. Use Check Payment to see if it was paid.'
+                    : `Waiting for payment... expires in ${formatCountdown(expiresAt - now / 1000)}`}
             </p>
           </div>
           
+          {held && (
+            <div className="space-y-3">
+              {blocksLeft !== null && (
+                <div className={`p-3 rounded-md text-sm font-medium border ${
+                  blocksLeft <= DEADLINE_WARNING_BLOCKS
+                    ? 'bg-red-50 text-red-700 border-red-200'
+                    : 'bg-slate-50 text-slate-700 border-slate-200'
+                }`}>
+                  {blocksLeft <= DEADLINE_WARNING_BLOCKS ? 'Deadline close: ' : ''}
+                  {formatBlocks(blocksLeft)} left to settle or cancel before the payment times out
+                </div>
+              )}
+              <div className="flex space-x-3">
+                <button
+                  onClick={settleHeldInvoice}
+                  disabled={loading}
+                  className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
+                    loading ? 'bg-slate-400 cursor-not-allowed' : 'bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500'
+                  }`}
+                >
+                  Settle
+                </button>
+                <button
+                  onClick={cancelHeldInvoice}
+                  disabled={loading}
+                  className="flex-1 py-2 px-4 border border-red-300 rounded-md text-red-700 bg-white hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 disabled:opacity-50"
+                >
+                  Cancel &amp; Refund
+                </button>
+              </div>
+            </div>
+          )}
+
           <div className="bg-slate-100 p-3 rounded-md relative">
             <div className="text-xs text-slate-600 mb-1 font-medium">Invoice</div>
             <div className="text-xs font-mono break-all pr-6 text-slate-800">
@@ -209,15 +567,17 @@ const LightningReceive: React.FC = () => {
             >
               New Invoice
             </button>
-            <button
-              onClick={checkInvoiceStatus}
-              disabled={loading}
-              className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
-                loading ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
-              }`}
-            >
-              {loading ? 'Checking...' : 'Check Payment'}
-            </button>
+            {needsManualCheck && (
+              <button
+                onClick={checkInvoiceStatus}
+                disabled={loading}
+                className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
+                  loading ? 'bg-slate-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                }`}
+              >
+                {loading ? 'Checking...' : 'Check Payment'}
+              </button>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,207 @@
+/** @vitest-environment jsdom */
+
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import eventBus from '../utils/eventBus';
+import { ApiHandler, jsonResponse, mockApi, ndjsonResponse, ndjsonStream, notFound } from '../../test/api';
+import { makeHtlc, makeInvoice, makePayment } from '../../test/fixtures';
+import LightningSend from './LightningSend';
+
+const POLICY = {
+  maxAmountSat: 100000,
+  maxFeeSat: 100,
+  maxFeePercent: 1,
+  dailyBudgetSat: 500000,
+  confirmAboveSat: 10000,
+  timeoutSeconds: 60,
+  spentTodaySat: 0,
+  remainingTodaySat: 500000,
+};
+
+// Answer the node and policy lookups made while decoding; payments go to pay
+function walletWith(pay: ApiHandler): ApiHandler {
+  return request => {
+    if (request.path === '/api/node') return jsonResponse({ chains: [{ chain: 'bitcoin', network: 'regtest' }] });
+    if (request.path === '/api/payments/policy') return jsonResponse(POLICY);
+    if (request.path === '/api/payments') return pay(request);
+    return notFound(request);
+  };
+}
+
+async function pasteInvoice(invoice: string) {
+  const user = userEvent.setup();
+  await user.click(screen.getByLabelText('Invoice, offer, LNURL or Lightning Address'));
+  await user.paste(invoice);
+  return user;
+}
+
+describe('LightningSend', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    eventBus.clear();
+  });
+
+  it('decodes a pasted invoice and shows its amount and description', async () => {
+    mockApi(walletWith(notFound));
+    render(<LightningSend />);
+
+    await pasteInvoice(makeInvoice({ amount_msat: '21000000', description: 'Coffee for two' }));
+
+    expect(await screen.findByText('Decoded Invoice')).toBeTruthy();
+    expect(screen.getByText('21000 sats')).toBeTruthy();
+    expect(screen.getByText('Coffee for two')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Confirm & Send' }) as HTMLButtonElement).disabled).toBe(false);
+  });
+
+  it('flags an invoice for another network and refuses to send it', async () => {
+    mockApi(walletWith(notFound));
+    render(<LightningSend />);
+    await waitFor(() => expect(vi.mocked(fetch)).toHaveBeenCalledWith('/api/node', expect.anything()));
+
+    await pasteInvoice(makeInvoice({ network: 'mainnet', amount_msat: '21000000' }));
+
+    expect(await screen.findByText('Network:')).toBeTruthy();
+    expect((screen.getByRole('button', { name: 'Confirm & Send' }) as HTMLButtonElement).disabled).toBe(true);
+  });
+
+  it('sends the amount entered for an invoice without one', async () => {
+    const requests = mockApi(walletWith(() => ndjsonResponse({ result: makePayment('SUCCEEDED') })));
+    render(<LightningSend />);
+
+    const invoice = makeInvoice();
+    const user = await pasteInvoice(invoice);
+    const amount = await screen.findByLabelText('Amount (this invoice lets you choose)');
+    const send = screen.getByRole('button', { name: 'Confirm & Send' }) as HTMLButtonElement;
+    expect(send.disabled).toBe(true);
+
+    await user.type(amount, '1.5');
+    expect(screen.getByText('1.5 sats')).toBeTruthy();
+    await user.click(send);
+
+    expect(await screen.findByText('Payment Successful')).toBeTruthy();
+    const payment = requests.find(request => request.path === '/api/payments');
+    expect(payment?.body).toEqual({ payment_request: invoice, amt_msat: '1500', confirmed: true });
+  });
+
+  it('checks the entered amount against the spending limits before sending', async () => {
+    mockApi(walletWith(notFound));
+    render(<LightningSend />);
+
+    const user = await pasteInvoice(makeInvoice());
+    const amount = await screen.findByLabelText('Amount (this invoice lets you choose)');
+    const send = screen.getByRole('button', { name: 'Confirm & Send' }) as HTMLButtonElement;
+
+    await user.type(amount, '100001');
+    expect(await screen.findByText('Amount exceeds the per-payment limit of 100,000 sats')).toBeTruthy();
+    expect(send.disabled).toBe(true);
+
+    await user.clear(amount);
+    await user.type(amount, '0.0001');
+    expect(screen.getByText('Enter a valid amount in sats (up to 3 decimal places)')).toBeTruthy();
+
+    await user.selectOptions(screen.getByLabelText('Amount unit'), 'msat');
+    await user.clear(amount);
+    await user.type(amount, '100000001');
+    expect(screen.getByText('Amount exceeds the per-payment limit of 100,000 sats')).toBeTruthy();
+
+    await user.clear(amount);
+    await user.type(amount, '100000000');
+    expect(screen.queryByText(/Amount exceeds/)).toBeNull();
+    expect(send.disabled).toBe(false);
+  });
+
+  it('asks for confirmation when the server requires it, then resends with confirmed', async () => {
+    const requests = mockApi(walletWith(request => request.body?.confirmed
+      ? ndjsonResponse({ result: makePayment('SUCCEEDED') })
+      : jsonResponse({ error: 'Payments above 10,000 sats must be confirmed before sending', code: 'CONFIRMATION_REQUIRED' }, 409)
+    ));
+    render(<LightningSend />);
+
+    const invoice = makeInvoice({ amount_msat: '21000000' });
+    const user = await pasteInvoice(invoice);
+    await user.click(await screen.findByRole('button', { name: 'Cancel' }));
+    await user.click(screen.getByRole('button', { name: 'Send Payment' }));
+
+    expect(await screen.findByText(/This is a large payment/)).toBeTruthy();
+    await user.click(screen.getByRole('button', { name: 'Confirm & Send' }));
+
+    expect(await screen.findByText('Payment Successful')).toBeTruthy();
+    const payments = requests.filter(request => request.path === '/api/payments');
+    expect(payments.map(request => request.body)).toEqual([
+      { payment_request: invoice, confirmed: false },
+      { payment_request: invoice, confirmed: true },
+    ]);
+  });
+
+  it('shows a successful payment and announces it', async () => {
+    const sent = vi.fn();
+    eventBus.on('payment:sent', sent);
+    const success = makePayment('SUCCEEDED', { htlcs: [makeHtlc('SUCCEEDED')] });
+    mockApi(walletWith(() => ndjsonResponse(
+      { result: makePayment('IN_FLIGHT', { htlcs: [makeHtlc('IN_FLIGHT')] }) },
+      { result: success }
+    )));
+    render(<LightningSend />);
+
+    const user = await pasteInvoice(makeInvoice({ amount_msat: '21000000' }));
+    await user.click(await screen.findByRole('button', { name: 'Confirm & Send' }));
+
+    expect(await screen.findByText('Payment Successful')).toBeTruthy();
+    expect(screen.getByText('Sent 21000 sats')).toBeTruthy();
+    expect(screen.getByText('Payment Attempts (1)')).toBeTruthy();
+    expect(screen.getByText(success.payment_preimage)).toBeTruthy();
+    expect(sent).toHaveBeenCalledTimes(1);
+    expect(sent).toHaveBeenCalledWith(success);
+  });
+
+  it('shows why a payment failed', async () => {
+    mockApi(walletWith(() => ndjsonResponse({
+      result: makePayment('FAILED', {
+        failure_reason: 'FAILURE_REASON_NO_ROUTE',
+        htlcs: [makeHtlc('FAILED', { failure: { code: 'TEMPORARY_CHANNEL_FAILURE', failure_source_index: 2 } })],
+      }),
+    })));
+    render(<LightningSend />);
+
+    const user = await pasteInvoice(makeInvoice({ amount_msat: '21000000' }));
+    await user.click(await screen.findByRole('button', { name: 'Confirm & Send' }));
+
+    expect(await screen.findByText('Payment Failed')).toBeTruthy();
+    expect(screen.getByText('Payment failed: FAILURE_REASON_NO_ROUTE')).toBeTruthy();
+    expect(screen.getByText(/temporary channel failure \(hop 2\)/)).toBeTruthy();
+  });
+
+  it('follows each attempt while the payment is in flight', async () => {
+    const stream = ndjsonStream();
+    mockApi(walletWith(() => stream.response));
+    render(<LightningSend />);
+
+    const user = await pasteInvoice(makeInvoice({ amount_msat: '21000000' }));
+    await user.click(await screen.findByRole('button', { name: 'Confirm & Send' }));
+
+    stream.push({ result: makePayment('IN_FLIGHT', { htlcs: [makeHtlc('IN_FLIGHT')] }) });
+    expect(await screen.findByText('Payment in progress... (attempt 1)')).toBeTruthy();
+    expect(screen.getByText('In flight')).toBeTruthy();
+
+    stream.push({ result: makePayment('IN_FLIGHT', { htlcs: [makeHtlc('FAILED'), makeHtlc('IN_FLIGHT')] }) });
+    expect(await screen.findByText('Payment in progress... (attempt 2)')).toBeTruthy();
+
+    // The connection drops before the payment reaches a final state
+    stream.close();
+    expect(await screen.findByText(/Lost track of the payment before it completed/)).toBeTruthy();
+  });
+
+  it('reports an error sent in the payment stream', async () => {
+    mockApi(walletWith(() => ndjsonResponse({ error: { message: 'Failed to send payment' } })));
+    render(<LightningSend />);
+
+    const user = await pasteInvoice(makeInvoice({ amount_msat: '21000000' }));
+    await user.click(await screen.findByRole('button', { name: 'Confirm & Send' }));
+
+    expect(await screen.findByText('Failed to send payment. Please check your invoice and node connection.')).toBeTruthy();
+  });
+});
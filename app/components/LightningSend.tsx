@@ -1,167 +1,105 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
-import { LndClient } from 'flndr';
+import React, { useEffect, useRef, useState } from 'react';
 import eventBus from '../utils/eventBus';
-
-// Types for the Lightning Network API response structures
-interface RouteHop {
-  chan_id: string;
-  chan_capacity: string;
-  amt_to_forward: string;
-  fee: string;
-  expiry: number;
-  amt_to_forward_msat: string;
-  fee_msat: string;
-  pub_key: string;
-  tlv_payload: boolean;
-  mpp_record: Record<string, unknown>;
-  custom_records: Record<string, unknown>;
-  [key: string]: unknown;
-}
-
-interface Route {
-  total_time_lock: number;
-  total_fees: string;
-  total_amt: string;
-  hops: RouteHop[];
-  total_fees_msat: string;
-  total_amt_msat: string;
-}
-
-interface HTLC {
-  status: string;
-  route: Route;
-  attempt_id: string;
-  attempt_time_ns: string;
-  resolve_time_ns: string;
-  failure: unknown | null;
-  preimage: string;
-}
-
-interface PaymentData {
-  payment_hash: string;
-  payment_preimage: string;
-  value_msat: string;
-  status: string;
-  fee_msat: string;
-  creation_time_ns: string;
-  payment_request?: string;
-  htlcs: HTLC[];
-  value_sat: string;
-  fee_sat: string;
-  creation_date?: string;
-  payment_index?: string;
-  failure_reason?: string;
-}
+import walletApi, { PaymentPolicyStatus, SendPaymentParams, WalletApiError } from '../utils/walletApi';
+import { AmountUnit, formatMsat, parseAmountToMsat } from '../utils/amounts';
+import { useFiat } from './FiatProvider';
+import { useLiquidity } from './LiquidityProvider';
+import { Bolt11Error, Bolt11Field, DecodedPaymentRequest, Network, decodeBolt11, validateBolt11 } from '../utils/bolt11';
+import { Bolt12Error, DecodedOffer, decodeOffer, isBolt12Offer, validateOffer } from '../utils/bolt12';
+import { isNodePubkey } from '../utils/channels';
+import { MAX_KEYSEND_MESSAGE_BYTES, messageByteLength } from '../utils/keysend';
+import { liquidityWarning } from '../utils/liquidity';
+import { LnurlPayInfo, LnurlSuccessAction, parseLnurlTarget } from '../utils/lnurl';
+import { formatHtlcFailure, HTLC, PaymentData } from '../utils/payments';
 
 interface PaymentResult {
   result: PaymentData;
 }
 
-// Interface for decoded payment request data
-interface DecodedPaymentRequest {
-  destination: string;
-  payment_hash: string;
-  num_satoshis: string;
-  timestamp: string;
-  expiry: string;
-  description: string;
-  description_hash: string;
-  fallback_addr: string;
-  cltv_expiry: string;
-  route_hints: unknown[];
-  payment_addr: string;
-  num_msat: string;
-  features: Record<string, unknown>;
-  currency?: string;
-  created_at?: string;
-  [key: string]: unknown;
-}
+// Labels used when reporting invoice problems per field
+const INVOICE_FIELD_LABELS: Record<Bolt11Field, string> = {
+  format: 'Invoice',
+  checksum: 'Checksum',
+  network: 'Network',
+  amount: 'Amount',
+  payment_hash: 'Payment hash',
+  signature: 'Signature',
+  expiry: 'Expiry',
+};
+
+// Anything that looks like a complete invoice is decoded as soon as it's pasted
+const INVOICE_PATTERN = /^(lightning:)?ln[a-z0-9]{20,}$/i;
 
 /**
  * LightningSend Component
  * 
- * A React component for sending Lightning Network payments using the FLNDR library.
+ * A React component for sending Lightning Network payments through the wallet API,
+ * which talks to LND via the FLNDR library on the server.
  * This component handles:
  * 1. Accepting a Lightning invoice input
  * 2. Sending the payment via LND
- * 3. Processing the multi-stage payment response
- * 4. Displaying appropriate UI based on payment status
+ * 3. Processing each payment update as it streams in from the node
+ * 4. Displaying appropriate UI based on payment status, including every HTLC attempt
  */
 const LightningSend: React.FC = () => {
   // Component state
+  // Pay an invoice/LNURL, or send a keysend payment straight to a node pubkey
+  const [mode, setMode] = useState<'invoice' | 'keysend'>('invoice');
   const [paymentRequest, setPaymentRequest] = useState<string>('');
+  const [destination, setDestination] = useState<string>('');
+  const [keysendMessage, setKeysendMessage] = useState<string>('');
+  const { formatSats } = useFiat();
   const [paymentResult, setPaymentResult] = useState<PaymentResult | null>(null);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
-  const [rawResponse, setRawResponse] = useState<string>('');
   const [decodedInvoice, setDecodedInvoice] = useState<DecodedPaymentRequest | null>(null);
   const [decodingInvoice, setDecodingInvoice] = useState<boolean>(false);
+  const [policy, setPolicy] = useState<PaymentPolicyStatus | null>(null);
+  const [confirmationRequired, setConfirmationRequired] = useState<boolean>(false);
+  const [amountInput, setAmountInput] = useState<string>('');
+  const [amountUnit, setAmountUnit] = useState<AmountUnit>('sat');
+  const [invoiceErrors, setInvoiceErrors] = useState<Bolt11Error[]>([]);
+  const [nodeNetwork, setNodeNetwork] = useState<Network | null>(null);
+  const [lnurlInfo, setLnurlInfo] = useState<LnurlPayInfo | null>(null);
+  const [lnurlComment, setLnurlComment] = useState<string>('');
+  const [resolvingLnurl, setResolvingLnurl] = useState<boolean>(false);
+  const [successAction, setSuccessAction] = useState<LnurlSuccessAction | null>(null);
+  const [decodedOffer, setDecodedOffer] = useState<DecodedOffer | null>(null);
+  const [offerErrors, setOfferErrors] = useState<Bolt12Error[]>([]);
+  const [payerNote, setPayerNote] = useState<string>('');
+  const [fetchingOfferInvoice, setFetchingOfferInvoice] = useState<boolean>(false);
+  const lnurlLookupTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
 
-  // Initialize the LND client
-  const lnd = new LndClient({
-    baseUrl: process.env.NEXT_PUBLIC_LND_REST_API_URL || 'https://your-lnd-proxy:8080',
-    macaroon: process.env.NEXT_PUBLIC_LND_MACAROON || '',
-  });
+  // Learn which network the node is on so invoices for other networks can be flagged
+  useEffect(() => {
+    walletApi.getNodeInfo()
+      .then(info => {
+        const chains = info.chains as { network?: Network }[] | undefined;
+        setNodeNetwork(chains?.[0]?.network ?? null);
+      })
+      .catch(() => setNodeNetwork(null));
+  }, []);
 
-  /**
-   * Parse and process the raw payment response from FLNDR
-   * 
-   * FLNDR provides payment updates as the payment progresses through 
-   * the Lightning Network. This function handles the complex response format
-   * and extracts the most recent payment status.
-   */
-  const processPaymentResponse = (rawResponse: string) => {
-    try {
-      // First, parse the outer JSON string
-      const responseData = JSON.parse(rawResponse);
-      
-      // If the parsed data is an object with a result property, use it directly
-      if (responseData && typeof responseData === 'object' && responseData.result) {
-        handlePaymentUpdate(responseData as PaymentResult);
-        return;
-      }
-      
-      // Handle case where the response is a string containing newline-separated JSON objects
-      if (typeof responseData === 'string') {
-        // Split by newlines and filter out empty lines
-        const jsonStrings = responseData.split('\n').filter(s => s.trim() !== '');
-        
-        if (jsonStrings.length === 0) {
-          setError('No valid payment response found');
-          setLoading(false);
-          return;
-        }
-        
-        // Get the last (most recent) response
-        const lastJsonString = jsonStrings[jsonStrings.length - 1];
-        
-        try {
-          // Parse the JSON string to get the actual payment result
-          const paymentData = JSON.parse(lastJsonString);
-          
-          if (!paymentData || !paymentData.result) {
-            setError('Invalid payment response format');
-            setLoading(false);
-            return;
-          }
-          
-          // Handle the parsed payment update
-          handlePaymentUpdate(paymentData);
-        } catch {
-          setError('Unable to parse payment response');
-          setLoading(false);
-        }
-      } else {
-        setError('Unrecognized payment response format');
-        setLoading(false);
-      }
-    } catch {
-      setError('Failed to process payment response');
-      setLoading(false);
-    }
-  };
+  // Zero-amount invoices let the payer choose how much to send
+  const isAmountless = decodedInvoice !== null
+    && Number(decodedInvoice.num_msat || 0) === 0
+    && Number(decodedInvoice.num_satoshis || 0) === 0;
+  const isAmountlessOffer = decodedOffer !== null && !decodedOffer.amount_msat;
+  const enteredAmountMsat = parseAmountToMsat(amountInput, amountUnit);
+  const amountMsat = isAmountless ? enteredAmountMsat : null;
+
+  // Warn, without blocking, when the payment is more than the channels can send
+  const { liquidity } = useLiquidity();
+  const sendAmountSat = decodedInvoice && !isAmountless
+    ? Number(decodedInvoice.num_msat || 0) / 1000 || Number(decodedInvoice.num_satoshis)
+    : decodedOffer?.amount_msat
+      ? Number(decodedOffer.amount_msat) / 1000
+      : Number(enteredAmountMsat ?? 0) / 1000;
+  const outboundWarning = decodedInvoice || decodedOffer || lnurlInfo || mode === 'keysend'
+    ? liquidityWarning(sendAmountSat, 'send', liquidity)
+    : null;
 
   /**
    * Handle a payment update based on its status
@@ -200,64 +138,311 @@ const LightningSend: React.FC = () => {
     }
   };
 
-  // Process raw response data whenever it changes
-  useEffect(() => {
-    if (!rawResponse) return;
-    processPaymentResponse(rawResponse);
-  }, [rawResponse]);
-
   /**
-   * Decode a Lightning invoice
+   * Decode a Lightning invoice locally, without a round-trip to the node
+   * Malformed invoices (bad checksum, unknown prefix, ...) and invoices that can't
+   * be paid from this wallet (wrong network, expired) are reported per field.
    */
-  const decodeInvoice = async () => {
-    if (!paymentRequest || paymentRequest.trim() === '') {
+  const decodeInvoice = async (value: string = paymentRequest) => {
+    if (!value || value.trim() === '') {
       setError('Please enter a valid lightning invoice');
       return;
     }
 
+    if (parseLnurlTarget(value)) {
+      await resolveLnurl(value);
+      return;
+    }
+
+    if (isBolt12Offer(value)) {
+      await decodeOfferInput(value);
+      return;
+    }
+
+    setError(null);
+    setDecodedInvoice(null);
+
+    let decoded: DecodedPaymentRequest;
     try {
-      setDecodingInvoice(true);
-      setError(null);
-      setDecodedInvoice(null);
+      decoded = decodeBolt11(value);
+    } catch (err) {
+      setInvoiceErrors([err instanceof Bolt11Error
+        ? err
+        : new Bolt11Error('format', 'Failed to decode invoice. Please check if it is a valid lightning invoice.')]);
+      return;
+    }
 
-      // Use the decodePayReq method from FLNDR
-      const decodedResult = await lnd.decodePayReq(paymentRequest);
+    setDecodedInvoice(decoded);
+    setInvoiceErrors(validateBolt11(decoded, { network: nodeNetwork ?? undefined }));
 
-      setDecodedInvoice(decodedResult as unknown as DecodedPaymentRequest);
-      setDecodingInvoice(false);
+    // Load the spending limits to show alongside the confirmation
+    try {
+      setDecodingInvoice(true);
+      setPolicy(await walletApi.getPaymentPolicy());
     } catch {
-      setError('Failed to decode invoice. Please check if it is a valid lightning invoice.');
+      setPolicy(null);
+    } finally {
       setDecodingInvoice(false);
     }
   };
 
+  /**
+   * Decode a BOLT12 offer locally and show what it asks for
+   * Offers can't be paid directly: an invoice is requested from the issuer first.
+   */
+  const decodeOfferInput = async (value: string) => {
+    setError(null);
+    setDecodedOffer(null);
+
+    let decoded: DecodedOffer;
+    try {
+      decoded = decodeOffer(value);
+    } catch (err) {
+      setOfferErrors([err instanceof Bolt12Error ? err : new Bolt12Error('Failed to decode offer')]);
+      return;
+    }
+
+    setDecodedOffer(decoded);
+    setOfferErrors(validateOffer(decoded, { network: nodeNetwork ?? undefined }));
+    setPayerNote('');
+
+    try {
+      setPolicy(await walletApi.getPaymentPolicy());
+    } catch {
+      setPolicy(null);
+    }
+  };
+
+  /**
+   * Update the invoice input, decoding it straight away when a full invoice is pasted
+   */
+  const handleInvoiceInput = (value: string) => {
+    setPaymentRequest(value);
+    setInvoiceErrors([]);
+    setDecodedInvoice(null);
+    setConfirmationRequired(false);
+    setLnurlInfo(null);
+    setSuccessAction(null);
+    setDecodedOffer(null);
+    setOfferErrors([]);
+
+    if (lnurlLookupTimer.current) {
+      clearTimeout(lnurlLookupTimer.current);
+      lnurlLookupTimer.current = null;
+    }
+
+    if (INVOICE_PATTERN.test(value.trim()) && !parseLnurlTarget(value)) {
+      decodeInvoice(value);
+    } else if (parseLnurlTarget(value)) {
+      // Wait for the user to stop typing before contacting the service
+      lnurlLookupTimer.current = setTimeout(() => resolveLnurl(value), 500);
+    }
+  };
+
+  /**
+   * First step of LNURL-pay: look up what the service accepts
+   * The handshake runs on the server; see /api/lnurl/pay.
+   */
+  const resolveLnurl = async (target: string) => {
+    try {
+      setResolvingLnurl(true);
+      setError(null);
+      const [info, policyStatus] = await Promise.all([
+        walletApi.resolveLnurlPay(target),
+        walletApi.getPaymentPolicy().catch(() => null),
+      ]);
+      setLnurlInfo(info);
+      setPolicy(policyStatus);
+      setLnurlComment('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to look up LNURL');
+    } finally {
+      setResolvingLnurl(false);
+    }
+  };
+
+  /**
+   * Second step of LNURL-pay: fetch a verified invoice for the chosen amount,
+   * then hand it to the regular decode/confirm/send flow
+   */
+  const requestLnurlInvoice = async () => {
+    if (!lnurlInfo || enteredAmountMsat === null) return;
+
+    try {
+      setResolvingLnurl(true);
+      setError(null);
+      const { pr, successAction: action } = await walletApi.requestLnurlInvoice(
+        paymentRequest,
+        enteredAmountMsat,
+        lnurlComment || undefined
+      );
+
+      setLnurlInfo(null);
+      setAmountInput('');
+      setSuccessAction(action ?? null);
+      setPaymentRequest(pr);
+      await decodeInvoice(pr);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to get an invoice from the LNURL service');
+    } finally {
+      setResolvingLnurl(false);
+    }
+  };
+
+  /**
+   * Validate the amount entered for a zero-amount invoice, an LNURL-pay request or a keysend payment
+   * The server enforces the same limits; this just gives earlier feedback.
+   */
+  const getAmountError = (): string | null => {
+    if (!isAmountless && !isAmountlessOffer && !lnurlInfo && mode !== 'keysend') return null;
+    if (amountInput.trim() === '') return 'Enter the amount to send';
+    if (enteredAmountMsat === null) {
+      return amountUnit === 'sat'
+        ? 'Enter a valid amount in sats (up to 3 decimal places)'
+        : 'Enter a whole number of msats';
+    }
+    if (BigInt(enteredAmountMsat) === BigInt(0)) return 'Amount must be greater than zero';
+
+    if (lnurlInfo) {
+      const msat = Number(enteredAmountMsat);
+      if (msat < lnurlInfo.minSendable || msat > lnurlInfo.maxSendable) {
+        return `This service accepts between ${formatMsat(lnurlInfo.minSendable)} and ${formatMsat(lnurlInfo.maxSendable)}`;
+      }
+    }
+
+    const amountSat = Math.ceil(Number(enteredAmountMsat) / 1000);
+    if (policy?.maxAmountSat != null && amountSat > policy.maxAmountSat) {
+      return `Amount exceeds the per-payment limit of ${policy.maxAmountSat.toLocaleString()} sats`;
+    }
+    if (policy?.remainingTodaySat != null && amountSat > policy.remainingTodaySat) {
+      return `Amount exceeds the ${policy.remainingTodaySat.toLocaleString()} sats left in today's budget`;
+    }
+    return null;
+  };
+
+  /**
+   * Send a payment and handle each update as the node streams it, so
+   * in-flight attempts show up live
+   */
+  const followPayment = async (params: SendPaymentParams) => {
+    setLoading(true);
+    setError(null);
+    setPaymentResult(null);
+    setConfirmationRequired(false);
+
+    let finalStatus: string | null = null;
+    for await (const update of walletApi.sendPayment<PaymentData>(params)) {
+      handlePaymentUpdate(update);
+      finalStatus = update.result.status;
+    }
+
+    if (finalStatus === null || finalStatus === 'IN_FLIGHT') {
+      setError('Lost track of the payment before it completed. Check the transaction history for its final status.');
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Send a keysend payment to a node pubkey, with an optional message
+   * The preimage is generated by the server and delivered to the recipient in
+   * the payment onion, so no invoice is needed.
+   */
+  const sendKeysend = async (confirmed = false) => {
+    if (!isNodePubkey(destination.trim()) || getAmountError() !== null) return;
+
+    try {
+      await followPayment({
+        dest: destination.trim().toLowerCase(),
+        amt_msat: enteredAmountMsat ?? undefined,
+        message: keysendMessage || undefined,
+        confirmed,
+      });
+    } catch (err) {
+      setLoading(false);
+
+      if (err instanceof WalletApiError && err.code === 'CONFIRMATION_REQUIRED') {
+        setConfirmationRequired(true);
+        return;
+      }
+
+      setError(err instanceof WalletApiError ? err.message : 'Failed to send payment. Please check the node connection.');
+    }
+  };
+
+  /**
+   * Pay a BOLT12 offer: request an invoice from the issuer, then pay it
+   * The offer view is the review step, so the payment counts as confirmed.
+   */
+  const payOffer = async () => {
+    if (!decodedOffer || offerErrors.length > 0 || getAmountError() !== null) return;
+
+    try {
+      setFetchingOfferInvoice(true);
+      setError(null);
+      const { invoice } = await walletApi.fetchOfferInvoice({
+        offer: paymentRequest,
+        amount_msat: isAmountlessOffer ? enteredAmountMsat ?? undefined : undefined,
+        payer_note: payerNote || undefined,
+      });
+      setFetchingOfferInvoice(false);
+
+      await followPayment({ bolt12_invoice: invoice, confirmed: true });
+    } catch (err) {
+      setLoading(false);
+      setFetchingOfferInvoice(false);
+      setError(err instanceof WalletApiError ? err.message : 'Failed to pay the offer. Please check the node connection.');
+    }
+  };
+
   /**
    * Send a Lightning payment
+   * The server enforces spending limits; payments above the confirmation
+   * threshold are bounced back to the decode/confirm step first.
    */
-  const sendPayment = async () => {
+  const sendPayment = async (confirmed = false) => {
     if (!paymentRequest || paymentRequest.trim() === '') {
       setError('Please enter a valid lightning invoice');
       return;
     }
 
+    // LNURLs and Lightning Addresses need an amount first
+    if (parseLnurlTarget(paymentRequest)) {
+      await resolveLnurl(paymentRequest);
+      return;
+    }
+
+    // Offers need an invoice from the issuer; show the offer so it can be reviewed first
+    if (isBolt12Offer(paymentRequest)) {
+      await decodeOfferInput(paymentRequest);
+      return;
+    }
+
     try {
-      // Reset state and start loading
-      setLoading(true);
-      setError(null);
-      setPaymentResult(null);
-      setRawResponse('');
       setDecodedInvoice(null);
-
-      // Send payment with non-streaming mode (default)
-      const result = await lnd.sendPaymentV2({
+      await followPayment({
         payment_request: paymentRequest,
+        amt_msat: amountMsat ?? undefined,
+        confirmed,
       });
-
-      // Store the raw result for processing
-      setRawResponse(JSON.stringify(result));
-    } catch {
-      setError('Failed to send payment. Please check your invoice and node connection.');
+    } catch (err) {
       setLoading(false);
+
+      if (err instanceof WalletApiError && err.code === 'CONFIRMATION_REQUIRED') {
+        // Large payment: show the decoded invoice so the user can confirm it
+        setConfirmationRequired(true);
+        await decodeInvoice();
+        return;
+      }
+
+      if (err instanceof WalletApiError && err.code === 'AMOUNT_REQUIRED') {
+        // Zero-amount invoice: show the decoded invoice so the user can enter an amount
+        await decodeInvoice();
+        return;
+      }
+
+      setError(err instanceof WalletApiError
+        ? err.message
+        : 'Failed to send payment. Please check your invoice and node connection.');
     }
   };
 
@@ -266,10 +451,170 @@ const LightningSend: React.FC = () => {
    */
   const reset = () => {
     setPaymentRequest('');
+    setDestination('');
+    setKeysendMessage('');
     setPaymentResult(null);
     setError(null);
-    setRawResponse('');
     setDecodedInvoice(null);
+    setConfirmationRequired(false);
+    setAmountInput('');
+    setInvoiceErrors([]);
+    setLnurlInfo(null);
+    setSuccessAction(null);
+    setDecodedOffer(null);
+    setOfferErrors([]);
+    setPayerNote('');
+  };
+
+  /**
+   * Render the list of HTLC attempts as a timeline
+   * Used live while the payment is in flight and as history once it finishes.
+   */
+  const renderAttempts = (htlcs: HTLC[]) => {
+    if (htlcs.length === 0) return null;
+
+    const statusStyles: Record<HTLC['status'], { dot: string; label: string }> = {
+      IN_FLIGHT: { dot: 'bg-yellow-400 animate-pulse', label: 'In flight' },
+      SUCCEEDED: { dot: 'bg-green-500', label: 'Succeeded' },
+      FAILED: { dot: 'bg-red-500', label: 'Failed' },
+    };
+
+    return (
+      <ol className="relative border-l border-slate-200 ml-2 space-y-3 text-left">
+        {htlcs.map((htlc, index) => {
+          const style = statusStyles[htlc.status] || { dot: 'bg-slate-400', label: htlc.status };
+          const resolvedMs = Number(htlc.resolve_time_ns) > 0
+            ? Math.round((Number(htlc.resolve_time_ns) - Number(htlc.attempt_time_ns)) / 1e6)
+            : null;
+
+          return (
+            <li key={htlc.attempt_id || index} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full ${style.dot}`} />
+              <div className="text-sm text-slate-800">
+                Attempt {index + 1} · <span className="font-medium">{style.label}</span>
+              </div>
+              <div className="text-xs text-slate-500">
+                {htlc.route?.hops?.length ?? 0} hops · fee {Number(htlc.route?.total_fees_msat || 0) / 1000} sats
+                {resolvedMs !== null && ` · ${resolvedMs} ms`}
+              </div>
+              {htlc.failure && (
+                <div className="text-xs text-red-600">{formatHtlcFailure(htlc.failure)}</div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    );
+  };
+
+  /**
+   * Render the amount field used for zero-amount invoices and LNURL-pay
+   */
+  const renderAmountInput = (label: string, amountError: string | null) => (
+    <div>
+      <label htmlFor="sendAmount" className="text-xs text-slate-500">
+        {label}
+      </label>
+      <div className="flex space-x-2 mt-1">
+        <input
+          id="sendAmount"
+          type="text"
+          inputMode="decimal"
+          value={amountInput}
+          onChange={(e) => setAmountInput(e.target.value)}
+          className="flex-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          placeholder={amountUnit === 'sat' ? '1000' : '1000000'}
+        />
+        <select
+          value={amountUnit}
+          onChange={(e) => setAmountUnit(e.target.value as AmountUnit)}
+          className="px-2 py-2 border border-slate-300 rounded-md text-slate-800"
+          aria-label="Amount unit"
+        >
+          <option value="sat">sats</option>
+          <option value="msat">msats</option>
+        </select>
+      </div>
+      {amountInput !== '' && amountError ? (
+        <div className="text-xs text-red-600 mt-1">{amountError}</div>
+      ) : enteredAmountMsat !== null && (
+        <div className="text-xs text-slate-500 mt-1">
+          {formatMsat(enteredAmountMsat)}
+          {formatSats(Number(enteredAmountMsat) / 1000) && ` ≈ ${formatSats(Number(enteredAmountMsat) / 1000)}`}
+        </div>
+      )}
+    </div>
+  );
+
+  /**
+   * Render the LNURL-pay / Lightning Address step where the payer picks an amount
+   */
+  const renderLnurlPay = () => {
+    if (!lnurlInfo) return null;
+
+    const amountError = getAmountError();
+
+    return (
+      <div className="mt-4 bg-slate-50 p-4 rounded-md border border-slate-200">
+        <div className="flex items-center mb-2">
+          {lnurlInfo.image && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={lnurlInfo.image} alt="" className="w-10 h-10 rounded mr-3" />
+          )}
+          <div>
+            <h3 className="font-medium text-slate-800">Pay {lnurlInfo.identifier || lnurlInfo.domain}</h3>
+            <div className="text-xs text-slate-500">via {lnurlInfo.domain}</div>
+          </div>
+        </div>
+        <div className="space-y-3 text-sm">
+          {lnurlInfo.description && (
+            <div className="text-slate-800">{lnurlInfo.description}</div>
+          )}
+          
+          {renderAmountInput(
+            `Amount (${formatMsat(lnurlInfo.minSendable)} to ${formatMsat(lnurlInfo.maxSendable)})`,
+            amountError
+          )}
+          
+          {lnurlInfo.commentAllowed > 0 && (
+            <div>
+              <label htmlFor="lnurlComment" className="text-xs text-slate-500">
+                Comment (optional, up to {lnurlInfo.commentAllowed} characters)
+              </label>
+              <input
+                id="lnurlComment"
+                type="text"
+                value={lnurlComment}
+                maxLength={lnurlInfo.commentAllowed}
+                onChange={(e) => setLnurlComment(e.target.value)}
+                className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+          )}
+        </div>
+        
+        <div className="mt-4 flex space-x-3">
+          <button
+            onClick={requestLnurlInvoice}
+            disabled={resolvingLnurl || amountError !== null}
+            className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
+              resolvingLnurl || amountError !== null
+                ? 'bg-slate-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+            }`}
+          >
+            {resolvingLnurl ? 'Requesting...' : 'Continue'}
+          </button>
+          
+          <button
+            onClick={() => setLnurlInfo(null)}
+            className="flex-1 py-2 px-4 border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
   };
 
   /**
@@ -278,16 +623,27 @@ const LightningSend: React.FC = () => {
   const renderDecodedInvoice = () => {
     if (!decodedInvoice) return null;
 
+    const amountError = getAmountError();
+
     return (
       <div className="mt-4 bg-slate-50 p-4 rounded-md border border-slate-200">
         <h3 className="font-medium text-slate-800 mb-2">Decoded Invoice</h3>
         <div className="space-y-2 text-sm">
-          <div>
-            <div className="text-xs text-slate-500">Amount</div>
-            <div className="text-slate-800 font-medium">
-              {decodedInvoice.num_satoshis} sats
+          {isAmountless ? (
+            renderAmountInput('Amount (this invoice lets you choose)', amountError)
+          ) : (
+            <div>
+              <div className="text-xs text-slate-500">Amount</div>
+              <div className="text-slate-800 font-medium">
+                {decodedInvoice.num_satoshis} sats
+                {formatSats(Number(decodedInvoice.num_satoshis)) && (
+                  <span className="ml-2 text-sm font-normal text-slate-500">
+                    ≈ {formatSats(Number(decodedInvoice.num_satoshis))}
+                  </span>
+                )}
+              </div>
             </div>
-          </div>
+          )}
           
           <div>
             <div className="text-xs text-slate-500">Description</div>
@@ -309,19 +665,144 @@ const LightningSend: React.FC = () => {
               {new Date(parseInt(decodedInvoice.timestamp) * 1000 + parseInt(decodedInvoice.expiry) * 1000).toLocaleString()}
             </div>
           </div>
+          
+          {policy && (
+            <div>
+              <div className="text-xs text-slate-500">Spending Limits</div>
+              <div className="text-slate-800">
+                Max fee {policy.maxFeeSat.toLocaleString()} sats or {policy.maxFeePercent}%, whichever is lower
+              </div>
+              {policy.remainingTodaySat !== null && (
+                <div className="text-xs text-slate-500">
+                  {policy.remainingTodaySat.toLocaleString()} sats left in today&apos;s budget
+                </div>
+              )}
+            </div>
+          )}
         </div>
         
+        {confirmationRequired && (
+          <div className="mt-4 p-3 bg-yellow-50 text-yellow-700 rounded-md text-sm font-medium border border-yellow-200">
+            This is a large payment. Please review the details and confirm to send it.
+          </div>
+        )}
+        
         <div className="mt-4 flex space-x-3">
           <button
-            onClick={sendPayment}
-            disabled={loading}
-            className="flex-1 py-2 px-4 rounded-md text-white font-medium bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+            onClick={() => sendPayment(true)}
+            disabled={loading || amountError !== null || invoiceErrors.length > 0}
+            className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
+              loading || amountError !== null || invoiceErrors.length > 0
+                ? 'bg-slate-400 cursor-not-allowed'
+                : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+            }`}
           >
             Confirm & Send
           </button>
           
           <button
-            onClick={() => setDecodedInvoice(null)}
+            onClick={() => {
+              setDecodedInvoice(null);
+              setConfirmationRequired(false);
+            }}
+            className="flex-1 py-2 px-4 border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  /**
+   * Render a decoded BOLT12 offer with its amount, issuer and an optional payer note
+   */
+  const renderOffer = () => {
+    if (!decodedOffer) return null;
+
+    const amountError = getAmountError();
+    const busy = loading || fetchingOfferInvoice;
+    const canPay = !busy && amountError === null && offerErrors.length === 0;
+
+    return (
+      <div className="mt-4 bg-slate-50 p-4 rounded-md border border-slate-200">
+        <h3 className="font-medium text-slate-800 mb-2">
+          Offer{decodedOffer.issuer ? ` from ${decodedOffer.issuer}` : ''}
+        </h3>
+        <div className="space-y-2 text-sm">
+          {isAmountlessOffer ? (
+            renderAmountInput('Amount (this offer lets you choose)', amountError)
+          ) : decodedOffer.amount_msat && (
+            <div>
+              <div className="text-xs text-slate-500">Amount</div>
+              <div className="text-slate-800 font-medium">
+                {formatMsat(decodedOffer.amount_msat)}
+                {formatSats(Number(decodedOffer.amount_msat) / 1000) && (
+                  <span className="ml-2 text-sm font-normal text-slate-500">
+                    ≈ {formatSats(Number(decodedOffer.amount_msat) / 1000)}
+                  </span>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs text-slate-500">Description</div>
+            <div className="text-slate-800">{decodedOffer.description || 'No description'}</div>
+          </div>
+
+          <div>
+            <div className="text-xs text-slate-500">Issuer</div>
+            <div className="text-xs font-mono text-slate-800 break-all">
+              {decodedOffer.issuer_id || `Hidden behind ${decodedOffer.paths} blinded path${decodedOffer.paths === 1 ? '' : 's'}`}
+            </div>
+          </div>
+
+          {decodedOffer.absolute_expiry !== undefined && (
+            <div>
+              <div className="text-xs text-slate-500">Expires</div>
+              <div className="text-slate-800">{new Date(decodedOffer.absolute_expiry * 1000).toLocaleString()}</div>
+            </div>
+          )}
+
+          <div>
+            <label htmlFor="payerNote" className="text-xs text-slate-500">Note to the issuer (optional)</label>
+            <input
+              id="payerNote"
+              type="text"
+              value={payerNote}
+              onChange={(e) => setPayerNote(e.target.value)}
+              className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              disabled={busy}
+            />
+          </div>
+
+          {policy && (
+            <div>
+              <div className="text-xs text-slate-500">Spending Limits</div>
+              <div className="text-slate-800">
+                Max fee {policy.maxFeeSat.toLocaleString()} sats or {policy.maxFeePercent}%, whichever is lower
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="mt-4 flex space-x-3">
+          <button
+            onClick={payOffer}
+            disabled={!canPay}
+            className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
+              canPay
+                ? 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+                : 'bg-slate-400 cursor-not-allowed'
+            }`}
+          >
+            {fetchingOfferInvoice ? 'Requesting invoice...' : loading ? 'Sending...' : 'Pay Offer'}
+          </button>
+
+          <button
+            onClick={() => setDecodedOffer(null)}
+            disabled={busy}
             className="flex-1 py-2 px-4 border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none"
           >
             Cancel
@@ -331,30 +812,167 @@ const LightningSend: React.FC = () => {
     );
   };
 
+  /**
+   * Render the keysend form: node pubkey, amount and optional message
+   */
+  const renderKeysendForm = () => {
+    const target = destination.trim();
+    const destinationError = target !== '' && !isNodePubkey(target)
+      ? 'Enter a 66 character hex node public key'
+      : null;
+    const amountError = getAmountError();
+    const messageBytes = messageByteLength(keysendMessage);
+    const messageError = messageBytes > MAX_KEYSEND_MESSAGE_BYTES
+      ? `Messages can be at most ${MAX_KEYSEND_MESSAGE_BYTES} bytes`
+      : null;
+    const canSend = !loading && target !== '' && !destinationError && !amountError && !messageError;
+
+    return (
+      <div className="space-y-4">
+        <div>
+          <label htmlFor="keysendDestination" className="block text-sm font-medium text-slate-700 mb-1">
+            Node public key
+          </label>
+          <input
+            id="keysendDestination"
+            type="text"
+            value={destination}
+            onChange={(e) => setDestination(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm font-mono text-xs focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            placeholder="02... or 03..."
+            disabled={loading}
+          />
+          {destinationError && <div className="text-xs text-red-600 mt-1">{destinationError}</div>}
+        </div>
+
+        {renderAmountInput('Amount', amountError)}
+
+        <div>
+          <label htmlFor="keysendMessage" className="block text-xs text-slate-500">
+            Message (optional)
+          </label>
+          <textarea
+            id="keysendMessage"
+            value={keysendMessage}
+            onChange={(e) => setKeysendMessage(e.target.value)}
+            className="w-full mt-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            rows={2}
+            disabled={loading}
+          />
+          <div className={`text-xs mt-1 ${messageError ? 'text-red-600' : 'text-slate-500'}`}>
+            {messageError ?? `${messageBytes}/${MAX_KEYSEND_MESSAGE_BYTES} bytes. Sent unencrypted to the recipient.`}
+          </div>
+        </div>
+
+        {confirmationRequired && (
+          <div className="p-3 bg-yellow-50 text-yellow-700 rounded-md text-sm font-medium border border-yellow-200">
+            This is a large payment. Please review the details and confirm to send it.
+          </div>
+        )}
+
+        <button
+          onClick={() => sendKeysend(confirmationRequired)}
+          disabled={!canSend}
+          className={`w-full py-2 px-4 rounded-md text-white font-medium ${
+            canSend
+              ? 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+              : 'bg-slate-400 cursor-not-allowed'
+          }`}
+        >
+          {loading ? 'Sending...' : confirmationRequired ? 'Confirm & Send' : 'Send to Node'}
+        </button>
+      </div>
+    );
+  };
+
+  // Switch between paying an invoice and sending to a node, starting the new mode fresh
+  const switchMode = (next: 'invoice' | 'keysend') => {
+    if (next === mode) return;
+    reset();
+    setMode(next);
+  };
+
   /**
    * Render the initial payment form
    */
   const renderPaymentForm = () => (
+    <div className="space-y-4">
+      <div className="flex rounded-md border border-slate-300 overflow-hidden text-sm font-medium">
+        {([['invoice', 'Invoice'], ['keysend', 'Send to node']] as const).map(([value, label]) => (
+          <button
+            key={value}
+            onClick={() => switchMode(value)}
+            disabled={loading}
+            className={`flex-1 py-2 ${mode === value ? 'bg-blue-600 text-white' : 'bg-white text-slate-700 hover:bg-slate-50'}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'keysend' ? renderKeysendForm() : renderInvoiceForm()}
+
+      {outboundWarning && !loading && (
+        <div className="p-3 bg-yellow-50 text-yellow-700 rounded-md text-sm font-medium border border-yellow-200">
+          ⚠ {outboundWarning}. The payment will likely fail.
+        </div>
+      )}
+      
+      {loading && paymentResult?.result?.status === 'IN_FLIGHT' && (
+        <div className="text-sm text-slate-600 space-y-3">
+          <p className="text-center">
+            Payment in progress... {paymentResult.result.htlcs?.length
+              ? `(attempt ${paymentResult.result.htlcs.length})`
+              : '(finding a route)'}
+          </p>
+          {renderAttempts(paymentResult.result.htlcs || [])}
+        </div>
+      )}
+    </div>
+  );
+
+  /**
+   * Render the invoice, offer, LNURL and Lightning Address form
+   */
+  const renderInvoiceForm = () => (
     <div className="space-y-4">
       <div>
         <label htmlFor="paymentRequest" className="block text-sm font-medium text-slate-700 mb-1">
-          Lightning Invoice
+          Invoice, offer, LNURL or Lightning Address
         </label>
         <textarea
           id="paymentRequest"
           value={paymentRequest}
-          onChange={(e) => setPaymentRequest(e.target.value)}
+          onChange={(e) => handleInvoiceInput(e.target.value)}
           className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
           rows={4}
-          placeholder="lnbc..."
-          disabled={loading || decodingInvoice}
+          placeholder="lnbc..., lno1..., lnurl1... or name@domain.com"
+          disabled={loading || decodingInvoice || fetchingOfferInvoice}
         />
+        {invoiceErrors.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {invoiceErrors.map(invoiceError => (
+              <li key={invoiceError.field} className="text-xs text-red-600">
+                <span className="font-medium">{INVOICE_FIELD_LABELS[invoiceError.field]}:</span> {invoiceError.message}
+              </li>
+            ))}
+          </ul>
+        )}
+        {offerErrors.length > 0 && (
+          <ul className="mt-1 space-y-1">
+            {offerErrors.map(offerError => (
+              <li key={offerError.message} className="text-xs text-red-600">
+                <span className="font-medium">Offer:</span> {offerError.message}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
       
-      {!decodedInvoice && (
+      {!decodedInvoice && !decodedOffer && !lnurlInfo && (
         <div className="flex space-x-3">
           <button
-            onClick={sendPayment}
+            onClick={() => sendPayment()}
             disabled={loading || decodingInvoice || !paymentRequest}
             className={`flex-1 py-2 px-4 rounded-md text-white font-medium ${
               loading || decodingInvoice || !paymentRequest 
@@ -366,7 +984,7 @@ const LightningSend: React.FC = () => {
           </button>
           
           <button
-            onClick={decodeInvoice}
+            onClick={() => decodeInvoice()}
             disabled={loading || decodingInvoice || !paymentRequest}
             className={`flex-1 py-2 px-4 border rounded-md font-medium ${
               loading || decodingInvoice || !paymentRequest 
@@ -381,11 +999,12 @@ const LightningSend: React.FC = () => {
       
       {decodedInvoice && renderDecodedInvoice()}
       
-      {loading && paymentResult?.result?.status === 'IN_FLIGHT' && (
-        <div className="text-center text-sm text-slate-600">
-          <p>Payment in progress...</p>
-          <p className="text-xs mt-1">{paymentResult.result.status}</p>
-        </div>
+      {decodedOffer && renderOffer()}
+      
+      {lnurlInfo && renderLnurlPay()}
+      
+      {resolvingLnurl && !lnurlInfo && (
+        <div className="text-center text-sm text-slate-600">Looking up payment details...</div>
       )}
     </div>
   );
@@ -426,6 +1045,11 @@ const LightningSend: React.FC = () => {
                 <div className="text-xs text-slate-500">Amount</div>
                 <div className="text-slate-800 font-medium">
                   {result.value_sat} sats
+                  {formatSats(Number(result.value_sat)) && (
+                    <span className="ml-2 text-sm font-normal text-slate-500">
+                      ≈ {formatSats(Number(result.value_sat))}
+                    </span>
+                  )}
                 </div>
               </div>
               
@@ -443,6 +1067,35 @@ const LightningSend: React.FC = () => {
                 </div>
               </div>
               
+              {mode === 'keysend' && (
+                <div>
+                  <div className="text-xs text-slate-500">Sent to node</div>
+                  <div className="text-xs font-mono text-slate-800 break-all">{destination.trim()}</div>
+                  {keysendMessage && (
+                    <div className="text-slate-800 mt-1">&ldquo;{keysendMessage}&rdquo;</div>
+                  )}
+                </div>
+              )}
+              
+              {successAction && (successAction.message || successAction.url || successAction.description) && (
+                <div>
+                  <div className="text-xs text-slate-500">Message from recipient</div>
+                  <div className="text-slate-800">
+                    {successAction.message || successAction.description}
+                  </div>
+                  {successAction.tag === 'url' && successAction.url && (
+                    <a
+                      href={successAction.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:text-blue-800 break-all"
+                    >
+                      {successAction.url}
+                    </a>
+                  )}
+                </div>
+              )}
+              
               <div>
                 <div className="text-xs text-slate-500">Payment Preimage</div>
                 <div className="text-xs font-mono text-slate-800 break-all">
@@ -453,6 +1106,15 @@ const LightningSend: React.FC = () => {
           )}
         </div>
         
+        {result.htlcs?.length > 0 && (
+          <div className="bg-slate-50 p-4 rounded-md border border-slate-200">
+            <h3 className="font-medium text-slate-800 mb-3">
+              Payment Attempts ({result.htlcs.length})
+            </h3>
+            {renderAttempts(result.htlcs)}
+          </div>
+        )}
+        
         <button
           onClick={reset}
           className="w-full py-2 px-4 border border-slate-300 rounded-md text-slate-700 bg-white hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
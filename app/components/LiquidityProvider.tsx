@@ -0,0 +1,67 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { LiquidityOverview } from '../utils/liquidity';
+import { useEventBus } from '../utils/useEventBus';
+import walletApi from '../utils/walletApi';
+
+// Balances change with every payment, so refresh often and after each one
+const LIQUIDITY_REFRESH_MS = 60 * 1000;
+
+interface LiquidityContextValue {
+  // Latest balances and channels, once loaded
+  liquidity: LiquidityOverview | null;
+  error: string | null;
+  refresh: () => void;
+}
+
+const LiquidityContext = createContext<LiquidityContextValue>({
+  liquidity: null,
+  error: null,
+  refresh: () => {},
+});
+
+export function useLiquidity(): LiquidityContextValue {
+  return useContext(LiquidityContext);
+}
+
+/**
+ * Loads the node's balances and channel liquidity
+ * Shared by the dashboard and the send/receive forms, which warn when an
+ * amount is more than the channels can carry.
+ */
+const LiquidityProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [liquidity, setLiquidity] = useState<LiquidityOverview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(() => {
+    walletApi.getLiquidity()
+      .then(overview => {
+        setLiquidity(overview);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading liquidity:', err);
+        setError('Failed to load node balances.');
+      });
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const timer = setInterval(refresh, LIQUIDITY_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [refresh]);
+
+  useEventBus('payment:sent', payment => {
+    if (payment.status === 'SUCCEEDED') refresh();
+  });
+  useEventBus('transaction:new', invoice => {
+    if (invoice.settled) refresh();
+  });
+
+  const value = useMemo(() => ({ liquidity, error, refresh }), [liquidity, error, refresh]);
+
+  return <LiquidityContext.Provider value={value}>{children}</LiquidityContext.Provider>;
+};
+
+export default LiquidityProvider;
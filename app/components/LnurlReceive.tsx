@@ -0,0 +1,306 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import QRCode from './QRCode';
+import walletApi, { LightningAddressList } from '../utils/walletApi';
+import type { VoucherSummary } from '../utils/lnurlHost';
+
+type Tab = 'address' | 'vouchers';
+
+const EXPIRY_OPTIONS = [
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86400 },
+  { label: '1 week', seconds: 604800 },
+];
+
+const STATUS_STYLES: Record<VoucherSummary['status'], string> = {
+  open: 'bg-blue-100 text-blue-800',
+  pending: 'bg-yellow-100 text-yellow-800',
+  redeemed: 'bg-green-100 text-green-800',
+  revoked: 'bg-slate-200 text-slate-700',
+  expired: 'bg-slate-200 text-slate-700',
+};
+
+/**
+ * Static receiving through the wallet's own LNURL endpoints
+ * Shows the Lightning Address QR for tips and manages LNURL-withdraw vouchers.
+ */
+const LnurlReceive: React.FC = () => {
+  const [tab, setTab] = useState<Tab>('address');
+  const [addresses, setAddresses] = useState<LightningAddressList | null>(null);
+  const [selectedAddress, setSelectedAddress] = useState<number>(0);
+  const [vouchers, setVouchers] = useState<VoucherSummary[]>([]);
+  const [shownVoucher, setShownVoucher] = useState<string | null>(null);
+  const [voucherAmount, setVoucherAmount] = useState<number>(1000);
+  const [voucherDescription, setVoucherDescription] = useState<string>('');
+  const [voucherExpiry, setVoucherExpiry] = useState<number>(86400);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+
+  useEffect(() => {
+    walletApi.getLightningAddresses()
+      .then(setAddresses)
+      .catch(err => {
+        console.error('Error loading Lightning Addresses:', err);
+        setError('Failed to load Lightning Addresses.');
+      });
+  }, []);
+
+  const loadVouchers = useCallback(async () => {
+    try {
+      setVouchers(await walletApi.listVouchers());
+    } catch (err) {
+      console.error('Error loading vouchers:', err);
+      setError('Failed to load vouchers.');
+    }
+  }, []);
+
+  useEffect(() => {
+    if (tab === 'vouchers') {
+      loadVouchers();
+    }
+  }, [tab, loadVouchers]);
+
+  const createVoucher = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const voucher = await walletApi.createVoucher({
+        amount_sat: voucherAmount,
+        description: voucherDescription || undefined,
+        expires_in: voucherExpiry,
+      });
+      setVouchers(current => [voucher, ...current]);
+      setShownVoucher(voucher.id);
+      setVoucherDescription('');
+    } catch (err) {
+      console.error('Error creating voucher:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create voucher.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const revokeVoucher = async (id: string) => {
+    try {
+      setError(null);
+      const updated = await walletApi.revokeVoucher(id);
+      setVouchers(current => current.map(voucher => (voucher.id === id ? updated : voucher)));
+      if (shownVoucher === id) {
+        setShownVoucher(null);
+      }
+    } catch (err) {
+      console.error('Error revoking voucher:', err);
+      setError('Failed to revoke voucher.');
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setCopied(text);
+        setTimeout(() => setCopied(null), 2000);
+      })
+      .catch(err => {
+        console.error('Failed to copy:', err);
+        setError('Failed to copy to clipboard');
+      });
+  };
+
+  const renderCopyable = (label: string, value: string) => (
+    <div className="bg-slate-100 p-3 rounded-md">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-xs text-slate-600 font-medium">{label}</span>
+        <button
+          onClick={() => copyToClipboard(value)}
+          className="text-xs text-blue-600 hover:text-blue-800 font-medium"
+        >
+          {copied === value ? 'Copied!' : 'Copy'}
+        </button>
+      </div>
+      <div className="text-xs font-mono break-all text-slate-800">{value}</div>
+    </div>
+  );
+
+  const renderAddress = () => {
+    if (!addresses) {
+      return <p className="text-sm text-slate-500 text-center">Loading...</p>;
+    }
+    if (addresses.addresses.length === 0) {
+      return <p className="text-sm text-slate-500 text-center">No Lightning Addresses are configured.</p>;
+    }
+
+    const current = addresses.addresses[Math.min(selectedAddress, addresses.addresses.length - 1)];
+
+    return (
+      <div className="space-y-4">
+        {addresses.addresses.length > 1 && (
+          <select
+            value={selectedAddress}
+            onChange={(e) => setSelectedAddress(Number(e.target.value))}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm text-slate-800 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          >
+            {addresses.addresses.map((entry, index) => (
+              <option key={entry.name} value={index}>{entry.address}</option>
+            ))}
+          </select>
+        )}
+
+        <QRCode data={`lightning:${current.lnurl}`} size={200} />
+
+        <p className="text-center text-sm text-slate-600">
+          Anyone can pay {addresses.minSendableSat.toLocaleString()} to {addresses.maxSendableSat.toLocaleString()} sats
+          to this static code. Each payment gets its own invoice.
+        </p>
+
+        {renderCopyable('Lightning Address', current.address)}
+        {renderCopyable('LNURL', current.lnurl)}
+      </div>
+    );
+  };
+
+  const renderVouchers = () => {
+    const shown = vouchers.find(voucher => voucher.id === shownVoucher && voucher.status === 'open');
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label htmlFor="voucher-amount" className="block text-sm font-medium text-slate-700 mb-1">
+              Amount (sats)
+            </label>
+            <input
+              type="number"
+              id="voucher-amount"
+              value={voucherAmount}
+              onChange={(e) => setVoucherAmount(parseInt(e.target.value) || 0)}
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              min="1"
+            />
+          </div>
+          <div>
+            <label htmlFor="voucher-expiry" className="block text-sm font-medium text-slate-700 mb-1">
+              Valid for
+            </label>
+            <select
+              id="voucher-expiry"
+              value={voucherExpiry}
+              onChange={(e) => setVoucherExpiry(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm text-slate-800 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+            >
+              {EXPIRY_OPTIONS.map(option => (
+                <option key={option.seconds} value={option.seconds}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="voucher-description" className="block text-sm font-medium text-slate-700 mb-1">
+            Description (optional)
+          </label>
+          <input
+            type="text"
+            id="voucher-description"
+            value={voucherDescription}
+            onChange={(e) => setVoucherDescription(e.target.value)}
+            className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        <button
+          onClick={createVoucher}
+          disabled={loading || voucherAmount <= 0}
+          className={`w-full py-2 px-4 rounded-md text-white font-medium ${
+            loading || voucherAmount <= 0
+              ? 'bg-slate-400 cursor-not-allowed'
+              : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+          }`}
+        >
+          {loading ? 'Creating...' : 'Create Voucher'}
+        </button>
+
+        {shown && (
+          <div className="space-y-3 border border-slate-200 rounded-md p-4">
+            <QRCode data={`lightning:${shown.lnurl}`} size={200} />
+            <p className="text-center text-sm text-slate-600">
+              Whoever scans this can withdraw {shown.amountSat.toLocaleString()} sats once,
+              until {format(new Date(shown.expiresAt), 'MMM d, HH:mm')}.
+            </p>
+            {renderCopyable('LNURL-withdraw', shown.lnurl)}
+          </div>
+        )}
+
+        {vouchers.length > 0 && (
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="text-sm font-medium text-slate-700">Vouchers</h3>
+              <button onClick={loadVouchers} className="text-xs text-blue-600 hover:text-blue-800 font-medium">
+                Refresh
+              </button>
+            </div>
+            <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md">
+              {vouchers.map(voucher => (
+                <li key={voucher.id} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <button
+                    onClick={() => setShownVoucher(voucher.id)}
+                    disabled={voucher.status !== 'open'}
+                    className="text-left disabled:cursor-default"
+                  >
+                    <span className="font-medium text-slate-800">{voucher.amountSat.toLocaleString()} sats</span>
+                    <span className="block text-xs text-slate-500">{voucher.description}</span>
+                  </button>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[voucher.status]}`}>
+                      {voucher.status}
+                    </span>
+                    {voucher.status === 'open' && (
+                      <button
+                        onClick={() => revokeVoucher(voucher.id)}
+                        className="text-xs text-red-600 hover:text-red-800 font-medium"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-xl shadow-md overflow-hidden md:max-w-2xl p-6">
+      <h2 className="text-2xl font-bold text-center mb-4 text-slate-800">Static Receive</h2>
+
+      <div className="flex mb-6 border-b border-slate-200">
+        {(['address', 'vouchers'] as Tab[]).map(value => (
+          <button
+            key={value}
+            onClick={() => setTab(value)}
+            className={`flex-1 py-2 text-sm font-medium ${
+              tab === value ? 'text-blue-600 border-b-2 border-blue-600' : 'text-slate-500 hover:text-slate-700'
+            }`}
+          >
+            {value === 'address' ? 'Lightning Address' : 'Withdraw Vouchers'}
+          </button>
+        ))}
+      </div>
+
+      {tab === 'address' ? renderAddress() : renderVouchers()}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LnurlReceive;
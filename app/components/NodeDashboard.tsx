@@ -0,0 +1,116 @@
+"use client";
+
+import React from 'react';
+import { ChannelLiquidity, spendable } from '../utils/liquidity';
+import { useFiat } from './FiatProvider';
+import { useLiquidity } from './LiquidityProvider';
+
+const formatSat = (sats: number) => `${sats.toLocaleString()} sats`;
+
+/**
+ * Overview of the node's funds: on-chain and channel balances, how much can be
+ * sent and received, and the local/remote split of every channel.
+ */
+const NodeDashboard: React.FC = () => {
+  const { liquidity, error, refresh } = useLiquidity();
+  const { formatSats } = useFiat();
+
+  const renderBalance = (label: string, sats: number, note?: string) => (
+    <div className="bg-slate-50 border border-slate-200 rounded-md p-3">
+      <div className="text-xs text-slate-500">{label}</div>
+      <div className="text-lg font-semibold text-slate-800">{formatSat(sats)}</div>
+      {formatSats(sats) && <div className="text-xs text-slate-500">≈ {formatSats(sats)}</div>}
+      {note && <div className="text-xs text-slate-500">{note}</div>}
+    </div>
+  );
+
+  // Local and remote balance as a split bar, with the unusable reserves shaded
+  const renderChannel = (channel: ChannelLiquidity) => {
+    const { outbound, inbound } = spendable(channel);
+    const capacity = channel.capacity || channel.local_balance + channel.remote_balance || 1;
+    const localPercent = (channel.local_balance / capacity) * 100;
+    const remotePercent = (channel.remote_balance / capacity) * 100;
+
+    return (
+      <li key={channel.chan_id} className="px-3 py-3 text-sm">
+        <div className="flex justify-between items-center mb-1">
+          <div className="min-w-0">
+            <span className="font-medium text-slate-800">
+              {channel.peer_alias || `${channel.remote_pubkey.slice(0, 12)}…`}
+            </span>
+            {channel.private && <span className="ml-2 text-xs text-slate-500">private</span>}
+          </div>
+          <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${
+            channel.active ? 'bg-green-100 text-green-800' : 'bg-slate-200 text-slate-700'
+          }`}>
+            {channel.active ? 'active' : 'inactive'}
+          </span>
+        </div>
+        <div className="flex h-2 rounded-full overflow-hidden bg-slate-200" aria-hidden="true">
+          <div className="bg-blue-500" style={{ width: `${localPercent}%` }} />
+          <div className="flex-1" />
+          <div className="bg-green-500" style={{ width: `${remotePercent}%` }} />
+        </div>
+        <div className="flex justify-between text-xs text-slate-500 mt-1">
+          <span>Local {formatSat(channel.local_balance)} · can send {formatSat(outbound)}</span>
+          <span>Remote {formatSat(channel.remote_balance)} · can receive {formatSat(inbound)}</span>
+        </div>
+      </li>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-md overflow-hidden p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-slate-800">Node</h2>
+        <button onClick={refresh} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+          {error}
+        </div>
+      )}
+
+      {!liquidity ? (
+        !error && <p className="text-sm text-slate-500 text-center">Loading...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            {renderBalance(
+              'On-chain',
+              liquidity.onchain.confirmed,
+              liquidity.onchain.unconfirmed > 0 ? `+${formatSat(liquidity.onchain.unconfirmed)} unconfirmed` : undefined
+            )}
+            {renderBalance(
+              'In channels',
+              liquidity.lightning.local,
+              liquidity.lightning.pending_open_local > 0
+                ? `+${formatSat(liquidity.lightning.pending_open_local)} opening`
+                : undefined
+            )}
+            {renderBalance('Can send', liquidity.max_sendable)}
+            {renderBalance('Can receive', liquidity.max_receivable)}
+          </div>
+
+          <h3 className="text-sm font-semibold text-slate-700 mb-2">
+            Channels ({liquidity.channels.filter(channel => channel.active).length} of {liquidity.channels.length} active)
+          </h3>
+          {liquidity.channels.length === 0 ? (
+            <p className="text-sm text-slate-500">
+              No channels yet. Open a channel to send and receive over Lightning.
+            </p>
+          ) : (
+            <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md max-h-96 overflow-y-auto">
+              {liquidity.channels.map(renderChannel)}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NodeDashboard;
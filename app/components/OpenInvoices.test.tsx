@@ -0,0 +1,58 @@
+/** @vitest-environment jsdom */
+
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describe, expect, it, vi } from 'vitest';
+import eventBus, { InvoiceEventPayload } from '../utils/eventBus';
+import type { OpenInvoice } from '../utils/invoices';
+import { jsonResponse, mockApi, notFound } from '../../test/api';
+import OpenInvoices from './OpenInvoices';
+
+const HASH = 'ab'.repeat(32);
+
+function openInvoice(overrides: Partial<OpenInvoice> = {}): OpenInvoice {
+  return {
+    payment_hash: 'cd'.repeat(32),
+    payment_request: 'lnbcrt2500n1popen',
+    value_msat: '250000',
+    memo: 'Deposit',
+    creation_date: Math.floor(Date.now() / 1000),
+    expiry: 3600,
+    status: 'open',
+    ...overrides,
+  };
+}
+
+function walletWith(invoice: OpenInvoice) {
+  return mockApi(request => {
+    if (request.method === 'GET' && request.path === '/api/invoices') return jsonResponse([invoice]);
+    if (request.method === 'POST' && request.path === '/api/invoices') {
+      return jsonResponse({ r_hash: HASH, payment_request: 'lnbcrt2500n1pcopy' });
+    }
+    return notFound(request);
+  });
+}
+
+describe('OpenInvoices', () => {
+  it.each([
+    ['a hold invoice as a hold invoice', true],
+    ['a normal invoice as a normal one', undefined],
+  ])('duplicates %s', async (_, hold) => {
+    const requests = walletWith(openInvoice({ hold }));
+    const selected = vi.fn<(payload: InvoiceEventPayload) => void>();
+    const unsubscribe = eventBus.on('invoice:selected', selected);
+    render(<OpenInvoices />);
+
+    await userEvent.click(await screen.findByRole('button', { name: 'Duplicate' }));
+
+    await waitFor(() => expect(selected).toHaveBeenCalled());
+    expect(requests.find(request => request.method === 'POST')?.body).toEqual({
+      value_msat: '250000',
+      memo: 'Deposit',
+      expiry: '3600',
+      hold,
+    });
+    expect(selected.mock.calls[0][0]).toMatchObject({ payment_hash: HASH, hold });
+    unsubscribe();
+  });
+});
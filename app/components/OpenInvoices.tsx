@@ -0,0 +1,251 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from 'react';
+import eventBus from '../utils/eventBus';
+import walletApi from '../utils/walletApi';
+import { useEventBus } from '../utils/useEventBus';
+import { normalizePaymentHash } from '../utils/transactions';
+import {
+  DEADLINE_WARNING_BLOCKS,
+  formatBlocks,
+  formatCountdown,
+  invoiceExpiry,
+  InvoiceLifecycleStatus,
+  OpenInvoice,
+} from '../utils/invoices';
+import type { InvoiceEventPayload } from '../utils/eventBus';
+
+// Refresh from the node periodically to catch payments and cancellations made elsewhere
+const REFRESH_INTERVAL_MS = 30000;
+
+const STATUS_STYLES: Record<InvoiceLifecycleStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-yellow-100 text-yellow-800',
+  expired: 'bg-slate-200 text-slate-700',
+  canceled: 'bg-red-100 text-red-800',
+};
+
+// Convert a listed invoice into the payload other components expect
+function toEventPayload(invoice: OpenInvoice): InvoiceEventPayload {
+  return {
+    payment_request: invoice.payment_request,
+    payment_hash: invoice.payment_hash,
+    value_msat: invoice.value_msat,
+    timestamp: String(invoice.creation_date),
+    expiry: String(invoice.expiry),
+    memo: invoice.memo,
+    settled: false,
+    hold: invoice.hold,
+  };
+}
+
+/**
+ * Unsettled invoices on the node, with a live expiry countdown
+ * Open invoices can be shown again, duplicated or canceled, and accepted hold
+ * invoices settled before their deadline.
+ */
+const OpenInvoices: React.FC = () => {
+  const [invoices, setInvoices] = useState<OpenInvoice[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busyHash, setBusyHash] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState<number>(() => Date.now());
+
+  const loadInvoices = useCallback(async () => {
+    try {
+      setInvoices(await walletApi.listInvoices());
+      setError(null);
+    } catch (err) {
+      console.error('Error loading invoices:', err);
+      setError('Failed to load open invoices.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadInvoices();
+    const timer = setInterval(loadInvoices, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [loadInvoices]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  // New invoices appear and settled ones drop out as soon as this wallet sees them
+  useEventBus('invoice:created', () => loadInvoices());
+  useEventBus('invoice:accepted', () => loadInvoices());
+  useEventBus('transaction:new', settled => {
+    const settledHash = normalizePaymentHash(settled.payment_hash);
+    setInvoices(current => current.filter(invoice => invoice.payment_hash !== settledHash));
+  });
+
+  const cancelInvoice = async (invoice: OpenInvoice) => {
+    try {
+      setBusyHash(invoice.payment_hash);
+      setError(null);
+      await walletApi.cancelInvoice(invoice.payment_hash);
+      await loadInvoices();
+    } catch (err) {
+      console.error('Error canceling invoice:', err);
+      setError('Failed to cancel invoice.');
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  const settleInvoice = async (invoice: OpenInvoice) => {
+    try {
+      setBusyHash(invoice.payment_hash);
+      setError(null);
+      await walletApi.settleInvoice(invoice.payment_hash);
+      eventBus.emit('transaction:new', { ...toEventPayload(invoice), settled: true });
+    } catch (err) {
+      console.error('Error settling invoice:', err);
+      setError('Failed to settle invoice.');
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  // Create a fresh invoice of the same kind with the same amount, memo and expiry, and show it
+  const duplicateInvoice = async (invoice: OpenInvoice) => {
+    try {
+      setBusyHash(invoice.payment_hash);
+      setError(null);
+      const created = await walletApi.addInvoice({
+        value_msat: invoice.value_msat,
+        memo: invoice.memo,
+        expiry: String(invoice.expiry),
+        hold: invoice.hold,
+      });
+
+      const payload: InvoiceEventPayload = {
+        payment_request: created.payment_request,
+        payment_hash: created.r_hash,
+        value_msat: invoice.value_msat,
+        timestamp: Math.floor(Date.now() / 1000) + '',
+        expiry: String(invoice.expiry),
+        memo: invoice.memo,
+        settled: false,
+        hold: invoice.hold,
+      };
+      eventBus.emit('invoice:created', payload);
+      eventBus.emit('invoice:selected', payload);
+    } catch (err) {
+      console.error('Error duplicating invoice:', err);
+      setError('Failed to duplicate invoice.');
+    } finally {
+      setBusyHash(null);
+    }
+  };
+
+  // Open invoices whose countdown ran out are shown as expired without waiting for a refresh
+  const statusOf = (invoice: OpenInvoice): InvoiceLifecycleStatus =>
+    invoice.status === 'open' && invoiceExpiry(invoice) * 1000 <= now ? 'expired' : invoice.status;
+
+  return (
+    <div className="max-w-md mx-auto bg-white rounded-xl shadow-md overflow-hidden md:max-w-2xl p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-2xl font-bold text-slate-800">Open Invoices</h2>
+        <button onClick={loadInvoices} className="text-sm text-blue-600 hover:text-blue-800 font-medium">
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500 text-center">Loading...</p>
+      ) : invoices.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center">No unsettled invoices.</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 border border-slate-200 rounded-md max-h-96 overflow-y-auto">
+          {invoices.map(invoice => {
+            const status = statusOf(invoice);
+            const busy = busyHash === invoice.payment_hash;
+
+            return (
+              <li key={invoice.payment_hash} className="px-3 py-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <span className="font-medium text-slate-800">
+                      {(Number(invoice.value_msat) / 1000).toLocaleString()} sats
+                    </span>
+                    <span className="block text-xs text-slate-500">{invoice.memo || 'No memo'}</span>
+                  </div>
+                  <div className="text-right">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[status]}`}>
+                      {status}
+                    </span>
+                    {invoice.hold && (
+                      <span className="ml-1 px-2 py-0.5 text-xs font-semibold rounded-full bg-purple-100 text-purple-800">
+                        hold
+                      </span>
+                    )}
+                    {status === 'open' && (
+                      <span className="block text-xs font-mono text-slate-500 mt-1">
+                        {formatCountdown(invoiceExpiry(invoice) - now / 1000)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+                {status === 'accepted' && invoice.blocks_left !== undefined && (
+                  <p className={`mt-1 text-xs font-medium ${
+                    invoice.blocks_left <= DEADLINE_WARNING_BLOCKS ? 'text-red-600' : 'text-slate-500'
+                  }`}>
+                    {invoice.blocks_left <= DEADLINE_WARNING_BLOCKS ? '⚠ Deadline close: ' : ''}
+                    {formatBlocks(invoice.blocks_left)} left before the payment times out
+                  </p>
+                )}
+                <div className="flex space-x-3 mt-2 text-xs font-medium">
+                  {status === 'open' && (
+                    <button
+                      onClick={() => eventBus.emit('invoice:selected', toEventPayload(invoice))}
+                      className="text-blue-600 hover:text-blue-800"
+                    >
+                      Show
+                    </button>
+                  )}
+                  <button
+                    onClick={() => duplicateInvoice(invoice)}
+                    disabled={busy}
+                    className="text-blue-600 hover:text-blue-800 disabled:text-slate-400"
+                  >
+                    Duplicate
+                  </button>
+                  {status === 'accepted' && invoice.hold && (
+                    <button
+                      onClick={() => settleInvoice(invoice)}
+                      disabled={busy}
+                      className="text-green-600 hover:text-green-800 disabled:text-slate-400"
+                    >
+                      Settle
+                    </button>
+                  )}
+                  {(status === 'open' || status === 'accepted') && (
+                    <button
+                      onClick={() => cancelInvoice(invoice)}
+                      disabled={busy}
+                      className="text-red-600 hover:text-red-800 disabled:text-slate-400"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OpenInvoices;
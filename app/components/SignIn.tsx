@@ -0,0 +1,68 @@
+"use client";
+
+import React, { useState } from 'react';
+import walletApi from '../utils/walletApi';
+import { safeRedirectPath } from '../utils/auth';
+
+const SignIn: React.FC = () => {
+  const [token, setToken] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      setLoading(true);
+      setError(null);
+      await walletApi.signIn(token);
+      // Back to the page the middleware sent us here from
+      window.location.assign(safeRedirectPath(new URLSearchParams(window.location.search).get('next')));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={signIn} className="max-w-md mx-auto bg-white rounded-xl shadow-md overflow-hidden p-6 space-y-4">
+      <h2 className="text-2xl font-bold text-center text-slate-800">Sign In</h2>
+
+      <div>
+        <label htmlFor="accessToken" className="block text-sm font-medium text-slate-700 mb-1">
+          Access token
+        </label>
+        <input
+          id="accessToken"
+          type="password"
+          autoComplete="current-password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+          disabled={loading}
+        />
+        <div className="text-xs text-slate-500 mt-1">The server&apos;s WALLET_ACCESS_TOKEN</div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={loading || token === ''}
+        className={`w-full py-2 px-4 rounded-md text-white font-medium ${
+          loading || token === ''
+            ? 'bg-slate-400 cursor-not-allowed'
+            : 'bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500'
+        }`}
+      >
+        {loading ? 'Signing in...' : 'Sign In'}
+      </button>
+
+      {error && (
+        <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+          {error}
+        </div>
+      )}
+    </form>
+  );
+};
+
+export default SignIn;
@@ -0,0 +1,334 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes } from '@noble/hashes/utils';
+import walletApi from '../utils/walletApi';
+import { formatMsat } from '../utils/amounts';
+import { decodeBolt11, DecodedPaymentRequest } from '../utils/bolt11';
+import { invoiceKeysendMessage } from '../utils/keysend';
+import { formatHtlcFailure, HTLC, TransactionDetail } from '../utils/payments';
+import { normalizePaymentHash } from '../utils/transactions';
+
+interface TransactionDrawerProps {
+  paymentHash: string;
+  onClose: () => void;
+}
+
+// Fields common to sent and received transactions, pulled out of the node's response
+function summarize(detail: TransactionDetail) {
+  if (detail.type === 'sent') {
+    const { payment } = detail;
+    return {
+      paymentHash: normalizePaymentHash(payment.payment_hash),
+      preimage: payment.payment_preimage && !/^0+$/.test(payment.payment_preimage)
+        ? normalizePaymentHash(payment.payment_preimage)
+        : '',
+      paymentRequest: payment.payment_request || '',
+      amountMsat: payment.value_msat,
+      feeMsat: payment.fee_msat,
+      status: payment.status,
+      timestamp: Math.floor(Number(payment.creation_time_ns) / 1e9),
+    };
+  }
+
+  const { invoice } = detail;
+  return {
+    paymentHash: normalizePaymentHash(invoice.r_hash),
+    preimage: invoice.r_preimage ? normalizePaymentHash(invoice.r_preimage) : '',
+    paymentRequest: invoice.payment_request || '',
+    amountMsat: invoice.amt_paid_msat && invoice.amt_paid_msat !== '0' ? invoice.amt_paid_msat : invoice.value_msat,
+    feeMsat: '0',
+    status: invoice.state,
+    timestamp: Number(invoice.creation_date),
+  };
+}
+
+// Check a preimage against a payment hash: sha256(preimage) must equal the hash
+function preimageMatches(preimage: string, paymentHash: string): boolean {
+  try {
+    return bytesToHex(sha256(hexToBytes(preimage))) === paymentHash;
+  } catch {
+    return false;
+  }
+}
+
+const shorten = (value: string) => (value.length > 20 ? `${value.slice(0, 10)}…${value.slice(-8)}` : value);
+
+/**
+ * Side drawer with everything known about one transaction
+ * Shows the hash and preimage (with a check that they match), the route and
+ * per-hop fees of each HTLC, the decoded BOLT11 invoice and the raw node data.
+ */
+const TransactionDrawer: React.FC<TransactionDrawerProps> = ({ paymentHash, onClose }) => {
+  const [detail, setDetail] = useState<TransactionDetail | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const [preimageCheck, setPreimageCheck] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    setDetail(null);
+    setPreimageCheck(null);
+
+    walletApi.getTransactionDetail(paymentHash)
+      .then(result => {
+        if (!cancelled) setDetail(result);
+      })
+      .catch(err => {
+        console.error('Error loading transaction:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load transaction.');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [paymentHash]);
+
+  // Close on Escape
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const summary = useMemo(() => (detail ? summarize(detail) : null), [detail]);
+  const keysendMessage = detail?.type === 'received' ? invoiceKeysendMessage(detail.invoice) : null;
+
+  const decoded = useMemo((): { invoice?: DecodedPaymentRequest; error?: string } | null => {
+    if (!summary?.paymentRequest) return null;
+    try {
+      return { invoice: decodeBolt11(summary.paymentRequest) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid invoice' };
+    }
+  }, [summary]);
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text)
+      .then(() => {
+        setCopied(text);
+        setTimeout(() => setCopied(null), 2000);
+      })
+      .catch(err => console.error('Failed to copy:', err));
+  };
+
+  const shareLink = () => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('tx', paymentHash);
+    copyToClipboard(url.toString());
+  };
+
+  const renderCopyable = (label: string, value: string, action?: React.ReactNode) => (
+    <div className="bg-slate-100 p-3 rounded-md">
+      <div className="flex justify-between items-center mb-1">
+        <span className="text-xs text-slate-600 font-medium">{label}</span>
+        <div className="flex space-x-3 text-xs font-medium">
+          {action}
+          <button onClick={() => copyToClipboard(value)} className="text-blue-600 hover:text-blue-800">
+            {copied === value ? 'Copied!' : 'Copy'}
+          </button>
+        </div>
+      </div>
+      <div className="text-xs font-mono break-all text-slate-800">{value}</div>
+    </div>
+  );
+
+  // Route of one HTLC attempt with the amount forwarded and fee charged at each hop
+  const renderRoute = (htlc: HTLC, index: number) => (
+    <div key={htlc.attempt_id || index} className="border border-slate-200 rounded-md p-3">
+      <div className="flex justify-between text-sm mb-2">
+        <span className="font-medium text-slate-800">Attempt {index + 1}</span>
+        <span className={htlc.status === 'SUCCEEDED' ? 'text-green-600' : htlc.status === 'FAILED' ? 'text-red-600' : 'text-yellow-600'}>
+          {htlc.status.toLowerCase().replace('_', ' ')}
+        </span>
+      </div>
+      {htlc.failure && (
+        <div className="text-xs text-red-600 mb-2">{formatHtlcFailure(htlc.failure)}</div>
+      )}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 pr-2">Hop</th>
+            <th className="py-1 pr-2">Node</th>
+            <th className="py-1 pr-2">Channel</th>
+            <th className="py-1 pr-2 text-right">Forwarded</th>
+            <th className="py-1 text-right">Fee</th>
+          </tr>
+        </thead>
+        <tbody className="text-slate-800">
+          {(htlc.route?.hops ?? []).map((hop, hopIndex) => (
+            <tr key={`${hop.chan_id}-${hopIndex}`} className="border-t border-slate-100">
+              <td className="py-1 pr-2">{hopIndex + 1}</td>
+              <td className="py-1 pr-2 font-mono" title={hop.pub_key}>{shorten(hop.pub_key)}</td>
+              <td className="py-1 pr-2 font-mono">{hop.chan_id}</td>
+              <td className="py-1 pr-2 text-right">{formatMsat(hop.amt_to_forward_msat || '0')}</td>
+              <td className="py-1 text-right">{formatMsat(hop.fee_msat || '0')}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr className="border-t border-slate-200 font-medium text-slate-800">
+            <td colSpan={4} className="py-1 pr-2 text-right">Total fees</td>
+            <td className="py-1 text-right">{formatMsat(htlc.route?.total_fees_msat || '0')}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+
+  const renderDecodedInvoice = () => {
+    if (!decoded) return null;
+    if (decoded.error || !decoded.invoice) {
+      return <p className="text-xs text-red-600">Could not decode invoice: {decoded.error}</p>;
+    }
+
+    const invoice = decoded.invoice;
+    const fields: [string, string][] = [
+      ['Network', invoice.network || invoice.currency || ''],
+      ['Amount', invoice.num_msat !== '0' ? formatMsat(invoice.num_msat) : 'Any amount'],
+      ['Description', invoice.description || (invoice.description_hash ? `hash ${shorten(invoice.description_hash)}` : '')],
+      ['Created', new Date(Number(invoice.timestamp) * 1000).toLocaleString()],
+      ['Expires', new Date((Number(invoice.timestamp) + Number(invoice.expiry)) * 1000).toLocaleString()],
+      ['Payee', invoice.destination],
+      ['Final CLTV delta', invoice.cltv_expiry],
+      ['Route hints', String(invoice.route_hints.length)],
+      ['Features', Object.values(invoice.features).map(feature => feature.name).filter(Boolean).join(', ')],
+    ];
+
+    return (
+      <dl className="grid grid-cols-3 gap-x-2 gap-y-1 text-xs">
+        {fields.filter(([, value]) => value).map(([label, value]) => (
+          <React.Fragment key={label}>
+            <dt className="text-slate-500">{label}</dt>
+            <dd className="col-span-2 text-slate-800 break-all">{value}</dd>
+          </React.Fragment>
+        ))}
+      </dl>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} aria-hidden="true" />
+      <aside
+        className="relative w-full max-w-lg h-full bg-white shadow-xl overflow-y-auto p-6 space-y-5"
+        role="dialog"
+        aria-label="Transaction details"
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-xl font-bold text-slate-800">Transaction Details</h2>
+          <div className="flex space-x-3 text-sm font-medium">
+            <button onClick={shareLink} className="text-blue-600 hover:text-blue-800">
+              {copied?.includes(`tx=${paymentHash}`) ? 'Link copied!' : 'Copy link'}
+            </button>
+            <button onClick={onClose} className="text-slate-500 hover:text-slate-700" aria-label="Close">
+              ✕
+            </button>
+          </div>
+        </div>
+
+        {loading && <p className="text-sm text-slate-500">Loading...</p>}
+
+        {error && (
+          <div className="p-3 bg-red-50 text-red-700 rounded-md text-sm font-medium border border-red-200">
+            {error}
+          </div>
+        )}
+
+        {detail && summary && (
+          <>
+            <div>
+              <div className={`text-sm font-medium ${detail.type === 'sent' ? 'text-orange-600' : 'text-green-600'}`}>
+                {detail.type === 'sent' ? '↗️ Sent' : '↘️ Received'} · {summary.status.toLowerCase().replace('_', ' ')}
+              </div>
+              <div className="text-3xl font-bold text-slate-800">{formatMsat(summary.amountMsat || '0')}</div>
+              {detail.type === 'sent' && (
+                <div className="text-sm text-slate-500">Fee {formatMsat(summary.feeMsat || '0')}</div>
+              )}
+              {summary.timestamp > 0 && (
+                <div className="text-sm text-slate-500">{new Date(summary.timestamp * 1000).toLocaleString()}</div>
+              )}
+            </div>
+
+            {keysendMessage && (
+              <section className="space-y-1">
+                <h3 className="text-sm font-semibold text-slate-700">Keysend message</h3>
+                <p className="text-sm text-slate-800 whitespace-pre-wrap break-words bg-slate-50 border border-slate-200 rounded-md p-3">
+                  {keysendMessage}
+                </p>
+              </section>
+            )}
+
+            {renderCopyable('Payment hash', summary.paymentHash)}
+
+            {summary.preimage && renderCopyable(
+              'Preimage',
+              summary.preimage,
+              <button
+                onClick={() => setPreimageCheck(preimageMatches(summary.preimage, summary.paymentHash))}
+                className="text-blue-600 hover:text-blue-800"
+              >
+                Verify
+              </button>
+            )}
+            {preimageCheck !== null && (
+              <p className={`text-xs font-medium ${preimageCheck ? 'text-green-600' : 'text-red-600'}`}>
+                {preimageCheck
+                  ? '✓ sha256(preimage) matches the payment hash'
+                  : '✗ The preimage does not match the payment hash'}
+              </p>
+            )}
+
+            {detail.type === 'sent' && detail.payment.htlcs?.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">Route</h3>
+                {detail.payment.htlcs.map(renderRoute)}
+              </section>
+            )}
+
+            {detail.type === 'received' && (detail.invoice.htlcs?.length ?? 0) > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">Incoming HTLCs</h3>
+                <ul className="text-xs divide-y divide-slate-100 border border-slate-200 rounded-md">
+                  {detail.invoice.htlcs?.map((htlc, index) => (
+                    <li key={`${htlc.chan_id}-${index}`} className="flex justify-between px-3 py-2">
+                      <span className="font-mono">{htlc.chan_id}</span>
+                      <span>{formatMsat(htlc.amt_msat || '0')}</span>
+                      <span className="text-slate-500">{htlc.state.toLowerCase()}</span>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
+
+            {summary.paymentRequest && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold text-slate-700">Invoice</h3>
+                {renderDecodedInvoice()}
+                {renderCopyable('BOLT11', summary.paymentRequest)}
+              </section>
+            )}
+
+            <details className="text-xs">
+              <summary className="cursor-pointer text-slate-600 font-medium">Raw data</summary>
+              <pre className="mt-2 p-3 bg-slate-100 rounded-md overflow-x-auto text-slate-800">
+                {JSON.stringify(detail.type === 'sent' ? detail.payment : detail.invoice, null, 2)}
+              </pre>
+            </details>
+          </>
+        )}
+      </aside>
+    </div>
+  );
+};
+
+export default TransactionDrawer;
@@ -0,0 +1,154 @@
+/** @vitest-environment jsdom */
+
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { Transaction } from 'flndr';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiRequest, jsonResponse, mockApi, notFound } from '../../test/api';
+import { makeTransactions } from '../../test/fixtures';
+import TransactionHistory from './TransactionHistory';
+
+/**
+ * History endpoint paging through rows newest first
+ * Cursors point at the next row, so a page requested with a stale cursor
+ * shows up as a repeated cursor in the requests.
+ */
+function historyServer(rows: Transaction[], hold?: (request: ApiRequest) => Promise<void> | undefined) {
+  return mockApi(async request => {
+    if (request.path !== '/api/history') return notFound(request);
+    await hold?.(request);
+
+    const types = request.query.get('types')?.split(',');
+    const statuses = request.query.get('statuses')?.split(',');
+    const matching = rows.filter(tx =>
+      (!types || types.includes(tx.type)) && (!statuses || statuses.includes(tx.status))
+    );
+
+    const limit = Number(request.query.get('limit'));
+    const cursor = request.query.get('payment_cursor');
+    const start = cursor ? Number(cursor) : Number(request.query.get('offset'));
+    const end = Math.min(start + limit, matching.length);
+    const hasMore = end < matching.length;
+
+    return jsonResponse({
+      transactions: matching.slice(start, end),
+      offset: start,
+      limit,
+      has_more: hasMore,
+      total_count: matching.length,
+      next_cursor: hasMore
+        ? { offset: end, limit, payment_cursor: String(end), invoice_cursor: String(end) }
+        : undefined,
+    });
+  });
+}
+
+// The "n of approximately m transactions loaded" line under the table
+const loadedSummary = (text: string) => screen.getByText((_, element) =>
+  element?.tagName === 'DIV' && element.textContent === text
+);
+
+const pages = (requests: ApiRequest[]) => requests
+  .filter(request => request.path === '/api/history')
+  .map(request => ({
+    offset: request.query.get('offset'),
+    limit: request.query.get('limit'),
+    cursor: request.query.get('payment_cursor'),
+  }));
+
+describe('TransactionHistory', () => {
+  beforeEach(() => {
+    window.history.replaceState(null, '', '/');
+    // jsdom has no IndexedDB, so the offline cache reports errors
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    window.history.replaceState(null, '', '/');
+  });
+
+  it('loads each page once, continuing from the cursor of the page before', async () => {
+    const requests = historyServer(makeTransactions(35));
+    render(<TransactionHistory />);
+
+    expect(await screen.findByText('Transaction 0')).toBeTruthy();
+    // The table asks for more while fewer rows are loaded than it keeps ahead of the viewport
+    await screen.findByText(/reached the end of the list/);
+
+    expect(pages(requests)).toEqual([
+      { offset: '0', limit: '10', cursor: null },
+      { offset: '10', limit: '10', cursor: '10' },
+      { offset: '20', limit: '10', cursor: '20' },
+      { offset: '30', limit: '10', cursor: '30' },
+    ]);
+    expect(loadedSummary('35 of approximately 35 transactions loaded')).toBeTruthy();
+  });
+
+  it('applies type and status filters from the first page and puts them in the URL', async () => {
+    const rows = [
+      ...makeTransactions(4),
+      { ...makeTransactions(1, 4)[0], type: 'sent', status: 'failed', description: 'Failed zap' } as Transaction,
+    ];
+    const requests = historyServer(rows);
+    render(<TransactionHistory />);
+    await screen.findByText('Transaction 0');
+
+    const user = userEvent.setup();
+    await user.click(screen.getByLabelText('Sent Payments'));
+    await user.click(screen.getByLabelText('Failed'));
+    await user.click(screen.getByRole('button', { name: 'Apply Filters' }));
+
+    expect(await screen.findByText('Failed zap')).toBeTruthy();
+    await waitFor(() => expect(screen.queryByText('Transaction 0')).toBeNull());
+
+    const filtered = requests.filter(request => request.query.get('types'));
+    expect(filtered).toHaveLength(1);
+    expect(filtered[0].query.get('types')).toBe('sent');
+    expect(filtered[0].query.get('statuses')).toBe('failed');
+    expect(filtered[0].query.get('offset')).toBe('0');
+    expect(filtered[0].query.get('payment_cursor')).toBeNull();
+    expect(window.location.search).toBe('?types=sent&statuses=failed');
+  });
+
+  it('starts over with the new page size, once, and keeps it for later pages', async () => {
+    const requests = historyServer(makeTransactions(80));
+    render(<TransactionHistory />);
+    await screen.findByText('Transaction 0');
+    await waitFor(() => expect(pages(requests)).toHaveLength(4));
+
+    const user = userEvent.setup();
+    await user.selectOptions(screen.getByDisplayValue('10'), '25');
+
+    await waitFor(() => expect(pages(requests).slice(4)).toEqual([
+      { offset: '0', limit: '25', cursor: null },
+      { offset: '25', limit: '25', cursor: '25' },
+    ]));
+  });
+
+  it('drops a page that was still loading when the filters changed', async () => {
+    let releasePage: () => void = () => {};
+    const pageHeld = new Promise<void>(resolve => {
+      releasePage = resolve;
+    });
+    const requests = historyServer(
+      makeTransactions(30),
+      request => !request.query.get('types') && request.query.get('payment_cursor') === '10' ? pageHeld : undefined
+    );
+    render(<TransactionHistory />);
+    await screen.findByText('Transaction 0');
+    await waitFor(() => expect(pages(requests)).toHaveLength(2));
+
+    const user = userEvent.setup();
+    await user.click(screen.getByLabelText('Received Payments'));
+    await user.click(screen.getByRole('button', { name: 'Apply Filters' }));
+    await screen.findByText(/reached the end of the list/);
+
+    releasePage();
+    await pageHeld;
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    // Only received rows: the held page of unfiltered rows was not appended
+    expect(loadedSummary('15 of approximately 15 transactions loaded')).toBeTruthy();
+    expect(screen.queryByText('Transaction 11')).toBeNull();
+  });
+});
@@ -1,14 +1,42 @@
 "use client"
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { LndClient, Transaction, TransactionType, TransactionStatus, ListTransactionHistoryResponse } from 'flndr';
-
-// Define filter state type
-interface FilterState {
-  types: TransactionType[] | null;
-  statuses: TransactionStatus[] | null;
-  startDate: string | null;
-  endDate: string | null;
-}
+import type { Transaction, TransactionType, TransactionStatus, ListTransactionHistoryResponse } from 'flndr';
+import { format, formatDistanceToNow, startOfMonth, startOfYear, subDays } from 'date-fns';
+import walletApi from '../utils/walletApi';
+import { useEventBus } from '../utils/useEventBus';
+import { FiatSnapshot, formatFiat, satsToFiat } from '../utils/amounts';
+import {
+  getLastSynced,
+  loadCachedTransactions,
+  saveTransactions,
+  syncTransactionCache,
+} from '../utils/transactionCache';
+import { EXPORT_FORMATS, ExportFormat } from '../utils/ledgerExport';
+import { useFiat } from './FiatProvider';
+import TransactionDrawer from './TransactionDrawer';
+import TransactionTable from './TransactionTable';
+import {
+  EMPTY_FILTERS,
+  FilterState,
+  filtersFromUrlParams,
+  filtersToSearch,
+  filtersToUrlParams,
+  invoiceToTransaction,
+  matchesFilters,
+  mergeTransactions,
+  normalizePaymentHash,
+  paymentToTransaction,
+  transactionKey,
+} from '../utils/transactions';
+
+// Quick date ranges offered above the date inputs; the end date is left open
+const DATE_PRESETS = [
+  { label: 'Today', start: () => new Date() },
+  { label: 'Last 7 days', start: () => subDays(new Date(), 6) },
+  { label: 'Last 30 days', start: () => subDays(new Date(), 29) },
+  { label: 'This month', start: () => startOfMonth(new Date()) },
+  { label: 'This year', start: () => startOfYear(new Date()) },
+];
 
 // Interface for pagination state to include cursors
 interface PaginationState {
@@ -18,25 +46,31 @@ interface PaginationState {
   invoice_cursor?: string;
 }
 
-const TransactionHistory: React.FC = () => {
-  // Initialize the LND client
-  const lndClient = useMemo(() => new LndClient({
-    baseUrl: process.env.NEXT_PUBLIC_LND_REST_API_URL || 'https://your-lnd-proxy:8080',
-    macaroon: process.env.NEXT_PUBLIC_LND_MACAROON || '',
-  }), []);
+// A history response built from cached rows; everything is already loaded, so there is no next page
+function cachedHistory(transactions: Transaction[]): ListTransactionHistoryResponse {
+  return {
+    transactions,
+    offset: 0,
+    limit: transactions.length,
+    has_more: false,
+    total_count: transactions.length,
+  };
+}
 
+const TransactionHistory: React.FC = () => {
   // State for transactions and pagination
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [transactionData, setTransactionData] = useState<ListTransactionHistoryResponse | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  // Payment hash of the transaction open in the detail drawer, mirrored in the ?tx= query param
+  const [selectedHash, setSelectedHash] = useState<string | null>(null);
+  // Set while the node is unreachable and rows come from the local cache
+  const [offline, setOffline] = useState<boolean>(false);
+  const [lastSynced, setLastSynced] = useState<number | null>(null);
   
   // State for filters
-  const [filters, setFilters] = useState<FilterState>({
-    types: null,
-    statuses: null,
-    startDate: null,
-    endDate: null
-  });
+  const [filters, setFilters] = useState<FilterState>(EMPTY_FILTERS);
   
   // Pagination state with cursors
   const [pagination, setPagination] = useState<PaginationState>({
@@ -47,15 +81,49 @@ const TransactionHistory: React.FC = () => {
   // Use refs to store current values without causing re-renders
   const filtersRef = useRef(filters);
   const paginationRef = useRef(pagination);
+  // Generation whose next page is being fetched, so scrolling can't request it twice
+  const loadingMoreRef = useRef<number | null>(null);
+  // Bumped by every reset, so a next page requested before it is dropped
+  const generationRef = useRef(0);
+
+  // Rows added from eventBus events that the node hasn't returned yet, keyed by payment hash
+  const pendingRef = useRef<Map<string, Transaction>>(new Map());
   
   // Update refs when state changes
   useEffect(() => {
     filtersRef.current = filters;
   }, [filters]);
-  
+
+  // Replace the pagination and update the ref right away. The table's load-more
+  // effect runs before any effect here, so it must never see a stale cursor.
+  const replacePagination = useCallback((next: PaginationState) => {
+    paginationRef.current = next;
+    setPagination(next);
+  }, []);
+
+  // Open the drawer for a shared ?tx= link, and follow back/forward navigation
   useEffect(() => {
-    paginationRef.current = pagination;
-  }, [pagination]);
+    const syncFromUrl = () => setSelectedHash(new URLSearchParams(window.location.search).get('tx'));
+    syncFromUrl();
+    window.addEventListener('popstate', syncFromUrl);
+    return () => window.removeEventListener('popstate', syncFromUrl);
+  }, []);
+
+  const openTransaction = (tx: Transaction) => {
+    if (!tx.payment_hash) return;
+    const hash = normalizePaymentHash(tx.payment_hash);
+    const url = new URL(window.location.href);
+    url.searchParams.set('tx', hash);
+    window.history.pushState(null, '', url);
+    setSelectedHash(hash);
+  };
+
+  const closeTransaction = useCallback(() => {
+    const url = new URL(window.location.href);
+    url.searchParams.delete('tx');
+    window.history.replaceState(null, '', url);
+    setSelectedHash(null);
+  }, []);
 
   // Function to build request options - now uses refs instead of state
   const buildRequestOptions = useCallback((isReset: boolean, customPagination?: PaginationState) => {
@@ -71,41 +139,61 @@ const TransactionHistory: React.FC = () => {
       statuses: currentFilters.statuses || undefined,
       creation_date_start: currentFilters.startDate ? Math.floor(new Date(currentFilters.startDate).getTime() / 1000).toString() : undefined,
       creation_date_end: currentFilters.endDate ? Math.floor(new Date(currentFilters.endDate).getTime() / 1000).toString() : undefined,
+      ...filtersToSearch(currentFilters),
     };
   }, []);
 
   // Function to fetch transactions with cursor-based pagination
   const fetchTransactions = useCallback(async (resetPagination = false) => {
+    if (!resetPagination && loadingMoreRef.current === generationRef.current) return;
+
+    const generation = resetPagination ? ++generationRef.current : generationRef.current;
+    const isCurrent = () => generation === generationRef.current;
+    if (!resetPagination) {
+      loadingMoreRef.current = generation;
+    }
+
     try {
       setLoading(true);
       setError(null);
       
       // If resetting pagination, update the pagination state first
       if (resetPagination) {
-        setPagination(prev => ({
-          offset: 0,
-          limit: prev.limit,
-          payment_cursor: undefined,
-          invoice_cursor: undefined
-        }));
+        replacePagination({ offset: 0, limit: paginationRef.current.limit });
       }
       
       // Build request options using the latest state through refs
       const requestOptions = buildRequestOptions(resetPagination);
 
-      const response = await lndClient.listTransactionHistory(requestOptions);
+      const response = await walletApi.listTransactionHistory(requestOptions);
+      // The filters or page size changed while this page was loading
+      if (!isCurrent()) return;
+
+      setOffline(false);
+      saveTransactions(response.transactions).catch(err => console.error('Failed to cache transactions:', err));
+
+      // Rows the node now knows about no longer need to be tracked optimistically
+      const responseKeys = new Set(response.transactions.map(transactionKey));
+      responseKeys.forEach(key => pendingRef.current.delete(key));
+      const pendingRows = [...pendingRef.current.values()].filter(tx => matchesFilters(tx, filtersRef.current));
       
       // Update the transaction data
       setTransactionData(prev => {
-        // If resetting pagination or first load, replace the data
+        // If resetting pagination or first load, replace the data but keep unconfirmed rows on top
         if (resetPagination || !prev) {
-          return response;
+          return {
+            ...response,
+            transactions: mergeTransactions(response.transactions, pendingRows),
+          };
         }
         
-        // Otherwise, append the new transactions to the existing ones
+        // Otherwise, append the new transactions, replacing any optimistic copies already shown
         return {
           ...response,
-          transactions: [...prev.transactions, ...response.transactions],
+          transactions: [
+            ...prev.transactions.filter(tx => !responseKeys.has(transactionKey(tx))),
+            ...response.transactions,
+          ],
           // Keep the new pagination metadata
           offset: response.offset,
           limit: response.limit,
@@ -117,7 +205,7 @@ const TransactionHistory: React.FC = () => {
       
       // Store cursors for next page if available
       if (response.next_cursor) {
-        setPagination({
+        replacePagination({
           offset: response.next_cursor.offset,
           limit: response.next_cursor.limit,
           payment_cursor: response.next_cursor.payment_cursor ?? undefined,
@@ -125,44 +213,117 @@ const TransactionHistory: React.FC = () => {
         });
       }
     } catch (err) {
+      if (!isCurrent()) return;
       console.error('Transaction fetch error:', err);
-      setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
+
+      // Fall back to the local cache so history stays browsable while the node is down
+      const cached = resetPagination
+        ? await loadCachedTransactions(filtersRef.current).catch(() => [])
+        : [];
+      if (cached.length > 0) {
+        setOffline(true);
+        setTransactionData(cachedHistory(cached));
+      } else {
+        setError(err instanceof Error ? err.message : 'Failed to fetch transactions');
+      }
     } finally {
-      setLoading(false);
+      if (!resetPagination && loadingMoreRef.current === generation) {
+        loadingMoreRef.current = null;
+      }
+      if (isCurrent()) {
+        setLoading(false);
+      }
+    }
+  }, [buildRequestOptions, replacePagination]);
+
+  // Pull new and changed transactions into the cache in the background
+  const syncCache = useCallback(async () => {
+    try {
+      setLastSynced(await syncTransactionCache(walletApi.listTransactionHistory));
+    } catch (err) {
+      console.error('Transaction cache sync failed:', err);
     }
-  }, [lndClient, buildRequestOptions]);
+  }, []);
+
+  // Replace the filters and update the ref right away, so a fetch in the same tick uses them
+  const replaceFilters = useCallback((next: FilterState) => {
+    filtersRef.current = next;
+    setFilters(next);
+  }, []);
+
+  // Mirror the applied filters in the page URL so filtered views can be shared and bookmarked
+  const syncFiltersToUrl = useCallback((applied: FilterState) => {
+    const url = new URL(window.location.href);
+    const tx = url.searchParams.get('tx');
+    url.search = filtersToUrlParams(applied).toString();
+    if (tx) url.searchParams.set('tx', tx);
+    window.history.replaceState(null, '', url);
+  }, []);
 
-  // Initial load
+  // Initial load, starting from any filters in the URL. Cached rows are shown
+  // right away and replaced once the node responds.
   useEffect(() => {
-    fetchTransactions(true);
-  }, [fetchTransactions]);
+    const initialFilters = filtersFromUrlParams(new URLSearchParams(window.location.search));
+    replaceFilters(initialFilters);
 
-  // Format amount with sats unit
-  const formatAmount = (amount: number): string => {
-    return `${amount.toLocaleString()} sats`;
-  };
+    getLastSynced().then(setLastSynced).catch(() => undefined);
+    loadCachedTransactions(initialFilters)
+      .then(cached => {
+        if (cached.length > 0) {
+          setTransactionData(prev => prev ?? cachedHistory(cached));
+        }
+      })
+      .catch(err => console.error('Failed to read transaction cache:', err));
 
-  // Format timestamp to human-readable date/time
-  const formatDate = (timestamp: number): string => {
-    return new Date(timestamp * 1000).toLocaleString();
-  };
+    fetchTransactions(true).then(syncCache);
+  }, [fetchTransactions, replaceFilters, syncCache]);
 
-  // Get transaction status label and color
-  const getStatusInfo = useMemo(() => {
-    const statusMap: Record<TransactionStatus, { label: string; color: string }> = {
-      'succeeded': { label: 'Sent Successfully', color: 'text-green-600' },
-      'failed': { label: 'Failed', color: 'text-red-600' },
-      'in_flight': { label: 'In Progress', color: 'text-yellow-600' },
-      'pending': { label: 'Pending', color: 'text-yellow-600' },
-      'settled': { label: 'Received', color: 'text-green-600' },
-      'accepted': { label: 'Accepted', color: 'text-blue-600' },
-      'canceled': { label: 'Canceled', color: 'text-red-600' },
-      'expired': { label: 'Expired', color: 'text-gray-600' }
-    };
-    
-    return (status: TransactionStatus) => statusMap[status] || { label: status, color: 'text-gray-600' };
+  // Catch up as soon as the browser reports the connection is back
+  useEffect(() => {
+    const onOnline = () => fetchTransactions(true).then(syncCache);
+    window.addEventListener('online', onOnline);
+    return () => window.removeEventListener('online', onOnline);
+  }, [fetchTransactions, syncCache]);
+
+  // Show sent payments and new or paid invoices immediately as optimistic rows.
+  // They are reconciled with the node's data on the next fetch, so the current
+  // cursor and filters are left untouched here.
+  const addOptimisticRow = useCallback((tx: Transaction) => {
+    pendingRef.current.set(transactionKey(tx), tx);
+    if (!matchesFilters(tx, filtersRef.current)) return;
+
+    setTransactionData(prev => {
+      if (!prev) {
+        return {
+          transactions: [tx],
+          offset: 0,
+          limit: paginationRef.current.limit,
+          has_more: false,
+          total_count: 1,
+        } as ListTransactionHistoryResponse;
+      }
+      return { ...prev, transactions: mergeTransactions(prev.transactions, [tx]) };
+    });
   }, []);
 
+  useEventBus('payment:sent', payment => addOptimisticRow(paymentToTransaction(payment)));
+  useEventBus('invoice:created', invoice => addOptimisticRow(invoiceToTransaction(invoice)));
+  useEventBus('invoice:accepted', invoice => addOptimisticRow(invoiceToTransaction(invoice)));
+  useEventBus('transaction:new', invoice => addOptimisticRow(invoiceToTransaction(invoice)));
+
+  const { currency, formatSats } = useFiat();
+
+  // Current fiat value, plus the value at payment time when the server recorded it
+  const formatFiatValues = (tx: Transaction): string | null => {
+    const current = formatSats(tx.amount);
+    const recordedRate = currency && (tx as { fiat_snapshot?: FiatSnapshot }).fiat_snapshot?.rates[currency];
+    const historical = currency && recordedRate ? formatFiat(satsToFiat(tx.amount, recordedRate), currency) : null;
+
+    if (current && historical) return `≈ ${current} now · ${historical} then`;
+    if (current) return `≈ ${current}`;
+    return historical && `${historical} then`;
+  };
+
   // Handler for filter changes
   const handleFilterChange = (filterType: keyof FilterState, value: TransactionType[] | TransactionStatus[] | string | null) => {
     setFilters(prev => ({
@@ -171,23 +332,60 @@ const TransactionHistory: React.FC = () => {
     }));
   };
 
+  // Add or remove one value of a multi-select filter; an empty selection means "all"
+  const toggleFilterValue = <T extends string>(filterType: 'types' | 'statuses', value: T) => {
+    setFilters(prev => {
+      const current = (prev[filterType] ?? []) as T[];
+      const next = current.includes(value) ? current.filter(item => item !== value) : [...current, value];
+      return { ...prev, [filterType]: next.length > 0 ? next : null };
+    });
+  };
+
   // Apply filters and refresh data
   const applyFilters = useCallback(() => {
+    replaceFilters(filters);
+    syncFiltersToUrl(filters);
+    fetchTransactions(true);
+  }, [fetchTransactions, filters, replaceFilters, syncFiltersToUrl]);
+
+  // Date presets apply immediately
+  const applyDatePreset = (start: Date) => {
+    const next = { ...filters, startDate: format(start, 'yyyy-MM-dd'), endDate: null };
+    replaceFilters(next);
+    syncFiltersToUrl(next);
     fetchTransactions(true);
-  }, [fetchTransactions]);
+  };
+
+  // Download every transaction matching the current filters, not just the loaded pages
+  const exportTransactions = useCallback(() => {
+    const {
+      types,
+      statuses,
+      creation_date_start,
+      creation_date_end,
+      search,
+      min_amount,
+      max_amount,
+    } = buildRequestOptions(true);
+    window.location.href = walletApi.historyExportUrl(exportFormat, {
+      types,
+      statuses,
+      creation_date_start,
+      creation_date_end,
+      search,
+      min_amount,
+      max_amount,
+    });
+  }, [buildRequestOptions, exportFormat]);
 
   // Reset all filters
   const resetFilters = useCallback(() => {
-    setFilters({
-      types: null,
-      statuses: null,
-      startDate: null,
-      endDate: null
-    });
+    replaceFilters(EMPTY_FILTERS);
+    syncFiltersToUrl(EMPTY_FILTERS);
     fetchTransactions(true);
-  }, [fetchTransactions]);
+  }, [fetchTransactions, replaceFilters, syncFiltersToUrl]);
 
-  // Handle pagination - load more pattern for cursor-based pagination
+  // Fetch the next page; called by the table as the user scrolls towards the end
   const loadMore = useCallback(() => {
     if (transactionData?.has_more) {
       fetchTransactions(false);
@@ -196,16 +394,9 @@ const TransactionHistory: React.FC = () => {
 
   // Handle changing page size
   const handlePageSizeChange = useCallback((newPageSize: number) => {
-    setPagination(prev => ({
-      ...prev,
-      offset: 0,
-      limit: newPageSize,
-      payment_cursor: undefined,
-      invoice_cursor: undefined
-    }));
-    // Schedule fetchTransactions for next tick to ensure pagination state is updated
-    setTimeout(() => fetchTransactions(true), 0);
-  }, [fetchTransactions]);
+    replacePagination({ offset: 0, limit: newPageSize });
+    fetchTransactions(true);
+  }, [fetchTransactions, replacePagination]);
 
   // Available transaction types for filter
   const availableTypes = useMemo(() => [
@@ -227,50 +418,106 @@ const TransactionHistory: React.FC = () => {
 
   return (
     <div className="container mx-auto p-4">
-      <h1 className="text-2xl font-bold mb-6">Lightning Transaction History</h1>
+      <div className="flex flex-wrap justify-between items-baseline gap-2 mb-6">
+        <h1 className="text-2xl font-bold">Lightning Transaction History</h1>
+        {offline ? (
+          <span className="text-sm font-medium px-3 py-1 rounded-full bg-yellow-100 text-yellow-800">
+            Offline · showing cached history
+            {lastSynced && `, last synced ${formatDistanceToNow(lastSynced, { addSuffix: true })}`}
+          </span>
+        ) : lastSynced && (
+          <span className="text-sm text-gray-500">
+            Last synced {formatDistanceToNow(lastSynced, { addSuffix: true })}
+          </span>
+        )}
+      </div>
       
       {/* Filters */}
       <div className="bg-gray-100 p-4 rounded-lg mb-6">
         <h2 className="text-lg font-semibold mb-2">Filters</h2>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-          {/* Transaction Type Filter */}
+          {/* Search */}
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Search
+            </label>
+            <input
+              type="search"
+              className="w-full p-2 border border-gray-300 rounded-md"
+              placeholder="Memo or payment hash"
+              value={filters.search || ''}
+              onChange={e => handleFilterChange('search', e.target.value || null)}
+              onKeyDown={e => e.key === 'Enter' && applyFilters()}
+            />
+          </div>
+
+          {/* Amount Range Filters */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Transaction Type
+              Min Amount (sats)
             </label>
-            <select
+            <input
+              type="number"
+              min="0"
               className="w-full p-2 border border-gray-300 rounded-md"
-              value={filters.types ? filters.types[0] : ''}
-              onChange={e => handleFilterChange('types', e.target.value ? [e.target.value as TransactionType] : null)}
-            >
-              <option value="">All Types</option>
-              {availableTypes.map(type => (
-                <option key={type.value} value={type.value}>
-                  {type.label}
-                </option>
-              ))}
-            </select>
+              value={filters.minAmount || ''}
+              onChange={e => handleFilterChange('minAmount', e.target.value || null)}
+            />
           </div>
-          
-          {/* Status Filter */}
+
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Status
+              Max Amount (sats)
             </label>
-            <select
+            <input
+              type="number"
+              min="0"
               className="w-full p-2 border border-gray-300 rounded-md"
-              value={filters.statuses ? filters.statuses[0] : ''}
-              onChange={e => handleFilterChange('statuses', e.target.value ? [e.target.value as TransactionStatus] : null)}
-            >
-              <option value="">All Statuses</option>
+              value={filters.maxAmount || ''}
+              onChange={e => handleFilterChange('maxAmount', e.target.value || null)}
+            />
+          </div>
+
+          {/* Transaction Type Filter */}
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Transaction Type
+            </legend>
+            <div className="space-y-1">
+              {availableTypes.map(type => (
+                <label key={type.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={filters.types?.includes(type.value) ?? false}
+                    onChange={() => toggleFilterValue('types', type.value)}
+                  />
+                  {type.label}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          {/* Status Filter */}
+          <fieldset>
+            <legend className="block text-sm font-medium text-gray-700 mb-1">
+              Status
+            </legend>
+            <div className="grid grid-cols-2 gap-1">
               {availableStatuses.map(status => (
-                <option key={status.value} value={status.value}>
+                <label key={status.value} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={filters.statuses?.includes(status.value) ?? false}
+                    onChange={() => toggleFilterValue('statuses', status.value)}
+                  />
                   {status.label}
-                </option>
+                </label>
               ))}
-            </select>
-          </div>
-          
+            </div>
+          </fieldset>
+
           {/* Date Range Filters */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -296,6 +543,18 @@ const TransactionHistory: React.FC = () => {
             />
           </div>
         </div>
+
+        <div className="mt-3 flex flex-wrap gap-2">
+          {DATE_PRESETS.map(preset => (
+            <button
+              key={preset.label}
+              className="text-xs px-3 py-1 rounded-full bg-white border border-gray-300 text-gray-700 hover:bg-gray-50"
+              onClick={() => applyDatePreset(preset.start())}
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
         
         <div className="mt-4 flex space-x-2">
           <button
@@ -310,6 +569,23 @@ const TransactionHistory: React.FC = () => {
           >
             Reset
           </button>
+          <div className="flex-1" />
+          <select
+            className="p-2 border border-gray-300 rounded-md"
+            value={exportFormat}
+            onChange={e => setExportFormat(e.target.value as ExportFormat)}
+            aria-label="Export format"
+          >
+            {EXPORT_FORMATS.map(format => (
+              <option key={format} value={format}>{format.toUpperCase()}</option>
+            ))}
+          </select>
+          <button
+            className="bg-white border border-gray-300 text-gray-800 px-4 py-2 rounded-md hover:bg-gray-50 transition"
+            onClick={exportTransactions}
+          >
+            Export
+          </button>
         </div>
       </div>
       
@@ -338,116 +614,37 @@ const TransactionHistory: React.FC = () => {
         </div>
       </div>
       
-      {/* Transactions Table */}
+      {/* Transactions Table: rows are virtualized and further pages load while scrolling */}
       <div className="bg-white shadow-md rounded-lg overflow-hidden mb-6">
-        <table className="min-w-full divide-y divide-gray-200">
-          <thead className="bg-gray-50">
-            <tr>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Type
-              </th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Date
-              </th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Amount
-              </th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Status
-              </th>
-              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Description
-              </th>
-            </tr>
-          </thead>
-          <tbody className="bg-white divide-y divide-gray-200">
-            {loading && !transactionData && (
-              <tr>
-                <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-center text-gray-500">
-                  Loading transactions...
-                </td>
-              </tr>
-            )}
-            
-            {!loading && (!transactionData || transactionData.transactions.length === 0) && (
-              <tr>
-                <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-center text-gray-500">
-                  No transactions found
-                </td>
-              </tr>
-            )}
-            
-            {transactionData && transactionData.transactions.map((tx: Transaction) => {
-              const statusInfo = getStatusInfo(tx.status);
-              
-              return (
-                <tr key={tx.id} className="hover:bg-gray-50">
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center">
-                      <span className={`font-medium ${tx.type === 'sent' ? 'text-orange-600' : 'text-green-600'}`}>
-                        {tx.type === 'sent' ? '↗️ Sent' : '↘️ Received'}
-                      </span>
-                    </div>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(tx.timestamp)}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="text-sm font-medium text-gray-900">
-                      {formatAmount(tx.amount)}
-                    </div>
-                    {tx.fee > 0 && (
-                      <div className="text-xs text-gray-500">
-                        Fee: {formatAmount(tx.fee)}
-                      </div>
-                    )}
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <span className={`inline-flex text-xs leading-5 font-semibold rounded-full px-2 py-1 bg-opacity-10 ${statusInfo.color} bg-${statusInfo.color.split('-')[1]}-100`}>
-                      {statusInfo.label}
-                    </span>
-                  </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 max-w-xs truncate">
-                    {tx.description || 'No description'}
-                  </td>
-                </tr>
-              );
-            })}
-          </tbody>
-        </table>
+        <TransactionTable
+          transactions={transactionData?.transactions ?? []}
+          loading={loading}
+          hasMore={Boolean(transactionData?.has_more)}
+          onLoadMore={loadMore}
+          onSelect={openTransaction}
+          amountDetail={formatFiatValues}
+          isSyncing={tx => pendingRef.current.has(transactionKey(tx))}
+        />
       </div>
       
-      {/* Loading indicator for pagination */}
-      {loading && transactionData && (
-        <div className="text-center my-4">
-          <div className="inline-block animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
-          <p className="mt-2 text-gray-600">Loading more transactions...</p>
-        </div>
-      )}
-      
-      {/* Pagination - Using a "Load More" pattern which works better with cursor-based pagination */}
       {transactionData && (
         <div className="flex flex-col md:flex-row items-center justify-between gap-4">
           <div className="text-sm text-gray-700">
             {transactionData.transactions.length > 0 ? (
               <>
-                Showing <span className="font-medium">{transactionData.offset + 1}</span> to <span className="font-medium">
-                  {transactionData.offset + transactionData.transactions.length}
-                </span> of approximately <span className="font-medium">{transactionData.total_count}</span> transactions
+                <span className="font-medium">{transactionData.transactions.length.toLocaleString()}</span> of
+                approximately <span className="font-medium">{transactionData.total_count.toLocaleString()}</span> transactions loaded
               </>
             ) : (
               'No transactions found'
             )}
           </div>
           
-          {transactionData.has_more && (
-            <button
-              onClick={loadMore}
-              disabled={loading}
-              className={`px-4 py-2 rounded-md ${loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-blue-600 hover:bg-blue-700'} text-white transition`}
-            >
-              Load More
-            </button>
+          {loading && transactionData.transactions.length > 0 && (
+            <div className="flex items-center text-sm text-gray-600">
+              <div className="inline-block animate-spin rounded-full h-4 w-4 border-t-2 border-b-2 border-blue-600 mr-2"></div>
+              Loading more transactions...
+            </div>
           )}
           
           {!transactionData.has_more && transactionData.transactions.length > 0 && (
@@ -457,6 +654,10 @@ const TransactionHistory: React.FC = () => {
           )}
         </div>
       )}
+
+      {selectedHash && (
+        <TransactionDrawer paymentHash={selectedHash} onClose={closeTransaction} />
+      )}
     </div>
   );
 };
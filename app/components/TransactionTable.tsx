@@ -0,0 +1,161 @@
+"use client";
+
+import React, { RefObject, useEffect, useRef } from 'react';
+import type { Transaction, TransactionStatus } from 'flndr';
+import { transactionKey } from '../utils/transactions';
+import { useVirtualRows } from '../utils/useVirtualRows';
+
+// Every row is this tall so the visible range can be computed from the scroll position
+export const ROW_HEIGHT = 76;
+
+// Start fetching the next page when this many loaded rows are left below the viewport
+const LOAD_AHEAD_ROWS = 20;
+
+const STATUS_INFO: Record<TransactionStatus, { label: string; color: string }> = {
+  'succeeded': { label: 'Sent Successfully', color: 'text-green-600' },
+  'failed': { label: 'Failed', color: 'text-red-600' },
+  'in_flight': { label: 'In Progress', color: 'text-yellow-600' },
+  'pending': { label: 'Pending', color: 'text-yellow-600' },
+  'settled': { label: 'Received', color: 'text-green-600' },
+  'accepted': { label: 'Accepted', color: 'text-blue-600' },
+  'canceled': { label: 'Canceled', color: 'text-red-600' },
+  'expired': { label: 'Expired', color: 'text-gray-600' }
+};
+
+const getStatusInfo = (status: TransactionStatus) => STATUS_INFO[status] || { label: status, color: 'text-gray-600' };
+
+const formatAmount = (amount: number): string => `${amount.toLocaleString()} sats`;
+
+const formatDate = (timestamp: number): string => new Date(timestamp * 1000).toLocaleString();
+
+interface TransactionTableProps {
+  transactions: Transaction[];
+  loading: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+  onSelect?: (tx: Transaction) => void;
+  // Extra line under the amount, e.g. its fiat value
+  amountDetail?: (tx: Transaction) => string | null;
+  // Rows shown before the node has confirmed them
+  isSyncing?: (tx: Transaction) => boolean;
+  // Scroll container, for callers that need to drive scrolling
+  scrollRef?: RefObject<HTMLDivElement | null>;
+}
+
+/**
+ * Transaction table that renders only the rows in view
+ * Scrolling near the end of the loaded rows asks for the next page, so the
+ * table grows as the user scrolls for as long as the node has more.
+ */
+const TransactionTable: React.FC<TransactionTableProps> = ({
+  transactions,
+  loading,
+  hasMore,
+  onLoadMore,
+  onSelect,
+  amountDetail,
+  isSyncing,
+  scrollRef,
+}) => {
+  const localRef = useRef<HTMLDivElement>(null);
+  const containerRef = scrollRef ?? localRef;
+  const { start, end, paddingTop, paddingBottom, onScroll } = useVirtualRows(containerRef, {
+    count: transactions.length,
+    rowHeight: ROW_HEIGHT,
+  });
+
+  // Infinite scroll: fetch more once the rendered range gets close to the last loaded row
+  useEffect(() => {
+    if (hasMore && !loading && end >= transactions.length - LOAD_AHEAD_ROWS) {
+      onLoadMore();
+    }
+  }, [end, hasMore, loading, onLoadMore, transactions.length]);
+
+  const headerClass = 'sticky top-0 z-10 bg-gray-50 px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider';
+
+  return (
+    <div ref={containerRef} onScroll={onScroll} className="max-h-[70vh] overflow-y-auto">
+      <table className="min-w-full table-fixed">
+        <thead>
+          <tr>
+            <th scope="col" className={`${headerClass} w-36`}>Type</th>
+            <th scope="col" className={`${headerClass} w-52`}>Date</th>
+            <th scope="col" className={`${headerClass} w-56`}>Amount</th>
+            <th scope="col" className={`${headerClass} w-52`}>Status</th>
+            <th scope="col" className={headerClass}>Description</th>
+          </tr>
+        </thead>
+        <tbody className="bg-white">
+          {loading && transactions.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-center text-gray-500">
+                Loading transactions...
+              </td>
+            </tr>
+          )}
+
+          {!loading && transactions.length === 0 && (
+            <tr>
+              <td colSpan={5} className="px-6 py-4 whitespace-nowrap text-center text-gray-500">
+                No transactions found
+              </td>
+            </tr>
+          )}
+
+          {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden="true" />}
+
+          {transactions.slice(start, end).map(tx => {
+            const statusInfo = getStatusInfo(tx.status);
+            const detail = amountDetail?.(tx);
+
+            return (
+              <tr
+                key={transactionKey(tx)}
+                style={{ height: ROW_HEIGHT }}
+                onClick={() => onSelect?.(tx)}
+                className={`border-t border-gray-200 hover:bg-gray-50 ${onSelect && tx.payment_hash ? 'cursor-pointer' : ''}`}
+              >
+                <td className="px-6 py-2 whitespace-nowrap">
+                  <span className={`font-medium ${tx.type === 'sent' ? 'text-orange-600' : 'text-green-600'}`}>
+                    {tx.type === 'sent' ? '↗️ Sent' : '↘️ Received'}
+                  </span>
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500">
+                  {formatDate(tx.timestamp)}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">
+                    {formatAmount(tx.amount)}
+                  </div>
+                  {detail && (
+                    <div className="text-xs text-gray-500 truncate">{detail}</div>
+                  )}
+                  {tx.fee > 0 && (
+                    <div className="text-xs text-gray-500">
+                      Fee: {formatAmount(tx.fee)}
+                    </div>
+                  )}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap">
+                  <span className={`inline-flex text-xs leading-5 font-semibold rounded-full px-2 py-1 bg-opacity-10 ${statusInfo.color} bg-${statusInfo.color.split('-')[1]}-100`}>
+                    {statusInfo.label}
+                  </span>
+                  {isSyncing?.(tx) && (
+                    <span className="ml-2 text-xs text-gray-400">Syncing…</span>
+                  )}
+                </td>
+                <td className="px-6 py-2 whitespace-nowrap text-sm text-gray-500 max-w-xs truncate">
+                  {tx.description || 'No description'}
+                </td>
+              </tr>
+            );
+          })}
+
+          {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden="true" />}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TransactionTable;
@@ -0,0 +1,10 @@
+import SignIn from "../components/SignIn";
+
+// Sign-in page the middleware redirects to when there is no session
+export default function LoginPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+      <SignIn />
+    </main>
+  );
+}
@@ -1,26 +1,51 @@
+import ChannelManager from "./components/ChannelManager";
+import CurrencySelector from "./components/CurrencySelector";
+import FiatProvider from "./components/FiatProvider";
 import LightningReceive from "./components/LightningReceive";
+import LiquidityProvider from "./components/LiquidityProvider";
+import LnurlReceive from "./components/LnurlReceive";
+import OpenInvoices from "./components/OpenInvoices";
 import LightningSend from "./components/LightningSend";
+import NodeDashboard from "./components/NodeDashboard";
 import TransactionHistory from "./components/TransactionHistory";
 
 export default function Home() {
   return (
     <main className="flex min-h-screen flex-col items-center justify-between p-6 md:p-12 lg:p-24">
-      <div className="w-full max-w-6xl">
-        <h1 className="text-4xl font-bold text-center mb-8">Lightning Wallet</h1>
-        
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
-          <div>
-            <LightningReceive />
-          </div>
-          <div>
-            <LightningSend />
+      <FiatProvider>
+        <LiquidityProvider>
+          <div className="w-full max-w-6xl">
+            <h1 className="text-4xl font-bold text-center mb-4">Lightning Wallet</h1>
+
+            <div className="mb-8">
+              <CurrencySelector />
+            </div>
+
+            <div className="mb-8">
+              <NodeDashboard />
+            </div>
+
+            <div className="mb-8">
+              <ChannelManager />
+            </div>
+          
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-12">
+              <div className="space-y-8">
+                <LightningReceive />
+                <OpenInvoices />
+                <LnurlReceive />
+              </div>
+              <div>
+                <LightningSend />
+              </div>
+            </div>
+          
+            <div className="mb-12">
+              <TransactionHistory />
+            </div>
           </div>
-        </div>
-        
-        <div className="mb-12">
-          <TransactionHistory />
-        </div>
-      </div>
+        </LiquidityProvider>
+      </FiatProvider>
     </main>
   );
-} 
\ No newline at end of file
+}
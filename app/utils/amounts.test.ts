@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatMsat, parseAmountToMsat } from './amounts';
+
+describe('parseAmountToMsat', () => {
+  it.each([
+    ['1', '1000'],
+    ['21000', '21000000'],
+    ['0.5', '500'],
+    ['1.001', '1001'],
+    ['1.25', '1250'],
+    [' 42 ', '42000'],
+    ['0', '0'],
+    ['2100000000000000', '2100000000000000000'],
+  ])('reads %j sats as %s msat', (value, msat) => {
+    expect(parseAmountToMsat(value, 'sat')).toBe(msat);
+  });
+
+  it.each(['', '1.0001', '.5', '1.', '-1', '1e3', '1,000', 'abc'])('rejects %j sats', value => {
+    expect(parseAmountToMsat(value, 'sat')).toBeNull();
+  });
+
+  it.each([
+    ['1500', '1500'],
+    ['007', '7'],
+    ['0', '0'],
+  ])('reads %j msat as %s', (value, msat) => {
+    expect(parseAmountToMsat(value, 'msat')).toBe(msat);
+  });
+
+  it.each(['', '1.5', '-1', '1e3'])('rejects %j msat', value => {
+    expect(parseAmountToMsat(value, 'msat')).toBeNull();
+  });
+});
+
+describe('formatMsat', () => {
+  it('shows whole sats without a fraction and keeps msat precision otherwise', () => {
+    expect(formatMsat('21000000')).toBe('21,000 sats');
+    expect(formatMsat('1500')).toBe('1.5 sats');
+    expect(formatMsat(1001)).toBe('1.001 sats');
+    expect(formatMsat('0')).toBe('0 sats');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Helpers for working with Lightning amounts
+ * Amounts are kept as integer millisatoshi strings to avoid floating point rounding.
+ */
+
+export type AmountUnit = 'sat' | 'msat';
+
+/**
+ * Parse user input into an integer msat string
+ * Sats accept up to three decimal places (msat precision); msats must be whole numbers.
+ * Returns null for empty or malformed input.
+ */
+export function parseAmountToMsat(value: string, unit: AmountUnit): string | null {
+  const trimmed = value.trim();
+
+  if (unit === 'msat') {
+    return /^\d+$/.test(trimmed) ? BigInt(trimmed).toString() : null;
+  }
+
+  const match = trimmed.match(/^(\d+)(?:\.(\d{1,3}))?$/);
+  if (!match) return null;
+
+  const [, whole, fraction = ''] = match;
+  return (BigInt(whole) * BigInt(1000) + BigInt(fraction.padEnd(3, '0'))).toString();
+}
+
+// Format an msat amount as sats, keeping msat precision only when it matters
+export function formatMsat(msat: string | number): string {
+  const value = BigInt(msat);
+  const sats = value / BigInt(1000);
+  const remainder = value % BigInt(1000);
+
+  if (remainder === BigInt(0)) {
+    return `${Number(sats).toLocaleString()} sats`;
+  }
+  return `${Number(sats).toLocaleString()}.${remainder.toString().padStart(3, '0').replace(/0+$/, '')} sats`;
+}
+
+// Fiat currencies the wallet can display amounts in
+export const SUPPORTED_CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'CHF', 'AUD', 'JPY'] as const;
+
+export type FiatCurrency = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Exchange rates as returned by GET /api/rates, in units of fiat per BTC
+export interface FiatRates {
+  // Null when no rate provider is configured
+  provider: string | null;
+  rates: Partial<Record<FiatCurrency, number>>;
+  updatedAt: number;
+}
+
+// Rates recorded when a transaction happened, attached to history rows as fiat_snapshot
+export interface FiatSnapshot {
+  rates: Partial<Record<FiatCurrency, number>>;
+  timestamp: number;
+}
+
+const SATS_PER_BTC = 100_000_000;
+
+// Value of an amount in sats at the given rate (fiat per BTC)
+export function satsToFiat(sats: number, ratePerBtc: number): number {
+  return (sats / SATS_PER_BTC) * ratePerBtc;
+}
+
+/**
+ * Convert fiat input into an integer msat string at the given rate
+ * Returns null for empty, malformed or non-positive input.
+ */
+export function parseFiatToMsat(value: string, ratePerBtc: number): string | null {
+  const trimmed = value.trim();
+  if (!/^\d+(\.\d+)?$/.test(trimmed) || !(ratePerBtc > 0)) return null;
+
+  const msat = Math.round((Number(trimmed) / ratePerBtc) * SATS_PER_BTC * 1000);
+  return msat > 0 ? String(msat) : null;
+}
+
+// Format a fiat amount in the given currency, e.g. "$12.34" or "¥1,234"
+export function formatFiat(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+}
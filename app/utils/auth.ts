@@ -0,0 +1,68 @@
+/**
+ * Operator authentication
+ * Everything except the LNURL endpoints payers call is for the wallet's
+ * operator, who signs in with WALLET_ACCESS_TOKEN. The browser keeps a hash of
+ * the token in an HttpOnly cookie; scripts can send the token itself as a
+ * bearer token. Runs in middleware, so only Web APIs are used here.
+ */
+
+export const SESSION_COOKIE = 'wallet_session';
+
+// Sessions last a month before the token has to be entered again
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+// Endpoints payers and LNURL wallets call
+const PUBLIC_PREFIXES = ['/api/lnurlp/', '/api/lnurlw/', '/.well-known/lnurlp/'];
+// Signing in has to work before there is a session
+const PUBLIC_PATHS = ['/login', '/api/session'];
+
+export function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.includes(pathname) || PUBLIC_PREFIXES.some(prefix => pathname.startsWith(prefix));
+}
+
+// The configured access token, or null when none is set
+export function getAccessToken(): string | null {
+  return process.env.WALLET_ACCESS_TOKEN?.trim() || null;
+}
+
+// Without a token the wallet only runs unprotected while developing locally
+export function authRequired(): boolean {
+  return getAccessToken() !== null || process.env.NODE_ENV === 'production';
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Compare without returning early, so the time taken doesn't reveal how much matched
+function constantTimeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return diff === 0;
+}
+
+// Cookie value for a signed-in browser
+export function sessionValue(token: string): Promise<string> {
+  return sha256Hex(`wallet-session:${token}`);
+}
+
+// Whether a token entered on the sign-in page or sent as a bearer token is correct
+export async function isValidToken(candidate: string): Promise<boolean> {
+  const token = getAccessToken();
+  if (!token) return false;
+  return constantTimeEqual(await sha256Hex(candidate), await sha256Hex(token));
+}
+
+export async function isValidSession(cookie: string): Promise<boolean> {
+  const token = getAccessToken();
+  if (!token) return false;
+  return constantTimeEqual(cookie, await sessionValue(token));
+}
+
+// Only follow redirects back into the wallet itself after signing in
+export function safeRedirectPath(path: string | null): string {
+  return path && path.startsWith('/') && !path.startsWith('//') ? path : '/';
+}
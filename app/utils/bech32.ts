@@ -0,0 +1,129 @@
+/**
+ * Bech32 / bech32m encoding (BIP-173, BIP-350)
+ * Lightning invoices and LNURLs use bech32 without the 90 character limit,
+ * so length is not enforced here.
+ */
+
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+
+export type Bech32Variant = 'bech32' | 'bech32m';
+
+const CHECKSUM_CONSTANT: Record<Bech32Variant, number> = {
+  bech32: 1,
+  bech32m: 0x2bc830a3,
+};
+
+export class Bech32Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Bech32Error';
+  }
+}
+
+function polymod(values: number[]): number {
+  let chk = 1;
+  for (const value of values) {
+    const top = chk >>> 25;
+    chk = ((chk & 0x1ffffff) << 5) ^ value;
+    for (let i = 0; i < 5; i++) {
+      if ((top >>> i) & 1) {
+        chk ^= GENERATOR[i];
+      }
+    }
+  }
+  return chk >>> 0;
+}
+
+function hrpExpand(hrp: string): number[] {
+  const high = Array.from(hrp, char => char.charCodeAt(0) >> 5);
+  const low = Array.from(hrp, char => char.charCodeAt(0) & 31);
+  return [...high, 0, ...low];
+}
+
+function createChecksum(hrp: string, words: number[], variant: Bech32Variant): number[] {
+  const mod = polymod([...hrpExpand(hrp), ...words, 0, 0, 0, 0, 0, 0]) ^ CHECKSUM_CONSTANT[variant];
+  return Array.from({ length: 6 }, (_, i) => (mod >>> (5 * (5 - i))) & 31);
+}
+
+// Map lowercase bech32 characters to their 5-bit words, without any checksum
+export function charsToWords(chars: string): number[] {
+  return Array.from(chars, char => {
+    const word = CHARSET.indexOf(char);
+    if (word === -1) {
+      throw new Bech32Error(`Invalid bech32 character "${char}"`);
+    }
+    return word;
+  });
+}
+
+/**
+ * Decode a bech32 string into its human-readable part and 5-bit words
+ * The checksum is removed from the returned words.
+ */
+export function decodeBech32(value: string, variant: Bech32Variant = 'bech32'): { hrp: string; words: number[] } {
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    throw new Bech32Error('Mixed-case strings are not valid bech32');
+  }
+
+  const lower = value.toLowerCase();
+  const separator = lower.lastIndexOf('1');
+  if (separator < 1 || separator + 7 > lower.length) {
+    throw new Bech32Error('Missing bech32 separator or data');
+  }
+
+  const hrp = lower.slice(0, separator);
+  const words = charsToWords(lower.slice(separator + 1));
+
+  if (polymod([...hrpExpand(hrp), ...words]) !== CHECKSUM_CONSTANT[variant]) {
+    throw new Bech32Error('Invalid checksum');
+  }
+
+  return { hrp, words: words.slice(0, -6) };
+}
+
+// Encode a human-readable part and 5-bit words as a bech32 string
+export function encodeBech32(hrp: string, words: number[], variant: Bech32Variant = 'bech32'): string {
+  const checksum = createChecksum(hrp, words, variant);
+  return `${hrp}1${[...words, ...checksum].map(word => CHARSET[word]).join('')}`;
+}
+
+/**
+ * Regroup bits, e.g. 5-bit words to bytes and back
+ * With pad = false, leftover bits must be zero padding or an error is thrown.
+ */
+export function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean): number[] {
+  let acc = 0;
+  let bits = 0;
+  const result: number[] = [];
+  const maxValue = (1 << toBits) - 1;
+
+  for (let i = 0; i < data.length; i++) {
+    acc = (acc << fromBits) | data[i];
+    bits += fromBits;
+    while (bits >= toBits) {
+      bits -= toBits;
+      result.push((acc >> bits) & maxValue);
+    }
+  }
+
+  if (pad) {
+    if (bits > 0) {
+      result.push((acc << (toBits - bits)) & maxValue);
+    }
+  } else if (bits >= fromBits || ((acc << (toBits - bits)) & maxValue) !== 0) {
+    throw new Bech32Error('Invalid padding');
+  }
+
+  return result;
+}
+
+// Convert 5-bit words to bytes, dropping incomplete trailing bits
+export function wordsToBytes(words: number[]): Uint8Array {
+  return Uint8Array.from(convertBits(words, 5, 8, false));
+}
+
+// Convert bytes to 5-bit words, zero-padding the last word
+export function bytesToWords(bytes: ArrayLike<number>): number[] {
+  return convertBits(bytes, 8, 5, true);
+}
@@ -0,0 +1,221 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { describe, expect, it } from 'vitest';
+import { bytesToWords, decodeBech32, encodeBech32 } from './bech32';
+import { Bolt11Error, decodeBolt11, encodeBolt11, validateBolt11 } from './bolt11';
+
+// Test vectors from BOLT 11, signed by this key with this hash, secret and timestamp
+const SPEC_PAYEE = '03e7156ae33b0a208d0744199163177e909e80176e55d97a2f221ede0f934dd9ad';
+const SPEC_PAYMENT_HASH = '0001020304050607080900010203040506070809000102030405060708090102';
+const SPEC_PAYMENT_SECRET = '11'.repeat(32);
+const SPEC_TIMESTAMP = '1496314658';
+
+const DONATION = 'lnbc1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpl2pkx2ctnv5sxxmmwwd5kgetjypeh2ursdae8g6twvus8g6rfwvs8qun0dfjkxaq9qrsgq357wnc5r2ueh7ck6q93dj32dlqnls087fxdwk8qakdyafkq3yap9us6v52vjjsrvywa6rt52cm9r9zqt8r2t7mlcwspyetp5h2tztugp9lfyql';
+const COFFEE = 'lnbc2500u1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5xysxxatsyp3k7enxv4jsxqzpu9qrsgquk0rl77nj30yxdy8j9vdx85fkpmdla2087ne0xh8nhedh8w27kyke0lp53ut353s06fv3qfegext0eh0ymjpf39tuven09sam30g4vgpfna3rh';
+const HASHED_DESCRIPTION = 'lnbc20m1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqs9qrsgq7ea976txfraylvgzuxs8kgcw23ezlrszfnh8r6qtfpr6cxga50aj6txm9rxrydzd06dfeawfk6swupvz4erwnyutnjq7x39ymw6j38gp7ynn44';
+const TESTNET_FALLBACK = 'lntb20m1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygshp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqfpp3x9et2e20v6pu37c5d9vax37wxq72un989qrsgqdj545axuxtnfemtpwkc45hx9d2ft7x04mt8q7y6t0k2dge9e7h8kpy9p34ytyslj3yu569aalz2xdk8xkd7ltxqld94u8h2esmsmacgpghe9k8';
+const ROUTE_HINTS = 'lnbc20m1pvjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqhp58yjmdan79s6qqdhdzgynm4zwqd5d7xmw5fk98klysy043l2ahrqsfpp3qjmp7lwpagxun9pygexvgpjdc4jdj85fr9yq20q82gphp2nflc7jtzrcazrra7wwgzxqc8u7754cdlpfrmccae92qgzqvzq2ps8pqqqqqqpqqqqq9qqqvpeuqafqxu92d8lr6fvg0r5gv0heeeqgcrqlnm6jhphu9y00rrhy4grqszsvpcgpy9qqqqqqgqqqqq7qqzq9qrsgqdfjcdk6w3ak5pca9hwfwfh63zrrz06wwfya0ydlzpgzxkn5xagsqz7x9j4jwe7yj7vaf2k9lqsdk45kts2fd0fkr28am0u4w95tt2nsq76cqw0';
+const PICO_AMOUNT = 'lnbc9678785340p1pwmna7lpp5gc3xfm08u9qy06djf8dfflhugl6p7lgza6dsjxq454gxhj9t7a0sd8dgfkx7cmtwd68yetpd5s9xar0wfjn5gpc8qhrsdfq24f5ggrxdaezqsnvda3kkum5wfjkzmfqf3jkgem9wgsyuctwdus9xgrcyqcjcgpzgfskx6eqf9hzqnteypzxz7fzypfhg6trddjhygrcyqezcgpzfysywmm5ypxxjemgw3hxjmn8yptk7untd9hxwg3q2d6xjcmtv4ezq7pqxgsxzmnyyqcjqmt0wfjjq6t5v4khxsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygsxqyjw5qcqp2rzjq0gxwkzc8w6323m55m4jyxcjwmy7stt9hwkwe2qxmy8zpsgg7jcuwz87fcqqeuqqqyqqqqlgqqqqn3qq9q9qrsgqrvgkpnmps664wgkp43l22qsgdw4ve24aca4nymnxddlnp8vh9v2sdxlu5ywdxefsfvm0fq3sesf08uf6q9a2ke0hc9j6z6wlxg5z5kqpu2v9wz';
+const OPTIONAL_FEATURE = 'lnbc25m1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5vdhkven9v5sxyetpdeessp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygs9q5sqqqqqqqqqqqqqqqqsgq2a25dxl5hrntdtn6zvydt7d66hyzsyhqs4wdynavys42xgl6sgx9c4g7me86a27t07mdtfry458rtjr0v92cnmswpsjscgt2vcse3sgpz3uapa';
+const REQUIRED_UNKNOWN_FEATURE = 'lnbc25m1pvjluezpp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdq5vdhkven9v5sxyetpdeessp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygs9q4psqqqqqqqqqqqqqqqqsgqtqyx5vggfcsll4wu246hz02kp85x4katwsk9639we5n5yngc3yhqkm35jnjw4len8vrnqnf5ejh0mzj9n3vz2px97evektfm2l6wqccp3y7372';
+const BAD_CHECKSUM = 'lnbc2500u1vjluezsp5zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zyg3zygspp5qqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqqqsyqcyq5rqwzqfqypqdpquwpc4curk03c9wlrswe78q4eyqc7d8d0xqzpu9qrsgqhtjpauu9ur7fw2thcl4y9vfvh4m9wlfyz2gem29g5ghe2aak2pm3ps8fdhtceqsaagty2vph7utlgj48u0ged6a337aewvraedendscp573dxr';
+
+const CAKE = 'One piece of chocolate cake, one icecream cone, one pickle, one slice of swiss cheese, '
+  + 'one slice of salami, one lollypop, one piece of cherry pie, one sausage, one cupcake, and one slice of watermelon';
+
+// Re-encode an invoice with a valid checksum after changing its prefix or words
+function reencode(invoice: string, change: { hrp?: string; words?: (words: number[]) => number[] }): string {
+  const { hrp, words } = decodeBech32(invoice);
+  return encodeBech32(change.hrp ?? hrp, change.words ? change.words(words) : words);
+}
+
+function decodeError(invoice: string): Bolt11Error {
+  try {
+    decodeBolt11(invoice);
+  } catch (error) {
+    if (error instanceof Bolt11Error) return error;
+    throw error;
+  }
+  throw new Error('Invoice decoded without an error');
+}
+
+describe('decodeBolt11', () => {
+  describe('spec vectors', () => {
+    it('decodes a donation without an amount', () => {
+      const decoded = decodeBolt11(DONATION);
+
+      expect(decoded).toMatchObject({
+        destination: SPEC_PAYEE,
+        payment_hash: SPEC_PAYMENT_HASH,
+        payment_addr: SPEC_PAYMENT_SECRET,
+        timestamp: SPEC_TIMESTAMP,
+        num_satoshis: '0',
+        num_msat: '0',
+        description: 'Please consider supporting this project',
+        expiry: '3600',
+        cltv_expiry: '18',
+        network: 'mainnet',
+        created_at: '2017-06-01T10:57:38.000Z',
+      });
+    });
+
+    it('reads the amount and expiry', () => {
+      expect(decodeBolt11(COFFEE)).toMatchObject({
+        destination: SPEC_PAYEE,
+        num_satoshis: '250000',
+        num_msat: '250000000',
+        description: '1 cup coffee',
+        expiry: '60',
+      });
+    });
+
+    it('reads a description hash in place of the description', () => {
+      const decoded = decodeBolt11(HASHED_DESCRIPTION);
+
+      expect(decoded.num_msat).toBe('2000000000');
+      expect(decoded.description).toBe('');
+      expect(decoded.description_hash).toBe(bytesToHex(sha256(utf8ToBytes(CAKE))));
+    });
+
+    it('reads a testnet P2PKH fallback address', () => {
+      expect(decodeBolt11(TESTNET_FALLBACK)).toMatchObject({
+        destination: SPEC_PAYEE,
+        network: 'testnet',
+        currency: 'tb',
+        fallback_addr: 'mk2QpYatsKicvFVuTAQLBryyccRXMUaGHP',
+      });
+    });
+
+    it('reads route hints and a mainnet fallback address', () => {
+      const decoded = decodeBolt11(ROUTE_HINTS);
+
+      expect(decoded.fallback_addr).toBe('1RustyRX2oai4EYYDpQGWvEL62BBGqN9T');
+      expect(decoded.route_hints).toEqual([{
+        hop_hints: [
+          {
+            node_id: '029e03a901b85534ff1e92c43c74431f7ce72046060fcf7a95c37e148f78c77255',
+            chan_id: '72623859790382856',
+            fee_base_msat: 1,
+            fee_proportional_millionths: 20,
+            cltv_expiry_delta: 3,
+          },
+          {
+            node_id: '039e03a901b85534ff1e92c43c74431f7ce72046060fcf7a95c37e148f78c77255',
+            chan_id: '217304205466536202',
+            fee_base_msat: 2,
+            fee_proportional_millionths: 30,
+            cltv_expiry_delta: 4,
+          },
+        ],
+      }]);
+    });
+
+    it('reads a pico-bitcoin amount', () => {
+      expect(decodeBolt11(PICO_AMOUNT)).toMatchObject({
+        destination: SPEC_PAYEE,
+        num_satoshis: '967878',
+        num_msat: '967878534',
+        expiry: '604800',
+        cltv_expiry: '10',
+      });
+      expect(decodeBolt11(PICO_AMOUNT).route_hints[0].hop_hints).toHaveLength(1);
+    });
+
+    it('reads known and unknown feature bits', () => {
+      expect(decodeBolt11(OPTIONAL_FEATURE).features).toEqual({
+        8: { name: 'tlv-onion', is_required: true, is_known: true },
+        14: { name: 'payment-addr', is_required: true, is_known: true },
+        99: { name: 'unknown', is_required: false, is_known: false },
+      });
+      // Decodes, but the payer has to refuse it for the required bit it doesn't know
+      expect(decodeBolt11(REQUIRED_UNKNOWN_FEATURE).features[100]).toEqual(
+        { name: 'unknown', is_required: true, is_known: false }
+      );
+    });
+
+    it('accepts an uppercase invoice and a lightning: prefix', () => {
+      expect(decodeBolt11(COFFEE.toUpperCase()).num_msat).toBe('250000000');
+      expect(decodeBolt11(`lightning:${COFFEE}`).description).toBe('1 cup coffee');
+    });
+  });
+
+  describe('invalid invoices', () => {
+    it('rejects a bad checksum', () => {
+      expect(decodeError(BAD_CHECKSUM).field).toBe('checksum');
+      expect(decodeError(COFFEE.slice(0, -1) + 'q').field).toBe('checksum');
+    });
+
+    it('rejects a pico amount that is not a whole millisatoshi', () => {
+      const error = decodeError(reencode(COFFEE, { hrp: 'lnbc2500000001p' }));
+
+      expect(error.field).toBe('amount');
+      expect(error.message).toBe('Pico-bitcoin amounts must be a multiple of 10');
+    });
+
+    it('rejects an unknown multiplier and a leading zero', () => {
+      expect(decodeError(reencode(COFFEE, { hrp: 'lnbc2500x' })).field).toBe('network');
+      expect(decodeError(reencode(COFFEE, { hrp: 'lnbc02500u' })).field).toBe('amount');
+    });
+
+    it('rejects a signature that cannot be recovered', () => {
+      // r above the curve order
+      const badSignature = reencode(COFFEE, {
+        words: words => [...words.slice(0, -104), ...bytesToWords([...new Array(32).fill(0xff), ...new Array(33).fill(1)])],
+      });
+
+      expect(decodeError(badSignature).field).toBe('signature');
+    });
+
+    it('recovers someone else as the payee when the signed data changes', () => {
+      expect(decodeBolt11(reencode(COFFEE, { hrp: 'lnbc2600u' })).destination).not.toBe(SPEC_PAYEE);
+    });
+
+    it('rejects mixed case', () => {
+      const mixed = `LNBC2500U${COFFEE.slice(9)}`;
+
+      expect(decodeError(mixed).field).toBe('format');
+      expect(decodeError(mixed).message).toBe('Mixed-case strings are not valid bech32');
+    });
+
+    it('rejects an unknown network and something that is not an invoice', () => {
+      expect(decodeError(reencode(COFFEE, { hrp: 'lnxy2500u' })).field).toBe('network');
+      expect(decodeError('bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq').field).toBe('format');
+    });
+  });
+});
+
+describe('encodeBolt11', () => {
+  it('round-trips through the decoder', () => {
+    const privateKey = new Uint8Array(32).fill(7);
+    const invoice = encodeBolt11({
+      network: 'regtest',
+      amount_msat: '1500',
+      payment_hash: SPEC_PAYMENT_HASH,
+      payment_secret: SPEC_PAYMENT_SECRET,
+      description: 'Round trip',
+      expiry: 600,
+      timestamp: Number(SPEC_TIMESTAMP),
+    }, privateKey);
+
+    expect(invoice.startsWith('lnbcrt15n1')).toBe(true);
+    expect(decodeBolt11(invoice)).toMatchObject({
+      network: 'regtest',
+      num_msat: '1500',
+      payment_hash: SPEC_PAYMENT_HASH,
+      payment_addr: SPEC_PAYMENT_SECRET,
+      description: 'Round trip',
+      expiry: '600',
+      timestamp: SPEC_TIMESTAMP,
+    });
+  });
+});
+
+describe('validateBolt11', () => {
+  it('reports the network and expiry together', () => {
+    const decoded = decodeBolt11(COFFEE);
+    const errors = validateBolt11(decoded, { network: 'regtest', now: Number(SPEC_TIMESTAMP) + 61 });
+
+    expect(errors.map(error => error.field)).toEqual(['network', 'expiry']);
+    expect(validateBolt11(decoded, { network: 'mainnet', now: Number(SPEC_TIMESTAMP) + 59 })).toEqual([]);
+  });
+});
@@ -0,0 +1,488 @@
+/**
+ * Offline BOLT11 invoice decoder
+ * Decodes a payment request in the browser into the same shape LND's
+ * decodePayReq returns, including signature recovery of the payee key.
+ * Spec: https://github.com/lightning/bolts/blob/master/11-payment-encoding.md
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, hexToBytes, utf8ToBytes } from '@noble/hashes/utils';
+import { Bech32Error, bytesToWords, convertBits, decodeBech32, encodeBech32 } from './bech32';
+
+export type Network = 'mainnet' | 'testnet' | 'signet' | 'regtest' | 'simnet';
+
+// Route hint hop as returned by LND's decodePayReq
+export interface HopHint {
+  node_id: string;
+  chan_id: string;
+  fee_base_msat: number;
+  fee_proportional_millionths: number;
+  cltv_expiry_delta: number;
+}
+
+export interface RouteHint {
+  hop_hints: HopHint[];
+}
+
+export interface Feature {
+  name: string;
+  is_required: boolean;
+  is_known: boolean;
+}
+
+// Decoded payment request, matching LND's decodePayReq response
+export interface DecodedPaymentRequest {
+  destination: string;
+  payment_hash: string;
+  num_satoshis: string;
+  timestamp: string;
+  expiry: string;
+  description: string;
+  description_hash: string;
+  fallback_addr: string;
+  cltv_expiry: string;
+  route_hints: RouteHint[];
+  payment_addr: string;
+  num_msat: string;
+  features: Record<string, Feature>;
+  currency?: string;
+  network?: Network;
+  created_at?: string;
+  [key: string]: unknown;
+}
+
+// Which part of the invoice a decoding or validation error relates to
+export type Bolt11Field =
+  | 'format'
+  | 'checksum'
+  | 'network'
+  | 'amount'
+  | 'payment_hash'
+  | 'signature'
+  | 'expiry';
+
+export class Bolt11Error extends Error {
+  constructor(public field: Bolt11Field, message: string) {
+    super(message);
+    this.name = 'Bolt11Error';
+  }
+}
+
+// Currency prefixes from the spec, longest first so "tbs" wins over "tb"
+const PREFIXES: [string, Network][] = [
+  ['bcrt', 'regtest'],
+  ['tbs', 'signet'],
+  ['bc', 'mainnet'],
+  ['tb', 'testnet'],
+  ['sb', 'simnet'],
+];
+
+// Millisatoshis per unit for each amount multiplier (pico-BTC is handled separately)
+const MSAT_PER_MULTIPLIER: Record<string, bigint> = {
+  '': BigInt(100000000000),
+  m: BigInt(100000000),
+  u: BigInt(100000),
+  n: BigInt(100),
+};
+
+// Feature bits LND knows by name; even bit = required, odd bit = optional
+const FEATURE_NAMES: Record<number, string> = {
+  8: 'tlv-onion',
+  14: 'payment-addr',
+  16: 'multi-path-payments',
+  24: 'route-blinding',
+  30: 'amp',
+  48: 'payment-metadata',
+};
+
+const TAGS = {
+  PAYMENT_HASH: 1,
+  ROUTE_HINT: 3,
+  FEATURES: 5,
+  EXPIRY: 6,
+  FALLBACK: 9,
+  DESCRIPTION: 13,
+  PAYMENT_SECRET: 16,
+  PAYEE: 19,
+  DESCRIPTION_HASH: 23,
+  MIN_FINAL_CLTV: 24,
+} as const;
+
+const DEFAULT_EXPIRY = 3600;
+const DEFAULT_MIN_FINAL_CLTV = 18;
+const SIGNATURE_WORDS = 104;
+const TIMESTAMP_WORDS = 7;
+
+// Convert 5-bit words to bytes, ignoring the trailing padding bits
+function toBytes(words: number[]): Uint8Array {
+  return Uint8Array.from(convertBits(words, 5, 8, true).slice(0, Math.floor((words.length * 5) / 8)));
+}
+
+// Interpret words as a big-endian unsigned integer
+function wordsToInt(words: number[]): number {
+  return words.reduce((total, word) => total * 32 + word, 0);
+}
+
+function readUint(bytes: Uint8Array, offset: number, length: number): bigint {
+  let value = BigInt(0);
+  for (let i = 0; i < length; i++) {
+    value = (value << BigInt(8)) | BigInt(bytes[offset + i]);
+  }
+  return value;
+}
+
+function parseAmount(amount: string): bigint | null {
+  if (amount === '') return null;
+
+  const match = amount.match(/^(\d+)([munp]?)$/);
+  if (!match) {
+    throw new Bolt11Error('amount', `Invalid amount "${amount}"`);
+  }
+
+  const [, digits, multiplier] = match;
+  if (digits.length > 1 && digits.startsWith('0')) {
+    throw new Bolt11Error('amount', 'Amount must not have leading zeros');
+  }
+
+  const value = BigInt(digits);
+
+  if (multiplier === 'p') {
+    // 1 pico-BTC is 0.1 msat, so only multiples of 10 are representable
+    if (value % BigInt(10) !== BigInt(0)) {
+      throw new Bolt11Error('amount', 'Pico-bitcoin amounts must be a multiple of 10');
+    }
+    return value / BigInt(10);
+  }
+
+  return value * MSAT_PER_MULTIPLIER[multiplier];
+}
+
+function parseRouteHints(bytes: Uint8Array): HopHint[] {
+  const hops: HopHint[] = [];
+  for (let offset = 0; offset + 51 <= bytes.length; offset += 51) {
+    hops.push({
+      node_id: bytesToHex(bytes.slice(offset, offset + 33)),
+      chan_id: readUint(bytes, offset + 33, 8).toString(),
+      fee_base_msat: Number(readUint(bytes, offset + 41, 4)),
+      fee_proportional_millionths: Number(readUint(bytes, offset + 45, 4)),
+      cltv_expiry_delta: Number(readUint(bytes, offset + 49, 2)),
+    });
+  }
+  return hops;
+}
+
+function parseFeatures(words: number[]): Record<string, Feature> {
+  const features: Record<string, Feature> = {};
+  const bitCount = words.length * 5;
+
+  for (let bit = 0; bit < bitCount; bit++) {
+    const word = words[words.length - 1 - Math.floor(bit / 5)];
+    if (!((word >> (bit % 5)) & 1)) continue;
+
+    const name = FEATURE_NAMES[bit - (bit % 2)];
+    features[bit] = {
+      name: name || `unknown`,
+      is_required: bit % 2 === 0,
+      is_known: Boolean(name),
+    };
+  }
+
+  return features;
+}
+
+// Base58check encoding for legacy fallback addresses
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+function base58check(payload: Uint8Array): string {
+  const checksum = sha256(sha256(payload)).slice(0, 4);
+  const bytes = new Uint8Array([...payload, ...checksum]);
+
+  let value = readUint(bytes, 0, bytes.length);
+  let encoded = '';
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+  return encoded;
+}
+
+function parseFallbackAddress(words: number[], prefix: string, network: Network): string {
+  const [version, ...rest] = words;
+  const program = toBytes(rest);
+  const mainnet = network === 'mainnet';
+
+  if (version === 17) {
+    return base58check(new Uint8Array([mainnet ? 0x00 : 0x6f, ...program]));
+  }
+  if (version === 18) {
+    return base58check(new Uint8Array([mainnet ? 0x05 : 0xc4, ...program]));
+  }
+  if (version <= 16) {
+    const hrp = prefix === 'tbs' ? 'tb' : prefix;
+    return encodeBech32(hrp, [version, ...bytesToWords(program)], version === 0 ? 'bech32' : 'bech32m');
+  }
+  return '';
+}
+
+/**
+ * Decode a BOLT11 payment request
+ * Accepts an optional "lightning:" URI prefix. Throws a Bolt11Error that
+ * names the offending field when the invoice is malformed.
+ */
+export function decodeBolt11(paymentRequest: string): DecodedPaymentRequest {
+  const invoice = paymentRequest.trim().replace(/^lightning:/i, '');
+
+  if (!/^ln/i.test(invoice)) {
+    throw new Bolt11Error('format', 'Lightning invoices start with "ln", e.g. lnbc...');
+  }
+
+  let hrp: string;
+  let words: number[];
+  try {
+    ({ hrp, words } = decodeBech32(invoice));
+  } catch (error) {
+    if (error instanceof Bech32Error && error.message === 'Invalid checksum') {
+      throw new Bolt11Error('checksum', 'Invalid checksum. The invoice may be incomplete or mistyped.');
+    }
+    throw new Bolt11Error('format', error instanceof Error ? error.message : 'Invalid invoice encoding');
+  }
+
+  const prefixEntry = PREFIXES.find(([prefix]) => hrp.startsWith(`ln${prefix}`)
+    && /^(\d+[munp]?)?$/.test(hrp.slice(2 + prefix.length)));
+  if (!prefixEntry) {
+    throw new Bolt11Error('network', `Unknown network prefix "${hrp}"`);
+  }
+  const [prefix, network] = prefixEntry;
+  const amountMsat = parseAmount(hrp.slice(2 + prefix.length));
+
+  if (words.length < TIMESTAMP_WORDS + SIGNATURE_WORDS) {
+    throw new Bolt11Error('format', 'Invoice is too short');
+  }
+
+  const dataWords = words.slice(0, -SIGNATURE_WORDS);
+  const signatureBytes = toBytes(words.slice(-SIGNATURE_WORDS));
+  const timestamp = wordsToInt(dataWords.slice(0, TIMESTAMP_WORDS));
+
+  const decoded: DecodedPaymentRequest = {
+    destination: '',
+    payment_hash: '',
+    num_satoshis: amountMsat === null ? '0' : (amountMsat / BigInt(1000)).toString(),
+    num_msat: amountMsat === null ? '0' : amountMsat.toString(),
+    timestamp: timestamp.toString(),
+    expiry: DEFAULT_EXPIRY.toString(),
+    description: '',
+    description_hash: '',
+    fallback_addr: '',
+    cltv_expiry: DEFAULT_MIN_FINAL_CLTV.toString(),
+    route_hints: [],
+    payment_addr: '',
+    features: {},
+    currency: prefix,
+    network,
+  };
+
+  // Tagged fields: 5-bit type, 10-bit length, then data
+  let position = TIMESTAMP_WORDS;
+  while (position < dataWords.length) {
+    if (position + 3 > dataWords.length) {
+      throw new Bolt11Error('format', 'Truncated tagged field');
+    }
+    const tag = dataWords[position];
+    const length = wordsToInt(dataWords.slice(position + 1, position + 3));
+    const fieldWords = dataWords.slice(position + 3, position + 3 + length);
+    position += 3 + length;
+
+    if (fieldWords.length !== length) {
+      throw new Bolt11Error('format', 'Truncated tagged field');
+    }
+
+    switch (tag) {
+      case TAGS.PAYMENT_HASH:
+        // Fields with an unexpected length must be skipped per the spec
+        if (length === 52 && !decoded.payment_hash) decoded.payment_hash = bytesToHex(toBytes(fieldWords));
+        break;
+      case TAGS.PAYMENT_SECRET:
+        if (length === 52 && !decoded.payment_addr) decoded.payment_addr = bytesToHex(toBytes(fieldWords));
+        break;
+      case TAGS.DESCRIPTION_HASH:
+        if (length === 52 && !decoded.description_hash) decoded.description_hash = bytesToHex(toBytes(fieldWords));
+        break;
+      case TAGS.PAYEE:
+        if (length === 53 && !decoded.destination) decoded.destination = bytesToHex(toBytes(fieldWords));
+        break;
+      case TAGS.DESCRIPTION:
+        decoded.description = new TextDecoder().decode(toBytes(fieldWords));
+        break;
+      case TAGS.EXPIRY:
+        decoded.expiry = wordsToInt(fieldWords).toString();
+        break;
+      case TAGS.MIN_FINAL_CLTV:
+        decoded.cltv_expiry = wordsToInt(fieldWords).toString();
+        break;
+      case TAGS.ROUTE_HINT:
+        decoded.route_hints.push({ hop_hints: parseRouteHints(toBytes(fieldWords)) });
+        break;
+      case TAGS.FEATURES:
+        decoded.features = parseFeatures(fieldWords);
+        break;
+      case TAGS.FALLBACK:
+        if (!decoded.fallback_addr && length > 0) {
+          decoded.fallback_addr = parseFallbackAddress(fieldWords, prefix, network);
+        }
+        break;
+      default:
+        // Unknown fields are ignored
+        break;
+    }
+  }
+
+  if (!decoded.payment_hash) {
+    throw new Bolt11Error('payment_hash', 'Invoice is missing a payment hash');
+  }
+
+  // The signature covers the human-readable part and the data words, padded to bytes
+  const signedData = new Uint8Array([...utf8ToBytes(hrp), ...convertBits(dataWords, 5, 8, true)]);
+  const messageHash = sha256(signedData);
+  const recoveryId = signatureBytes[64];
+
+  try {
+    const signature = secp256k1.Signature.fromCompact(signatureBytes.slice(0, 64));
+
+    if (decoded.destination) {
+      // An explicit payee key must match the signature
+      if (!secp256k1.verify(signature.toCompactRawBytes(), messageHash, hexToBytes(decoded.destination), { lowS: false })) {
+        throw new Bolt11Error('signature', 'Signature does not match the payee public key');
+      }
+    } else {
+      decoded.destination = signature
+        .addRecoveryBit(recoveryId)
+        .recoverPublicKey(messageHash)
+        .toHex(true);
+    }
+  } catch (error) {
+    if (error instanceof Bolt11Error) throw error;
+    throw new Bolt11Error('signature', 'Invalid signature');
+  }
+
+  decoded.created_at = new Date(timestamp * 1000).toISOString();
+  return decoded;
+}
+
+// Expiry time of a decoded invoice in unix seconds
+export function invoiceExpiresAt(decoded: DecodedPaymentRequest): number {
+  return Number(decoded.timestamp) + Number(decoded.expiry);
+}
+
+/**
+ * Check that a decoded invoice can be paid from this wallet right now
+ * Returns one error per problem found, so all of them can be shown at once.
+ */
+export function validateBolt11(
+  decoded: DecodedPaymentRequest,
+  options: { network?: Network; now?: number } = {}
+): Bolt11Error[] {
+  const errors: Bolt11Error[] = [];
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  if (options.network && decoded.network !== options.network) {
+    errors.push(new Bolt11Error(
+      'network',
+      `This is a ${decoded.network} invoice, but the wallet is on ${options.network}`
+    ));
+  }
+
+  const expiresAt = invoiceExpiresAt(decoded);
+  if (expiresAt <= now) {
+    errors.push(new Bolt11Error(
+      'expiry',
+      `This invoice expired on ${new Date(expiresAt * 1000).toLocaleString()}`
+    ));
+  }
+
+  return errors;
+}
+
+export interface Bolt11Fields {
+  network: Network;
+  // Omit for an invoice that lets the payer choose the amount
+  amount_msat?: string;
+  payment_hash: string;
+  payment_secret: string;
+  // Either a description, or the hash of one that is shared out of band
+  description?: string;
+  description_hash?: string;
+  expiry?: number;
+  timestamp?: number;
+  min_final_cltv?: number;
+}
+
+// Feature bits set on encoded invoices: var_onion_optin and payment_secret, both required
+const ENCODED_FEATURE_BITS = [8, 14];
+
+// Encode a non-negative integer as big-endian 5-bit words, left-padded to a minimum length
+function intToWords(value: number, minLength = 1): number[] {
+  const words: number[] = [];
+  do {
+    words.unshift(value % 32);
+    value = Math.floor(value / 32);
+  } while (value > 0);
+  while (words.length < minLength) words.unshift(0);
+  return words;
+}
+
+// Shortest amount string for the human-readable part, using the largest unit that divides evenly
+function formatAmount(msat: bigint): string {
+  for (const multiplier of ['', 'm', 'u', 'n']) {
+    if (msat % MSAT_PER_MULTIPLIER[multiplier] === BigInt(0)) {
+      return `${msat / MSAT_PER_MULTIPLIER[multiplier]}${multiplier}`;
+    }
+  }
+  return `${msat * BigInt(10)}p`;
+}
+
+function taggedField(tag: number, words: number[]): number[] {
+  return [tag, ...intToWords(words.length, 2), ...words];
+}
+
+/**
+ * Encode and sign a BOLT11 payment request
+ * Used by the simulated node to issue invoices that decode and verify like
+ * real ones; the payee is the public key of privateKey.
+ */
+export function encodeBolt11(fields: Bolt11Fields, privateKey: Uint8Array): string {
+  const prefix = PREFIXES.find(([, network]) => network === fields.network)?.[0];
+  if (!prefix) {
+    throw new Bolt11Error('network', `Unknown network "${fields.network}"`);
+  }
+
+  const amountMsat = fields.amount_msat ? BigInt(fields.amount_msat) : BigInt(0);
+  const hrp = `ln${prefix}${amountMsat > BigInt(0) ? formatAmount(amountMsat) : ''}`;
+
+  const featureWords = Array.from({ length: Math.floor(Math.max(...ENCODED_FEATURE_BITS) / 5) + 1 }, () => 0);
+  ENCODED_FEATURE_BITS.forEach(bit => {
+    featureWords[featureWords.length - 1 - Math.floor(bit / 5)] |= 1 << (bit % 5);
+  });
+
+  const dataWords = [
+    ...intToWords(fields.timestamp ?? Math.floor(Date.now() / 1000), TIMESTAMP_WORDS),
+    ...taggedField(TAGS.PAYMENT_HASH, bytesToWords(hexToBytes(fields.payment_hash))),
+    ...taggedField(TAGS.PAYMENT_SECRET, bytesToWords(hexToBytes(fields.payment_secret))),
+    ...(fields.description_hash
+      ? taggedField(TAGS.DESCRIPTION_HASH, bytesToWords(hexToBytes(fields.description_hash)))
+      : taggedField(TAGS.DESCRIPTION, bytesToWords(utf8ToBytes(fields.description ?? '')))),
+    ...taggedField(TAGS.EXPIRY, intToWords(fields.expiry ?? DEFAULT_EXPIRY)),
+    ...taggedField(TAGS.MIN_FINAL_CLTV, intToWords(fields.min_final_cltv ?? DEFAULT_MIN_FINAL_CLTV)),
+    ...taggedField(TAGS.FEATURES, featureWords),
+  ];
+
+  const messageHash = sha256(new Uint8Array([...utf8ToBytes(hrp), ...convertBits(dataWords, 5, 8, true)]));
+  const signature = secp256k1.sign(messageHash, privateKey);
+
+  return encodeBech32(hrp, [...dataWords, ...bytesToWords([...signature.toCompactRawBytes(), signature.recovery])]);
+}
@@ -0,0 +1,163 @@
+import { describe, expect, it } from 'vitest';
+import { bytesToWords, encodeBech32 } from './bech32';
+import { Bolt12Error, decodeOffer, isBolt12Offer, validateOffer } from './bolt12';
+
+// Offer vectors from the BOLT 12 test vectors (offers-test.json), all issued by this key
+const ISSUER_ID = '02eec7245d6b7d2ccb30380bfbe2a3648cd7a942653f5aa340edcea1f283686619';
+
+const VECTORS = {
+  minimal: 'lno1zcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese',
+  description: 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg',
+  testnet: 'lno1qgsyxjtl6luzd9t3pr62xr7eemp6awnejusgf6gw45q75vcfqqqqqqq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  metadata: 'lno1qsgqqqqqqqqqqqqqqqqqqqqqqqqqqzsv23jhxapqwejkxar0wfe3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs',
+  amount: 'lno1pqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  currency: 'lno1qcp4256ypqpzwyq2p32x2um5ypmx2cm5dae8x93pqthvwfzadd7jejes8q9lhc4rvjxd022zv5l44g6qah82ru5rdpnpj',
+  expiry: 'lno1pgx9getnwss8vetrw3hhyucwq3ay997czcss9mk8y3wkklfvevcrszlmu23kfrxh49px20665dqwmn4p72pksese',
+  issuer: 'lno1pgx9getnwss8vetrw3hhyucjy358garswvaz7tmzdak8gvfj9ehhyeeqgf85c4p3xgsxjmnyw4ehgunfv4e3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs',
+  quantity: 'lno1pgx9getnwss8vetrw3hhyuc5qyz3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs',
+  unlimitedQuantity: 'lno1pgx9getnwss8vetrw3hhyuc5qqtzzqhwcuj966ma9n9nqwqtl032xeyv6755yeflt235pmww58egx6rxry',
+  singleQuantity: 'lno1pgx9getnwss8vetrw3hhyuc5qyq3vggzamrjghtt05kvkvpcp0a79gmy3nt6jsn98ad2xs8de6sl9qmgvcvs',
+  optionalFeature: 'lno1pgx9getnwss8vetrw3hhyucvp5yqqqqqqqqqqqqqqqqqqqqkyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg',
+  unknownOddField: 'lno1pgx9getnwss8vetrw3hhyuckyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxfppf5x2mrvdamk7unvvs',
+  split: 'lno1pgx9getnwss8vetrw3hhyuc+kyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg',
+  missingDescription: 'lno1pqpzwyqkyypwa3eyt44h6txtxquqh7lz5djge4afgfjn7k4rgrkuag0jsd5xvxg',
+  missingIssuer: 'lno1pgx9getnwss8vetrw3hhyuc',
+};
+
+const bigSize = (value: number) => value < 0xfd ? [value] : [0xfd, value >> 8, value & 0xff];
+
+// Offers are bech32 without a checksum
+const offerFromBytes = (bytes: number[]) => encodeBech32('lno', bytesToWords(bytes)).slice(0, -6);
+
+// Build an offer from TLV records, for malformed offers the vectors don't cover
+function offer(...records: [type: number, value: number[]][]): string {
+  return offerFromBytes(records.flatMap(([type, value]) => [...bigSize(type), ...bigSize(value.length), ...value]));
+}
+
+const issuerId = (): [number, number[]] => [22, Array.from(Buffer.from(ISSUER_ID, 'hex'))];
+const description = (text: string): [number, number[]] => [10, Array.from(Buffer.from(text))];
+
+// One blinded path: a node id as introduction point, a blinding point and the given number of hops
+function blindedPath(hops: number): number[] {
+  const point = [0x02, ...new Array(32).fill(0x42)];
+  return [...point, ...point, hops, ...Array.from({ length: hops }, () => [...point, 0, 2, 0xaa, 0xbb]).flat()];
+}
+
+function decodeError(value: string): string {
+  try {
+    decodeOffer(value);
+  } catch (error) {
+    if (error instanceof Bolt12Error) return error.message;
+    throw error;
+  }
+  throw new Error('Offer decoded without an error');
+}
+
+describe('decodeOffer', () => {
+  describe('spec vectors', () => {
+    it('decodes a minimal offer with only an issuer id', () => {
+      expect(decodeOffer(VECTORS.minimal)).toEqual({ networks: ['mainnet'], paths: 0, issuer_id: ISSUER_ID });
+    });
+
+    it('reads the description, chains and metadata', () => {
+      expect(decodeOffer(VECTORS.description)).toMatchObject({ description: 'Test vectors', issuer_id: ISSUER_ID });
+      expect(decodeOffer(VECTORS.testnet).networks).toEqual(['testnet']);
+      expect(decodeOffer(VECTORS.metadata).metadata).toBe('00'.repeat(16));
+    });
+
+    it('reads an amount in msat or in a currency', () => {
+      expect(decodeOffer(VECTORS.amount)).toMatchObject({ amount_msat: '10000', description: 'Test vectors' });
+
+      const priced = decodeOffer(VECTORS.currency);
+      expect(priced).toMatchObject({ currency: 'USD', currency_amount: '10000' });
+      expect(priced.amount_msat).toBeUndefined();
+    });
+
+    it('reads the expiry, issuer and quantity', () => {
+      expect(decodeOffer(VECTORS.expiry).absolute_expiry).toBe(2051184600);
+      expect(decodeOffer(VECTORS.issuer).issuer).toBe('https://bolt12.org BOLT12 industries');
+      expect(decodeOffer(VECTORS.quantity).quantity_max).toBe(5);
+      expect(decodeOffer(VECTORS.unlimitedQuantity).quantity_max).toBe(0);
+      expect(decodeOffer(VECTORS.singleQuantity).quantity_max).toBe(1);
+    });
+
+    it('ignores optional features and unknown odd fields', () => {
+      expect(decodeOffer(VECTORS.optionalFeature)).toEqual(decodeOffer(VECTORS.description));
+      expect(decodeOffer(VECTORS.unknownOddField)).toEqual(decodeOffer(VECTORS.description));
+    });
+
+    it('joins an offer split with "+" and accepts upper case and a lightning: prefix', () => {
+      expect(decodeOffer(VECTORS.split)).toEqual(decodeOffer(VECTORS.description));
+      expect(decodeOffer(VECTORS.split.replace('+', '+\n  '))).toEqual(decodeOffer(VECTORS.description));
+      expect(decodeOffer(`lightning:${VECTORS.description.toUpperCase()}`)).toEqual(decodeOffer(VECTORS.description));
+    });
+
+    it('rejects an amount without a description', () => {
+      expect(decodeError(VECTORS.missingDescription)).toBe('Offers with an amount must have a description');
+    });
+
+    it('rejects an offer nobody could request an invoice from', () => {
+      expect(decodeError(VECTORS.missingIssuer)).toBe('Offer has neither an issuer id nor blinded paths');
+    });
+  });
+
+  it('counts blinded paths', () => {
+    const decoded = decodeOffer(offer(description('Paths'), [16, [...blindedPath(1), ...blindedPath(2)]]));
+
+    expect(decoded.paths).toBe(2);
+    expect(decoded.issuer_id).toBeUndefined();
+  });
+
+  describe('malformed offers', () => {
+    it.each([
+      ['empty', 'lno1', 'Offer is empty'],
+      ['mixed case', `lno1${VECTORS.minimal.slice(4, 10).toUpperCase()}${VECTORS.minimal.slice(10)}`, 'Offers must not mix upper and lower case'],
+      ['a leading "+"', `+${VECTORS.minimal}`, 'Offer has a misplaced "+"'],
+      ['a trailing "+"', `${VECTORS.minimal}+`, 'Offer has a misplaced "+"'],
+      ['a bech32 checksum', `${VECTORS.minimal}qqqqqq`, 'Invalid padding'],
+      ['another prefix', 'lni1qqqq', 'Offers start with "lno1"'],
+      ['fields out of order', offer(issuerId(), description('Test')), 'Offer fields are out of order'],
+      ['a truncated field', offer(description('Test'), [22, [0x02]]).slice(0, -2), 'Offer is truncated'],
+      ['an unknown even field', offer(description('Test'), issuerId(), [24, [1]]), 'Offer has an unknown required field of type 24'],
+      ['a field past the offer range', offer(description('Test'), issuerId(), [81, [1]]), 'Offer has a field of type 81 outside the offer range'],
+      ['a required feature', offer(description('Test'), [12, [0x01, 0x00]], issuerId()), 'Offer requires unsupported feature bit 8'],
+      ['an empty chain list', offer([2, []], issuerId()), 'Offer has an invalid chain list'],
+      ['an unknown chain', offer([2, new Array(32).fill(1)], issuerId()), 'Offer is for an unknown chain'],
+      ['a zero amount', offer([8, []], description('Test'), issuerId()), 'Offer amount must be greater than zero'],
+      ['an amount with a leading zero', offer([8, [0, 1]], description('Test'), issuerId()), 'Offer has an invalid integer field'],
+      ['a currency without an amount', offer([6, Array.from(Buffer.from('USD'))], description('Test'), issuerId()), 'Offer has a currency but no amount'],
+      ['a lowercase currency', offer([6, Array.from(Buffer.from('usd'))], [8, [1]], description('Test'), issuerId()), 'Offer currency must be an ISO 4217 code'],
+      ['invalid UTF-8', offer([10, [0xff]], issuerId()), 'Offer has a text field that is not valid UTF-8'],
+      ['an invalid issuer id', offer(description('Test'), [22, [0x04, ...new Array(32).fill(1)]]), 'Offer has an invalid public key'],
+      ['an empty path list', offer(description('Test'), [16, []], issuerId()), 'Offer has an empty path list'],
+      ['a path without hops', offer(description('Test'), [16, blindedPath(0)]), 'Offer has a blinded path without hops'],
+      ['a non-minimal length', offerFromBytes([10, 0xfd, 0, 4, ...Buffer.from('Test')]), 'Offer uses a non-minimal integer encoding'],
+    ])('rejects %s', (_, value, message) => {
+      expect(decodeError(value)).toBe(message);
+    });
+  });
+});
+
+describe('isBolt12Offer', () => {
+  it('recognizes offers with or without a lightning: prefix', () => {
+    expect(isBolt12Offer(VECTORS.minimal)).toBe(true);
+    expect(isBolt12Offer(` LIGHTNING:${VECTORS.minimal.toUpperCase()}`)).toBe(true);
+    expect(isBolt12Offer('lnbc1pvjluez')).toBe(false);
+  });
+});
+
+describe('validateOffer', () => {
+  it('reports the network, expiry and currency together', () => {
+    const errors = validateOffer(
+      { ...decodeOffer(VECTORS.currency), absolute_expiry: 1700000000 },
+      { network: 'regtest', now: 1700000001 }
+    );
+
+    expect(errors.map(error => error.message)).toEqual([
+      'This offer is for mainnet, but the wallet is on regtest',
+      expect.stringMatching(/^This offer expired on /),
+      'Offers priced in USD are not supported',
+    ]);
+    expect(validateOffer(decodeOffer(VECTORS.expiry), { network: 'mainnet', now: 2051184599 })).toEqual([]);
+  });
+});
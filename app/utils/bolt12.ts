@@ -0,0 +1,331 @@
+/**
+ * Offline BOLT12 offer decoder
+ * Offers (lno1...) are reusable payment codes. Unlike BOLT11 invoices they
+ * carry no payment hash: the payer asks the issuer for an invoice over onion
+ * messages, which needs a node that speaks BOLT12 (see /api/offers).
+ * Spec: https://github.com/lightning/bolts/blob/master/12-offer-encoding.md
+ */
+
+import { bytesToHex } from '@noble/hashes/utils';
+import { Bech32Error, charsToWords, convertBits } from './bech32';
+import type { Network } from './bolt11';
+
+export interface DecodedOffer {
+  // Networks the offer can be paid on; bitcoin mainnet when the offer lists none
+  networks: Network[];
+  description?: string;
+  issuer?: string;
+  // Amount in msat, for offers denominated in bitcoin
+  amount_msat?: string;
+  // Amount in the smallest unit of an ISO 4217 currency, e.g. cents for USD
+  currency?: string;
+  currency_amount?: string;
+  // Unix seconds after which the offer should not be paid
+  absolute_expiry?: number;
+  // Most items that can be bought at once; 0 means no limit, unset means one per invoice
+  quantity_max?: number;
+  // Node that signs the invoices, unless the issuer hides behind blinded paths
+  issuer_id?: string;
+  // Number of blinded paths leading to the issuer
+  paths: number;
+  metadata?: string;
+}
+
+export class Bolt12Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'Bolt12Error';
+  }
+}
+
+// Genesis block hashes in the byte order used by BOLT12's offer_chains
+const CHAIN_HASHES: Record<string, Network> = {
+  '6fe28c0ab6f1b372c1a6a246ae63f74f931e8365e15a089c68d6190000000000': 'mainnet',
+  '43497fd7f826957108f4a30fd9cec3aeba79972084e90ead01ea330900000000': 'testnet',
+  'f61eee3b63a380a477a063af32b2bbc97c9ff9f01f2c4225e973988108000000': 'signet',
+  '06226e46111a0b59caaf126043eb5bbf28c34f3a5e332a1fc7b2b73cf188910f': 'regtest',
+};
+
+const OFFER_TYPES = {
+  CHAINS: 2,
+  METADATA: 4,
+  CURRENCY: 6,
+  AMOUNT: 8,
+  DESCRIPTION: 10,
+  FEATURES: 12,
+  ABSOLUTE_EXPIRY: 14,
+  PATHS: 16,
+  ISSUER: 18,
+  QUANTITY_MAX: 20,
+  ISSUER_ID: 22,
+} as const;
+
+const KNOWN_TYPES = new Set<number>(Object.values(OFFER_TYPES));
+
+// Offers may only use TLV types from these ranges
+const isOfferType = (type: bigint) => (type >= BigInt(1) && type <= BigInt(79))
+  || (type >= BigInt(1000000000) && type <= BigInt(1999999999));
+
+// Anything that looks like an offer, with or without a lightning: URI prefix
+export function isBolt12Offer(value: string): boolean {
+  return /^(lightning:)?lno1/i.test(value.trim());
+}
+
+// Sequential reader over a byte array that fails on truncated data
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  get done(): boolean {
+    return this.offset >= this.bytes.length;
+  }
+
+  read(length: number): Uint8Array {
+    if (this.offset + length > this.bytes.length) {
+      throw new Bolt12Error('Offer is truncated');
+    }
+    const slice = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  readUint(length: number): bigint {
+    return this.read(length).reduce((value, byte) => (value << BigInt(8)) | BigInt(byte), BigInt(0));
+  }
+
+  // BigSize: 1 byte, or a 0xfd/0xfe/0xff marker and a minimally encoded 2, 4 or 8 byte integer
+  readBigSize(): bigint {
+    const first = this.read(1)[0];
+    if (first < 0xfd) return BigInt(first);
+
+    const length = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    const minimum = first === 0xfd ? BigInt(0xfd) : first === 0xfe ? BigInt(0x10000) : BigInt(0x100000000);
+    const value = this.readUint(length);
+    if (value < minimum) {
+      throw new Bolt12Error('Offer uses a non-minimal integer encoding');
+    }
+    return value;
+  }
+}
+
+// Truncated unsigned integer: big-endian with no leading zero bytes
+function readTruncatedUint(value: Uint8Array): bigint {
+  if (value.length > 8 || value[0] === 0) {
+    throw new Bolt12Error('Offer has an invalid integer field');
+  }
+  return new ByteReader(value).readUint(value.length);
+}
+
+function readUtf8(value: Uint8Array): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(value);
+  } catch {
+    throw new Bolt12Error('Offer has a text field that is not valid UTF-8');
+  }
+}
+
+function readPoint(value: Uint8Array): string {
+  if (value.length !== 33 || (value[0] !== 2 && value[0] !== 3)) {
+    throw new Bolt12Error('Offer has an invalid public key');
+  }
+  return bytesToHex(value);
+}
+
+// Count the blinded paths, checking that each one is well formed
+function countBlindedPaths(value: Uint8Array): number {
+  const reader = new ByteReader(value);
+  let count = 0;
+
+  while (!reader.done) {
+    // Introduction node: a short channel id with direction, or a node id
+    const kind = reader.read(1)[0];
+    reader.read(kind <= 1 ? 8 : 32);
+    reader.read(33);
+
+    const hops = reader.read(1)[0];
+    if (hops === 0) {
+      throw new Bolt12Error('Offer has a blinded path without hops');
+    }
+    for (let hop = 0; hop < hops; hop++) {
+      reader.read(33);
+      reader.read(Number(reader.readUint(2)));
+    }
+    count++;
+  }
+
+  return count;
+}
+
+// Unknown even feature bits are required by the issuer, so the offer can't be paid
+function checkFeatures(value: Uint8Array) {
+  value.forEach((byte, index) => {
+    const evenBits = byte & 0x55;
+    if (evenBits !== 0) {
+      const bit = (value.length - 1 - index) * 8 + Math.log2(evenBits & -evenBits);
+      throw new Bolt12Error(`Offer requires unsupported feature bit ${bit}`);
+    }
+  });
+}
+
+// Strip the prefix and "+" line continuations, and convert the bech32 characters to bytes
+function offerBytes(offer: string): Uint8Array {
+  const value = offer.trim().replace(/^lightning:/i, '');
+
+  if (value !== value.toLowerCase() && value !== value.toUpperCase()) {
+    throw new Bolt12Error('Offers must not mix upper and lower case');
+  }
+  if (/^\+|\+\s*$/.test(value)) {
+    throw new Bolt12Error('Offer has a misplaced "+"');
+  }
+
+  const joined = value.toLowerCase().replace(/\+\s*/g, '');
+  if (!joined.startsWith('lno1')) {
+    throw new Bolt12Error('Offers start with "lno1"');
+  }
+
+  try {
+    return Uint8Array.from(convertBits(charsToWords(joined.slice(4)), 5, 8, false));
+  } catch (error) {
+    throw new Bolt12Error(error instanceof Bech32Error ? error.message : 'Invalid offer encoding');
+  }
+}
+
+/**
+ * Decode a BOLT12 offer
+ * Accepts an optional "lightning:" URI prefix and offers split across lines
+ * with "+". Throws a Bolt12Error when the offer is malformed or can't be paid
+ * by any reader, following the spec's rules for offer readers.
+ */
+export function decodeOffer(offer: string): DecodedOffer {
+  const reader = new ByteReader(offerBytes(offer));
+  const decoded: DecodedOffer = { networks: ['mainnet'], paths: 0 };
+  let previousType = BigInt(-1);
+  let hasAmount = false;
+
+  if (reader.done) {
+    throw new Bolt12Error('Offer is empty');
+  }
+
+  while (!reader.done) {
+    const type = reader.readBigSize();
+    const value = reader.read(Number(reader.readBigSize()));
+
+    if (type <= previousType) {
+      throw new Bolt12Error('Offer fields are out of order');
+    }
+    previousType = type;
+
+    if (!isOfferType(type)) {
+      throw new Bolt12Error(`Offer has a field of type ${type} outside the offer range`);
+    }
+    if (!KNOWN_TYPES.has(Number(type))) {
+      // Unknown odd fields are optional, unknown even fields are not
+      if (type % BigInt(2) === BigInt(0)) {
+        throw new Bolt12Error(`Offer has an unknown required field of type ${type}`);
+      }
+      continue;
+    }
+
+    switch (Number(type)) {
+      case OFFER_TYPES.CHAINS: {
+        if (value.length === 0 || value.length % 32 !== 0) {
+          throw new Bolt12Error('Offer has an invalid chain list');
+        }
+        const hashes = Array.from({ length: value.length / 32 }, (_, i) => bytesToHex(value.slice(i * 32, i * 32 + 32)));
+        decoded.networks = hashes.map(hash => CHAIN_HASHES[hash]).filter((network): network is Network => Boolean(network));
+        if (decoded.networks.length === 0) {
+          throw new Bolt12Error('Offer is for an unknown chain');
+        }
+        break;
+      }
+      case OFFER_TYPES.METADATA:
+        decoded.metadata = bytesToHex(value);
+        break;
+      case OFFER_TYPES.CURRENCY:
+        decoded.currency = readUtf8(value);
+        if (!/^[A-Z]{3}$/.test(decoded.currency)) {
+          throw new Bolt12Error('Offer currency must be an ISO 4217 code');
+        }
+        break;
+      case OFFER_TYPES.AMOUNT: {
+        hasAmount = true;
+        const amount = value.length === 0 ? BigInt(0) : readTruncatedUint(value);
+        if (amount === BigInt(0)) {
+          throw new Bolt12Error('Offer amount must be greater than zero');
+        }
+        decoded.amount_msat = amount.toString();
+        break;
+      }
+      case OFFER_TYPES.DESCRIPTION:
+        decoded.description = readUtf8(value);
+        break;
+      case OFFER_TYPES.FEATURES:
+        checkFeatures(value);
+        break;
+      case OFFER_TYPES.ABSOLUTE_EXPIRY:
+        decoded.absolute_expiry = value.length === 0 ? 0 : Number(readTruncatedUint(value));
+        break;
+      case OFFER_TYPES.PATHS:
+        decoded.paths = countBlindedPaths(value);
+        if (decoded.paths === 0) {
+          throw new Bolt12Error('Offer has an empty path list');
+        }
+        break;
+      case OFFER_TYPES.ISSUER:
+        decoded.issuer = readUtf8(value);
+        break;
+      case OFFER_TYPES.QUANTITY_MAX:
+        decoded.quantity_max = value.length === 0 ? 0 : Number(readTruncatedUint(value));
+        break;
+      case OFFER_TYPES.ISSUER_ID:
+        decoded.issuer_id = readPoint(value);
+        break;
+    }
+  }
+
+  // With a currency, the amount is in that currency rather than msat
+  if (decoded.currency !== undefined) {
+    if (!hasAmount) {
+      throw new Bolt12Error('Offer has a currency but no amount');
+    }
+    decoded.currency_amount = decoded.amount_msat;
+    delete decoded.amount_msat;
+  }
+  if (hasAmount && decoded.description === undefined) {
+    throw new Bolt12Error('Offers with an amount must have a description');
+  }
+  if (!decoded.issuer_id && decoded.paths === 0) {
+    throw new Bolt12Error('Offer has neither an issuer id nor blinded paths');
+  }
+
+  return decoded;
+}
+
+/**
+ * Check that a decoded offer can be paid from this wallet right now
+ * Returns one error per problem found, so all of them can be shown at once.
+ */
+export function validateOffer(
+  decoded: DecodedOffer,
+  options: { network?: Network; now?: number } = {}
+): Bolt12Error[] {
+  const errors: Bolt12Error[] = [];
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+
+  if (options.network && !decoded.networks.includes(options.network)) {
+    errors.push(new Bolt12Error(
+      `This offer is for ${decoded.networks.join(', ')}, but the wallet is on ${options.network}`
+    ));
+  }
+  if (decoded.absolute_expiry && decoded.absolute_expiry <= now) {
+    errors.push(new Bolt12Error(
+      `This offer expired on ${new Date(decoded.absolute_expiry * 1000).toLocaleString()}`
+    ));
+  }
+  if (decoded.currency) {
+    errors.push(new Bolt12Error(`Offers priced in ${decoded.currency} are not supported`));
+  }
+
+  return errors;
+}
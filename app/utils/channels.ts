@@ -0,0 +1,76 @@
+/**
+ * Channel management types and helpers, shared by the API routes and the UI
+ * All amounts are in sats unless the field name says otherwise.
+ */
+
+// LND rejects channels smaller than this by default
+export const MIN_CHANNEL_SIZE_SAT = 20000;
+
+export interface NodeUri {
+  pubkey: string;
+  host: string;
+}
+
+/**
+ * Parse a node URI of the form <pubkey>@<host>:<port>
+ * The port may be left out, in which case LND uses 9735.
+ */
+export function parseNodeUri(uri: string): NodeUri | null {
+  const match = uri.trim().match(/^([^\s@]+)@([^\s@]+)$/);
+  if (!match || !isNodePubkey(match[1])) return null;
+  return { pubkey: match[1].toLowerCase(), host: match[2] };
+}
+
+// Compressed secp256k1 public key in hex, as used for node ids
+export function isNodePubkey(value: string): boolean {
+  return /^(02|03)[0-9a-fA-F]{64}$/.test(value);
+}
+
+// A channel point is the funding transaction id and output index, e.g. "<txid>:1"
+export function parseChannelPoint(value: string): { txid: string; index: number } | null {
+  const match = value.match(/^([0-9a-fA-F]{64}):(\d+)$/);
+  return match ? { txid: match[1].toLowerCase(), index: Number(match[2]) } : null;
+}
+
+export type PendingChannelStatus = 'opening' | 'closing' | 'force_closing';
+
+export interface PendingChannel {
+  status: PendingChannelStatus;
+  remote_pubkey: string;
+  channel_point: string;
+  capacity: number;
+  local_balance: number;
+  // Closing transaction, once broadcast
+  closing_txid?: string;
+  // Force closes: funds locked until the timelock matures
+  limbo_balance?: number;
+  blocks_til_maturity?: number;
+}
+
+// Forwarding fees this node charges on a channel
+export interface ChannelFeePolicy {
+  chan_id: string;
+  channel_point: string;
+  base_fee_msat: number;
+  fee_per_mil: number;
+}
+
+export interface ChannelsOverview {
+  pending: PendingChannel[];
+  fees: ChannelFeePolicy[];
+}
+
+export interface OpenChannelParams {
+  // Pubkey of a connected peer, see POST /api/peers
+  node_pubkey: string;
+  local_funding_amount: number;
+  // Omit to let LND estimate the fee
+  sat_per_vbyte?: number;
+  private?: boolean;
+}
+
+export interface CloseChannelParams {
+  force?: boolean;
+  // Cooperative closes only; force closes use the fee agreed in the commitment
+  sat_per_vbyte?: number;
+}
@@ -0,0 +1,49 @@
+/**
+ * Server-side Core Lightning access, used for BOLT12 offers
+ * LND doesn't speak BOLT12, so creating offers, fetching invoices from them
+ * and paying those invoices go through a Core Lightning node's REST API
+ * (clnrest). The rune is read from server-only environment variables, like
+ * the LND macaroon. Only API route handlers should import this.
+ */
+
+import { NextResponse } from 'next/server';
+
+export class ClnError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = 'ClnError';
+  }
+}
+
+export function isClnConfigured(): boolean {
+  return Boolean(process.env.CLN_REST_URL && process.env.CLN_RUNE);
+}
+
+// Returned by offer routes when no Core Lightning node is configured
+export function offersUnavailable() {
+  return NextResponse.json(
+    { error: 'BOLT12 offers need a Core Lightning node. Set CLN_REST_URL and CLN_RUNE.' },
+    { status: 501 }
+  );
+}
+
+/**
+ * Call a Core Lightning RPC method through clnrest and return its JSON result
+ * Throws a ClnError carrying CLN's error code when the call fails.
+ */
+export async function requestCln<T>(method: string, params: Record<string, unknown> = {}, signal?: AbortSignal): Promise<T> {
+  const baseUrl = process.env.CLN_REST_URL || '';
+  const response = await fetch(`${baseUrl.replace(/\/$/, '')}/v1/${method}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Rune: process.env.CLN_RUNE || '' },
+    body: JSON.stringify(params),
+    signal,
+  });
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ClnError(body?.message || `CLN request ${method} failed with status ${response.status}`, body?.code);
+  }
+
+  return body as T;
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiHandler, jsonResponse, mockApi, notFound } from '../../test/api';
+import { clnBackend } from './clnBackend';
+import type { PaymentData } from './payments';
+
+const INVOICE = 'lnbcrt50u1pclninvoice';
+const PAYMENT_HASH = 'cd'.repeat(32);
+
+// Core Lightning node that decodes INVOICE and answers pay with the given response
+function clnNode(pay: () => Response): ApiHandler {
+  return request => {
+    if (request.path === '/v1/decode') {
+      return jsonResponse({ type: 'bolt11 invoice', valid: true, payment_hash: PAYMENT_HASH, amount_msat: 5000000 });
+    }
+    if (request.path === '/v1/pay') return pay();
+    return notFound(request);
+  };
+}
+
+async function payInvoice() {
+  const updates: PaymentData[] = [];
+  for await (const update of clnBackend.sendPayment({ payment_request: INVOICE }, { fee_limit_sat: 10, timeout_seconds: 60 })) {
+    updates.push(update);
+  }
+  return updates;
+}
+
+describe('clnBackend.sendPayment', () => {
+  beforeEach(() => {
+    vi.stubEnv('CLN_REST_URL', 'https://cln.test:3010');
+    vi.stubEnv('CLN_RUNE', 'test-rune');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('reports a completed payment', async () => {
+    mockApi(clnNode(() => jsonResponse({
+      payment_hash: PAYMENT_HASH,
+      status: 'complete',
+      created_at: 1700000000,
+      amount_msat: 5000000,
+      amount_sent_msat: 5001000,
+      payment_preimage: 'ef'.repeat(32),
+    })));
+
+    const updates = await payInvoice();
+
+    expect(updates.map(update => update.status)).toEqual(['IN_FLIGHT', 'SUCCEEDED']);
+    expect(updates[1]).toMatchObject({ payment_hash: PAYMENT_HASH, fee_msat: '1000', payment_request: INVOICE });
+  });
+
+  it.each([
+    [205, 'Ran out of routes to try'],
+    [206, 'Route wanted fee of 20000msat'],
+    [210, 'Ran out of routes to try after 3 attempts'],
+  ])('reports error %i from pay as a failed payment', async (code, message) => {
+    mockApi(clnNode(() => jsonResponse({ code, message }, 500)));
+
+    const updates = await payInvoice();
+
+    expect(updates.at(-1)).toMatchObject({ payment_hash: PAYMENT_HASH, status: 'FAILED', failure_reason: message });
+  });
+
+  it.each([
+    ['another error code', () => jsonResponse({ code: 200, message: 'Already in progress' }, 500)],
+    ['an error without a code', () => jsonResponse({ message: 'Not authorized' }, 401)],
+    ['a dropped connection', () => { throw new TypeError('fetch failed'); }],
+  ])('leaves the payment in flight after %s', async (_, pay) => {
+    mockApi(clnNode(pay));
+
+    const updates = await payInvoice();
+
+    expect(updates.map(update => update.status)).toEqual(['IN_FLIGHT', 'IN_FLIGHT']);
+    expect(updates[1]).toMatchObject({ payment_hash: PAYMENT_HASH, payment_request: INVOICE });
+    expect(console.error).toHaveBeenCalled();
+  });
+});
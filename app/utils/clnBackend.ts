@@ -0,0 +1,360 @@
+/**
+ * Core Lightning implementation of LightningBackend
+ * Talks to clnrest through requestCln and translates CLN's responses into the
+ * LND shapes the rest of the wallet uses. Amounts are numbers of msat on
+ * current nodes and "<n>msat" strings on older ones. Server only.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Transaction } from 'flndr';
+import { decodeBolt11, type Network } from './bolt11';
+import { ClnError, requestCln } from './cln';
+import type { InvoiceUpdate } from './invoiceSubscription';
+import { KEYSEND_MESSAGE_RECORD } from './keysend';
+import type { LightningBackend } from './lightningBackend';
+import { ChannelLiquidity, liquidityOverview } from './liquidity';
+import type { PaymentData } from './payments';
+import { pageTransactions } from './transactions';
+
+type ClnMsat = number | string;
+
+// pay and keysend error codes after which nothing is left in flight: the
+// destination failed it for good (203), no route or none within the fee
+// limit (205, 206), the invoice expired (207) or retries ran out (210)
+const PAY_FAILED_CODES = new Set([203, 205, 206, 207, 210]);
+
+interface ClnInvoice {
+  label: string;
+  bolt11?: string;
+  bolt12?: string;
+  payment_hash: string;
+  amount_msat?: ClnMsat;
+  status: 'unpaid' | 'paid' | 'expired';
+  description?: string;
+  expires_at: number;
+  created_index?: number;
+  pay_index?: number;
+  paid_at?: number;
+  amount_received_msat?: ClnMsat;
+  payment_preimage?: string;
+}
+
+// An entry of listpays, or the result of pay and keysend
+interface ClnPay {
+  payment_hash: string;
+  status: 'pending' | 'complete' | 'failed';
+  created_at: number;
+  amount_msat?: ClnMsat;
+  amount_sent_msat?: ClnMsat;
+  // listpays calls it preimage, pay and keysend payment_preimage
+  preimage?: string;
+  payment_preimage?: string;
+  bolt11?: string;
+  bolt12?: string;
+  description?: string;
+}
+
+interface ClnPeerChannel {
+  peer_id: string;
+  peer_connected: boolean;
+  state: string;
+  short_channel_id?: string;
+  funding_txid: string;
+  funding_outnum: number;
+  private?: boolean;
+  total_msat?: ClnMsat;
+  to_us_msat?: ClnMsat;
+  our_reserve_msat?: ClnMsat;
+  their_reserve_msat?: ClnMsat;
+}
+
+// Result of decode for a BOLT11 or BOLT12 invoice
+interface ClnDecoded {
+  payment_hash?: string;
+  amount_msat?: ClnMsat;
+  invoice_payment_hash?: string;
+  invoice_amount_msat?: ClnMsat;
+}
+
+const PENDING_OPEN_STATES = ['CHANNELD_AWAITING_LOCKIN', 'DUALOPEND_OPEN_INIT', 'DUALOPEND_AWAITING_LOCKIN'];
+
+const toMsat = (value: ClnMsat | undefined) => Number(String(value ?? 0).replace(/msat$/, '')) || 0;
+const toSat = (value: ClnMsat | undefined) => Math.floor(toMsat(value) / 1000);
+
+// LND identifies channels by the short channel id packed into a uint64
+function toChanId(shortChannelId: string | undefined): string {
+  const [block, tx, output] = (shortChannelId ?? '').split('x').map(part => BigInt(part || 0));
+  if (output === undefined) return '';
+  return ((block << BigInt(40)) | (tx << BigInt(16)) | output).toString();
+}
+
+function toChannel(channel: ClnPeerChannel): ChannelLiquidity {
+  return {
+    chan_id: toChanId(channel.short_channel_id),
+    channel_point: `${channel.funding_txid}:${channel.funding_outnum}`,
+    remote_pubkey: channel.peer_id,
+    peer_alias: '',
+    active: channel.peer_connected && channel.state === 'CHANNELD_NORMAL',
+    private: Boolean(channel.private),
+    capacity: toSat(channel.total_msat),
+    local_balance: toSat(channel.to_us_msat),
+    remote_balance: toSat(toMsat(channel.total_msat) - toMsat(channel.to_us_msat)),
+    local_reserve: toSat(channel.our_reserve_msat),
+    remote_reserve: toSat(channel.their_reserve_msat),
+  };
+}
+
+// CLN doesn't return when an invoice was created, but BOLT11 invoices carry it
+function invoiceCreatedAt(invoice: ClnInvoice): number | null {
+  if (!invoice.bolt11) return null;
+  try {
+    return Number(decodeBolt11(invoice.bolt11).timestamp);
+  } catch {
+    return null;
+  }
+}
+
+function toInvoiceUpdate(invoice: ClnInvoice): InvoiceUpdate {
+  const createdAt = invoiceCreatedAt(invoice);
+  const paid = invoice.status === 'paid';
+
+  return {
+    r_hash: invoice.payment_hash,
+    payment_request: invoice.bolt11 ?? invoice.bolt12 ?? '',
+    value_msat: String(toMsat(invoice.amount_msat)),
+    memo: invoice.description,
+    state: paid ? 'SETTLED' : invoice.status === 'expired' ? 'CANCELED' : 'OPEN',
+    settled: paid,
+    settle_date: String(invoice.paid_at ?? 0),
+    amt_paid_msat: String(toMsat(invoice.amount_received_msat)),
+    amt_paid_sat: String(toSat(invoice.amount_received_msat)),
+    creation_date: String(createdAt ?? 0),
+    expiry: createdAt !== null ? String(invoice.expires_at - createdAt) : undefined,
+    r_preimage: invoice.payment_preimage,
+    add_index: String(invoice.created_index ?? 0),
+    settle_index: String(invoice.pay_index ?? 0),
+    // CLN's keysend plugin labels the invoices it creates for incoming payments
+    is_keysend: invoice.label.startsWith('keysend-'),
+  };
+}
+
+function toPaymentData(pay: ClnPay): PaymentData {
+  const amountMsat = toMsat(pay.amount_msat);
+  const feeMsat = pay.amount_sent_msat !== undefined ? toMsat(pay.amount_sent_msat) - amountMsat : 0;
+
+  return {
+    payment_hash: pay.payment_hash,
+    payment_preimage: pay.payment_preimage ?? pay.preimage ?? '',
+    payment_request: pay.bolt11 ?? pay.bolt12,
+    value_msat: String(amountMsat),
+    value_sat: String(Math.floor(amountMsat / 1000)),
+    fee_msat: String(feeMsat),
+    fee_sat: String(Math.floor(feeMsat / 1000)),
+    status: pay.status === 'complete' ? 'SUCCEEDED' : pay.status === 'failed' ? 'FAILED' : 'IN_FLIGHT',
+    creation_time_ns: String(Math.floor(pay.created_at * 1e9)),
+    htlcs: [],
+  };
+}
+
+function invoiceToRow(invoice: ClnInvoice): Transaction {
+  const paid = invoice.status === 'paid';
+  return {
+    id: invoice.payment_hash,
+    type: 'received',
+    amount: toSat(paid ? invoice.amount_received_msat : invoice.amount_msat),
+    fee: 0,
+    status: paid ? 'settled' : invoice.status === 'expired' ? 'expired' : 'pending',
+    timestamp: invoiceCreatedAt(invoice) ?? invoice.paid_at ?? 0,
+    description: invoice.description || '',
+    payment_hash: invoice.payment_hash,
+    preimage: invoice.payment_preimage,
+    payment_request: invoice.bolt11 ?? invoice.bolt12,
+  };
+}
+
+function payToRow(pay: ClnPay): Transaction {
+  const payment = toPaymentData(pay);
+  return {
+    id: pay.payment_hash,
+    type: 'sent',
+    amount: Number(payment.value_sat),
+    fee: Number(payment.fee_sat),
+    status: pay.status === 'complete' ? 'succeeded' : pay.status === 'failed' ? 'failed' : 'in_flight',
+    timestamp: Math.floor(pay.created_at),
+    description: pay.description || '',
+    payment_hash: pay.payment_hash,
+    preimage: payment.payment_preimage || undefined,
+    payment_request: payment.payment_request,
+  };
+}
+
+async function findInvoice(paymentHash: string): Promise<ClnInvoice | null> {
+  const { invoices } = await requestCln<{ invoices: ClnInvoice[] }>('listinvoices', { payment_hash: paymentHash });
+  return invoices[0] ?? null;
+}
+
+export const clnBackend: LightningBackend = {
+  kind: 'cln',
+
+  async getInfo() {
+    const info = await requestCln<{ id: string; alias?: string; blockheight: number; network: string }>('getinfo');
+    return {
+      identity_pubkey: info.id,
+      alias: info.alias ?? '',
+      block_height: info.blockheight,
+      chains: [{ chain: 'bitcoin', network: (info.network === 'bitcoin' ? 'mainnet' : info.network) as Network }],
+    };
+  },
+
+  async getBalances() {
+    const [funds, { channels }] = await Promise.all([
+      requestCln<{ outputs: { amount_msat: ClnMsat; status: string }[] }>('listfunds'),
+      requestCln<{ channels: ClnPeerChannel[] }>('listpeerchannels'),
+    ]);
+    const sumSat = (values: ClnMsat[]) => Math.floor(values.reduce<number>((sum, value) => sum + toMsat(value), 0) / 1000);
+    const open = channels.filter(channel => channel.state === 'CHANNELD_NORMAL').map(toChannel);
+    const opening = channels.filter(channel => PENDING_OPEN_STATES.includes(channel.state)).map(toChannel);
+
+    return liquidityOverview(
+      {
+        confirmed: sumSat(funds.outputs.filter(output => output.status === 'confirmed').map(output => output.amount_msat)),
+        unconfirmed: sumSat(funds.outputs.filter(output => output.status === 'unconfirmed').map(output => output.amount_msat)),
+      },
+      {
+        local: open.reduce((sum, channel) => sum + channel.local_balance, 0),
+        remote: open.reduce((sum, channel) => sum + channel.remote_balance, 0),
+        pending_open_local: opening.reduce((sum, channel) => sum + channel.local_balance, 0),
+        pending_open_remote: opening.reduce((sum, channel) => sum + channel.remote_balance, 0),
+      },
+      open
+    );
+  },
+
+  async createInvoice(params) {
+    const created = await requestCln<{ payment_hash: string; bolt11: string; payment_secret: string; created_index?: number }>('invoice', {
+      amount_msat: params.value_msat !== '0' ? Number(params.value_msat) : 'any',
+      // Labels must be unique; the wallet never shows them
+      label: `wallet-${Date.now()}-${randomBytes(4).toString('hex')}`,
+      description: params.hashed_description ?? params.memo ?? '',
+      expiry: params.expiry,
+      deschashonly: params.hashed_description !== undefined,
+    });
+
+    return {
+      r_hash: created.payment_hash,
+      payment_request: created.bolt11,
+      add_index: created.created_index !== undefined ? String(created.created_index) : undefined,
+      payment_addr: created.payment_secret,
+    };
+  },
+
+  async lookupInvoice(paymentHash) {
+    const invoice = await findInvoice(paymentHash);
+    return invoice ? toInvoiceUpdate(invoice) : null;
+  },
+
+  async listInvoices() {
+    const { invoices } = await requestCln<{ invoices: ClnInvoice[] }>('listinvoices');
+    return invoices
+      .filter((invoice, index) => invoice.status === 'unpaid' || index >= invoices.length - 100)
+      .map(toInvoiceUpdate);
+  },
+
+  // CLN has no canceled state, so the unpaid invoice is deleted instead
+  async cancelInvoice(paymentHash) {
+    const invoice = await findInvoice(paymentHash);
+    if (!invoice) {
+      throw new ClnError('Invoice not found');
+    }
+    await requestCln('delinvoice', { label: invoice.label, status: 'unpaid' });
+  },
+
+  // Only payments are reported: waitanyinvoice returns each invoice as it is paid
+  async *subscribeInvoices(signal) {
+    const { invoices } = await requestCln<{ invoices: ClnInvoice[] }>('listinvoices', {}, signal);
+    let lastPayIndex = invoices.reduce((max, invoice) => Math.max(max, invoice.pay_index ?? 0), 0);
+
+    while (!signal.aborted) {
+      const invoice = await requestCln<ClnInvoice>('waitanyinvoice', { lastpay_index: lastPayIndex }, signal);
+      lastPayIndex = invoice.pay_index ?? lastPayIndex;
+      yield toInvoiceUpdate(invoice);
+    }
+  },
+
+  async decodePaymentRequest(paymentRequest) {
+    return decodeBolt11(paymentRequest);
+  },
+
+  /**
+   * CLN's pay and keysend commands only return once the payment has finished,
+   * so invoice payments yield an in-flight update first and then the outcome.
+   * BOLT12 invoices are paid the same way as BOLT11 ones. An error ends the
+   * payment as FAILED only when CLN says it failed for good.
+   */
+  async *sendPayment(target, options) {
+    const limits = { maxfee: options.fee_limit_sat * 1000, retry_for: options.timeout_seconds };
+    let pending: PaymentData | null = null;
+    let method: 'pay' | 'keysend';
+    let params: Record<string, unknown>;
+
+    if ('keysend' in target) {
+      const { dest, amt_msat, message } = target.keysend;
+      method = 'keysend';
+      params = {
+        destination: dest,
+        amount_msat: Number(amt_msat),
+        // CLN takes extra TLV records as hex
+        extratlvs: message ? { [KEYSEND_MESSAGE_RECORD]: Buffer.from(message, 'utf8').toString('hex') } : undefined,
+        ...limits,
+      };
+    } else {
+      const decoded = await requestCln<ClnDecoded>('decode', { string: target.payment_request }, options.signal);
+      const amountMsat = toMsat(decoded.amount_msat ?? decoded.invoice_amount_msat ?? target.amt_msat);
+      pending = {
+        ...toPaymentData({
+          payment_hash: decoded.payment_hash ?? decoded.invoice_payment_hash ?? '',
+          status: 'pending',
+          created_at: Date.now() / 1000,
+          amount_msat: amountMsat,
+        }),
+        payment_request: target.payment_request,
+      };
+      if (!options.final_only) yield pending;
+
+      method = 'pay';
+      params = {
+        bolt11: target.payment_request,
+        amount_msat: target.amt_msat !== undefined ? Number(target.amt_msat) : undefined,
+        ...limits,
+      };
+    }
+
+    try {
+      const paid = await requestCln<ClnPay>(method, params, options.signal);
+      yield { ...toPaymentData(paid), payment_request: pending?.payment_request };
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      const attempt = pending ?? toPaymentData({ payment_hash: '', status: 'pending', created_at: Date.now() / 1000 });
+      if (error instanceof ClnError && error.code !== undefined && PAY_FAILED_CODES.has(error.code)) {
+        yield { ...attempt, status: 'FAILED', failure_reason: error.message };
+        return;
+      }
+      // Any other error leaves the outcome unknown: the node may still be paying
+      console.error(`CLN ${method} ended without an outcome:`, error);
+      yield { ...attempt, status: 'IN_FLIGHT' };
+    }
+  },
+
+  async lookupPayment(paymentHash) {
+    const { pays } = await requestCln<{ pays: ClnPay[] }>('listpays', { payment_hash: paymentHash });
+    return pays[0] ? toPaymentData(pays[0]) : null;
+  },
+
+  async listTransactions(query) {
+    const [{ invoices }, { pays }] = await Promise.all([
+      requestCln<{ invoices: ClnInvoice[] }>('listinvoices'),
+      requestCln<{ pays: ClnPay[] }>('listpays'),
+    ]);
+    return pageTransactions([...invoices.map(invoiceToRow), ...pays.map(payToRow)], query);
+  },
+};
@@ -0,0 +1,158 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest';
+import { AppEvent, EventBus, InvoiceEventPayload, PaymentEventPayload } from './eventBus';
+
+const invoice: InvoiceEventPayload = {
+  payment_request: 'lnbcrt10n1',
+  payment_hash: 'ab'.repeat(32),
+  value_msat: '1000',
+  timestamp: '1700000000',
+  settled: false,
+};
+
+const payment: PaymentEventPayload = {
+  payment_hash: 'cd'.repeat(32),
+  value_sat: '21',
+  fee_sat: '0',
+  status: 'SUCCEEDED',
+};
+
+describe('EventBus', () => {
+  it('passes each listener the payload of its event', () => {
+    const bus = new EventBus();
+    const created = vi.fn();
+    const sent = vi.fn();
+    bus.on('invoice:created', created);
+    bus.on('payment:sent', sent);
+
+    bus.emit('invoice:created', invoice);
+
+    expect(created).toHaveBeenCalledWith(invoice);
+    expect(sent).not.toHaveBeenCalled();
+  });
+
+  it('types listeners and payloads by event', () => {
+    const bus = new EventBus();
+
+    bus.on('payment:sent', payload => {
+      expectTypeOf(payload).toEqualTypeOf<PaymentEventPayload>();
+    });
+    bus.on('*', (event, payload) => {
+      expectTypeOf(event).toEqualTypeOf<AppEvent>();
+      if (event === 'invoice:created') {
+        expectTypeOf(payload).toEqualTypeOf<InvoiceEventPayload>();
+      }
+    });
+
+    // @ts-expect-error payload of another event
+    bus.emit('payment:sent', invoice);
+    // @ts-expect-error unknown event
+    bus.on('invoice:paid', () => {});
+  });
+
+  it('stops calling a listener once its unsubscribe is called', () => {
+    const bus = new EventBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.on('payment:sent', listener);
+
+    bus.emit('payment:sent', payment);
+    unsubscribe();
+    bus.emit('payment:sent', payment);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(bus.listenerCount('payment:sent')).toBe(0);
+  });
+
+  it('calls a once listener for the next emit only', () => {
+    const bus = new EventBus();
+    const listener = vi.fn();
+    bus.once('invoice:created', listener);
+
+    bus.emit('invoice:created', invoice);
+    bus.emit('invoice:created', invoice);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(bus.listenerCount('invoice:created')).toBe(0);
+  });
+
+  it('lets a once listener be unsubscribed before it fires', () => {
+    const bus = new EventBus();
+    const listener = vi.fn();
+    const unsubscribe = bus.once('invoice:created', listener);
+
+    unsubscribe();
+    bus.emit('invoice:created', invoice);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('calls wildcard listeners with the event name after the listeners of that event', () => {
+    const bus = new EventBus();
+    const wildcard = vi.fn();
+    const first = vi.fn();
+    const second = vi.fn();
+    bus.on('*', wildcard);
+    bus.on('invoice:created', first);
+    bus.on('invoice:created', second);
+
+    bus.emit('invoice:created', invoice);
+    bus.emit('payment:sent', payment);
+
+    expect(wildcard.mock.calls).toEqual([['invoice:created', invoice], ['payment:sent', payment]]);
+    const [firstCall] = first.mock.invocationCallOrder;
+    const [secondCall] = second.mock.invocationCallOrder;
+    const [wildcardCall] = wildcard.mock.invocationCallOrder;
+    expect(firstCall).toBeLessThan(secondCall);
+    expect(secondCall).toBeLessThan(wildcardCall);
+  });
+
+  it('skips a listener removed by an earlier one during the same emit', () => {
+    const bus = new EventBus();
+    const later = vi.fn();
+    bus.on('payment:sent', () => bus.off('payment:sent', later));
+    bus.on('payment:sent', later);
+
+    bus.emit('payment:sent', payment);
+
+    expect(later).not.toHaveBeenCalled();
+  });
+
+  it('finishes an emit when a listener unsubscribes itself', () => {
+    const bus = new EventBus();
+    const after = vi.fn();
+    const unsubscribe = bus.on('payment:sent', () => unsubscribe());
+    bus.on('payment:sent', after);
+
+    bus.emit('payment:sent', payment);
+    bus.emit('payment:sent', payment);
+
+    expect(after).toHaveBeenCalledTimes(2);
+    expect(bus.listenerCount('payment:sent')).toBe(1);
+  });
+
+  it('does not call a listener added during an emit until the next one', () => {
+    const bus = new EventBus();
+    const added = vi.fn();
+    bus.once('payment:sent', () => bus.on('payment:sent', added));
+
+    bus.emit('payment:sent', payment);
+    expect(added).not.toHaveBeenCalled();
+
+    bus.emit('payment:sent', payment);
+    expect(added).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps calling listeners after one throws', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const bus = new EventBus();
+    const listener = vi.fn();
+    bus.on('payment:sent', () => {
+      throw new Error('handler broke');
+    });
+    bus.on('payment:sent', listener);
+
+    bus.emit('payment:sent', payment);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(console.error).toHaveBeenCalledWith('Error in event handler for payment:sent:', expect.any(Error));
+  });
+});
@@ -3,45 +3,147 @@
  * Used to communicate between components that are not directly related
  */
 
-type EventCallback = (...args: unknown[]) => void;
+// Invoice as emitted with the 'invoice:*' events and 'transaction:new'
+export interface InvoiceEventPayload {
+  payment_request: string;
+  payment_hash: string;
+  value_msat: string;
+  timestamp: string;
+  expiry?: string;
+  memo?: string;
+  settled: boolean;
+  // Created as a hold invoice, to be settled or canceled by hand
+  hold?: boolean;
+  // Hold invoice whose payment has arrived but is not settled yet
+  accepted?: boolean;
+}
+
+// Payment as emitted with 'payment:sent'
+export interface PaymentEventPayload {
+  payment_hash: string;
+  payment_preimage?: string;
+  payment_request?: string;
+  value_sat: string;
+  fee_sat: string;
+  creation_time_ns?: string;
+  status: string;
+}
+
+// Events we support in the app, mapped to the payload each one carries
+export interface AppEventMap {
+  'transaction:new': InvoiceEventPayload;
+  'invoice:created': InvoiceEventPayload;
+  // An existing invoice picked from the open invoices list to show again
+  'invoice:selected': InvoiceEventPayload;
+  // A hold invoice was paid and is waiting to be settled or canceled
+  'invoice:accepted': InvoiceEventPayload;
+  'payment:sent': PaymentEventPayload;
+}
+
+export type AppEvent = keyof AppEventMap;
 
-// Events we support in the app
-export type AppEvent = 'transaction:new' | 'invoice:created' | 'payment:sent';
+export type EventCallback<E extends AppEvent> = (payload: AppEventMap[E]) => void;
 
-class EventBus {
-  private events: Map<AppEvent, EventCallback[]>;
+// Wildcard listeners receive the event name along with its payload
+export type WildcardCallback = (
+  ...args: { [E in AppEvent]: [event: E, payload: AppEventMap[E]] }[AppEvent]
+) => void;
+
+type AnyCallback = EventCallback<AppEvent> | WildcardCallback;
+
+interface Listener {
+  callback: AnyCallback;
+  once: boolean;
+}
+
+const WILDCARD = '*';
+
+type ListenerKey = AppEvent | typeof WILDCARD;
+
+export class EventBus {
+  private events: Map<ListenerKey, Listener[]>;
 
   constructor() {
     this.events = new Map();
   }
 
-  // Subscribe to an event
-  on(event: AppEvent, callback: EventCallback): void {
+  // Subscribe to an event, or to every event with '*'. Returns an unsubscribe function.
+  on<E extends AppEvent>(event: E, callback: EventCallback<E>): () => void;
+  on(event: typeof WILDCARD, callback: WildcardCallback): () => void;
+  on(event: ListenerKey, callback: AnyCallback): () => void {
+    return this.addListener(event, callback, false);
+  }
+
+  // Subscribe to the next occurrence of an event only
+  once<E extends AppEvent>(event: E, callback: EventCallback<E>): () => void;
+  once(event: typeof WILDCARD, callback: WildcardCallback): () => void;
+  once(event: ListenerKey, callback: AnyCallback): () => void {
+    return this.addListener(event, callback, true);
+  }
+
+  // Unsubscribe from an event
+  off<E extends AppEvent>(event: E, callback: EventCallback<E>): void;
+  off(event: typeof WILDCARD, callback: WildcardCallback): void;
+  off(event: ListenerKey, callback: AnyCallback): void {
+    this.removeListener(event, callback);
+  }
+
+  // Emit an event with its payload
+  emit<E extends AppEvent>(event: E, payload: AppEventMap[E]): void {
+    this.dispatch(event, event, listener => (listener as EventCallback<E>)(payload));
+    this.dispatch(WILDCARD, event, listener =>
+      (listener as (event: E, payload: AppEventMap[E]) => void)(event, payload)
+    );
+  }
+
+  // Remove every listener, or every listener for one event
+  clear(event?: ListenerKey): void {
+    if (event) {
+      this.events.delete(event);
+    } else {
+      this.events.clear();
+    }
+  }
+
+  // Number of listeners registered for an event
+  listenerCount(event: ListenerKey): number {
+    return this.events.get(event)?.length ?? 0;
+  }
+
+  private addListener(event: ListenerKey, callback: AnyCallback, once: boolean): () => void {
     if (!this.events.has(event)) {
       this.events.set(event, []);
     }
-    this.events.get(event)?.push(callback);
+    this.events.get(event)?.push({ callback, once });
+
+    return () => this.removeListener(event, callback);
   }
 
-  // Unsubscribe from an event
-  off(event: AppEvent, callback: EventCallback): void {
-    const callbacks = this.events.get(event);
-    if (!callbacks) return;
+  private removeListener(event: ListenerKey, callback: AnyCallback): void {
+    const listeners = this.events.get(event);
+    if (!listeners) return;
 
-    const index = callbacks.indexOf(callback);
+    const index = listeners.findIndex(listener => listener.callback === callback);
     if (index !== -1) {
-      callbacks.splice(index, 1);
+      listeners.splice(index, 1);
     }
   }
 
-  // Emit an event with arguments
-  emit(event: AppEvent, ...args: unknown[]): void {
-    const callbacks = this.events.get(event);
-    if (!callbacks) return;
+  private dispatch(key: ListenerKey, event: AppEvent, invoke: (callback: AnyCallback) => void): void {
+    const listeners = this.events.get(key);
+    if (!listeners) return;
+
+    // Iterate over a copy so listeners can unsubscribe while we're emitting
+    [...listeners].forEach(listener => {
+      const index = listeners.indexOf(listener);
+      // Skip listeners removed by an earlier handler during this emit
+      if (index === -1) return;
+      if (listener.once) {
+        listeners.splice(index, 1);
+      }
 
-    callbacks.forEach(callback => {
       try {
-        callback(...args);
+        invoke(listener.callback);
       } catch (error) {
         console.error(`Error in event handler for ${event}:`, error);
       }
@@ -52,4 +154,4 @@ class EventBus {
 // Create a singleton instance
 const eventBus = new EventBus();
 
-export default eventBus; 
\ No newline at end of file
+export default eventBus;
@@ -0,0 +1,57 @@
+/**
+ * Fake transaction history for exercising the history table without a node
+ *
+ * Usage:
+ *   const transactions = createFakeTransactions(50000);
+ *   <TransactionTable transactions={transactions} ... />
+ *
+ * Output is deterministic for a given count and seed, so benchmark runs are
+ * comparable.
+ */
+
+import type { Transaction, TransactionStatus } from 'flndr';
+
+const SENT_STATUSES: TransactionStatus[] = ['succeeded', 'succeeded', 'succeeded', 'failed', 'in_flight'];
+const RECEIVED_STATUSES: TransactionStatus[] = ['settled', 'settled', 'settled', 'pending', 'expired', 'canceled'];
+const MEMOS = ['', 'Coffee', 'Podcast boost', 'Invoice #1042', 'Zap', 'Refund', 'Donation', 'Lunch split'];
+
+// Small seeded PRNG (mulberry32)
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function createFakeTransactions(count: number, seed = 1): Transaction[] {
+  const next = random(seed);
+  const pick = <T>(items: T[]) => items[Math.floor(next() * items.length)];
+  const hex = (bytes: number) =>
+    Array.from({ length: bytes }, () => Math.floor(next() * 256).toString(16).padStart(2, '0')).join('');
+
+  const now = Math.floor(Date.now() / 1000);
+  let timestamp = now;
+
+  return Array.from({ length: count }, () => {
+    // Newest first, a few minutes apart on average
+    timestamp -= Math.floor(next() * 600);
+    const sent = next() < 0.5;
+    const amount = Math.floor(10 ** (next() * 6)) + 1;
+    const paymentHash = hex(32);
+
+    return {
+      id: paymentHash,
+      type: sent ? 'sent' : 'received',
+      amount,
+      fee: sent ? Math.floor(amount * next() * 0.005) : 0,
+      status: pick(sent ? SENT_STATUSES : RECEIVED_STATUSES),
+      timestamp,
+      description: pick(MEMOS),
+      payment_hash: paymentHash,
+    } as Transaction;
+  });
+}
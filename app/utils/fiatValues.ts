@@ -0,0 +1,72 @@
+/**
+ * Exchange rates at the time each transaction happened
+ * Recorded on the server when a payment succeeds or an invoice is settled,
+ * including LNURL, voucher and keysend payments, with the rates of every
+ * supported currency so history can show what a transaction was worth then in
+ * whichever currency is displayed. Only rates from a live provider are
+ * recorded; made-up static rates would become fake historical values.
+ *
+ * Kept in a JSON file (FIAT_VALUE_STORE, default .data/fiat-values.json)
+ * keyed by payment hash. Server only.
+ */
+
+import type { Transaction } from 'flndr';
+import type { FiatSnapshot } from './amounts';
+import { getInvoiceSubscription } from './invoiceSubscription';
+import { JsonFileStore } from './jsonStore';
+import { getBtcRates, getRateProvider } from './rates';
+import { normalizePaymentHash } from './transactions';
+
+const store = new JsonFileStore<Record<string, FiatSnapshot>>(
+  () => process.env.FIAT_VALUE_STORE || '.data/fiat-values.json',
+  () => ({})
+);
+
+/**
+ * Remember the current rates for a transaction; the first snapshot is kept
+ * Never throws, so it can be called without waiting on it.
+ */
+export async function recordFiatValue(paymentHash: string): Promise<void> {
+  if (!getRateProvider()?.live || !paymentHash) return;
+
+  const key = normalizePaymentHash(paymentHash);
+  try {
+    if ((await store.read())[key]) return;
+
+    const { rates, updatedAt } = await getBtcRates();
+    const snapshot: FiatSnapshot = { rates, timestamp: Math.floor(updatedAt / 1000) };
+    await store.update(snapshots => {
+      snapshots[key] ??= snapshot;
+      return snapshots;
+    });
+  } catch (error) {
+    console.error('Failed to record fiat value:', error);
+  }
+}
+
+// Attach the recorded rates to history rows as fiat_snapshot
+export async function withFiatSnapshots(transactions: Transaction[]): Promise<Transaction[]> {
+  const snapshots = await store.read();
+  return transactions.map(tx => {
+    const snapshot = tx.payment_hash ? snapshots[normalizePaymentHash(tx.payment_hash)] : undefined;
+    return snapshot ? { ...tx, fiat_snapshot: snapshot } : tx;
+  });
+}
+
+let recording = false;
+
+/**
+ * Record the value of every invoice settled while the server is running
+ * Started once at server startup (see instrumentation.ts), so payments
+ * nobody is watching in the browser are recorded too.
+ */
+export function startFiatRecorder() {
+  if (recording || !getRateProvider()?.live) return;
+  recording = true;
+
+  getInvoiceSubscription().subscribe(invoice => {
+    if (invoice.state === 'SETTLED') {
+      void recordFiatValue(invoice.r_hash);
+    }
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Hold invoices: invoices the wallet settles or cancels by hand
+ * The wallet generates the preimage and only hands LND its hash, so an
+ * accepted payment stays locked until an operator settles it. Server only.
+ *
+ * Preimages are written to a JSON file (HOLD_INVOICE_STORE, default
+ * .data/hold-invoices.json) so held payments can still be settled after a
+ * restart. Anyone with access to that file can settle the invoices in it.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { JsonFileStore } from './jsonStore';
+import { requestLnd } from './lnd';
+
+// Final CLTV delta requested from payers, roughly one day of blocks
+export const HOLD_INVOICE_CLTV_EXPIRY = 144;
+
+interface HoldInvoiceRecord {
+  payment_hash: string;
+  preimage: string;
+  created_at: number;
+}
+
+const store = new JsonFileStore<HoldInvoiceRecord[]>(
+  () => process.env.HOLD_INVOICE_STORE || '.data/hold-invoices.json',
+  () => []
+);
+
+// Payment hashes (hex) of all hold invoices created by this wallet
+export async function listHoldInvoiceHashes(): Promise<Set<string>> {
+  return new Set((await store.read()).map(record => record.payment_hash));
+}
+
+/**
+ * Create a hold invoice from a freshly generated preimage
+ * The preimage is stored before the invoice exists, so it can never be lost
+ * for an invoice a payer might pay.
+ */
+export async function createHoldInvoice(params: { value_msat: string; memo: string; expiry: number }) {
+  const preimage = randomBytes(32);
+  const paymentHash = createHash('sha256').update(preimage).digest();
+
+  await store.update(records => [
+    ...records,
+    {
+      payment_hash: paymentHash.toString('hex'),
+      preimage: preimage.toString('hex'),
+      created_at: Math.floor(Date.now() / 1000),
+    },
+  ]);
+
+  const invoice = await requestLnd<{ payment_request: string; add_index?: string; payment_addr?: string }>(
+    '/v2/invoices/hodl',
+    {
+      method: 'POST',
+      body: {
+        hash: paymentHash.toString('base64'),
+        value_msat: params.value_msat,
+        memo: params.memo,
+        expiry: String(params.expiry),
+        cltv_expiry: String(HOLD_INVOICE_CLTV_EXPIRY),
+      },
+    }
+  );
+
+  return { ...invoice, r_hash: paymentHash.toString('base64') };
+}
+
+/**
+ * Release the held payment by revealing the stored preimage
+ * Throws if the invoice is not one of ours; LND rejects the call unless the
+ * invoice has been accepted.
+ */
+export async function settleHoldInvoice(paymentHash: string) {
+  const record = (await store.read()).find(entry => entry.payment_hash === paymentHash);
+  if (!record) {
+    throw new Error('Not a hold invoice created by this wallet');
+  }
+
+  await requestLnd('/v2/invoices/settle', {
+    method: 'POST',
+    body: { preimage: Buffer.from(record.preimage, 'hex').toString('base64') },
+  });
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createFakeInvoiceStream, FakeInvoiceStream } from '../../test/fakeInvoiceStream';
+import { InvoiceSubscription, InvoiceUpdate } from './invoiceSubscription';
+
+// The backends need the node client, which these tests never reach
+vi.mock('./lightningBackend', () => ({ getBackend: vi.fn() }));
+
+const settled = (n: number): InvoiceUpdate => ({
+  r_hash: `hash-${n}`,
+  payment_request: `lnbcrt${n}`,
+  value_msat: '1000',
+  state: 'SETTLED',
+  settled: true,
+});
+
+// Let the stream deliver what was pushed and the subscription react to it
+const flush = () => vi.advanceTimersByTimeAsync(0);
+
+describe('InvoiceSubscription', () => {
+  let fake: FakeInvoiceStream;
+  let subscription: InvoiceSubscription;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    fake = createFakeInvoiceStream();
+    subscription = new InvoiceSubscription(fake.source, { initialDelayMs: 10, maxDelayMs: 40 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shares one connection between listeners', async () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    subscription.subscribe(first);
+    subscription.subscribe(second);
+    await flush();
+
+    fake.emit(settled(1));
+    await flush();
+
+    expect(fake.connections).toBe(1);
+    expect(first).toHaveBeenCalledWith(settled(1));
+    expect(second).toHaveBeenCalledWith(settled(1));
+  });
+
+  it('keeps delivering to the other listeners when one throws', async () => {
+    const listener = vi.fn();
+    subscription.subscribe(() => {
+      throw new Error('listener broke');
+    });
+    subscription.subscribe(listener);
+    await flush();
+
+    fake.emit(settled(1));
+    fake.emit(settled(2));
+    await flush();
+
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(fake.connected).toBe(true);
+  });
+
+  it('reconnects after a drop, doubling the delay up to the maximum', async () => {
+    subscription.subscribe(() => {});
+    await flush();
+
+    for (const delay of [10, 20, 40, 40]) {
+      const connections = fake.connections;
+      fake.drop();
+      await flush();
+      expect(fake.connected).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(fake.connections).toBe(connections);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fake.connections).toBe(connections + 1);
+    }
+    expect(subscription.failedAttempts).toBe(4);
+  });
+
+  it('reconnects when the node ends the stream cleanly', async () => {
+    subscription.subscribe(() => {});
+    await flush();
+
+    fake.end();
+    await flush();
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(fake.connections).toBe(2);
+    expect(fake.connected).toBe(true);
+  });
+
+  it('starts the backoff over once an update arrives', async () => {
+    const listener = vi.fn();
+    subscription.subscribe(listener);
+    await flush();
+
+    fake.drop();
+    await flush();
+    await vi.advanceTimersByTimeAsync(10);
+    fake.drop();
+    await flush();
+    expect(subscription.nextDelay()).toBe(40);
+
+    await vi.advanceTimersByTimeAsync(20);
+    fake.emit(settled(1));
+    await flush();
+
+    expect(listener).toHaveBeenCalledWith(settled(1));
+    expect(subscription.failedAttempts).toBe(0);
+    expect(subscription.nextDelay()).toBe(10);
+  });
+
+  it('closes the connection when the last listener leaves', async () => {
+    const unsubscribeFirst = subscription.subscribe(() => {});
+    const unsubscribeSecond = subscription.subscribe(() => {});
+    await flush();
+
+    unsubscribeFirst();
+    await flush();
+    expect(fake.connected).toBe(true);
+
+    unsubscribeSecond();
+    await flush();
+    expect(fake.connected).toBe(false);
+    expect(fake.connections).toBe(1);
+  });
+
+  it('cancels a pending reconnect when the last listener leaves', async () => {
+    const unsubscribe = subscription.subscribe(() => {});
+    await flush();
+
+    fake.drop();
+    await flush();
+    unsubscribe();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(fake.connections).toBe(1);
+    expect(subscription.failedAttempts).toBe(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Shared server-side subscription to the node's invoice stream
+ * A single upstream connection is opened while at least one listener is
+ * attached, and it is re-established with exponential backoff if it drops.
+ */
+
+import { getBackend } from './lightningBackend';
+
+// HTLC paying into an invoice
+export interface InvoiceHtlc {
+  chan_id: string;
+  amt_msat: string;
+  state: 'ACCEPTED' | 'SETTLED' | 'CANCELED';
+  accept_time?: string;
+  resolve_time?: string;
+  expiry_height: number;
+  // TLV records from the payment onion, base64 values keyed by record type
+  custom_records?: Record<string, string>;
+  [key: string]: unknown;
+}
+
+// Invoice update as streamed by LND's /v1/invoices/subscribe endpoint
+export interface InvoiceUpdate {
+  r_hash: string;
+  payment_request: string;
+  value_msat: string;
+  memo?: string;
+  state: 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+  settled?: boolean;
+  settle_date?: string;
+  amt_paid_sat?: string;
+  amt_paid_msat?: string;
+  creation_date?: string;
+  expiry?: string;
+  r_preimage?: string;
+  htlcs?: InvoiceHtlc[];
+  // Created by LND for an incoming keysend payment
+  is_keysend?: boolean;
+  [key: string]: unknown;
+}
+
+// Produces one upstream connection; the iterator ends or throws when it drops
+export type InvoiceStreamSource = (signal: AbortSignal) => AsyncIterable<InvoiceUpdate>;
+
+export type InvoiceListener = (invoice: InvoiceUpdate) => void;
+
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_BACKOFF: BackoffOptions = {
+  initialDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+export class InvoiceSubscription {
+  private listeners = new Set<InvoiceListener>();
+  private controller: AbortController | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private attempt = 0;
+
+  constructor(
+    private source: InvoiceStreamSource,
+    private backoff: BackoffOptions = DEFAULT_BACKOFF
+  ) {}
+
+  // Attach a listener, opening the upstream stream if needed. Returns an unsubscribe function.
+  subscribe(listener: InvoiceListener): () => void {
+    this.listeners.add(listener);
+
+    if (!this.controller && !this.retryTimer) {
+      this.connect();
+    }
+
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.close();
+      }
+    };
+  }
+
+  // Number of consecutive failed connection attempts
+  get failedAttempts(): number {
+    return this.attempt;
+  }
+
+  // Delay before the next reconnect: doubles per failed attempt, capped at maxDelayMs
+  nextDelay(): number {
+    return Math.min(this.backoff.initialDelayMs * 2 ** this.attempt, this.backoff.maxDelayMs);
+  }
+
+  private async connect() {
+    const controller = new AbortController();
+    this.controller = controller;
+    this.retryTimer = null;
+
+    try {
+      for await (const invoice of this.source(controller.signal)) {
+        // Receiving data means the connection is healthy again
+        this.attempt = 0;
+        this.listeners.forEach(listener => {
+          try {
+            listener(invoice);
+          } catch (error) {
+            console.error('Error in invoice listener:', error);
+          }
+        });
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error('Invoice stream disconnected:', error);
+    }
+
+    if (controller.signal.aborted || this.listeners.size === 0) return;
+
+    this.controller = null;
+    const delay = this.nextDelay();
+    this.attempt += 1;
+    this.retryTimer = setTimeout(() => this.connect(), delay);
+  }
+
+  private close() {
+    this.controller?.abort();
+    this.controller = null;
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.attempt = 0;
+  }
+}
+
+let subscription: InvoiceSubscription | null = null;
+
+// Process-wide subscription backed by the configured Lightning backend
+export function getInvoiceSubscription(): InvoiceSubscription {
+  if (!subscription) {
+    subscription = new InvoiceSubscription(signal => getBackend().subscribeInvoices(signal));
+  }
+  return subscription;
+}
@@ -0,0 +1,84 @@
+/**
+ * Invoice lifecycle helpers shared by the invoice API routes and the receive UI
+ */
+
+export type InvoiceLifecycleStatus = 'open' | 'accepted' | 'expired' | 'canceled';
+
+// Unsettled invoice as listed by GET /api/invoices
+export interface OpenInvoice {
+  payment_hash: string;
+  payment_request: string;
+  value_msat: string;
+  memo?: string;
+  // Unix seconds
+  creation_date: number;
+  expiry: number;
+  status: InvoiceLifecycleStatus;
+  // Hold invoice created by this wallet, settled or canceled by hand
+  hold?: boolean;
+  // For accepted invoices: blocks until the earliest held HTLC times out
+  blocks_left?: number;
+}
+
+// Expiry choices offered when creating an invoice, in seconds
+export const EXPIRY_OPTIONS = [
+  { label: '10 minutes', seconds: 600 },
+  { label: '1 hour', seconds: 3600 },
+  { label: '1 day', seconds: 86400 },
+  { label: '1 week', seconds: 604800 },
+];
+
+export const DEFAULT_EXPIRY_SECONDS = 3600;
+
+// LND refuses expiries beyond a year; keep well within that
+export const MAX_EXPIRY_SECONDS = 30 * 86400;
+
+// Accepted hold invoices this close to their CLTV deadline get a warning
+export const DEADLINE_WARNING_BLOCKS = 36;
+
+// Describe a number of blocks with a rough time estimate (10 minutes per block)
+export function formatBlocks(blocks: number): string {
+  const minutes = Math.max(blocks, 0) * 10;
+  const estimate = minutes >= 120 ? `~${Math.round(minutes / 60)} h` : `~${minutes} min`;
+  return `${blocks} block${blocks === 1 ? '' : 's'} (${estimate})`;
+}
+
+// Unix seconds at which an invoice stops being payable
+export function invoiceExpiry(invoice: { creation_date: number | string; expiry: number | string }): number {
+  return Number(invoice.creation_date) + Number(invoice.expiry);
+}
+
+/**
+ * Lifecycle status for an unsettled invoice
+ * LND cancels invoices once they expire, so a canceled invoice past its expiry
+ * is reported as expired.
+ */
+export function invoiceStatus(
+  state: string,
+  creationDate: number,
+  expiry: number,
+  now = Date.now()
+): InvoiceLifecycleStatus {
+  if (state === 'ACCEPTED') return 'accepted';
+
+  const expired = invoiceExpiry({ creation_date: creationDate, expiry }) * 1000 <= now;
+  if (expired) return 'expired';
+
+  return state === 'CANCELED' ? 'canceled' : 'open';
+}
+
+// Format a number of seconds as a countdown, e.g. "59:07" or "2d 04:00:12"
+export function formatCountdown(seconds: number): string {
+  const remaining = Math.max(Math.floor(seconds), 0);
+  const days = Math.floor(remaining / 86400);
+  const hours = Math.floor((remaining % 86400) / 3600);
+  const minutes = Math.floor((remaining % 3600) / 60);
+  const secs = remaining % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  const clock = hours > 0 || days > 0
+    ? `${pad(hours)}:${pad(minutes)}:${pad(secs)}`
+    : `${pad(minutes)}:${pad(secs)}`;
+
+  return days > 0 ? `${days}d ${clock}` : clock;
+}
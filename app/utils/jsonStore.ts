@@ -0,0 +1,67 @@
+/**
+ * Small JSON file stores for server-side state that must survive restarts
+ * The file is read once and kept in memory. Updates run one at a time, so
+ * none overwrites another, and are written to a temporary file that is then
+ * renamed over the store, so a crash mid-write leaves the previous contents
+ * intact. Server only.
+ */
+
+import { mkdir, open, readFile, rename } from 'fs/promises';
+import { dirname } from 'path';
+
+export class JsonFileStore<T> {
+  private value: Promise<T> | null = null;
+  private updates: Promise<unknown> = Promise.resolve();
+
+  // The path is resolved on first use, so it can come from the environment
+  constructor(
+    private path: () => string,
+    private empty: () => T
+  ) {}
+
+  read(): Promise<T> {
+    if (!this.value) {
+      this.value = this.load();
+      // Retry on the next read if the file couldn't be read
+      this.value.catch(() => {
+        this.value = null;
+      });
+    }
+    return this.value;
+  }
+
+  // Apply a change to the stored value and write it to disk
+  update(change: (value: T) => T): Promise<void> {
+    const result = this.updates.then(async () => {
+      const next = change(await this.read());
+      await this.write(next);
+      this.value = Promise.resolve(next);
+    });
+    this.updates = result.catch(() => {});
+    return result;
+  }
+
+  private async load(): Promise<T> {
+    try {
+      return JSON.parse(await readFile(this.path(), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return this.empty();
+      throw error;
+    }
+  }
+
+  private async write(value: T) {
+    const path = this.path();
+    const tempPath = `${path}.${process.pid}.tmp`;
+    await mkdir(dirname(path), { recursive: true });
+
+    const file = await open(tempPath, 'w', 0o600);
+    try {
+      await file.writeFile(JSON.stringify(value, null, 2));
+      await file.sync();
+    } finally {
+      await file.close();
+    }
+    await rename(tempPath, path);
+  }
+}
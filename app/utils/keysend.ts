@@ -0,0 +1,45 @@
+/**
+ * Keysend: spontaneous payments to a node pubkey, without an invoice
+ * The payer picks the preimage and sends it to the recipient in a custom TLV
+ * record of the onion, optionally with a text message in another record.
+ * Custom record values travel as base64 in LND's REST API.
+ */
+
+// TLV record carrying the preimage (bLIP-0003)
+export const KEYSEND_PREIMAGE_RECORD = '5482373484';
+
+// TLV record carrying a UTF-8 text message, as used by common wallets
+export const KEYSEND_MESSAGE_RECORD = '34349334';
+
+// Keep messages well within the space left in the onion after routing data
+export const MAX_KEYSEND_MESSAGE_BYTES = 500;
+
+// Feature bit the recipient must support for custom TLV records in the onion
+export const TLV_ONION_FEATURE = 9;
+
+export function messageByteLength(message: string): number {
+  return new TextEncoder().encode(message).length;
+}
+
+// Read the text message from the custom records of an HTLC, if any
+export function keysendMessage(customRecords: Record<string, string> | undefined): string | null {
+  const value = customRecords?.[KEYSEND_MESSAGE_RECORD];
+  if (!value) return null;
+
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// The message of a received keysend payment, from the first HTLC that carried one
+export function invoiceKeysendMessage(invoice: { htlcs?: { custom_records?: Record<string, string> }[] }): string | null {
+  for (const htlc of invoice.htlcs ?? []) {
+    const message = keysendMessage(htlc.custom_records);
+    if (message) return message;
+  }
+  return null;
+}
@@ -0,0 +1,192 @@
+/**
+ * Transaction history export formats for bookkeeping
+ * Each format is written as a header, one chunk per transaction and a footer,
+ * so exports can be streamed page by page without holding the whole ledger.
+ *
+ * CSV and JSON amounts are in sats. OFX and QIF amounts are signed BTC
+ * (currency code XBT), with fees included in sent amounts. OFX and QIF have
+ * no status column and every row is booked as posted, so they only contain
+ * succeeded payments and settled invoices.
+ */
+
+import type { Transaction, TransactionStatus } from 'flndr';
+import { format } from 'date-fns';
+
+export const EXPORT_FORMATS = ['csv', 'json', 'ofx', 'qif'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportContext {
+  generatedAt: Date;
+  // Unix seconds of the earliest transaction requested, if filtered
+  start?: number;
+}
+
+export interface LedgerFormat {
+  contentType: string;
+  extension: string;
+  // Only rows in these states are exported, when set
+  statuses?: TransactionStatus[];
+  header(context: ExportContext): string;
+  row(tx: Transaction, index: number): string;
+  footer(context: ExportContext): string;
+}
+
+// Ledger fields shared by every format
+function ledgerEntry(tx: Transaction) {
+  return {
+    id: tx.id,
+    timestamp: new Date(tx.timestamp * 1000).toISOString(),
+    type: tx.type,
+    status: tx.status,
+    amount_sat: tx.amount,
+    fee_sat: tx.fee,
+    payment_hash: tx.payment_hash || '',
+    preimage: tx.preimage || '',
+    memo: tx.description || '',
+  };
+}
+
+// Signed BTC amount as booked: sent amounts include the routing fee
+function signedBtc(tx: Transaction): string {
+  const sats = tx.type === 'sent' ? -(tx.amount + tx.fee) : tx.amount;
+  return (sats / 100_000_000).toFixed(8);
+}
+
+/**
+ * Quote a CSV field when needed
+ * Values that a spreadsheet would treat as a formula are prefixed with a quote.
+ */
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (/^[=+\-@\t\r]/.test(text) && typeof value === 'string') {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const CSV_COLUMNS = ['timestamp', 'type', 'status', 'amount_sat', 'fee_sat', 'payment_hash', 'preimage', 'memo', 'id'] as const;
+
+const csv: LedgerFormat = {
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  header: () => `${CSV_COLUMNS.join(',')}\r\n`,
+  row: tx => {
+    const entry = ledgerEntry(tx);
+    return `${CSV_COLUMNS.map(column => csvField(entry[column])).join(',')}\r\n`;
+  },
+  footer: () => '',
+};
+
+const json: LedgerFormat = {
+  contentType: 'application/json; charset=utf-8',
+  extension: 'json',
+  header: () => '[\n',
+  row: (tx, index) => `${index > 0 ? ',\n' : ''}  ${JSON.stringify(ledgerEntry(tx))}`,
+  footer: () => '\n]\n',
+};
+
+// OFX 1.x is SGML: escape markup characters and keep values on one line
+function ofxText(value: string, maxLength = 255): string {
+  return value
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .slice(0, maxLength);
+}
+
+function ofxDate(date: Date): string {
+  return format(date, 'yyyyMMddHHmmss');
+}
+
+// Statuses of transactions that moved money, for formats that book every row
+const BOOKED_STATUSES: TransactionStatus[] = ['succeeded', 'settled'];
+
+const ofx: LedgerFormat = {
+  contentType: 'application/x-ofx',
+  extension: 'ofx',
+  statuses: BOOKED_STATUSES,
+  header: ({ generatedAt, start }) => [
+    'OFXHEADER:100',
+    'DATA:OFXSGML',
+    'VERSION:102',
+    'SECURITY:NONE',
+    'ENCODING:USASCII',
+    'CHARSET:1252',
+    'COMPRESSION:NONE',
+    'OLDFILEUID:NONE',
+    'NEWFILEUID:NONE',
+    '',
+    '<OFX>',
+    '<SIGNONMSGSRSV1><SONRS>',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    `<DTSERVER>${ofxDate(generatedAt)}`,
+    '<LANGUAGE>ENG',
+    '</SONRS></SIGNONMSGSRSV1>',
+    '<BANKMSGSRSV1><STMTTRNRS>',
+    '<TRNUID>1',
+    '<STATUS><CODE>0<SEVERITY>INFO</STATUS>',
+    '<STMTRS>',
+    '<CURDEF>XBT',
+    '<BANKACCTFROM><BANKID>LIGHTNING<ACCTID>WALLET<ACCTTYPE>CHECKING</BANKACCTFROM>',
+    '<BANKTRANLIST>',
+    `<DTSTART>${ofxDate(new Date((start ?? 0) * 1000))}`,
+    `<DTEND>${ofxDate(generatedAt)}`,
+    '',
+  ].join('\r\n'),
+  row: tx => {
+    const entry = ledgerEntry(tx);
+    const memo = [
+      entry.memo,
+      tx.fee > 0 ? `fee ${tx.fee} sat` : '',
+      entry.payment_hash && `hash ${entry.payment_hash}`,
+      entry.preimage && `preimage ${entry.preimage}`,
+    ].filter(Boolean).join(' | ');
+
+    return [
+      '<STMTTRN>',
+      `<TRNTYPE>${tx.type === 'sent' ? 'DEBIT' : 'CREDIT'}`,
+      `<DTPOSTED>${ofxDate(new Date(tx.timestamp * 1000))}`,
+      `<TRNAMT>${signedBtc(tx)}`,
+      `<FITID>${ofxText(entry.payment_hash || entry.id, 255)}`,
+      `<NAME>${ofxText(entry.memo || (tx.type === 'sent' ? 'Lightning payment' : 'Lightning invoice'), 32)}`,
+      `<MEMO>${ofxText(memo)}`,
+      '</STMTTRN>',
+      '',
+    ].join('\r\n');
+  },
+  footer: () => [
+    '</BANKTRANLIST>',
+    '</STMTRS>',
+    '</STMTTRNRS></BANKMSGSRSV1>',
+    '</OFX>',
+    '',
+  ].join('\r\n'),
+};
+
+// QIF fields are one per line, so strip line breaks from free text
+function qifText(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
+
+const qif: LedgerFormat = {
+  contentType: 'application/qif',
+  extension: 'qif',
+  statuses: BOOKED_STATUSES,
+  header: () => '!Type:Bank\n',
+  row: tx => {
+    const entry = ledgerEntry(tx);
+    return [
+      `D${format(new Date(tx.timestamp * 1000), 'MM/dd/yyyy')}`,
+      `T${signedBtc(tx)}`,
+      `P${qifText(entry.memo || (tx.type === 'sent' ? 'Lightning payment' : 'Lightning invoice'))}`,
+      `M${qifText([tx.fee > 0 ? `fee ${tx.fee} sat` : '', entry.payment_hash && `hash ${entry.payment_hash}`, entry.preimage && `preimage ${entry.preimage}`].filter(Boolean).join(' | '))}`,
+      '^',
+      '',
+    ].join('\n');
+  },
+  footer: () => '',
+};
+
+export const LEDGER_FORMATS: Record<ExportFormat, LedgerFormat> = { csv, json, ofx, qif };
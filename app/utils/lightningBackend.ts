@@ -0,0 +1,122 @@
+/**
+ * Node-agnostic access to the wallet's Lightning node
+ * API routes go through this interface instead of a specific node's client.
+ * Responses keep the shapes the UI already understands (LND's, see
+ * payments.ts and invoiceSubscription.ts), and each adapter translates its
+ * node's responses into them.
+ *
+ * The backend is chosen with LIGHTNING_BACKEND: "lnd" (default), "cln" for
+ * Core Lightning's REST API, or "simulated" for an in-memory node that needs
+ * no network at all. Server only.
+ */
+
+import type { ListTransactionHistoryResponse } from 'flndr';
+import { NextResponse } from 'next/server';
+import type { DecodedPaymentRequest, Network } from './bolt11';
+import { clnBackend } from './clnBackend';
+import type { InvoiceUpdate } from './invoiceSubscription';
+import type { LiquidityOverview } from './liquidity';
+import { lndBackend } from './lndBackend';
+import type { PaymentData } from './payments';
+import { getSimulatedNode } from './simulatedNode';
+import type { HistoryQuery } from './transactions';
+
+export type BackendKind = 'lnd' | 'cln' | 'simulated';
+
+export interface NodeInfo {
+  identity_pubkey: string;
+  alias: string;
+  block_height: number;
+  chains: { chain: string; network: Network }[];
+  [key: string]: unknown;
+}
+
+export interface CreateInvoiceParams {
+  value_msat: string;
+  memo?: string;
+  // Committed to by hash only, e.g. LNURL-pay metadata; replaces the memo
+  hashed_description?: string;
+  expiry: number;
+}
+
+export interface CreatedInvoice {
+  // Payment hash, hex or base64 depending on the node
+  r_hash: string;
+  payment_request: string;
+  add_index?: string;
+  payment_addr?: string;
+}
+
+// What to pay: an invoice, or a keysend payment straight to a node
+export type PaymentTarget =
+  | { payment_request: string; amt_msat?: string }
+  | { keysend: { dest: string; amt_msat: string; message?: string } };
+
+export interface SendPaymentOptions {
+  fee_limit_sat: number;
+  timeout_seconds: number;
+  // Only report the final state instead of every attempt
+  final_only?: boolean;
+  signal?: AbortSignal;
+}
+
+export interface LightningBackend {
+  readonly kind: BackendKind;
+
+  getInfo(): Promise<NodeInfo>;
+  getBalances(): Promise<LiquidityOverview>;
+
+  createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice>;
+  // Payment hashes are hex; null when the node has no such invoice
+  lookupInvoice(paymentHash: string): Promise<InvoiceUpdate | null>;
+  // Every open and accepted invoice plus the most recent ones in other states, in any order
+  listInvoices(): Promise<InvoiceUpdate[]>;
+  cancelInvoice(paymentHash: string): Promise<void>;
+  // Updates for every invoice, ending or throwing when the connection drops
+  subscribeInvoices(signal: AbortSignal): AsyncIterable<InvoiceUpdate>;
+
+  decodePaymentRequest(paymentRequest: string): Promise<DecodedPaymentRequest>;
+  // Yields each update of the payment until it succeeds or fails
+  sendPayment(target: PaymentTarget, options: SendPaymentOptions): AsyncIterable<PaymentData>;
+  lookupPayment(paymentHash: string): Promise<PaymentData | null>;
+
+  // Received keysend payments carry their message, if any, as the description
+  listTransactions(query: HistoryQuery): Promise<ListTransactionHistoryResponse>;
+}
+
+export function getBackendKind(): BackendKind {
+  const kind = process.env.LIGHTNING_BACKEND?.trim().toLowerCase();
+  return kind === 'cln' || kind === 'simulated' ? kind : 'lnd';
+}
+
+export function getBackend(): LightningBackend {
+  switch (getBackendKind()) {
+    case 'cln':
+      return clnBackend;
+    case 'simulated':
+      return getSimulatedNode();
+    default:
+      return lndBackend;
+  }
+}
+
+/**
+ * Return a 501 response for features only the LND backend offers, such as
+ * hold invoices and channel management, or null when LND is in use
+ */
+export function requireLnd(feature: string): NextResponse | null {
+  if (getBackendKind() === 'lnd') return null;
+  return NextResponse.json(
+    { error: `${feature} is only available with the LND backend` },
+    { status: 501 }
+  );
+}
+
+// Return a 404 response for the simulator's control routes unless the simulated node is in use
+export function requireSimulated(): NextResponse | null {
+  if (getBackendKind() === 'simulated') return null;
+  return NextResponse.json(
+    { error: 'The simulator is only available with LIGHTNING_BACKEND=simulated' },
+    { status: 404 }
+  );
+}
@@ -0,0 +1,86 @@
+/**
+ * Node balances and channel liquidity, shared by the API route and the UI
+ * All amounts are in sats.
+ */
+
+export interface ChannelLiquidity {
+  chan_id: string;
+  channel_point: string;
+  remote_pubkey: string;
+  peer_alias: string;
+  active: boolean;
+  private: boolean;
+  capacity: number;
+  local_balance: number;
+  remote_balance: number;
+  // Balance each side must keep in the channel, so it can't be sent or received
+  local_reserve: number;
+  remote_reserve: number;
+}
+
+export interface LiquidityOverview {
+  onchain: {
+    confirmed: number;
+    unconfirmed: number;
+  };
+  lightning: {
+    local: number;
+    remote: number;
+    pending_open_local: number;
+    pending_open_remote: number;
+  };
+  // Totals over active channels, net of reserves
+  max_sendable: number;
+  max_receivable: number;
+  channels: ChannelLiquidity[];
+}
+
+// What an active channel can still move in each direction
+export function spendable(channel: ChannelLiquidity): { outbound: number; inbound: number } {
+  if (!channel.active) return { outbound: 0, inbound: 0 };
+  return {
+    outbound: Math.max(channel.local_balance - channel.local_reserve, 0),
+    inbound: Math.max(channel.remote_balance - channel.remote_reserve, 0),
+  };
+}
+
+// Assemble the overview from a node's balances, totalling what its active channels can move
+export function liquidityOverview(
+  onchain: LiquidityOverview['onchain'],
+  lightning: LiquidityOverview['lightning'],
+  channels: ChannelLiquidity[]
+): LiquidityOverview {
+  return {
+    onchain,
+    lightning,
+    max_sendable: channels.reduce((sum, channel) => sum + spendable(channel).outbound, 0),
+    max_receivable: channels.reduce((sum, channel) => sum + spendable(channel).inbound, 0),
+    channels,
+  };
+}
+
+/**
+ * Warn when an amount is more than the node's channels can carry
+ * Returns null when the amount fits, or when liquidity isn't known yet.
+ * This is a hint rather than a guarantee: routing also depends on the
+ * liquidity of every channel along the path.
+ */
+export function liquidityWarning(
+  amountSat: number,
+  direction: 'send' | 'receive',
+  overview: LiquidityOverview | null
+): string | null {
+  if (!overview || !(amountSat > 0)) return null;
+
+  if (direction === 'send') {
+    if (amountSat > overview.max_sendable) {
+      return `This is more than the ${overview.max_sendable.toLocaleString()} sats your channels can send right now`;
+    }
+    return null;
+  }
+
+  if (amountSat > overview.max_receivable) {
+    return `This is more than the ${overview.max_receivable.toLocaleString()} sats of inbound capacity your channels have right now`;
+  }
+  return null;
+}
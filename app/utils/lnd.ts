@@ -0,0 +1,98 @@
+/**
+ * Server-side LND access
+ * The macaroon is read from server-only environment variables so it never
+ * ends up in the browser bundle. Only API route handlers should import this.
+ */
+
+import { LndClient } from 'flndr';
+import { NextResponse } from 'next/server';
+import { readNdjson } from './ndjson';
+
+let client: LndClient | null = null;
+
+// Lazily create a single LND client per server process
+export function getLndClient(): LndClient {
+  if (!client) {
+    client = new LndClient({
+      baseUrl: process.env.LND_REST_API_URL || 'https://your-lnd-proxy:8080',
+      macaroon: process.env.LND_MACAROON || '',
+    });
+  }
+  return client;
+}
+
+// Log the underlying node error and return a generic JSON error to the browser
+export function lndErrorResponse(error: unknown, message: string, status = 502) {
+  console.error(`${message}:`, error);
+  return NextResponse.json({ error: message }, { status });
+}
+
+// Return a 400 response for malformed requests from the browser
+export function badRequest(message: string) {
+  return NextResponse.json({ error: message }, { status: 400 });
+}
+
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'DELETE';
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+// Call an LND REST endpoint directly, for calls the client library doesn't cover
+function fetchLnd(path: string, options: RequestOptions): Promise<Response> {
+  const baseUrl = process.env.LND_REST_API_URL || 'https://your-lnd-proxy:8080';
+  return fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+    method: options.method ?? 'GET',
+    headers: { 'Grpc-Metadata-macaroon': process.env.LND_MACAROON || '' },
+    body: options.body === undefined ? undefined : JSON.stringify(options.body),
+    signal: options.signal,
+  });
+}
+
+/**
+ * Call a unary LND REST endpoint and return its JSON response
+ * Throws with LND's error message when the call fails.
+ */
+export async function requestLnd<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const response = await fetchLnd(path, options);
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new Error(body?.message || `LND request ${path} failed with status ${response.status}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * Open a streaming LND REST endpoint and yield each JSON update as it arrives
+ * LND streams newline-delimited JSON objects wrapped as { result } or { error }.
+ */
+export async function* streamLnd<T>(path: string, options: RequestOptions = {}): AsyncGenerator<T> {
+  const response = await fetchLnd(path, options);
+
+  if (!response.ok || !response.body) {
+    throw new Error(`LND stream ${path} failed with status ${response.status}`);
+  }
+
+  for await (const message of readNdjson<{ result?: T; error?: { message?: string } }>(response.body)) {
+    if (message.error) {
+      throw new Error(message.error.message || 'LND stream error');
+    }
+    yield (message.result ?? message) as T;
+  }
+}
+
+// Normalize a payment hash given as hex, base64 or base64url into lowercase hex
+export function toHexHash(hash: string): string {
+  if (/^[0-9a-fA-F]{64}$/.test(hash)) {
+    return hash.toLowerCase();
+  }
+  const base64 = hash.replace(/-/g, '+').replace(/_/g, '/');
+  return Buffer.from(base64, 'base64').toString('hex');
+}
+
+// LND returns transaction ids as bytes in internal order; display order is reversed hex
+export function toTxid(bytes: string): string {
+  return Buffer.from(bytes.replace(/-/g, '+').replace(/_/g, '/'), 'base64').reverse().toString('hex');
+}
@@ -0,0 +1,250 @@
+/**
+ * LND implementation of LightningBackend
+ * Wraps the flndr client and LND's REST API. Hold invoices and channel
+ * management have no equivalent on the other backends and still call
+ * lnd.ts directly. Server only.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { ListTransactionHistoryResponse, Transaction } from 'flndr';
+import { getLndClient, requestLnd, streamLnd, toHexHash } from './lnd';
+import { invoiceKeysendMessage, KEYSEND_MESSAGE_RECORD, KEYSEND_PREIMAGE_RECORD, TLV_ONION_FEATURE } from './keysend';
+import type { InvoiceUpdate } from './invoiceSubscription';
+import type { LightningBackend, PaymentTarget } from './lightningBackend';
+import { ChannelLiquidity, liquidityOverview } from './liquidity';
+import type { PaymentData } from './payments';
+
+interface Amount {
+  sat?: string;
+}
+
+interface LndChannel {
+  active?: boolean;
+  private?: boolean;
+  remote_pubkey: string;
+  channel_point: string;
+  chan_id: string;
+  capacity?: string;
+  local_balance?: string;
+  remote_balance?: string;
+  peer_alias?: string;
+  local_chan_reserve_sat?: string;
+  remote_chan_reserve_sat?: string;
+  local_constraints?: { chan_reserve_sat?: string };
+  remote_constraints?: { chan_reserve_sat?: string };
+}
+
+function toChannel(channel: LndChannel): ChannelLiquidity {
+  return {
+    chan_id: channel.chan_id,
+    channel_point: channel.channel_point,
+    remote_pubkey: channel.remote_pubkey,
+    peer_alias: channel.peer_alias || '',
+    active: Boolean(channel.active),
+    private: Boolean(channel.private),
+    capacity: Number(channel.capacity ?? 0),
+    local_balance: Number(channel.local_balance ?? 0),
+    remote_balance: Number(channel.remote_balance ?? 0),
+    local_reserve: Number(channel.local_constraints?.chan_reserve_sat ?? channel.local_chan_reserve_sat ?? 0),
+    remote_reserve: Number(channel.remote_constraints?.chan_reserve_sat ?? channel.remote_chan_reserve_sat ?? 0),
+  };
+}
+
+const INVOICE_PAGE_SIZE = 100;
+
+const toBase64 = (hexHash: string) => Buffer.from(hexHash, 'hex').toString('base64');
+const toBase64Url = (hexHash: string) => Buffer.from(hexHash, 'hex').toString('base64url');
+
+/**
+ * Show the message of received keysend payments as their description
+ * Keysend invoices have no memo and flndr's history leaves out the HTLCs'
+ * custom records, so the invoices created around the settled received rows
+ * of the page are listed in one request. Rows not found there keep no
+ * description.
+ */
+async function withKeysendMessages(transactions: Transaction[]): Promise<Transaction[]> {
+  const candidates = transactions.filter(tx =>
+    tx.type === 'received' && tx.status === 'settled' && !tx.description && tx.payment_hash
+  );
+  if (candidates.length === 0) return transactions;
+
+  // LND creates keysend invoices when the payment arrives, so allow for the row using either time
+  const timestamps = candidates.map(tx => tx.timestamp);
+  const { invoices = [] } = await requestLnd<{ invoices?: InvoiceUpdate[] }>(
+    `/v1/invoices?reversed=true&num_max_invoices=${INVOICE_PAGE_SIZE}`
+      + `&creation_date_start=${Math.max(0, Math.min(...timestamps) - 60)}`
+      + `&creation_date_end=${Math.max(...timestamps) + 60}`
+  );
+
+  const messages = new Map<string, string>();
+  for (const invoice of invoices) {
+    const message = invoice.is_keysend ? invoiceKeysendMessage(invoice) : null;
+    if (message) messages.set(toHexHash(invoice.r_hash), message);
+  }
+
+  return transactions.map(tx => {
+    const message = candidates.includes(tx) ? messages.get(toHexHash(tx.payment_hash)) : undefined;
+    return message ? { ...tx, description: message } : tx;
+  });
+}
+
+/**
+ * Router request for a payment target
+ * For keysend the preimage is generated here and sent to the recipient in
+ * the onion, together with the optional message.
+ */
+function routerRequest(target: PaymentTarget): Record<string, unknown> {
+  if ('payment_request' in target) {
+    return { payment_request: target.payment_request, amt_msat: target.amt_msat };
+  }
+
+  const { dest, amt_msat, message } = target.keysend;
+  const preimage = randomBytes(32);
+  const records: Record<string, string> = { [KEYSEND_PREIMAGE_RECORD]: preimage.toString('base64') };
+  if (message) {
+    records[KEYSEND_MESSAGE_RECORD] = Buffer.from(message, 'utf8').toString('base64');
+  }
+
+  return {
+    dest: toBase64(dest),
+    amt_msat,
+    payment_hash: createHash('sha256').update(preimage).digest('base64'),
+    dest_custom_records: records,
+    dest_features: [TLV_ONION_FEATURE],
+  };
+}
+
+export const lndBackend: LightningBackend = {
+  kind: 'lnd',
+
+  getInfo() {
+    return getLndClient().getInfo();
+  },
+
+  async getBalances() {
+    const [onchain, lightning, { channels = [] }] = await Promise.all([
+      requestLnd<{ confirmed_balance?: string; unconfirmed_balance?: string }>('/v1/balance/blockchain'),
+      requestLnd<{
+        local_balance?: Amount;
+        remote_balance?: Amount;
+        pending_open_local_balance?: Amount;
+        pending_open_remote_balance?: Amount;
+      }>('/v1/balance/channels'),
+      requestLnd<{ channels?: LndChannel[] }>('/v1/channels?peer_alias_lookup=true'),
+    ]);
+
+    return liquidityOverview(
+      {
+        confirmed: Number(onchain.confirmed_balance ?? 0),
+        unconfirmed: Number(onchain.unconfirmed_balance ?? 0),
+      },
+      {
+        local: Number(lightning.local_balance?.sat ?? 0),
+        remote: Number(lightning.remote_balance?.sat ?? 0),
+        pending_open_local: Number(lightning.pending_open_local_balance?.sat ?? 0),
+        pending_open_remote: Number(lightning.pending_open_remote_balance?.sat ?? 0),
+      },
+      channels.map(toChannel)
+    );
+  },
+
+  createInvoice(params) {
+    // LND rejects invoices with both a memo and a description hash
+    return getLndClient().addInvoice(params.hashed_description !== undefined
+      ? {
+        value_msat: params.value_msat,
+        description_hash: createHash('sha256').update(params.hashed_description).digest('base64'),
+        expiry: String(params.expiry),
+      }
+      : {
+        value_msat: params.value_msat,
+        memo: params.memo,
+        expiry: String(params.expiry),
+      });
+  },
+
+  async lookupInvoice(paymentHash) {
+    try {
+      return await requestLnd<InvoiceUpdate>(`/v2/invoices/lookup?payment_hash=${toBase64Url(paymentHash)}`);
+    } catch (error) {
+      if (error instanceof Error && /unable to locate invoice|no existing invoices/i.test(error.message)) {
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Pages through every open and accepted invoice, so old ones can't fall out of the list
+  async listInvoices() {
+    const recent = await requestLnd<{ invoices?: InvoiceUpdate[] }>(
+      `/v1/invoices?reversed=true&num_max_invoices=${INVOICE_PAGE_SIZE}`
+    );
+    const invoices = new Map((recent.invoices ?? []).map(invoice => [invoice.r_hash, invoice]));
+
+    let indexOffset: string | undefined;
+    for (;;) {
+      const page = await requestLnd<{ invoices?: InvoiceUpdate[]; first_index_offset?: string }>(
+        `/v1/invoices?pending_only=true&reversed=true&num_max_invoices=${INVOICE_PAGE_SIZE}`
+          + (indexOffset ? `&index_offset=${indexOffset}` : '')
+      );
+      const pending = page.invoices ?? [];
+      pending.forEach(invoice => invoices.set(invoice.r_hash, invoice));
+
+      if (pending.length < INVOICE_PAGE_SIZE || !page.first_index_offset || page.first_index_offset === indexOffset) {
+        return [...invoices.values()];
+      }
+      indexOffset = page.first_index_offset;
+    }
+  },
+
+  async cancelInvoice(paymentHash) {
+    await requestLnd('/v2/invoices/cancel', { method: 'POST', body: { payment_hash: toBase64(paymentHash) } });
+  },
+
+  subscribeInvoices(signal) {
+    return streamLnd<InvoiceUpdate>('/v1/invoices/subscribe', { signal });
+  },
+
+  decodePaymentRequest(paymentRequest) {
+    return getLndClient().decodePayReq(paymentRequest);
+  },
+
+  sendPayment(target, options) {
+    return streamLnd<PaymentData>('/v2/router/send', {
+      method: 'POST',
+      body: {
+        ...routerRequest(target),
+        timeout_seconds: options.timeout_seconds,
+        fee_limit_sat: options.fee_limit_sat,
+        no_inflight_updates: options.final_only ?? false,
+      },
+      signal: options.signal,
+    });
+  },
+
+  // Final state of an outgoing payment, including every HTLC attempt and its route
+  async lookupPayment(paymentHash) {
+    const controller = new AbortController();
+    try {
+      for await (const payment of streamLnd<PaymentData>(
+        `/v2/router/track/${toBase64Url(paymentHash)}?no_inflight_updates=true`,
+        { signal: controller.signal }
+      )) {
+        return payment;
+      }
+      return null;
+    } finally {
+      controller.abort();
+    }
+  },
+
+  async listTransactions(query) {
+    const page: ListTransactionHistoryResponse = await getLndClient().listTransactionHistory(query);
+    try {
+      return { ...page, transactions: await withKeysendMessages(page.transactions) };
+    } catch (error) {
+      console.error('Failed to look up keysend messages:', error);
+      return page;
+    }
+  },
+};
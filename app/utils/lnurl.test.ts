@@ -0,0 +1,32 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeLnurl, parseLnurlTarget } from './lnurl';
+
+const ADDRESS_URL = 'https://pay.example.com/.well-known/lnurlp/alice';
+
+describe('parseLnurlTarget', () => {
+  it('reads a Lightning Address', () => {
+    expect(parseLnurlTarget('lightning:Alice@Pay.Example.com')).toEqual({
+      kind: 'address',
+      url: ADDRESS_URL,
+      domain: 'pay.example.com',
+    });
+  });
+
+  it('reads a bech32 LNURL and an lnurlp:// URL', () => {
+    expect(parseLnurlTarget(encodeLnurl(ADDRESS_URL))).toEqual({ kind: 'lnurl', url: ADDRESS_URL, domain: 'pay.example.com' });
+    expect(parseLnurlTarget('lnurlp://pay.example.com/.well-known/lnurlp/alice')?.url).toBe(ADDRESS_URL);
+  });
+
+  it('ignores anything else', () => {
+    expect(parseLnurlTarget('alice')).toBeNull();
+    expect(parseLnurlTarget('lnbc1pvjluez')).toBeNull();
+  });
+
+  it('only accepts plain http for onion services in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+
+    expect(parseLnurlTarget(encodeLnurl('http://pay.example.com/lnurlp/alice'))).toBeNull();
+    expect(parseLnurlTarget(encodeLnurl('http://payabc.onion/lnurlp/alice'))?.url).toBe('http://payabc.onion/lnurlp/alice');
+    expect(parseLnurlTarget('alice@localhost:3000')).toBeNull();
+  });
+});
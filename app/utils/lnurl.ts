@@ -0,0 +1,141 @@
+/**
+ * LNURL-pay (LUD-06) and Lightning Address (LUD-16) helpers
+ * Parsing and encoding are safe to use in the browser. The handshake with the
+ * service lives in lnurlPay.ts and runs on the server, so the payer's browser
+ * never contacts the service.
+ */
+
+import { utf8ToBytes } from '@noble/hashes/utils';
+import { bytesToWords, decodeBech32, encodeBech32, wordsToBytes } from './bech32';
+
+export class LnurlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LnurlError';
+  }
+}
+
+export interface LnurlTarget {
+  kind: 'lnurl' | 'address';
+  url: string;
+  // Domain of the service, shown to the user so they know who they're paying
+  domain: string;
+}
+
+// Pay parameters returned by the service's first response
+export interface LnurlPayParams {
+  callback: string;
+  minSendable: number;
+  maxSendable: number;
+  metadata: string;
+  commentAllowed: number;
+}
+
+// Pay parameters as shown to the user
+export interface LnurlPayInfo {
+  domain: string;
+  minSendable: number;
+  maxSendable: number;
+  commentAllowed: number;
+  description: string;
+  longDescription?: string;
+  identifier?: string;
+  image?: string;
+}
+
+export interface LnurlSuccessAction {
+  tag: 'message' | 'url' | 'aes';
+  message?: string;
+  description?: string;
+  url?: string;
+  [key: string]: unknown;
+}
+
+const ADDRESS_PATTERN = /^([a-z0-9\-_.+]+)@([a-z0-9\-.]+\.[a-z]{2,}|localhost(:\d+)?)$/i;
+
+export const isProduction = () => process.env.NODE_ENV === 'production';
+
+// Plain http is only accepted for onion services and while developing locally
+export function allowsHttp(host: string): boolean {
+  return host.endsWith('.onion') || !isProduction();
+}
+
+/**
+ * Recognize an LNURL or Lightning Address
+ * Accepts lnurl1... bech32 strings, LUD-17 lnurlp:// URLs and name@domain
+ * addresses, with or without a "lightning:" prefix. Returns null for anything else.
+ */
+export function parseLnurlTarget(input: string): LnurlTarget | null {
+  const value = input.trim().replace(/^lightning:/i, '');
+
+  const address = value.match(ADDRESS_PATTERN);
+  if (address) {
+    const [, name, domain] = address;
+    if (domain.startsWith('localhost') && isProduction()) return null;
+    const scheme = domain.startsWith('localhost') || domain.endsWith('.onion') ? 'http' : 'https';
+    return {
+      kind: 'address',
+      url: `${scheme}://${domain.toLowerCase()}/.well-known/lnurlp/${name.toLowerCase()}`,
+      domain: domain.toLowerCase(),
+    };
+  }
+
+  let url: string | null = null;
+
+  if (/^lnurl1[a-z0-9]+$/i.test(value)) {
+    try {
+      const { hrp, words } = decodeBech32(value);
+      if (hrp !== 'lnurl') return null;
+      url = new TextDecoder().decode(wordsToBytes(words));
+    } catch {
+      return null;
+    }
+  } else if (/^lnurlp:\/\//i.test(value)) {
+    const rest = value.replace(/^lnurlp:\/\//i, '');
+    url = `${rest.split(/[/:?]/)[0].endsWith('.onion') ? 'http' : 'https'}://${rest}`;
+  }
+
+  if (!url) return null;
+
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowsHttp(parsed.hostname))) {
+      return null;
+    }
+    return { kind: 'lnurl', url: parsed.toString(), domain: parsed.host };
+  } catch {
+    return null;
+  }
+}
+
+// Encode a URL as an uppercase bech32 LNURL (uppercase makes for denser QR codes)
+export function encodeLnurl(url: string): string {
+  return encodeBech32('lnurl', bytesToWords(utf8ToBytes(url))).toUpperCase();
+}
+
+/**
+ * Pull the human-readable parts out of the metadata string
+ * Metadata is a JSON array of [mime type, content] pairs.
+ */
+export function describePayParams(target: LnurlTarget, params: LnurlPayParams): LnurlPayInfo {
+  let entries: [string, string][] = [];
+  try {
+    entries = JSON.parse(params.metadata);
+  } catch {
+    throw new LnurlError('The LNURL service sent invalid metadata');
+  }
+
+  const find = (type: string) => entries.find(([mime]) => mime === type)?.[1];
+  const image = entries.find(([mime]) => mime.startsWith('image/'));
+
+  return {
+    domain: target.domain,
+    minSendable: params.minSendable,
+    maxSendable: params.maxSendable,
+    commentAllowed: params.commentAllowed,
+    description: find('text/plain') || '',
+    longDescription: find('text/long-desc'),
+    identifier: find('text/identifier') || find('text/email'),
+    image: image ? `data:${image[0]},${image[1]}` : undefined,
+  };
+}
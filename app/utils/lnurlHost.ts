@@ -0,0 +1,199 @@
+/**
+ * LNURL endpoints hosted by the wallet itself
+ * Static LNURL-pay / Lightning Address receiving (LUD-06, LUD-16) and
+ * single-use LNURL-withdraw vouchers (LUD-03). Server only.
+ *
+ * Comments payers send with a Lightning Address payment are kept in a JSON
+ * file (LNURL_PAY_COMMENT_STORE, default .data/lnurlp-comments.json) keyed by
+ * payment hash, since the invoice only carries the metadata's hash.
+ *
+ * Vouchers are kept in memory, so outstanding vouchers are lost when the
+ * server restarts. A voucher can only be redeemed once.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Transaction } from 'flndr';
+import { NextResponse } from 'next/server';
+import { JsonFileStore } from './jsonStore';
+import { encodeLnurl } from './lnurl';
+import { normalizePaymentHash } from './transactions';
+
+export interface LnurlPayConfig {
+  // Names served as <name>@<host> Lightning Addresses
+  names: string[];
+  minSendableSat: number;
+  maxSendableSat: number;
+  commentAllowed: number;
+}
+
+// Read a whole-number env var, falling back when unset or invalid
+function integerFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getLnurlPayConfig(): LnurlPayConfig {
+  return {
+    names: (process.env.LNURL_PAY_NAMES || 'tips')
+      .split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(Boolean),
+    minSendableSat: integerFromEnv('LNURL_PAY_MIN_SAT', 1),
+    maxSendableSat: integerFromEnv('LNURL_PAY_MAX_SAT', 100000),
+    commentAllowed: integerFromEnv('LNURL_PAY_COMMENT_LENGTH', 140),
+  };
+}
+
+/**
+ * Origin that payers reach the wallet on
+ * PUBLIC_URL should be set when the app runs behind a proxy, otherwise the
+ * origin of the incoming request is used.
+ */
+export function getPublicOrigin(request: Request): string {
+  return (process.env.PUBLIC_URL || new URL(request.url).origin).replace(/\/$/, '');
+}
+
+/**
+ * Metadata for a hosted pay endpoint
+ * Built deterministically so the description hash in the invoice matches the
+ * metadata the payer received in the first step.
+ */
+export function payMetadata(name: string, host: string): string {
+  return JSON.stringify([
+    ['text/plain', `Payment to ${name}@${host}`],
+    ['text/identifier', `${name}@${host}`],
+  ]);
+}
+
+// LNURL services report failures as { status: 'ERROR', reason } (LUD-06)
+export function lnurlErrorResponse(reason: string, status = 400) {
+  return NextResponse.json({ status: 'ERROR', reason }, { status });
+}
+
+const comments = new JsonFileStore<Record<string, string>>(
+  () => process.env.LNURL_PAY_COMMENT_STORE || '.data/lnurlp-comments.json',
+  () => ({})
+);
+
+/**
+ * Remember the comment a payer sent with the invoice it was created for
+ * Never throws: losing a comment shouldn't fail the payment.
+ */
+export async function recordPayComment(paymentHash: string, comment: string): Promise<void> {
+  try {
+    await comments.update(stored => ({ ...stored, [normalizePaymentHash(paymentHash)]: comment }));
+  } catch (error) {
+    console.error('Failed to record LNURL-pay comment:', error);
+  }
+}
+
+// Show the payer's comment as the description of Lightning Address payments
+export async function withPayComments(transactions: Transaction[]): Promise<Transaction[]> {
+  const stored = await comments.read();
+  return transactions.map(tx => {
+    const comment = tx.type === 'received' && tx.payment_hash ? stored[normalizePaymentHash(tx.payment_hash)] : undefined;
+    return comment ? { ...tx, description: comment } : tx;
+  });
+}
+
+export type VoucherStatus = 'open' | 'pending' | 'redeemed' | 'revoked';
+
+export interface WithdrawVoucher {
+  id: string;
+  // Secret the wallet hands to the redeemer along with the callback
+  k1: string;
+  amountSat: number;
+  description: string;
+  createdAt: number;
+  expiresAt: number;
+  status: VoucherStatus;
+  // Hash of the invoice paid when the voucher was redeemed
+  paymentHash?: string;
+}
+
+const vouchers = new Map<string, WithdrawVoucher>();
+
+export function createVoucher(amountSat: number, description: string, expiresInSeconds: number): WithdrawVoucher {
+  const now = Date.now();
+  const voucher: WithdrawVoucher = {
+    id: randomBytes(16).toString('hex'),
+    k1: randomBytes(32).toString('hex'),
+    amountSat,
+    description,
+    createdAt: now,
+    expiresAt: now + expiresInSeconds * 1000,
+    status: 'open',
+  };
+  vouchers.set(voucher.id, voucher);
+  return voucher;
+}
+
+// All vouchers, newest first
+export function listVouchers(): WithdrawVoucher[] {
+  return Array.from(vouchers.values()).sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// A voucher that can still be redeemed, or null
+export function getRedeemableVoucher(id: string): WithdrawVoucher | null {
+  const voucher = vouchers.get(id);
+  if (!voucher || voucher.status !== 'open' || voucher.expiresAt <= Date.now()) {
+    return null;
+  }
+  return voucher;
+}
+
+export function revokeVoucher(id: string): WithdrawVoucher | null {
+  const voucher = vouchers.get(id);
+  if (!voucher) return null;
+  if (voucher.status === 'open') {
+    voucher.status = 'revoked';
+  }
+  return voucher;
+}
+
+/**
+ * Reserve a voucher for redemption
+ * Returns false if the voucher is unknown, used, expired or the k1 is wrong,
+ * so two concurrent callbacks can't both pay out.
+ */
+export function claimVoucher(id: string, k1: string): boolean {
+  const voucher = getRedeemableVoucher(id);
+  if (!voucher || voucher.k1 !== k1) return false;
+  voucher.status = 'pending';
+  return true;
+}
+
+// Record the outcome of a redemption; failed payments make the voucher usable again
+export function settleVoucher(id: string, succeeded: boolean, paymentHash?: string) {
+  const voucher = vouchers.get(id);
+  if (!voucher || voucher.status !== 'pending') return;
+  voucher.status = succeeded ? 'redeemed' : 'open';
+  voucher.paymentHash = succeeded ? paymentHash : undefined;
+}
+
+// Voucher as shown to the wallet owner, with the LNURL to hand out
+export interface VoucherSummary {
+  id: string;
+  amountSat: number;
+  description: string;
+  createdAt: number;
+  expiresAt: number;
+  paymentHash?: string;
+  status: VoucherStatus | 'expired';
+  lnurl: string;
+}
+
+export function describeVoucher(voucher: WithdrawVoucher, origin: string): VoucherSummary {
+  return {
+    id: voucher.id,
+    amountSat: voucher.amountSat,
+    description: voucher.description,
+    createdAt: voucher.createdAt,
+    expiresAt: voucher.expiresAt,
+    paymentHash: voucher.paymentHash,
+    status: voucher.status === 'open' && voucher.expiresAt <= Date.now() ? 'expired' : voucher.status,
+    lnurl: encodeLnurl(`${origin}/api/lnurlw/${voucher.id}`),
+  };
+}
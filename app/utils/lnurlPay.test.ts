@@ -0,0 +1,201 @@
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ApiRequest, jsonResponse, mockApi, notFound } from '../../test/api';
+import { makeInvoice } from '../../test/fixtures';
+import { LnurlError, LnurlPayParams, LnurlSuccessAction, parseLnurlTarget } from './lnurl';
+import { fetchPayInvoice, fetchPayParams } from './lnurlPay';
+
+// Keep the tests off the network; each test decides what names resolve to
+vi.mock('dns/promises', () => ({ lookup: vi.fn() }));
+
+// lookup as the handshake calls it, returning every address
+const resolveAll = vi.mocked(lookup as (hostname: string, options: { all: true }) => Promise<LookupAddress[]>);
+
+const PUBLIC_ADDRESS = { address: '203.0.113.10', family: 4 };
+
+const CALLBACK = 'https://pay.example.com/lnurlp/alice/callback';
+const METADATA = JSON.stringify([['text/plain', 'Tips for Alice'], ['text/identifier', 'alice@pay.example.com']]);
+
+const PARAMS: LnurlPayParams = {
+  callback: CALLBACK,
+  minSendable: 1000,
+  maxSendable: 1000000,
+  metadata: METADATA,
+  commentAllowed: 20,
+};
+
+interface ServiceOptions {
+  // What the callback's invoice commits to, instead of the metadata and requested amount
+  descriptionHash?: string;
+  invoiceMsat?: string;
+  successAction?: LnurlSuccessAction;
+  payRequest?: Record<string, unknown>;
+}
+
+// LNURL-pay service behind alice@pay.example.com
+function lnurlService(options: ServiceOptions = {}) {
+  return mockApi((request: ApiRequest) => {
+    if (request.path === '/.well-known/lnurlp/alice') {
+      return jsonResponse({ tag: 'payRequest', ...PARAMS, ...options.payRequest });
+    }
+    if (request.path === '/lnurlp/alice/callback') {
+      const pr = makeInvoice({
+        network: 'mainnet',
+        amount_msat: options.invoiceMsat ?? request.query.get('amount') ?? undefined,
+        description_hash: options.descriptionHash ?? bytesToHex(sha256(utf8ToBytes(METADATA))),
+      });
+      return jsonResponse({ pr, routes: [], successAction: options.successAction });
+    }
+    return notFound(request);
+  });
+}
+
+async function payError(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error) {
+    if (error instanceof LnurlError) return error.message;
+    throw error;
+  }
+  throw new Error('The handshake succeeded');
+}
+
+describe('LNURL-pay handshake', () => {
+  beforeEach(() => {
+    vi.stubEnv('NODE_ENV', 'production');
+    resolveAll.mockResolvedValue([PUBLIC_ADDRESS]);
+  });
+
+  it('fetches the pay parameters and an invoice that commits to them', async () => {
+    const requests = lnurlService({ successAction: { tag: 'message', message: 'Thanks!' } });
+
+    const params = await fetchPayParams(parseLnurlTarget('alice@pay.example.com')!);
+    const { pr, successAction } = await fetchPayInvoice(params, 21000, 'Great post');
+
+    expect(params).toEqual(PARAMS);
+    expect(pr.startsWith('lnbc210n1')).toBe(true);
+    expect(successAction).toEqual({ tag: 'message', message: 'Thanks!' });
+    expect(requests[1].query.get('amount')).toBe('21000');
+    expect(requests[1].query.get('comment')).toBe('Great post');
+  });
+
+  it('rejects pay parameters that cannot be paid', async () => {
+    lnurlService({ payRequest: { minSendable: 5000, maxSendable: 1000 } });
+    expect(await payError(fetchPayParams(parseLnurlTarget('alice@pay.example.com')!)))
+      .toBe('The LNURL service sent an invalid amount range');
+
+    lnurlService({ payRequest: { tag: 'withdrawRequest' } });
+    expect(await payError(fetchPayParams(parseLnurlTarget('alice@pay.example.com')!)))
+      .toBe('This LNURL is not a pay request');
+  });
+
+  it('refuses a callback on a private address', async () => {
+    const requests = lnurlService({ payRequest: { callback: 'https://10.0.0.5/callback' } });
+
+    expect(await payError(fetchPayParams(parseLnurlTarget('alice@pay.example.com')!)))
+      .toBe('10.0.0.5 is not a public host');
+    expect(requests).toHaveLength(1);
+  });
+
+  it.each([
+    ['IPv4', '127.0.0.1', 4],
+    ['IPv4-mapped IPv6', '::ffff:10.0.0.5', 6],
+    ['IPv6', 'fd00::5', 6],
+  ])('refuses a name that resolves to a private %s address', async (_, address, family) => {
+    const requests = lnurlService();
+    resolveAll.mockResolvedValue([PUBLIC_ADDRESS, { address, family }]);
+
+    expect(await payError(fetchPayParams(parseLnurlTarget('alice@127.0.0.1.nip.io')!)))
+      .toBe('127.0.0.1.nip.io is not a public host');
+    expect(resolveAll).toHaveBeenCalledWith('127.0.0.1.nip.io', { all: true });
+    expect(requests).toEqual([]);
+  });
+
+  it('resolves the callback host before asking it for an invoice', async () => {
+    const requests = lnurlService();
+    resolveAll.mockRejectedValue(Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }));
+
+    expect(await payError(fetchPayInvoice(PARAMS, 21000))).toBe('Could not reach pay.example.com');
+    expect(requests).toEqual([]);
+  });
+
+  it('passes on an error reported by the service', async () => {
+    mockApi(() => jsonResponse({ status: 'ERROR', reason: 'Alice is not accepting tips' }));
+
+    expect(await payError(fetchPayInvoice(PARAMS, 21000))).toBe('Alice is not accepting tips');
+  });
+
+  it('rejects an invoice for other metadata', async () => {
+    lnurlService({ descriptionHash: bytesToHex(sha256(utf8ToBytes('Something else'))) });
+
+    expect(await payError(fetchPayInvoice(PARAMS, 21000)))
+      .toBe('The invoice does not match the pay request (description hash mismatch)');
+  });
+
+  it('rejects an invoice for another amount', async () => {
+    lnurlService({ invoiceMsat: '210000' });
+
+    expect(await payError(fetchPayInvoice(PARAMS, 21000)))
+      .toBe('The invoice amount does not match the requested amount');
+  });
+
+  it('checks the amount against the range before asking for an invoice', async () => {
+    const requests = lnurlService();
+
+    expect(await payError(fetchPayInvoice(PARAMS, 999))).toBe('Amount must be between 1 and 1000 sats');
+    expect(await payError(fetchPayInvoice(PARAMS, 1000001))).toBe('Amount must be between 1 and 1000 sats');
+    expect(requests).toEqual([]);
+  });
+
+  describe('comments', () => {
+    it('refuses a comment longer than commentAllowed without contacting the service', async () => {
+      const requests = lnurlService();
+
+      expect(await payError(fetchPayInvoice(PARAMS, 21000, 'x'.repeat(21))))
+        .toBe('Comments are limited to 20 characters');
+      expect(requests).toEqual([]);
+    });
+
+    it('refuses any comment when the service takes none', async () => {
+      lnurlService();
+
+      expect(await payError(fetchPayInvoice({ ...PARAMS, commentAllowed: 0 }, 21000, 'Hi')))
+        .toBe('This service does not accept comments');
+    });
+
+    it('leaves the comment out when there is none', async () => {
+      const requests = lnurlService();
+
+      await fetchPayInvoice({ ...PARAMS, commentAllowed: 0 }, 21000);
+
+      expect(requests[0].query.has('comment')).toBe(false);
+    });
+  });
+
+  describe('URL success actions (LUD-09)', () => {
+    it('keeps a URL on the callback domain', async () => {
+      const action: LnurlSuccessAction = { tag: 'url', description: 'Your download', url: 'https://pay.example.com/files/1' };
+      lnurlService({ successAction: action });
+
+      expect((await fetchPayInvoice(PARAMS, 21000)).successAction).toEqual(action);
+    });
+
+    it.each([
+      ['another domain', 'https://evil.example.net/files/1'],
+      ['a subdomain', 'https://files.pay.example.com/1'],
+      ['another port', 'https://pay.example.com:8443/files/1'],
+      ['a script URL', 'javascript://pay.example.com/%0Aalert(1)'],
+      ['a malformed URL', 'not a url'],
+    ])('drops a URL on %s', async (_, url) => {
+      lnurlService({ successAction: { tag: 'url', description: 'Your download', url } });
+
+      const { pr, successAction } = await fetchPayInvoice(PARAMS, 21000);
+
+      expect(pr).toBeTruthy();
+      expect(successAction).toBeUndefined();
+    });
+  });
+});
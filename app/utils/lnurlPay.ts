@@ -0,0 +1,235 @@
+/**
+ * LNURL-pay handshake (LUD-06)
+ * Fetches the pay parameters and an invoice from the service on the payer's
+ * behalf, checking every URL and the addresses it resolves to first. Server only.
+ */
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex, utf8ToBytes } from '@noble/hashes/utils';
+import { lookup } from 'dns/promises';
+import { Bolt11Error, decodeBolt11 } from './bolt11';
+import {
+  allowsHttp,
+  isProduction,
+  LnurlError,
+  LnurlPayParams,
+  LnurlSuccessAction,
+  LnurlTarget,
+} from './lnurl';
+
+// How long a service gets to answer each step of the handshake
+const FETCH_TIMEOUT_MS = 10000;
+
+// Loopback, private and link-local IPv4 ranges
+function isPrivateIpv4(address: string): boolean {
+  const [a, b] = address.split('.').map(Number);
+  return a === 0 || a === 10 || a === 127
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168);
+}
+
+/**
+ * Whether a URL hostname or resolved address points into the server's own network
+ * Covers localhost names and IP addresses, as URL normalizes them (IPv4 to
+ * dotted decimal, IPv6 to compressed hex in brackets) or DNS returns them.
+ */
+function isPrivateHost(hostname: string): boolean {
+  const host = hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.local') || host.endsWith('.internal')) {
+    return true;
+  }
+  if (/^\d+\.\d+\.\d+\.\d+$/.test(host)) {
+    return isPrivateIpv4(host);
+  }
+  if (!host.includes(':')) {
+    return false;
+  }
+
+  // IPv4-mapped addresses reach the same hosts as the IPv4 address
+  const mappedDotted = host.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mappedDotted) {
+    return isPrivateIpv4(mappedDotted[1]);
+  }
+  const mapped = host.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mapped) {
+    const [high, low] = [parseInt(mapped[1], 16), parseInt(mapped[2], 16)];
+    return isPrivateIpv4(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  return host === '::' || host === '::1' || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+}
+
+/**
+ * Check a URL before the server fetches it
+ * Services must use https (http only for onion services, or while developing),
+ * and in production may not point at localhost or private addresses, where
+ * they could reach services that aren't meant to be public.
+ */
+function checkServiceUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new LnurlError('The LNURL service sent an invalid URL');
+  }
+
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && allowsHttp(parsed.hostname))) {
+    throw new LnurlError(`${parsed.host} must be reached over https`);
+  }
+  if (isProduction() && isPrivateHost(parsed.hostname)) {
+    throw new LnurlError(`${parsed.host} is not a public host`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Check every address a service's hostname resolves to, in production
+ * A public name can still point at a private address. fetch looks the name up
+ * again, so a service that changes its DNS answers in between isn't caught.
+ */
+async function checkResolvedHost({ hostname, host }: URL): Promise<void> {
+  if (!isProduction() || hostname.endsWith('.onion')) return;
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+  } catch {
+    throw new LnurlError(`Could not reach ${host}`);
+  }
+  if (addresses.some(({ address }) => isPrivateHost(address))) {
+    throw new LnurlError(`${host} is not a public host`);
+  }
+}
+
+/**
+ * Fetch JSON from an LNURL service, turning { status: 'ERROR' } replies into errors
+ * Redirects are refused, since they could lead past the URL checks.
+ */
+async function fetchLnurlJson<T>(url: string): Promise<T> {
+  const parsed = checkServiceUrl(url);
+  await checkResolvedHost(parsed);
+  const { host } = parsed;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { Accept: 'application/json' },
+      cache: 'no-store',
+      redirect: 'error',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new LnurlError(error instanceof Error && error.name === 'TimeoutError'
+      ? `${host} did not respond in time`
+      : `Could not reach ${host}`);
+  }
+
+  const body = await response.json().catch(() => null);
+
+  if (body?.status === 'ERROR') {
+    throw new LnurlError(body.reason || 'The LNURL service returned an error');
+  }
+  if (!response.ok || !body) {
+    throw new LnurlError(`The LNURL service responded with status ${response.status}`);
+  }
+
+  return body as T;
+}
+
+/**
+ * First step of the handshake: fetch and validate the pay parameters
+ */
+export async function fetchPayParams(target: LnurlTarget): Promise<LnurlPayParams> {
+  const body = await fetchLnurlJson<Record<string, unknown>>(target.url);
+
+  if (body.tag !== 'payRequest') {
+    throw new LnurlError('This LNURL is not a pay request');
+  }
+
+  const params: LnurlPayParams = {
+    callback: String(body.callback || ''),
+    minSendable: Number(body.minSendable),
+    maxSendable: Number(body.maxSendable),
+    metadata: String(body.metadata || ''),
+    commentAllowed: Number(body.commentAllowed) || 0,
+  };
+
+  if (!params.callback || !params.metadata) {
+    throw new LnurlError('The LNURL service sent an incomplete pay request');
+  }
+  checkServiceUrl(params.callback);
+  if (!(params.minSendable > 0) || !(params.maxSendable >= params.minSendable)) {
+    throw new LnurlError('The LNURL service sent an invalid amount range');
+  }
+
+  return params;
+}
+
+// Whether a success action URL is a web page on the callback's host, and so safe to link to
+function isCallbackSiteUrl(url: string, callback: URL): boolean {
+  try {
+    const parsed = new URL(url);
+    return (parsed.protocol === 'https:' || parsed.protocol === 'http:') && parsed.host === callback.host;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Second step of the handshake: request an invoice from the callback
+ * The invoice must commit to the metadata (description hash) and to the
+ * requested amount, otherwise the service could get us to pay for something else.
+ */
+export async function fetchPayInvoice(
+  params: LnurlPayParams,
+  amountMsat: number,
+  comment?: string
+): Promise<{ pr: string; successAction?: LnurlSuccessAction }> {
+  if (amountMsat < params.minSendable || amountMsat > params.maxSendable) {
+    throw new LnurlError(
+      `Amount must be between ${Math.ceil(params.minSendable / 1000)} and ${Math.floor(params.maxSendable / 1000)} sats`
+    );
+  }
+  if (comment && comment.length > params.commentAllowed) {
+    throw new LnurlError(params.commentAllowed > 0
+      ? `Comments are limited to ${params.commentAllowed} characters`
+      : 'This service does not accept comments');
+  }
+
+  const callback = new URL(params.callback);
+  callback.searchParams.set('amount', String(amountMsat));
+  if (comment) {
+    callback.searchParams.set('comment', comment);
+  }
+
+  const body = await fetchLnurlJson<{ pr?: string; successAction?: LnurlSuccessAction }>(callback.toString());
+
+  if (!body.pr) {
+    throw new LnurlError('The LNURL service did not return an invoice');
+  }
+
+  let decoded;
+  try {
+    decoded = decodeBolt11(body.pr);
+  } catch (error) {
+    throw new LnurlError(`The LNURL service returned an invalid invoice: ${error instanceof Bolt11Error ? error.message : 'unknown error'}`);
+  }
+
+  if (decoded.description_hash !== bytesToHex(sha256(utf8ToBytes(params.metadata)))) {
+    throw new LnurlError('The invoice does not match the pay request (description hash mismatch)');
+  }
+  if (Number(decoded.num_msat) !== amountMsat) {
+    throw new LnurlError('The invoice amount does not match the requested amount');
+  }
+
+  // URL success actions must point at the same domain as the callback (LUD-09)
+  const successAction = body.successAction?.tag === 'url' && body.successAction.url
+    && !isCallbackSiteUrl(body.successAction.url, callback)
+    ? undefined
+    : body.successAction;
+
+  return { pr: body.pr, successAction };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { readNdjson } from './ndjson';
+
+// A body that delivers each chunk in its own read
+function bodyOf(...chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(body: ReadableStream<Uint8Array>) {
+  const messages: unknown[] = [];
+  for await (const message of readNdjson(body)) {
+    messages.push(message);
+  }
+  return messages;
+}
+
+describe('readNdjson', () => {
+  it('joins lines split across chunks', async () => {
+    expect(await readAll(bodyOf('{"result":{"sta', 'tus":"IN_FLIGHT"}}\n{"res', 'ult":{"status":"SUCCEEDED"}}\n'))).toEqual([
+      { result: { status: 'IN_FLIGHT' } },
+      { result: { status: 'SUCCEEDED' } },
+    ]);
+  });
+
+  it('reads several lines from one chunk and skips blank ones', async () => {
+    expect(await readAll(bodyOf('{"a":1}\n\n  \n{"b":2}\n'))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('reads a final line without a trailing newline', async () => {
+    expect(await readAll(bodyOf('{"a":1}\n{"b":', '2}'))).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it('decodes characters split between chunks', async () => {
+    const bytes = new TextEncoder().encode('{"memo":"⚡ zap"}\n');
+    const split = bytes.indexOf(0xe2) + 1;
+    expect(await readAll(bodyOf(bytes.slice(0, split), bytes.slice(split)))).toEqual([{ memo: '⚡ zap' }]);
+  });
+
+  it('throws on a line that is not JSON', async () => {
+    await expect(readAll(bodyOf('{"a":1}\nnot json\n'))).rejects.toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Incremental reader for newline-delimited JSON streams
+ * Used both for LND's streaming REST endpoints on the server and for our own
+ * streaming API routes in the browser.
+ */
+
+export async function* readNdjson<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      // The last element is an incomplete line (or empty) - keep it for the next chunk
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.trim() === '') continue;
+        yield JSON.parse(line) as T;
+      }
+    }
+
+    // Flush a final line that wasn't newline-terminated
+    buffer += decoder.decode();
+    if (buffer.trim() !== '') {
+      yield JSON.parse(buffer) as T;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
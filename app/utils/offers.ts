@@ -0,0 +1,38 @@
+/**
+ * BOLT12 offer types shared by the API routes and the UI
+ * Offers are handled by the Core Lightning node configured with CLN_REST_URL.
+ */
+
+export interface CreateOfferParams {
+  description: string;
+  // Omit to let the payer choose the amount
+  amount_msat?: string;
+  issuer?: string;
+  // Single-use offers can only be paid once; reusable offers any number of times
+  single_use?: boolean;
+}
+
+export interface CreatedOffer {
+  offer_id: string;
+  bolt12: string;
+  single_use: boolean;
+  active: boolean;
+  used: boolean;
+}
+
+export interface FetchOfferInvoiceParams {
+  offer: string;
+  // Required when the offer doesn't specify an amount
+  amount_msat?: string;
+  // Shown to the issuer alongside the payment
+  payer_note?: string;
+}
+
+// A BOLT12 invoice requested from an offer, ready to pay through /api/payments
+export interface OfferInvoice {
+  invoice: string;
+  amount_msat: string;
+  payment_hash: string;
+  // Fields the issuer changed compared to the offer, e.g. an appended description
+  changes: Record<string, unknown>;
+}
@@ -0,0 +1,196 @@
+/**
+ * Server-side spending limits for outgoing payments
+ * Limits are configured through environment variables and checked by the
+ * payments API route before anything is handed to the node.
+ */
+
+import { startOfDay } from 'date-fns';
+import type { Transaction } from 'flndr';
+import { isClnConfigured, requestCln } from './cln';
+import { getBackend } from './lightningBackend';
+
+export interface PaymentPolicy {
+  // Largest single payment allowed, or null for no limit
+  maxAmountSat: number | null;
+  // Absolute cap on routing fees for a single payment
+  maxFeeSat: number;
+  // Routing fee cap as a percentage of the payment amount
+  maxFeePercent: number;
+  // Total that may be sent per calendar day (server time), or null for no limit
+  dailyBudgetSat: number | null;
+  // Payments above this amount must be explicitly confirmed
+  confirmAboveSat: number;
+  // How long the node may keep trying routes
+  timeoutSeconds: number;
+}
+
+export type PaymentPolicyErrorCode =
+  | 'AMOUNT_REQUIRED'
+  | 'MAX_AMOUNT_EXCEEDED'
+  | 'DAILY_BUDGET_EXCEEDED'
+  | 'CONFIRMATION_REQUIRED';
+
+export class PaymentPolicyError extends Error {
+  constructor(
+    public code: PaymentPolicyErrorCode,
+    message: string,
+    public status = 403
+  ) {
+    super(message);
+    this.name = 'PaymentPolicyError';
+  }
+}
+
+// Read a numeric env var, falling back when unset or invalid
+function numberFromEnv(name: string, fallback: number | null): number | null {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+export function getPaymentPolicy(): PaymentPolicy {
+  return {
+    maxAmountSat: numberFromEnv('PAYMENT_MAX_AMOUNT_SAT', 100000),
+    maxFeeSat: numberFromEnv('PAYMENT_MAX_FEE_SAT', 100) as number,
+    maxFeePercent: numberFromEnv('PAYMENT_MAX_FEE_PERCENT', 1) as number,
+    dailyBudgetSat: numberFromEnv('PAYMENT_DAILY_BUDGET_SAT', 500000),
+    confirmAboveSat: numberFromEnv('PAYMENT_CONFIRM_ABOVE_SAT', 10000) as number,
+    timeoutSeconds: numberFromEnv('PAYMENT_TIMEOUT_SECONDS', 60) as number,
+  };
+}
+
+/**
+ * Maximum routing fee for a payment: the lower of the absolute and percentage caps
+ * The percentage is rounded up so small payments can still pay a 1 sat fee.
+ */
+export function feeLimitFor(amountSat: number, policy: PaymentPolicy): number {
+  return Math.min(policy.maxFeeSat, Math.ceil((amountSat * policy.maxFeePercent) / 100));
+}
+
+/**
+ * Total sent today (amount plus fees), including payments still in flight
+ * Pages through the node's history so the budget survives server restarts.
+ * Offer payments made through Core Lightning are included when it's configured
+ * alongside another backend; when it is the backend they are already counted.
+ */
+export async function getSpentTodaySat(): Promise<number> {
+  const backend = getBackend();
+  const start = Math.floor(startOfDay(new Date()).getTime() / 1000).toString();
+  let total = 0;
+  let cursor: { offset: number; limit: number; payment_cursor?: string | null } | undefined;
+
+  do {
+    const page = await backend.listTransactions({
+      offset: cursor?.offset ?? 0,
+      limit: 100,
+      payment_cursor: cursor?.payment_cursor ?? undefined,
+      types: ['sent'],
+      statuses: ['succeeded', 'in_flight'],
+      creation_date_start: start,
+    });
+
+    page.transactions.forEach((tx: Transaction) => {
+      total += tx.amount + tx.fee;
+    });
+
+    cursor = page.has_more ? page.next_cursor : undefined;
+  } while (cursor);
+
+  if (isClnConfigured() && backend.kind !== 'cln') {
+    total += await getOfferSpentSinceSat(Number(start));
+  }
+
+  return total;
+}
+
+// BOLT12 offers are paid from the Core Lightning node, which shares the same budget
+async function getOfferSpentSinceSat(start: number): Promise<number> {
+  const { pays } = await requestCln<{
+    pays: { status: 'pending' | 'failed' | 'complete'; created_at: number; amount_sent_msat?: number }[];
+  }>('listpays');
+
+  return pays
+    .filter(pay => pay.status !== 'failed' && pay.created_at >= start)
+    .reduce((total, pay) => total + Math.ceil((pay.amount_sent_msat ?? 0) / 1000), 0);
+}
+
+// Amount plus fee limit of payments that passed the budget check and haven't finished
+let reservedSat = 0;
+let budgetChecks: Promise<unknown> = Promise.resolve();
+
+// Run budget checks one at a time, so each one sees the reservations made before it
+function serializeBudgetCheck<T>(check: () => Promise<T>): Promise<T> {
+  const result = budgetChecks.then(check);
+  budgetChecks = result.catch(() => {});
+  return result;
+}
+
+// Hold part of the daily budget until the returned release function is called
+function reserveBudget(sat: number): () => void {
+  let released = false;
+  reservedSat += sat;
+  return () => {
+    if (released) return;
+    released = true;
+    reservedSat -= sat;
+  };
+}
+
+/**
+ * Check a payment against the policy and return the fee limit to use
+ * Throws a PaymentPolicyError describing the first limit that is violated.
+ *
+ * The amount and fee limit are reserved against the daily budget until
+ * release() is called, which the caller must do once the payment has reached
+ * a final state. This keeps concurrent payments from all passing a check
+ * against the same remaining budget before the node reports any of them.
+ */
+export async function enforcePaymentPolicy(
+  amountSat: number,
+  confirmed: boolean,
+  policy: PaymentPolicy = getPaymentPolicy()
+): Promise<{ feeLimitSat: number; release: () => void }> {
+  if (!amountSat || amountSat <= 0) {
+    throw new PaymentPolicyError('AMOUNT_REQUIRED', 'This invoice does not specify an amount. Please enter one.', 400);
+  }
+
+  if (policy.maxAmountSat !== null && amountSat > policy.maxAmountSat) {
+    throw new PaymentPolicyError(
+      'MAX_AMOUNT_EXCEEDED',
+      `Payment of ${amountSat.toLocaleString()} sats exceeds the per-payment limit of ${policy.maxAmountSat.toLocaleString()} sats`
+    );
+  }
+
+  const feeLimitSat = feeLimitFor(amountSat, policy);
+
+  const checkConfirmed = () => {
+    if (amountSat > policy.confirmAboveSat && !confirmed) {
+      throw new PaymentPolicyError(
+        'CONFIRMATION_REQUIRED',
+        `Payments above ${policy.confirmAboveSat.toLocaleString()} sats must be confirmed before sending`,
+        409
+      );
+    }
+  };
+
+  const dailyBudgetSat = policy.dailyBudgetSat;
+  if (dailyBudgetSat === null) {
+    checkConfirmed();
+    return { feeLimitSat, release: () => {} };
+  }
+
+  return serializeBudgetCheck(async () => {
+    const spentToday = (await getSpentTodaySat()) + reservedSat;
+    const remaining = Math.max(dailyBudgetSat - spentToday, 0);
+    if (amountSat + feeLimitSat > remaining) {
+      throw new PaymentPolicyError(
+        'DAILY_BUDGET_EXCEEDED',
+        `Payment of ${amountSat.toLocaleString()} sats (plus up to ${feeLimitSat.toLocaleString()} sats in fees) exceeds the remaining daily budget of ${remaining.toLocaleString()} sats`
+      );
+    }
+
+    checkConfirmed();
+    return { feeLimitSat, release: reserveBudget(amountSat + feeLimitSat) };
+  });
+}
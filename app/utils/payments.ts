@@ -0,0 +1,80 @@
+/**
+ * Types for payments as returned by LND's router
+ * Shared by the send view and the transaction detail view.
+ */
+
+import type { InvoiceUpdate } from './invoiceSubscription';
+
+export interface RouteHop {
+  chan_id: string;
+  chan_capacity: string;
+  amt_to_forward: string;
+  fee: string;
+  expiry: number;
+  amt_to_forward_msat: string;
+  fee_msat: string;
+  pub_key: string;
+  tlv_payload: boolean;
+  mpp_record: Record<string, unknown>;
+  custom_records: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+export interface Route {
+  total_time_lock: number;
+  total_fees: string;
+  total_amt: string;
+  hops: RouteHop[];
+  total_fees_msat: string;
+  total_amt_msat: string;
+}
+
+// Failure details LND attaches to a failed HTLC attempt
+export interface HTLCFailure {
+  code: string;
+  failure_source_index?: number;
+  height?: number;
+  [key: string]: unknown;
+}
+
+export interface HTLC {
+  status: 'IN_FLIGHT' | 'SUCCEEDED' | 'FAILED';
+  route: Route;
+  attempt_id: string;
+  attempt_time_ns: string;
+  resolve_time_ns: string;
+  failure: HTLCFailure | null;
+  preimage: string;
+}
+
+export interface PaymentData {
+  payment_hash: string;
+  payment_preimage: string;
+  value_msat: string;
+  status: string;
+  fee_msat: string;
+  creation_time_ns: string;
+  payment_request?: string;
+  htlcs: HTLC[];
+  value_sat: string;
+  fee_sat: string;
+  creation_date?: string;
+  payment_index?: string;
+  failure_reason?: string;
+}
+
+/**
+ * Turn an HTLC failure into a readable message,
+ * e.g. TEMPORARY_CHANNEL_FAILURE at hop 2 -> "temporary channel failure (hop 2)"
+ */
+export function formatHtlcFailure(failure: HTLCFailure): string {
+  const reason = failure.code.toLowerCase().replace(/_/g, ' ');
+  return failure.failure_source_index
+    ? `${reason} (hop ${failure.failure_source_index})`
+    : reason;
+}
+
+// Everything the node knows about one transaction, as returned by GET /api/transactions/:hash
+export type TransactionDetail =
+  | { type: 'sent'; payment: PaymentData }
+  | { type: 'received'; invoice: InvoiceUpdate };
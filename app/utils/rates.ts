@@ -0,0 +1,112 @@
+/**
+ * Pluggable BTC exchange-rate providers
+ * The provider is picked with RATE_PROVIDER and queried on the server only,
+ * so the browser never depends on a third-party API directly. Without one,
+ * amounts are shown in sats only.
+ */
+
+import { FiatCurrency, FiatRates, SUPPORTED_CURRENCIES } from './amounts';
+
+export interface RateProvider {
+  name: string;
+  // Whether rates are market prices; only those are recorded with transactions
+  live: boolean;
+  // Fiat per BTC for each requested currency the provider knows
+  fetchRates(currencies: readonly FiatCurrency[]): Promise<Partial<Record<FiatCurrency, number>>>;
+}
+
+// Rough rates used by the static provider when STATIC_BTC_RATES is not set
+const DEFAULT_STATIC_RATES: Record<FiatCurrency, number> = {
+  USD: 60000,
+  EUR: 55000,
+  GBP: 47000,
+  CAD: 82000,
+  CHF: 53000,
+  AUD: 91000,
+  JPY: 9000000,
+};
+
+/**
+ * Fixed rates for offline use, development and demos
+ * Rates can be overridden as a comma-separated list, e.g. "USD=65000,EUR=60000".
+ */
+export function createStaticProvider(overrides = process.env.STATIC_BTC_RATES || ''): RateProvider {
+  const rates: Partial<Record<FiatCurrency, number>> = { ...DEFAULT_STATIC_RATES };
+
+  overrides.split(',').forEach(entry => {
+    const [currency, value] = entry.split('=').map(part => part.trim());
+    if (SUPPORTED_CURRENCIES.includes(currency?.toUpperCase() as FiatCurrency) && Number(value) > 0) {
+      rates[currency.toUpperCase() as FiatCurrency] = Number(value);
+    }
+  });
+
+  return {
+    name: 'static',
+    live: false,
+    async fetchRates(currencies) {
+      return Object.fromEntries(currencies.map(currency => [currency, rates[currency]]));
+    },
+  };
+}
+
+// Live rates from CoinGecko's public price API
+export const coingeckoProvider: RateProvider = {
+  name: 'coingecko',
+  live: true,
+  async fetchRates(currencies) {
+    const response = await fetch(
+      `https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=${currencies.join(',').toLowerCase()}`,
+      { headers: { Accept: 'application/json' }, cache: 'no-store' }
+    );
+    if (!response.ok) {
+      throw new Error(`CoinGecko responded with status ${response.status}`);
+    }
+
+    const body: { bitcoin?: Record<string, number> } = await response.json();
+    return Object.fromEntries(currencies.map(currency => [currency, body.bitcoin?.[currency.toLowerCase()]]));
+  },
+};
+
+// Provider selected by RATE_PROVIDER ('coingecko' or 'static'), or null when none is configured
+export function getRateProvider(): RateProvider | null {
+  switch (process.env.RATE_PROVIDER?.trim().toLowerCase()) {
+    case 'coingecko':
+      return coingeckoProvider;
+    case 'static':
+      return createStaticProvider();
+    default:
+      return null;
+  }
+}
+
+// Rates are cached briefly so every open wallet doesn't hit the provider
+const CACHE_TTL_MS = 60000;
+let cached: FiatRates | null = null;
+
+/**
+ * Current rates for all supported currencies
+ * If the provider fails, the last known rates are returned when available.
+ * Without a provider there are no rates, and provider is null.
+ */
+export async function getBtcRates(): Promise<FiatRates> {
+  const provider = getRateProvider();
+  if (!provider) {
+    return { provider: null, rates: {}, updatedAt: Date.now() };
+  }
+
+  if (cached && Date.now() - cached.updatedAt < CACHE_TTL_MS) {
+    return cached;
+  }
+
+  try {
+    const rates = await provider.fetchRates(SUPPORTED_CURRENCIES);
+    cached = { provider: provider.name, rates, updatedAt: Date.now() };
+    return cached;
+  } catch (error) {
+    if (cached) {
+      console.error('Failed to refresh exchange rates, using cached rates:', error);
+      return cached;
+    }
+    throw error;
+  }
+}
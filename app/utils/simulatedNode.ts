@@ -0,0 +1,836 @@
+/**
+ * In-memory regtest-style Lightning node for development and testing
+ * Selected with LIGHTNING_BACKEND=simulated, it lets the whole wallet run
+ * offline. Invoices are real regtest BOLT11 invoices signed with a key
+ * generated at startup, so they decode and verify like any other. Paying one
+ * of the node's own invoices settles it; any other payment is routed over a
+ * pair of fixed channels, whose balances move accordingly.
+ *
+ * Payments stream IN_FLIGHT updates for each HTLC attempt before they
+ * succeed or fail, with a short delay between steps. Their outcome can be
+ * scripted, see PaymentScript. Nothing is persisted: restarting the server,
+ * or DELETE /api/simulator, starts from a fresh node. Server only.
+ *
+ * Configured with:
+ * - SIMULATED_HISTORY_SIZE: past transactions to seed the history with (default 30)
+ * - SIMULATED_ATTEMPT_DELAY_MS: delay between payment updates (default 500)
+ * - SIMULATED_PAYMENT_SCRIPTS: JSON array of PaymentScript applied at startup
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { Transaction } from 'flndr';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { bytesToHex } from '@noble/hashes/utils';
+import { decodeBolt11, encodeBolt11, invoiceExpiresAt } from './bolt11';
+import type { InvoiceHtlc, InvoiceUpdate } from './invoiceSubscription';
+import { invoiceKeysendMessage, KEYSEND_MESSAGE_RECORD, KEYSEND_PREIMAGE_RECORD } from './keysend';
+import type {
+  CreateInvoiceParams,
+  CreatedInvoice,
+  LightningBackend,
+  NodeInfo,
+  PaymentTarget,
+  SendPaymentOptions,
+} from './lightningBackend';
+import { ChannelLiquidity, liquidityOverview, LiquidityOverview } from './liquidity';
+import type { HTLC, PaymentData, Route } from './payments';
+import { HistoryQuery, invoiceToTransaction, pageTransactions, paymentToTransaction } from './transactions';
+
+// Final failure reasons as reported by LND's router
+export const SIMULATED_FAILURE_REASONS = [
+  'FAILURE_REASON_TIMEOUT',
+  'FAILURE_REASON_NO_ROUTE',
+  'FAILURE_REASON_ERROR',
+  'FAILURE_REASON_INCORRECT_PAYMENT_DETAILS',
+  'FAILURE_REASON_INSUFFICIENT_BALANCE',
+] as const;
+
+export type SimulatedFailureReason = typeof SIMULATED_FAILURE_REASONS[number];
+
+/**
+ * How a payment made by the simulated node should play out
+ * A script without amount_sat applies to the next payment only; one with
+ * amount_sat applies to every payment of exactly that many sats.
+ */
+export interface PaymentScript {
+  amount_sat?: number;
+  // Attempts that fail with a temporary channel failure before the final one
+  failed_attempts?: number;
+  // Fail the payment for this reason instead of letting it succeed
+  failure_reason?: SimulatedFailureReason;
+  // Leave the final attempt in flight; the payment never resolves
+  in_flight?: boolean;
+}
+
+// A payment into one of the node's invoices, or a keysend payment when there is no payment_request
+export interface SimulatedReceipt {
+  payment_request?: string;
+  amt_msat?: string;
+  message?: string;
+}
+
+export class SimulatedNodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SimulatedNodeError';
+  }
+}
+
+const BLOCK_HEIGHT = 800000;
+const CHANNEL_CAPACITY_SAT = 1000000;
+const CHANNEL_RESERVE_SAT = 10000;
+const DEFAULT_INVOICE_EXPIRY = 3600;
+// Fees charged by the channel peers for forwarding
+const PEER_BASE_FEE_MSAT = 1000;
+const PEER_FEE_PPM = 100;
+const HISTORY_MEMOS = ['Coffee', 'Lunch', 'Podcast boost', 'Book', 'Zap', 'Donation', 'Refund', 'Tip'];
+
+const sha256Hex = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+const nowSeconds = () => Math.floor(Date.now() / 1000);
+const nowNs = () => String(Date.now() * 1e6);
+const newKey = () => secp256k1.utils.randomPrivateKey();
+const pubkeyOf = (privateKey: Uint8Array) => bytesToHex(secp256k1.getPublicKey(privateKey, true));
+const routingFeeMsat = (amountMsat: number) => PEER_BASE_FEE_MSAT + Math.ceil((amountMsat * PEER_FEE_PPM) / 1e6);
+
+// Read a non-negative numeric env var, falling back when unset or invalid
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Check a list of payment scripts, e.g. from a request body
+ * Throws a SimulatedNodeError naming the first invalid field.
+ */
+export function parsePaymentScripts(value: unknown): PaymentScript[] {
+  if (!Array.isArray(value)) {
+    throw new SimulatedNodeError('scripts must be an array');
+  }
+
+  return value.map((script, index) => {
+    if (!script || typeof script !== 'object') {
+      throw new SimulatedNodeError(`scripts[${index}] must be an object`);
+    }
+    const { amount_sat, failed_attempts, failure_reason, in_flight } = script as Record<string, unknown>;
+
+    if (amount_sat !== undefined && !(Number.isInteger(amount_sat) && Number(amount_sat) > 0)) {
+      throw new SimulatedNodeError(`scripts[${index}].amount_sat must be a positive whole number`);
+    }
+    if (failed_attempts !== undefined && !(Number.isInteger(failed_attempts) && Number(failed_attempts) >= 0)) {
+      throw new SimulatedNodeError(`scripts[${index}].failed_attempts must be a whole number`);
+    }
+    if (failure_reason !== undefined && !SIMULATED_FAILURE_REASONS.includes(failure_reason as SimulatedFailureReason)) {
+      throw new SimulatedNodeError(
+        `scripts[${index}].failure_reason must be one of ${SIMULATED_FAILURE_REASONS.join(', ')}`
+      );
+    }
+
+    return {
+      amount_sat: amount_sat as number | undefined,
+      failed_attempts: failed_attempts as number | undefined,
+      failure_reason: failure_reason as SimulatedFailureReason | undefined,
+      in_flight: in_flight === true,
+    };
+  });
+}
+
+function scriptsFromEnv(): PaymentScript[] {
+  const value = process.env.SIMULATED_PAYMENT_SCRIPTS;
+  if (!value) return [];
+  try {
+    return parsePaymentScripts(JSON.parse(value));
+  } catch (error) {
+    console.error('Ignoring invalid SIMULATED_PAYMENT_SCRIPTS:', error);
+    return [];
+  }
+}
+
+/**
+ * Updates handed from a producer to one async iterator
+ * Iteration ends once the queue is closed and drained, or the signal aborts.
+ */
+class UpdateQueue<T> {
+  private items: T[] = [];
+  private closed = false;
+  private wake: (() => void) | null = null;
+
+  push(item: T) {
+    this.items.push(item);
+    this.notify();
+  }
+
+  close() {
+    this.closed = true;
+    this.notify();
+  }
+
+  async *drain(signal?: AbortSignal): AsyncGenerator<T> {
+    const onAbort = () => this.notify();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      while (!signal?.aborted) {
+        if (this.items.length > 0) {
+          yield this.items.shift() as T;
+        } else if (this.closed) {
+          return;
+        } else {
+          await new Promise<void>(resolve => { this.wake = resolve; });
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private notify() {
+    const wake = this.wake;
+    this.wake = null;
+    wake?.();
+  }
+}
+
+function simulatedChannel(index: number, localBalance: number): ChannelLiquidity {
+  return {
+    chan_id: String(BigInt(BLOCK_HEIGHT - 1000 + index) << BigInt(40)),
+    channel_point: `${sha256Hex(Buffer.from(`channel-${index}`))}:0`,
+    remote_pubkey: pubkeyOf(newKey()),
+    peer_alias: `simulated-peer-${index + 1}`,
+    active: true,
+    private: false,
+    capacity: CHANNEL_CAPACITY_SAT,
+    local_balance: localBalance,
+    remote_balance: CHANNEL_CAPACITY_SAT - localBalance,
+    local_reserve: CHANNEL_RESERVE_SAT,
+    remote_reserve: CHANNEL_RESERVE_SAT,
+  };
+}
+
+// A payment being made, and what the node knows before the first attempt
+interface PaymentPlan {
+  payment: PaymentData;
+  // Revealed only once the payment succeeds
+  preimage: string;
+  destination: string;
+  ownInvoice: InvoiceUpdate | null;
+  // Custom records for the final hop, set for keysend
+  customRecords: Record<string, string>;
+  script: PaymentScript;
+}
+
+export class SimulatedNode implements LightningBackend {
+  readonly kind = 'simulated' as const;
+  readonly pubkey: string;
+
+  private readonly privateKey = newKey();
+  private readonly listeners = new Set<(invoice: InvoiceUpdate) => void>();
+  private invoices = new Map<string, InvoiceUpdate>();
+  private payments = new Map<string, PaymentData>();
+  private channels: ChannelLiquidity[] = [];
+  private scripts: PaymentScript[] = [];
+  private invoiceIndex = 0;
+  private paymentIndex = 0;
+  private attemptIndex = 0;
+
+  constructor(
+    private readonly attemptDelayMs = numberFromEnv('SIMULATED_ATTEMPT_DELAY_MS', 500),
+    private readonly historySize = numberFromEnv('SIMULATED_HISTORY_SIZE', 30)
+  ) {
+    this.pubkey = pubkeyOf(this.privateKey);
+    this.reset(scriptsFromEnv());
+  }
+
+  // Start over with fresh channels and seeded history; invoice subscribers stay attached
+  reset(scripts: PaymentScript[] = []) {
+    this.invoices = new Map();
+    this.payments = new Map();
+    this.channels = [simulatedChannel(0, 600000), simulatedChannel(1, 200000)];
+    this.scripts = [...scripts];
+    this.invoiceIndex = 0;
+    this.paymentIndex = 0;
+    this.seedHistory(this.historySize);
+  }
+
+  getScripts(): PaymentScript[] {
+    return this.scripts.map(script => ({ ...script }));
+  }
+
+  setScripts(scripts: PaymentScript[]) {
+    this.scripts = [...scripts];
+  }
+
+  async getInfo(): Promise<NodeInfo> {
+    return {
+      identity_pubkey: this.pubkey,
+      alias: 'simulated',
+      block_height: BLOCK_HEIGHT,
+      chains: [{ chain: 'bitcoin', network: 'regtest' }],
+    };
+  }
+
+  async getBalances(): Promise<LiquidityOverview> {
+    const channels = this.channels.map(channel => ({ ...channel }));
+    return liquidityOverview(
+      { confirmed: 250000, unconfirmed: 0 },
+      {
+        local: channels.reduce((sum, channel) => sum + channel.local_balance, 0),
+        remote: channels.reduce((sum, channel) => sum + channel.remote_balance, 0),
+        pending_open_local: 0,
+        pending_open_remote: 0,
+      },
+      channels
+    );
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<CreatedInvoice> {
+    const invoice = this.issueInvoice(params, nowSeconds());
+    this.emit(invoice);
+    return { r_hash: invoice.r_hash, payment_request: invoice.payment_request, add_index: String(this.invoiceIndex) };
+  }
+
+  async lookupInvoice(paymentHash: string): Promise<InvoiceUpdate | null> {
+    const invoice = this.invoices.get(paymentHash);
+    return invoice ? this.expire(invoice) : null;
+  }
+
+  async listInvoices(): Promise<InvoiceUpdate[]> {
+    const invoices = [...this.invoices.values()].map(invoice => this.expire(invoice));
+    return invoices.filter((invoice, index) => invoice.state === 'OPEN' || invoice.state === 'ACCEPTED'
+      || index >= invoices.length - 100);
+  }
+
+  async cancelInvoice(paymentHash: string): Promise<void> {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice) {
+      throw new SimulatedNodeError('unable to locate invoice');
+    }
+    if (invoice.state === 'SETTLED') {
+      throw new SimulatedNodeError('invoice already settled');
+    }
+    this.update(invoice, { state: 'CANCELED' });
+  }
+
+  async *subscribeInvoices(signal: AbortSignal): AsyncGenerator<InvoiceUpdate> {
+    const queue = new UpdateQueue<InvoiceUpdate>();
+    const listener = (invoice: InvoiceUpdate) => queue.push(invoice);
+
+    this.listeners.add(listener);
+    try {
+      yield* queue.drain(signal);
+    } finally {
+      this.listeners.delete(listener);
+    }
+  }
+
+  async decodePaymentRequest(paymentRequest: string) {
+    return decodeBolt11(paymentRequest);
+  }
+
+  // The payment carries on when the caller stops listening, as on a real node
+  async *sendPayment(target: PaymentTarget, options: SendPaymentOptions): AsyncGenerator<PaymentData> {
+    const plan = this.planPayment(target);
+    const updates = new UpdateQueue<PaymentData>();
+
+    void this.runPayment(plan, options.fee_limit_sat, update => updates.push(update))
+      .catch(error => console.error('Simulated payment failed:', error))
+      .finally(() => updates.close());
+
+    for await (const update of updates.drain(options.signal)) {
+      if (!options.final_only || update.status !== 'IN_FLIGHT') {
+        yield update;
+      }
+    }
+  }
+
+  async lookupPayment(paymentHash: string): Promise<PaymentData | null> {
+    const payment = this.payments.get(paymentHash);
+    return payment ? structuredClone(payment) : null;
+  }
+
+  /**
+   * Page through the history, newest first
+   * The cursors are the indexes of the oldest payment and invoice returned so
+   * far, so rows added in the meantime don't shift later pages.
+   */
+  async listTransactions(query: HistoryQuery) {
+    const paymentCursor = query.payment_cursor ? Number(query.payment_cursor) : Infinity;
+    const invoiceCursor = query.invoice_cursor ? Number(query.invoice_cursor) : Infinity;
+    const cursored = query.payment_cursor !== undefined || query.invoice_cursor !== undefined;
+    const paymentIndexes = new Map<Transaction, number>();
+    const invoiceIndexes = new Map<Transaction, number>();
+
+    this.invoices.forEach(invoice => {
+      if (Number(invoice.add_index) < invoiceCursor) {
+        invoiceIndexes.set(this.invoiceRow(this.expire(invoice)), Number(invoice.add_index));
+      }
+    });
+    this.payments.forEach(payment => {
+      if (Number(payment.payment_index) < paymentCursor) {
+        paymentIndexes.set(paymentToTransaction(payment), Number(payment.payment_index));
+      }
+    });
+
+    // Past the cursors, the offset is already accounted for
+    const rows = [...invoiceIndexes.keys(), ...paymentIndexes.keys()];
+    const page = pageTransactions(rows, cursored ? { ...query, offset: 0 } : query);
+    const oldest = (indexes: Map<Transaction, number>) => {
+      const returned = page.transactions.flatMap(tx => indexes.has(tx) ? [indexes.get(tx) as number] : []);
+      return returned.length > 0 ? String(Math.min(...returned)) : undefined;
+    };
+
+    return {
+      ...page,
+      offset: query.offset,
+      total_count: cursored ? query.offset + page.total_count : page.total_count,
+      next_cursor: page.has_more
+        ? {
+          offset: query.offset + page.transactions.length,
+          limit: query.limit,
+          payment_cursor: oldest(paymentIndexes) ?? query.payment_cursor,
+          invoice_cursor: oldest(invoiceIndexes) ?? query.invoice_cursor,
+        }
+        : undefined,
+    };
+  }
+
+  /**
+   * Pay one of the node's invoices from outside, or send it a keysend
+   * payment. The funds arrive over the channel with the most inbound liquidity.
+   */
+  receivePayment(receipt: SimulatedReceipt): InvoiceUpdate {
+    let invoice: InvoiceUpdate;
+    let amountMsat: string;
+    const customRecords: Record<string, string> = {};
+
+    if (receipt.payment_request) {
+      const decoded = decodeBolt11(receipt.payment_request);
+      const found = this.invoices.get(decoded.payment_hash);
+      if (!found || decoded.destination !== this.pubkey) {
+        throw new SimulatedNodeError('Not an invoice of this node');
+      }
+      if (this.expire(found).state !== 'OPEN') {
+        throw new SimulatedNodeError(`The invoice is ${found.state.toLowerCase()}`);
+      }
+      invoice = found;
+      amountMsat = decoded.num_msat !== '0' ? decoded.num_msat : receipt.amt_msat ?? '0';
+    } else {
+      amountMsat = receipt.amt_msat ?? '0';
+      const preimage = randomBytes(32);
+      customRecords[KEYSEND_PREIMAGE_RECORD] = preimage.toString('base64');
+      if (receipt.message) {
+        customRecords[KEYSEND_MESSAGE_RECORD] = Buffer.from(receipt.message, 'utf8').toString('base64');
+      }
+      invoice = this.issueInvoice({ value_msat: amountMsat, expiry: DEFAULT_INVOICE_EXPIRY }, nowSeconds(), preimage);
+      Object.assign(invoice, { is_keysend: true, payment_request: '' });
+    }
+
+    if (!(Number(amountMsat) > 0)) {
+      throw new SimulatedNodeError('An amount is required');
+    }
+
+    const amountSat = Math.floor(Number(amountMsat) / 1000);
+    const channel = [...this.channels].sort((a, b) => b.remote_balance - a.remote_balance)[0];
+    if (channel.remote_balance - channel.remote_reserve < amountSat) {
+      throw new SimulatedNodeError('Not enough inbound liquidity');
+    }
+    channel.local_balance += amountSat;
+    channel.remote_balance -= amountSat;
+
+    const now = String(nowSeconds());
+    this.settle(invoice, amountMsat, [{
+      chan_id: channel.chan_id,
+      amt_msat: amountMsat,
+      state: 'SETTLED',
+      accept_time: now,
+      resolve_time: now,
+      expiry_height: BLOCK_HEIGHT + 80,
+      custom_records: customRecords,
+    }]);
+    return { ...invoice };
+  }
+
+  /**
+   * Work out how a payment will play out and record it as in flight
+   * Problems a real node finds before trying a route, such as an expired
+   * invoice, take the place of the script.
+   */
+  private planPayment(target: PaymentTarget): PaymentPlan {
+    let paymentHash: string;
+    let preimage: string;
+    let amountMsat: string;
+    let destination: string;
+    let ownInvoice: InvoiceUpdate | null = null;
+    let failure: SimulatedFailureReason | undefined;
+    const customRecords: Record<string, string> = {};
+
+    if ('keysend' in target) {
+      const secret = randomBytes(32);
+      paymentHash = sha256Hex(secret);
+      preimage = secret.toString('hex');
+      amountMsat = target.keysend.amt_msat;
+      destination = target.keysend.dest;
+      customRecords[KEYSEND_PREIMAGE_RECORD] = secret.toString('base64');
+      if (target.keysend.message) {
+        customRecords[KEYSEND_MESSAGE_RECORD] = Buffer.from(target.keysend.message, 'utf8').toString('base64');
+      }
+    } else {
+      const decoded = decodeBolt11(target.payment_request);
+      paymentHash = decoded.payment_hash;
+      amountMsat = decoded.num_msat !== '0' ? decoded.num_msat : target.amt_msat ?? '0';
+      destination = decoded.destination;
+      ownInvoice = destination === this.pubkey ? this.invoices.get(paymentHash) ?? null : null;
+      // The preimage of someone else's invoice is unknown, so make one up
+      preimage = ownInvoice?.r_preimage ?? randomBytes(32).toString('hex');
+
+      if (invoiceExpiresAt(decoded) <= nowSeconds() || (ownInvoice && this.expire(ownInvoice).state !== 'OPEN')) {
+        failure = 'FAILURE_REASON_INCORRECT_PAYMENT_DETAILS';
+      } else if (this.payments.get(paymentHash)?.status === 'SUCCEEDED') {
+        failure = 'FAILURE_REASON_ERROR';
+      }
+    }
+
+    const amountSat = Math.floor(Number(amountMsat) / 1000);
+    const script = this.takeScript(amountSat);
+
+    this.paymentIndex += 1;
+    const payment: PaymentData = {
+      payment_hash: paymentHash,
+      payment_preimage: '',
+      payment_request: 'payment_request' in target ? target.payment_request : undefined,
+      value_msat: amountMsat,
+      value_sat: String(amountSat),
+      fee_msat: '0',
+      fee_sat: '0',
+      status: 'IN_FLIGHT',
+      creation_time_ns: nowNs(),
+      creation_date: String(nowSeconds()),
+      payment_index: String(this.paymentIndex),
+      failure_reason: 'FAILURE_REASON_NONE',
+      htlcs: [],
+    };
+
+    // Keep the record of an earlier successful attempt
+    if (this.payments.get(paymentHash)?.status !== 'SUCCEEDED') {
+      this.payments.set(paymentHash, payment);
+    }
+
+    return {
+      payment,
+      preimage,
+      destination,
+      ownInvoice,
+      customRecords,
+      script: failure ? { failure_reason: failure } : script,
+    };
+  }
+
+  // A standing rule for this amount, or else the next one-off script
+  private takeScript(amountSat: number): PaymentScript {
+    const rule = this.scripts.find(script => script.amount_sat === amountSat);
+    if (rule) return rule;
+
+    const index = this.scripts.findIndex(script => script.amount_sat === undefined);
+    return index === -1 ? {} : this.scripts.splice(index, 1)[0];
+  }
+
+  private async runPayment(plan: PaymentPlan, feeLimitSat: number, emit: (update: PaymentData) => void) {
+    const { payment, script } = plan;
+    const amountMsat = Number(payment.value_msat);
+    const publish = () => emit(structuredClone(payment));
+    const fail = (reason: SimulatedFailureReason) => {
+      Object.assign(payment, { status: 'FAILED', failure_reason: reason });
+      publish();
+    };
+
+    publish();
+    await sleep(this.attemptDelayMs);
+
+    // Failures found before any HTLC is sent
+    if (
+      script.failure_reason === 'FAILURE_REASON_ERROR' ||
+      script.failure_reason === 'FAILURE_REASON_NO_ROUTE' ||
+      script.failure_reason === 'FAILURE_REASON_INSUFFICIENT_BALANCE'
+    ) {
+      fail(script.failure_reason);
+      return;
+    }
+
+    const route = this.findRoute(plan, amountMsat);
+    if (!route) {
+      fail('FAILURE_REASON_INSUFFICIENT_BALANCE');
+      return;
+    }
+    if (Number(route.total_fees_msat) > feeLimitSat * 1000) {
+      fail('FAILURE_REASON_NO_ROUTE');
+      return;
+    }
+
+    const attempt = async (failure: HTLC['failure']) => {
+      const htlc: HTLC = {
+        status: 'IN_FLIGHT',
+        route,
+        attempt_id: String(++this.attemptIndex),
+        attempt_time_ns: nowNs(),
+        resolve_time_ns: '0',
+        failure: null,
+        preimage: '',
+      };
+      payment.htlcs.push(htlc);
+      publish();
+      await sleep(this.attemptDelayMs);
+      if (failure) {
+        Object.assign(htlc, { status: 'FAILED', failure, resolve_time_ns: nowNs() });
+        publish();
+      }
+      return htlc;
+    };
+
+    for (let i = 0; i < (script.failed_attempts ?? 0); i++) {
+      await attempt({ code: 'TEMPORARY_CHANNEL_FAILURE', failure_source_index: 1, height: BLOCK_HEIGHT });
+    }
+
+    if (script.failure_reason === 'FAILURE_REASON_TIMEOUT') {
+      fail(script.failure_reason);
+      return;
+    }
+    if (script.failure_reason === 'FAILURE_REASON_INCORRECT_PAYMENT_DETAILS') {
+      await attempt({
+        code: 'INCORRECT_OR_UNKNOWN_PAYMENT_DETAILS',
+        failure_source_index: route.hops.length,
+        height: BLOCK_HEIGHT,
+      });
+      fail(script.failure_reason);
+      return;
+    }
+
+    const htlc = await attempt(null);
+    if (script.in_flight) return;
+
+    this.moveFunds(plan, route, amountMsat);
+    Object.assign(htlc, { status: 'SUCCEEDED', preimage: plan.preimage, resolve_time_ns: nowNs() });
+    Object.assign(payment, {
+      status: 'SUCCEEDED',
+      payment_preimage: plan.preimage,
+      fee_msat: route.total_fees_msat,
+      fee_sat: route.total_fees,
+    });
+    publish();
+  }
+
+  // Route over the first channel that can carry the amount plus the peer's fee
+  private findRoute(plan: PaymentPlan, amountMsat: number): Route | null {
+    const channel = this.channels.find(candidate => {
+      const feeMsat = candidate.remote_pubkey === plan.destination ? 0 : routingFeeMsat(amountMsat);
+      return (candidate.local_balance - candidate.local_reserve) * 1000 >= amountMsat + feeMsat;
+    });
+    if (!channel) return null;
+
+    const direct = channel.remote_pubkey === plan.destination;
+    const feeMsat = direct ? 0 : routingFeeMsat(amountMsat);
+    const hop = (chanId: string, pubKey: string, forwardMsat: number, hopFeeMsat: number, expiry: number) => ({
+      chan_id: chanId,
+      chan_capacity: String(channel.capacity),
+      amt_to_forward: String(Math.floor(forwardMsat / 1000)),
+      fee: String(Math.floor(hopFeeMsat / 1000)),
+      expiry,
+      amt_to_forward_msat: String(forwardMsat),
+      fee_msat: String(hopFeeMsat),
+      pub_key: pubKey,
+      tlv_payload: true,
+      mpp_record: {},
+      custom_records: {},
+    });
+    // The last channel belongs to the payee; its id is made up
+    const finalHop = {
+      ...hop(
+        direct ? channel.chan_id : String(BigInt(BLOCK_HEIGHT - 500) << BigInt(40)),
+        plan.destination,
+        amountMsat,
+        0,
+        BLOCK_HEIGHT + 80
+      ),
+      custom_records: plan.customRecords,
+    };
+
+    return {
+      total_time_lock: BLOCK_HEIGHT + (direct ? 80 : 120),
+      total_fees: String(Math.floor(feeMsat / 1000)),
+      total_amt: String(Math.floor((amountMsat + feeMsat) / 1000)),
+      total_fees_msat: String(feeMsat),
+      total_amt_msat: String(amountMsat + feeMsat),
+      hops: direct ? [finalHop] : [hop(channel.chan_id, channel.remote_pubkey, amountMsat, feeMsat, BLOCK_HEIGHT + 120), finalHop],
+    };
+  }
+
+  private moveFunds(plan: PaymentPlan, route: Route, amountMsat: number) {
+    const channel = this.channels.find(candidate => candidate.chan_id === route.hops[0].chan_id);
+    // Paying ourselves goes out and straight back in, so only the fee is lost
+    const movedSat = Math.floor(Number(plan.ownInvoice ? route.total_fees_msat : route.total_amt_msat) / 1000);
+
+    if (channel) {
+      channel.local_balance -= movedSat;
+      channel.remote_balance += movedSat;
+    }
+    if (plan.ownInvoice) {
+      this.settle(plan.ownInvoice, String(amountMsat), []);
+    }
+  }
+
+  private issueInvoice(params: CreateInvoiceParams, creationDate: number, preimage = randomBytes(32)): InvoiceUpdate {
+    const paymentHash = sha256Hex(preimage);
+    const expiry = params.expiry || DEFAULT_INVOICE_EXPIRY;
+
+    const paymentRequest = encodeBolt11({
+      network: 'regtest',
+      amount_msat: params.value_msat !== '0' ? params.value_msat : undefined,
+      payment_hash: paymentHash,
+      payment_secret: randomBytes(32).toString('hex'),
+      description: params.memo,
+      description_hash: params.hashed_description !== undefined
+        ? sha256Hex(Buffer.from(params.hashed_description, 'utf8'))
+        : undefined,
+      expiry,
+      timestamp: creationDate,
+    }, this.privateKey);
+
+    this.invoiceIndex += 1;
+    const invoice: InvoiceUpdate = {
+      r_hash: paymentHash,
+      payment_request: paymentRequest,
+      value_msat: params.value_msat,
+      memo: params.hashed_description !== undefined ? '' : params.memo ?? '',
+      state: 'OPEN',
+      settled: false,
+      creation_date: String(creationDate),
+      expiry: String(expiry),
+      r_preimage: preimage.toString('hex'),
+      amt_paid_msat: '0',
+      amt_paid_sat: '0',
+      add_index: String(this.invoiceIndex),
+      htlcs: [],
+    };
+    this.invoices.set(paymentHash, invoice);
+    return invoice;
+  }
+
+  /**
+   * Fill the history with invoices and payments from the past weeks
+   * Everything is at least a day old, so none of it counts towards today's
+   * spending budget.
+   */
+  private seedHistory(count: number) {
+    const payeeKey = newKey();
+    const start = nowSeconds() - 86400 - count * 6 * 3600;
+
+    for (let i = 0; i < count; i++) {
+      const timestamp = start + i * 6 * 3600;
+      const amountMsat = (1000 + ((i * 7919) % 50000)) * 1000;
+      const memo = HISTORY_MEMOS[i % HISTORY_MEMOS.length];
+
+      if (i % 2 === 0) {
+        const invoice = this.issueInvoice(
+          { value_msat: String(amountMsat), memo, expiry: DEFAULT_INVOICE_EXPIRY },
+          timestamp
+        );
+        if (i % 10 === 4) {
+          invoice.state = 'CANCELED';
+        } else {
+          Object.assign(invoice, {
+            state: 'SETTLED',
+            settled: true,
+            settle_date: String(timestamp + 60),
+            amt_paid_msat: String(amountMsat),
+            amt_paid_sat: String(amountMsat / 1000),
+          });
+        }
+        continue;
+      }
+
+      const preimage = randomBytes(32);
+      const paymentHash = sha256Hex(preimage);
+      const succeeded = i % 10 !== 7;
+      const feeMsat = succeeded ? routingFeeMsat(amountMsat) : 0;
+
+      this.paymentIndex += 1;
+      this.payments.set(paymentHash, {
+        payment_hash: paymentHash,
+        payment_preimage: succeeded ? preimage.toString('hex') : '',
+        payment_request: encodeBolt11({
+          network: 'regtest',
+          amount_msat: String(amountMsat),
+          payment_hash: paymentHash,
+          payment_secret: randomBytes(32).toString('hex'),
+          description: memo,
+          timestamp,
+        }, payeeKey),
+        value_msat: String(amountMsat),
+        value_sat: String(amountMsat / 1000),
+        fee_msat: String(feeMsat),
+        fee_sat: String(Math.floor(feeMsat / 1000)),
+        status: succeeded ? 'SUCCEEDED' : 'FAILED',
+        creation_time_ns: String(timestamp * 1e9),
+        creation_date: String(timestamp),
+        payment_index: String(this.paymentIndex),
+        failure_reason: succeeded ? 'FAILURE_REASON_NONE' : 'FAILURE_REASON_NO_ROUTE',
+        htlcs: [],
+      });
+    }
+  }
+
+  private invoiceRow(invoice: InvoiceUpdate): Transaction {
+    const row = invoiceToTransaction({
+      payment_request: invoice.payment_request,
+      payment_hash: invoice.r_hash,
+      value_msat: invoice.settled ? invoice.amt_paid_msat ?? invoice.value_msat : invoice.value_msat,
+      timestamp: invoice.creation_date ?? '0',
+      // Keysend invoices have no memo; show the payment's message instead
+      memo: invoice.memo || (invoice.is_keysend ? invoiceKeysendMessage(invoice) ?? undefined : undefined),
+      settled: Boolean(invoice.settled),
+    });
+    return invoice.state === 'CANCELED' ? { ...row, status: 'canceled' } : row;
+  }
+
+  private settle(invoice: InvoiceUpdate, amountMsat: string, htlcs: InvoiceHtlc[]) {
+    this.update(invoice, {
+      state: 'SETTLED',
+      settled: true,
+      settle_date: String(nowSeconds()),
+      amt_paid_msat: amountMsat,
+      amt_paid_sat: String(Math.floor(Number(amountMsat) / 1000)),
+      htlcs,
+    });
+  }
+
+  // Open invoices past their expiry are canceled, as LND does
+  private expire(invoice: InvoiceUpdate): InvoiceUpdate {
+    if (invoice.state === 'OPEN' && Number(invoice.creation_date) + Number(invoice.expiry) <= nowSeconds()) {
+      this.update(invoice, { state: 'CANCELED' });
+    }
+    return { ...invoice };
+  }
+
+  private update(invoice: InvoiceUpdate, changes: Partial<InvoiceUpdate>) {
+    Object.assign(invoice, changes);
+    this.emit(invoice);
+  }
+
+  private emit(invoice: InvoiceUpdate) {
+    const snapshot = { ...invoice };
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+// Kept on globalThis so the node survives module reloads in development
+const globalNode = globalThis as typeof globalThis & { simulatedNode?: SimulatedNode };
+
+export function getSimulatedNode(): SimulatedNode {
+  if (!globalNode.simulatedNode) {
+    globalNode.simulatedNode = new SimulatedNode();
+  }
+  return globalNode.simulatedNode;
+}
@@ -0,0 +1,196 @@
+/**
+ * Transaction history cached in the browser's IndexedDB
+ * Lets the history view render immediately on load and stay browsable while
+ * the node is unreachable. Rows are keyed by payment hash, so a later copy of
+ * a transaction (e.g. an invoice that got paid) replaces the earlier one.
+ *
+ * The cache is synced newest first by cursor. After the first sync, a sync
+ * stops once it reaches transactions older than the last sync minus
+ * SYNC_OVERLAP_SECONDS, which catches recent status changes without
+ * re-reading the whole history.
+ *
+ * A sync reads at most MAX_SYNC_PAGES pages. When that isn't enough (the
+ * first sync of a large history, or many new transactions since the last
+ * one), the cursor it stopped at is saved as a gap, and later syncs carry on
+ * from there until the gap is filled.
+ */
+
+import type { ListTransactionHistoryResponse, Transaction } from 'flndr';
+import type { TransactionHistoryOptions } from './walletApi';
+import { FilterState, matchesFilters, transactionKey } from './transactions';
+
+const DB_NAME = 'wallet-cache';
+const DB_VERSION = 1;
+const TRANSACTIONS_STORE = 'transactions';
+const META_STORE = 'meta';
+const LAST_SYNCED_KEY = 'lastSynced';
+const SYNC_GAPS_KEY = 'syncGaps';
+
+// Rows fetched per page while syncing, and the most pages read in one sync
+const SYNC_PAGE_SIZE = 100;
+const MAX_SYNC_PAGES = 50;
+
+// Re-read this far back on incremental syncs, since pending rows may have changed
+const SYNC_OVERLAP_SECONDS = 86400;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(TRANSACTIONS_STORE, { keyPath: 'key' });
+        db.createObjectStore(META_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+// Run one request in a transaction and resolve once the transaction completes
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// Store or replace transactions
+export async function saveTransactions(transactions: Transaction[]) {
+  if (transactions.length === 0) return;
+  await withStore(TRANSACTIONS_STORE, 'readwrite', store => {
+    transactions.forEach(transaction => store.put({ key: transactionKey(transaction), transaction }));
+  });
+}
+
+// Cached transactions matching the filters, newest first
+export async function loadCachedTransactions(filters: FilterState): Promise<Transaction[]> {
+  const records = await withStore<{ key: string; transaction: Transaction }[]>(
+    TRANSACTIONS_STORE,
+    'readonly',
+    store => store.getAll()
+  );
+
+  return (records ?? [])
+    .map(record => record.transaction)
+    .filter(transaction => matchesFilters(transaction, filters))
+    .sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Unix milliseconds of the last successful sync with the node, or null if never synced
+export async function getLastSynced(): Promise<number | null> {
+  const value = await withStore<number>(META_STORE, 'readonly', store => store.get(LAST_SYNCED_KEY));
+  return typeof value === 'number' ? value : null;
+}
+
+async function setLastSynced(time: number) {
+  await withStore(META_STORE, 'readwrite', store => {
+    store.put(time, LAST_SYNCED_KEY);
+  });
+}
+
+type SyncCursor = NonNullable<ListTransactionHistoryResponse['next_cursor']>;
+
+// Where an unfinished sync stopped, and the timestamp it still has to read back to (null for all of it)
+interface SyncGap {
+  cursor: SyncCursor;
+  stopBefore: number | null;
+}
+
+async function getSyncGaps(): Promise<SyncGap[]> {
+  const value = await withStore<SyncGap[]>(META_STORE, 'readonly', store => store.get(SYNC_GAPS_KEY));
+  return Array.isArray(value) ? value : [];
+}
+
+async function setSyncGaps(gaps: SyncGap[]) {
+  await withStore(META_STORE, 'readwrite', store => {
+    store.put(gaps, SYNC_GAPS_KEY);
+  });
+}
+
+/**
+ * Cache pages from a cursor until stopBefore or the end of the history
+ * Returns the pages read, and the gap still left when maxPages ran out first.
+ */
+async function syncPages(
+  fetchPage: (options: TransactionHistoryOptions) => Promise<ListTransactionHistoryResponse>,
+  { cursor: start, stopBefore }: SyncGap,
+  maxPages: number
+): Promise<{ pages: number; gap?: SyncGap }> {
+  let cursor: SyncCursor | undefined = start;
+  let pages = 0;
+
+  while (cursor && pages < maxPages) {
+    const response: ListTransactionHistoryResponse = await fetchPage({
+      offset: cursor.offset,
+      limit: SYNC_PAGE_SIZE,
+      payment_cursor: cursor.payment_cursor ?? undefined,
+      invoice_cursor: cursor.invoice_cursor ?? undefined,
+    });
+    pages += 1;
+    await saveTransactions(response.transactions);
+
+    const reachedSynced = stopBefore !== null
+      && response.transactions.some(transaction => transaction.timestamp < stopBefore);
+    cursor = response.has_more && response.transactions.length > 0 && !reachedSynced
+      ? response.next_cursor ?? undefined
+      : undefined;
+  }
+
+  return { pages, gap: cursor ? { cursor, stopBefore } : undefined };
+}
+
+/**
+ * Bring the cache up to date with the node
+ * Reads the newest transactions first, then spends what is left of the page
+ * budget filling gaps left by earlier syncs, newest gap first. Returns the
+ * sync time. Throws if the node can't be reached, leaving the last sync time
+ * and the gaps unchanged.
+ */
+export async function syncTransactionCache(
+  fetchPage: (options: TransactionHistoryOptions) => Promise<ListTransactionHistoryResponse>
+): Promise<number> {
+  const startedAt = Date.now();
+  const lastSynced = await getLastSynced();
+  const stopBefore = lastSynced !== null ? lastSynced / 1000 - SYNC_OVERLAP_SECONDS : null;
+
+  const recent = await syncPages(fetchPage, { cursor: { offset: 0, limit: SYNC_PAGE_SIZE }, stopBefore }, MAX_SYNC_PAGES);
+  let budget = MAX_SYNC_PAGES - recent.pages;
+
+  const gaps = recent.gap ? [recent.gap, ...(await getSyncGaps())] : await getSyncGaps();
+  const remaining: SyncGap[] = [];
+  for (const gap of gaps) {
+    if (budget <= 0) {
+      remaining.push(gap);
+      continue;
+    }
+    const result = await syncPages(fetchPage, gap, budget);
+    budget -= result.pages;
+    if (result.gap) remaining.push(result.gap);
+  }
+
+  await setSyncGaps(remaining);
+  await setLastSynced(startedAt);
+  return startedAt;
+}
@@ -0,0 +1,267 @@
+/**
+ * Helpers for turning wallet events into transaction history rows,
+ * reconciling those optimistic rows with data returned by the node, and
+ * reading history filters from a query string.
+ *
+ * Type, status and date filters are applied by the node. Text search and
+ * amount bounds are not supported there, so they are applied to each page
+ * after it is fetched.
+ */
+
+import type { ListTransactionHistoryResponse, Transaction, TransactionStatus, TransactionType } from 'flndr';
+import type { InvoiceEventPayload, PaymentEventPayload } from './eventBus';
+
+// Filter state shared by the history view and the optimistic row matcher
+export interface FilterState {
+  types: TransactionType[] | null;
+  statuses: TransactionStatus[] | null;
+  startDate: string | null;
+  endDate: string | null;
+  // Substring matched against the description and payment hash
+  search: string | null;
+  // Amount bounds in sats, inclusive
+  minAmount: string | null;
+  maxAmount: string | null;
+}
+
+export const EMPTY_FILTERS: FilterState = {
+  types: null,
+  statuses: null,
+  startDate: null,
+  endDate: null,
+  search: null,
+  minAmount: null,
+  maxAmount: null,
+};
+
+// Filters the node cannot apply itself
+export interface HistorySearch {
+  search?: string;
+  min_amount?: number;
+  max_amount?: number;
+}
+
+// One page of history as requested from the node, see LightningBackend.listTransactions
+export interface HistoryQuery {
+  offset: number;
+  limit: number;
+  payment_cursor?: string;
+  invoice_cursor?: string;
+  types?: TransactionType[];
+  statuses?: TransactionStatus[];
+  // Unix seconds, inclusive
+  creation_date_start?: string;
+  creation_date_end?: string;
+}
+
+// Split a comma-separated query param into a list, or undefined when absent
+function parseList<T extends string>(value: string | null): T[] | undefined {
+  if (!value) return undefined;
+  const items = value.split(',').map(item => item.trim()).filter(Boolean);
+  return items.length > 0 ? (items as T[]) : undefined;
+}
+
+// History filters as sent by walletApi's query string serializer
+export function parseHistoryFilters(params: URLSearchParams) {
+  return {
+    types: parseList<TransactionType>(params.get('types')),
+    statuses: parseList<TransactionStatus>(params.get('statuses')),
+    creation_date_start: params.get('creation_date_start') ?? undefined,
+    creation_date_end: params.get('creation_date_end') ?? undefined,
+  };
+}
+
+// Read a non-negative number from a query param, ignoring anything else
+function parseAmount(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : undefined;
+}
+
+// Search filters as sent by walletApi's query string serializer
+export function parseHistorySearch(params: URLSearchParams): HistorySearch {
+  return {
+    search: params.get('search')?.trim() || undefined,
+    min_amount: parseAmount(params.get('min_amount')),
+    max_amount: parseAmount(params.get('max_amount')),
+  };
+}
+
+export function hasHistorySearch(criteria: HistorySearch): boolean {
+  return Boolean(criteria.search) || criteria.min_amount !== undefined || criteria.max_amount !== undefined;
+}
+
+// Check a row against the search text and amount bounds
+export function matchesSearch(tx: Transaction, criteria: HistorySearch): boolean {
+  if (criteria.min_amount !== undefined && tx.amount < criteria.min_amount) {
+    return false;
+  }
+  if (criteria.max_amount !== undefined && tx.amount > criteria.max_amount) {
+    return false;
+  }
+  if (criteria.search) {
+    const needle = criteria.search.toLowerCase();
+    const haystack = [tx.description || '', tx.payment_hash ? normalizePaymentHash(tx.payment_hash) : '', tx.id];
+    return haystack.some(value => value.toLowerCase().includes(needle));
+  }
+  return true;
+}
+
+// Search part of the history view's filters
+export function filtersToSearch(filters: FilterState): HistorySearch {
+  return parseHistorySearch(new URLSearchParams({
+    search: filters.search ?? '',
+    min_amount: filters.minAmount ?? '',
+    max_amount: filters.maxAmount ?? '',
+  }));
+}
+
+/**
+ * Serialize the history view's filters for the page URL
+ * Only set filters are written, so an unfiltered view has a clean URL.
+ */
+export function filtersToUrlParams(filters: FilterState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.types?.length) params.set('types', filters.types.join(','));
+  if (filters.statuses?.length) params.set('statuses', filters.statuses.join(','));
+  if (filters.startDate) params.set('from', filters.startDate);
+  if (filters.endDate) params.set('to', filters.endDate);
+  if (filters.search) params.set('q', filters.search);
+  if (filters.minAmount) params.set('min', filters.minAmount);
+  if (filters.maxAmount) params.set('max', filters.maxAmount);
+  return params;
+}
+
+// Read the history view's filters back from the page URL
+export function filtersFromUrlParams(params: URLSearchParams): FilterState {
+  return {
+    types: parseList<TransactionType>(params.get('types')) ?? null,
+    statuses: parseList<TransactionStatus>(params.get('statuses')) ?? null,
+    startDate: params.get('from'),
+    endDate: params.get('to'),
+    search: params.get('q'),
+    minAmount: params.get('min'),
+    maxAmount: params.get('max'),
+  };
+}
+
+/**
+ * Normalize a payment hash to lowercase hex
+ * LND returns payment hashes as hex for payments but base64 for new invoices.
+ */
+export function normalizePaymentHash(hash: string): string {
+  if (/^[0-9a-fA-F]{64}$/.test(hash)) {
+    return hash.toLowerCase();
+  }
+
+  try {
+    const binary = atob(hash.replace(/-/g, '+').replace(/_/g, '/'));
+    return Array.from(binary, char => char.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+  } catch {
+    return hash;
+  }
+}
+
+// Build a history row for a payment we just sent
+export function paymentToTransaction(payment: PaymentEventPayload): Transaction {
+  const hash = normalizePaymentHash(payment.payment_hash);
+  const timestamp = payment.creation_time_ns
+    ? Math.floor(Number(payment.creation_time_ns) / 1e9)
+    : Math.floor(Date.now() / 1000);
+
+  return {
+    id: hash,
+    type: 'sent',
+    amount: Number(payment.value_sat) || 0,
+    fee: Number(payment.fee_sat) || 0,
+    status: payment.status === 'SUCCEEDED' ? 'succeeded' : payment.status === 'FAILED' ? 'failed' : 'in_flight',
+    timestamp,
+    description: '',
+    payment_hash: hash,
+    preimage: payment.payment_preimage,
+    payment_request: payment.payment_request,
+  } as Transaction;
+}
+
+// Build a history row for an invoice we created or that was just paid
+export function invoiceToTransaction(invoice: InvoiceEventPayload): Transaction {
+  const hash = normalizePaymentHash(invoice.payment_hash);
+
+  return {
+    id: hash,
+    type: 'received',
+    amount: Math.floor(Number(invoice.value_msat) / 1000) || 0,
+    fee: 0,
+    status: invoice.settled ? 'settled' : invoice.accepted ? 'accepted' : 'pending',
+    timestamp: Number(invoice.timestamp) || Math.floor(Date.now() / 1000),
+    description: invoice.memo || '',
+    payment_hash: hash,
+    payment_request: invoice.payment_request,
+  } as Transaction;
+}
+
+// Key used to match optimistic rows against rows returned by the node
+export function transactionKey(tx: Transaction): string {
+  return tx.payment_hash ? normalizePaymentHash(tx.payment_hash) : tx.id;
+}
+
+// Check whether a row would be returned by the node under the given filters
+export function matchesFilters(tx: Transaction, filters: FilterState): boolean {
+  if (filters.types && filters.types.length > 0 && !filters.types.includes(tx.type)) {
+    return false;
+  }
+  if (filters.statuses && filters.statuses.length > 0 && !filters.statuses.includes(tx.status)) {
+    return false;
+  }
+  if (filters.startDate && tx.timestamp < new Date(filters.startDate).getTime() / 1000) {
+    return false;
+  }
+  if (filters.endDate && tx.timestamp > new Date(filters.endDate).getTime() / 1000) {
+    return false;
+  }
+  return matchesSearch(tx, filtersToSearch(filters));
+}
+
+/**
+ * Merge optimistic rows into a list of transactions
+ * Rows that already exist in the list are replaced in place; new rows go to the top.
+ */
+export function mergeTransactions(transactions: Transaction[], incoming: Transaction[]): Transaction[] {
+  const incomingByKey = new Map(incoming.map(tx => [transactionKey(tx), tx]));
+  const merged = transactions.map(tx => {
+    const key = transactionKey(tx);
+    const replacement = incomingByKey.get(key);
+    if (!replacement) return tx;
+    incomingByKey.delete(key);
+    return replacement;
+  });
+
+  return [...incomingByKey.values(), ...merged];
+}
+
+/**
+ * Filter and page a full history held in memory, newest first
+ * For nodes that can't filter and page their history themselves; the cursor
+ * is a plain offset into the filtered list.
+ */
+export function pageTransactions(transactions: Transaction[], query: HistoryQuery): ListTransactionHistoryResponse {
+  const start = query.creation_date_start ? Number(query.creation_date_start) : -Infinity;
+  const end = query.creation_date_end ? Number(query.creation_date_end) : Infinity;
+  const matching = transactions
+    .filter(tx => !query.types?.length || query.types.includes(tx.type))
+    .filter(tx => !query.statuses?.length || query.statuses.includes(tx.status))
+    .filter(tx => tx.timestamp >= start && tx.timestamp <= end)
+    .sort((a, b) => b.timestamp - a.timestamp);
+
+  const page = matching.slice(query.offset, query.offset + query.limit);
+  const hasMore = query.offset + page.length < matching.length;
+
+  return {
+    transactions: page,
+    offset: query.offset,
+    limit: query.limit,
+    has_more: hasMore,
+    total_count: matching.length,
+    next_cursor: hasMore ? { offset: query.offset + page.length, limit: query.limit } : undefined,
+  };
+}
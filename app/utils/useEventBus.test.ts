@@ -0,0 +1,47 @@
+/** @vitest-environment jsdom */
+
+import { renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import eventBus, { PaymentEventPayload } from './eventBus';
+import { useEventBus } from './useEventBus';
+
+const payment: PaymentEventPayload = {
+  payment_hash: 'cd'.repeat(32),
+  value_sat: '21',
+  fee_sat: '0',
+  status: 'SUCCEEDED',
+};
+
+describe('useEventBus', () => {
+  afterEach(() => {
+    eventBus.clear();
+  });
+
+  it('listens while mounted and unsubscribes on unmount', () => {
+    const listener = vi.fn();
+    const { unmount } = renderHook(() => useEventBus('payment:sent', listener));
+    expect(eventBus.listenerCount('payment:sent')).toBe(1);
+
+    eventBus.emit('payment:sent', payment);
+    unmount();
+    eventBus.emit('payment:sent', payment);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(eventBus.listenerCount('payment:sent')).toBe(0);
+  });
+
+  it('calls the latest callback without subscribing again', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const { rerender } = renderHook(({ callback }) => useEventBus('payment:sent', callback), {
+      initialProps: { callback: first },
+    });
+
+    rerender({ callback: second });
+    eventBus.emit('payment:sent', payment);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledWith(payment);
+    expect(eventBus.listenerCount('payment:sent')).toBe(1);
+  });
+});
@@ -0,0 +1,20 @@
+/**
+ * React hook for listening to eventBus events
+ * Subscribes on mount and unsubscribes on unmount. The latest callback is
+ * always used, so handlers can close over component state freely.
+ */
+
+import { useEffect, useRef } from 'react';
+import eventBus, { AppEvent, EventCallback } from './eventBus';
+
+export function useEventBus<E extends AppEvent>(event: E, callback: EventCallback<E>): void {
+  const callbackRef = useRef(callback);
+
+  useEffect(() => {
+    callbackRef.current = callback;
+  }, [callback]);
+
+  useEffect(() => {
+    return eventBus.on(event, payload => callbackRef.current(payload));
+  }, [event]);
+}
@@ -0,0 +1,76 @@
+/** @vitest-environment jsdom */
+
+import { act, renderHook } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FakeEventSource, installEventSource } from '../../test/eventSource';
+import { useInvoiceEvents } from './useInvoiceEvents';
+
+const HASH = 'ef'.repeat(32);
+
+const connections = () => FakeEventSource.instances.length;
+const latest = () => FakeEventSource.instances.at(-1)!;
+
+describe('useInvoiceEvents', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    installEventSource();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('keeps backing off while the server closes the stream without sending the invoice', () => {
+    const { result } = renderHook(() => useInvoiceEvents(HASH, () => {}));
+
+    for (const delay of [1000, 2000, 4000]) {
+      const count = connections();
+      // The node couldn't look the invoice up, so the server closed the stream right away
+      act(() => {
+        latest().open();
+        latest().fail();
+      });
+      expect(result.current).toBe('reconnecting');
+
+      act(() => vi.advanceTimersByTime(delay - 1));
+      expect(connections()).toBe(count);
+      act(() => vi.advanceTimersByTime(1));
+      expect(connections()).toBe(count + 1);
+    }
+  });
+
+  it('starts the backoff over once the invoice arrives', () => {
+    const onInvoice = vi.fn();
+    renderHook(() => useInvoiceEvents(HASH, onInvoice));
+
+    act(() => latest().fail());
+    act(() => vi.advanceTimersByTime(1000));
+    act(() => latest().fail());
+    act(() => vi.advanceTimersByTime(2000));
+
+    act(() => {
+      latest().open();
+      latest().send('invoice', { r_hash: HASH, state: 'OPEN' });
+      latest().fail();
+    });
+    const count = connections();
+    act(() => vi.advanceTimersByTime(1000));
+
+    expect(onInvoice).toHaveBeenCalledTimes(1);
+    expect(connections()).toBe(count + 1);
+  });
+
+  it('stops for an invoice the node does not know', () => {
+    const { result } = renderHook(() => useInvoiceEvents(HASH, () => {}));
+
+    act(() => {
+      latest().open();
+      latest().send('invoice-error', { error: 'Invoice not found' });
+      latest().fail();
+    });
+    act(() => vi.advanceTimersByTime(60000));
+
+    expect(result.current).toBe('closed');
+    expect(connections()).toBe(1);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * React hook that follows a single invoice over Server-Sent Events
+ * Reconnects with exponential backoff when the event stream drops and stops
+ * once the invoice reaches a final state, or the server reports that it
+ * doesn't know the invoice.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import type { InvoiceUpdate } from './invoiceSubscription';
+
+export type InvoiceStreamStatus = 'idle' | 'connecting' | 'open' | 'reconnecting' | 'closed';
+
+const INITIAL_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+export function useInvoiceEvents(
+  paymentHash: string | null,
+  onInvoice: (invoice: InvoiceUpdate) => void
+): InvoiceStreamStatus {
+  const [status, setStatus] = useState<InvoiceStreamStatus>('idle');
+
+  // Keep the latest callback without re-opening the stream on every render
+  const onInvoiceRef = useRef(onInvoice);
+  useEffect(() => {
+    onInvoiceRef.current = onInvoice;
+  }, [onInvoice]);
+
+  useEffect(() => {
+    if (!paymentHash) {
+      setStatus('idle');
+      return;
+    }
+
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | null = null;
+    let attempt = 0;
+    let finished = false;
+
+    const connect = () => {
+      setStatus(attempt === 0 ? 'connecting' : 'reconnecting');
+      source = new EventSource(`/api/invoices/${encodeURIComponent(paymentHash)}/events`);
+
+      source.onopen = () => {
+        setStatus('open');
+      };
+
+      source.addEventListener('invoice', event => {
+        const invoice = JSON.parse((event as MessageEvent).data) as InvoiceUpdate;
+        // Only a stream that delivers the invoice is healthy; one the server closes right away keeps backing off
+        attempt = 0;
+        onInvoiceRef.current(invoice);
+
+        // Settled and canceled invoices won't change again
+        if (invoice.state === 'SETTLED' || invoice.state === 'CANCELED') {
+          finished = true;
+          source?.close();
+          setStatus('closed');
+        }
+      });
+
+      // The node doesn't know the invoice; retrying won't help
+      source.addEventListener('invoice-error', () => {
+        finished = true;
+        source?.close();
+        setStatus('closed');
+      });
+
+      source.onerror = () => {
+        source?.close();
+        if (finished) return;
+
+        const delay = Math.min(INITIAL_RETRY_MS * 2 ** attempt, MAX_RETRY_MS);
+        attempt += 1;
+        setStatus('reconnecting');
+        retryTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      finished = true;
+      source?.close();
+      if (retryTimer) clearTimeout(retryTimer);
+    };
+  }, [paymentHash]);
+
+  return status;
+}
@@ -0,0 +1,56 @@
+/**
+ * React hook for rendering only the visible rows of a long, fixed-height list
+ * Tracks the scroll position and size of a scroll container and returns the
+ * range of rows to render, plus the space to leave above and below them so
+ * the scrollbar still reflects the full list.
+ */
+
+import { RefObject, useCallback, useEffect, useState } from 'react';
+
+interface VirtualRowsOptions {
+  count: number;
+  rowHeight: number;
+  // Rows rendered beyond each edge of the viewport, to avoid blank flashes while scrolling
+  overscan?: number;
+}
+
+export interface VirtualRows {
+  start: number;
+  end: number;
+  paddingTop: number;
+  paddingBottom: number;
+  onScroll: () => void;
+}
+
+export function useVirtualRows(
+  containerRef: RefObject<HTMLElement | null>,
+  { count, rowHeight, overscan = 10 }: VirtualRowsOptions
+): VirtualRows {
+  const [scrollTop, setScrollTop] = useState<number>(0);
+  const [viewportHeight, setViewportHeight] = useState<number>(0);
+
+  const onScroll = useCallback(() => {
+    if (containerRef.current) setScrollTop(containerRef.current.scrollTop);
+  }, [containerRef]);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [containerRef]);
+
+  const start = Math.max(Math.floor(scrollTop / rowHeight) - overscan, 0);
+  const end = Math.min(Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan, count);
+
+  return {
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(count - end, 0) * rowHeight,
+    onScroll,
+  };
+}
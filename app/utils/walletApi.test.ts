@@ -0,0 +1,40 @@
+/** @vitest-environment jsdom */
+
+import { describe, expect, it } from 'vitest';
+import { jsonResponse, mockApi, ndjsonResponse } from '../../test/api';
+import { makePayment } from '../../test/fixtures';
+import walletApi, { WalletApiError } from './walletApi';
+import type { PaymentData } from './payments';
+
+async function collect(params: Parameters<typeof walletApi.sendPayment>[0]) {
+  const updates: PaymentData[] = [];
+  for await (const update of walletApi.sendPayment<PaymentData>(params)) {
+    updates.push(update.result);
+  }
+  return updates;
+}
+
+describe('walletApi.sendPayment', () => {
+  it('yields each payment update from the stream', async () => {
+    const inFlight = makePayment('IN_FLIGHT');
+    const succeeded = makePayment('SUCCEEDED');
+    const requests = mockApi(() => ndjsonResponse({ result: inFlight }, {}, { result: succeeded }));
+
+    expect(await collect({ payment_request: 'lnbcrt1', confirmed: true })).toEqual([inFlight, succeeded]);
+    expect(requests[0]).toMatchObject({ method: 'POST', path: '/api/payments', body: { payment_request: 'lnbcrt1', confirmed: true } });
+  });
+
+  it('throws the message of an error line', async () => {
+    mockApi(() => ndjsonResponse({ result: makePayment('IN_FLIGHT') }, { error: { message: 'Failed to send payment' } }));
+
+    await expect(collect({ payment_request: 'lnbcrt1' })).rejects.toThrow('Failed to send payment');
+  });
+
+  it('throws a WalletApiError with the policy code before anything is streamed', async () => {
+    mockApi(() => jsonResponse({ error: 'Payments above 10,000 sats must be confirmed before sending', code: 'CONFIRMATION_REQUIRED' }, 409));
+
+    const error = await collect({ payment_request: 'lnbcrt1' }).catch(err => err);
+    expect(error).toBeInstanceOf(WalletApiError);
+    expect(error).toMatchObject({ status: 409, code: 'CONFIRMATION_REQUIRED' });
+  });
+});
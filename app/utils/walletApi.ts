@@ -0,0 +1,304 @@
+/**
+ * Browser-side client for the wallet API routes
+ * Components call these helpers instead of talking to LND directly, so the
+ * macaroon stays on the server.
+ */
+
+import type { ListTransactionHistoryResponse, TransactionStatus, TransactionType } from 'flndr';
+import type { FiatRates } from './amounts';
+import type { ChannelsOverview, CloseChannelParams, OpenChannelParams } from './channels';
+import type { ExportFormat } from './ledgerExport';
+import type { LiquidityOverview } from './liquidity';
+import { readNdjson } from './ndjson';
+import type { OpenInvoice } from './invoices';
+import type { CreatedOffer, CreateOfferParams, FetchOfferInvoiceParams, OfferInvoice } from './offers';
+import type { PaymentPolicy } from './paymentPolicy';
+import type { TransactionDetail } from './payments';
+import type { LnurlPayInfo, LnurlSuccessAction } from './lnurl';
+import type { VoucherSummary } from './lnurlHost';
+
+export interface AddInvoiceParams {
+  value_msat: string;
+  memo?: string;
+  expiry?: string;
+  // Create a hold invoice that must be settled or canceled by hand
+  hold?: boolean;
+}
+
+export interface AddInvoiceResponse {
+  r_hash: string;
+  payment_request: string;
+  add_index?: string;
+  payment_addr?: string;
+}
+
+// A payment_request, a BOLT12 invoice, or a dest pubkey and amt_msat for a keysend payment
+export interface SendPaymentParams {
+  payment_request?: string;
+  // Invoice fetched from a BOLT12 offer, see fetchOfferInvoice
+  bolt12_invoice?: string;
+  // Amount to pay, for invoices that don't specify one and for keysend
+  amt_msat?: string;
+  // Keysend recipient node pubkey, and an optional message to include
+  dest?: string;
+  message?: string;
+  // Required for payments above the policy's confirmation threshold
+  confirmed?: boolean;
+}
+
+export interface PaymentPolicyStatus extends PaymentPolicy {
+  spentTodaySat: number;
+  remainingTodaySat: number | null;
+}
+
+// Error returned by an API route, carrying its HTTP status and optional error code
+export class WalletApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string
+  ) {
+    super(message);
+    this.name = 'WalletApiError';
+  }
+}
+
+// Build a WalletApiError from a failed response
+async function toApiError(response: Response): Promise<WalletApiError> {
+  // The session expired or was never started; the middleware wants us to sign in
+  if (response.status === 401 && window.location.pathname !== '/login') {
+    window.location.assign(`/login?next=${encodeURIComponent(window.location.pathname + window.location.search)}`);
+  }
+
+  const body = await response.json().catch(() => null);
+  return new WalletApiError(
+    body?.error || `Request failed with status ${response.status}`,
+    response.status,
+    body?.code
+  );
+}
+
+export interface LightningAddressList {
+  minSendableSat: number;
+  maxSendableSat: number;
+  addresses: { name: string; address: string; lnurl: string }[];
+}
+
+export interface CreateVoucherParams {
+  amount_sat: number;
+  description?: string;
+  // Seconds until the voucher can no longer be redeemed
+  expires_in?: number;
+}
+
+export interface TransactionHistoryOptions {
+  offset?: number;
+  limit?: number;
+  payment_cursor?: string;
+  invoice_cursor?: string;
+  types?: TransactionType[];
+  statuses?: TransactionStatus[];
+  creation_date_start?: string;
+  creation_date_end?: string;
+  // Applied by the API to each page, see parseHistorySearch
+  search?: string;
+  min_amount?: number;
+  max_amount?: number;
+}
+
+// Perform a request against our own API and surface its error message on failure
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(`/api${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...init?.headers,
+    },
+  });
+
+  if (!response.ok) {
+    throw await toApiError(response);
+  }
+
+  return (await response.json()) as T;
+}
+
+// Serialize history options into a query string, joining array filters with commas
+function toQueryString(options: TransactionHistoryOptions): string {
+  const params = new URLSearchParams();
+
+  Object.entries(options).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+
+  return params.toString();
+}
+
+const walletApi = {
+  signIn(token: string) {
+    return request<{ authenticated: boolean }>('/session', {
+      method: 'POST',
+      body: JSON.stringify({ token }),
+    });
+  },
+
+  addInvoice(params: AddInvoiceParams) {
+    return request<AddInvoiceResponse>('/invoices', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  listInvoices() {
+    return request<OpenInvoice[]>('/invoices');
+  },
+
+  cancelInvoice(paymentHash: string) {
+    return request<{ canceled: boolean }>(`/invoices/${encodeURIComponent(paymentHash)}`, {
+      method: 'DELETE',
+    });
+  },
+
+  settleInvoice(paymentHash: string) {
+    return request<{ settled: boolean }>(`/invoices/${encodeURIComponent(paymentHash)}/settle`, {
+      method: 'POST',
+    });
+  },
+
+  lookupInvoice(paymentHash: string) {
+    return request<{ settled: boolean; state?: string; [key: string]: unknown }>(
+      `/invoices/${encodeURIComponent(paymentHash)}`
+    );
+  },
+
+  /**
+   * Send a payment and yield each update from the node as it arrives
+   * Each yielded value is one { result } payment update.
+   */
+  async *sendPayment<T>(params: SendPaymentParams): AsyncGenerator<{ result: T }> {
+    const response = await fetch('/api/payments', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(params),
+    });
+
+    if (!response.ok || !response.body) {
+      throw await toApiError(response);
+    }
+
+    for await (const message of readNdjson<{ result?: T; error?: { message?: string } }>(response.body)) {
+      if (message.error) {
+        throw new Error(message.error.message || 'Payment stream error');
+      }
+      if (message.result) {
+        yield { result: message.result };
+      }
+    }
+  },
+
+  getPaymentPolicy() {
+    return request<PaymentPolicyStatus>('/payments/policy');
+  },
+
+  resolveLnurlPay(target: string) {
+    return request<LnurlPayInfo>(`/lnurl/pay?target=${encodeURIComponent(target)}`);
+  },
+
+  requestLnurlInvoice(target: string, amountMsat: string, comment?: string) {
+    return request<{ pr: string; successAction?: LnurlSuccessAction }>('/lnurl/pay', {
+      method: 'POST',
+      body: JSON.stringify({ target, amount_msat: amountMsat, comment }),
+    });
+  },
+
+  createOffer(params: CreateOfferParams) {
+    return request<CreatedOffer>('/offers', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  fetchOfferInvoice(params: FetchOfferInvoiceParams) {
+    return request<OfferInvoice>('/offers/invoice', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  getLightningAddresses() {
+    return request<LightningAddressList>('/lnurlp');
+  },
+
+  listVouchers() {
+    return request<VoucherSummary[]>('/vouchers');
+  },
+
+  createVoucher(params: CreateVoucherParams) {
+    return request<VoucherSummary>('/vouchers', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  revokeVoucher(id: string) {
+    return request<VoucherSummary>(`/vouchers/${encodeURIComponent(id)}`, { method: 'DELETE' });
+  },
+
+  listTransactionHistory(options: TransactionHistoryOptions) {
+    return request<ListTransactionHistoryResponse>(`/history?${toQueryString(options)}`);
+  },
+
+  getTransactionDetail(paymentHash: string) {
+    return request<TransactionDetail>(`/transactions/${encodeURIComponent(paymentHash)}`);
+  },
+
+  /**
+   * URL that downloads the full ledger matching the filters
+   * Opening it lets the browser stream the file to disk instead of holding it in memory.
+   */
+  historyExportUrl(format: ExportFormat, options: TransactionHistoryOptions) {
+    const query = toQueryString(options);
+    return `/api/history/export?format=${format}${query ? `&${query}` : ''}`;
+  },
+
+  getRates() {
+    return request<FiatRates>('/rates');
+  },
+
+  getNodeInfo() {
+    return request<Record<string, unknown>>('/node');
+  },
+
+  getLiquidity() {
+    return request<LiquidityOverview>('/node/liquidity');
+  },
+
+  connectPeer(uri: string) {
+    return request<{ pubkey: string; connected: boolean }>('/peers', {
+      method: 'POST',
+      body: JSON.stringify({ uri }),
+    });
+  },
+
+  listChannels() {
+    return request<ChannelsOverview>('/channels');
+  },
+
+  openChannel(params: OpenChannelParams) {
+    return request<{ channel_point: string }>('/channels', {
+      method: 'POST',
+      body: JSON.stringify(params),
+    });
+  },
+
+  closeChannel(channelPoint: string, params: CloseChannelParams = {}) {
+    const query = new URLSearchParams({ force: String(Boolean(params.force)) });
+    if (params.sat_per_vbyte !== undefined) query.set('sat_per_vbyte', String(params.sat_per_vbyte));
+    return request<{ closing_txid: string }>(`/channels/${encodeURIComponent(channelPoint)}?${query}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export default walletApi;
@@ -0,0 +1,67 @@
+import { expect, Page, test } from '@playwright/test';
+import { resetNode } from './simulator';
+
+test.beforeEach(async ({ request }) => {
+  await resetNode(request);
+});
+
+// Record the cursor of every history page the browser asks for
+function watchHistoryPages(page: Page) {
+  const cursors: string[] = [];
+  page.on('request', request => {
+    const url = new URL(request.url());
+    if (url.pathname === '/api/history' && url.searchParams.get('limit') !== '100') {
+      cursors.push(`${url.searchParams.get('payment_cursor')}/${url.searchParams.get('invoice_cursor')}/${url.searchParams.get('types')}`);
+    }
+  });
+  return cursors;
+}
+
+// Scroll the history table to the bottom until every page is loaded
+async function scrollToEnd(page: Page) {
+  const table = page.locator('table').locator('xpath=..');
+  await expect(async () => {
+    await table.evaluate(element => element.scrollTo(0, element.scrollHeight));
+    await expect(page.getByText(/reached the end of the list/)).toBeVisible({ timeout: 1000 });
+  }).toPass();
+}
+
+test('loads every page of the history once while scrolling', async ({ page }) => {
+  const cursors = watchHistoryPages(page);
+  await page.goto('/');
+
+  await scrollToEnd(page);
+
+  expect(cursors.length).toBeGreaterThan(1);
+  expect(new Set(cursors).size).toBe(cursors.length);
+});
+
+test('filters the history and starts over from the first page', async ({ page }) => {
+  const cursors = watchHistoryPages(page);
+  await page.goto('/');
+  await expect(page.getByRole('row').nth(1)).toBeVisible();
+
+  await page.getByLabel('Sent Payments').check();
+  await page.getByRole('button', { name: 'Apply Filters' }).click();
+  await expect(page).toHaveURL(/types=sent/);
+  await scrollToEnd(page);
+
+  const rows = page.locator('tbody tr:not([aria-hidden])');
+  await expect(rows.first()).toContainText('Sent');
+  await expect(rows.filter({ hasText: 'Received' })).toHaveCount(0);
+  expect(cursors.filter(cursor => cursor.endsWith('/sent'))[0]).toBe('null/null/sent');
+});
+
+test('changes the page size', async ({ page }) => {
+  await page.goto('/');
+  await expect(page.getByRole('row').nth(1)).toBeVisible();
+
+  const firstPage = page.waitForRequest(request =>
+    request.url().includes('/api/history') && new URL(request.url()).searchParams.get('limit') === '25'
+  );
+  await page.locator('select').filter({ has: page.locator('option[value="25"]') }).selectOption('25');
+
+  const url = new URL((await firstPage).url());
+  expect(url.searchParams.get('offset')).toBe('0');
+  expect(url.searchParams.get('payment_cursor')).toBeNull();
+});
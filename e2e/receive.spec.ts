@@ -0,0 +1,44 @@
+import { expect, Page, test } from '@playwright/test';
+import { payFromOutside, resetNode } from './simulator';
+
+test.beforeEach(async ({ page, request }) => {
+  await resetNode(request);
+  await page.goto('/');
+});
+
+async function createInvoiceInPage(page: Page, amountSat: string, memo: string) {
+  await page.getByLabel('Amount (sats)').fill(amountSat);
+  await page.getByLabel('Memo (optional)').fill(memo);
+  await page.getByRole('button', { name: 'Create Invoice' }).click();
+  await expect(page.getByText(/Waiting for payment/)).toBeVisible();
+  return (await page.getByText(/^lnbcrt/).textContent())?.trim() ?? '';
+}
+
+test('settles a created invoice without a reload once it is paid', async ({ page, request }) => {
+  const invoice = await createInvoiceInPage(page, '1500', 'E2E tip');
+  expect(invoice).toMatch(/^lnbcrt15u1/);
+
+  await payFromOutside(request, invoice);
+
+  await expect(page.getByText('Payment received', { exact: true })).toBeVisible();
+  await expect(page.getByText('✓ Paid')).toBeVisible();
+  await expect(page.getByRole('row', { name: /E2E tip/ }).first()).toContainText('Received');
+});
+
+test('copies the invoice', async ({ context, page }) => {
+  await context.grantPermissions(['clipboard-read', 'clipboard-write']);
+  const invoice = await createInvoiceInPage(page, '700', 'E2E copy');
+
+  await page.getByRole('button', { name: 'Copy to clipboard' }).click();
+
+  await expect(page.getByText('Copied!')).toBeVisible();
+  expect(await page.evaluate(() => navigator.clipboard.readText())).toBe(invoice);
+});
+
+test('leaves an unpaid invoice waiting', async ({ page }) => {
+  await createInvoiceInPage(page, '900', 'E2E unpaid');
+
+  await page.waitForTimeout(1500);
+  await expect(page.getByText(/Waiting for payment/)).toBeVisible();
+  await expect(page.getByText('✓ Paid')).toHaveCount(0);
+});
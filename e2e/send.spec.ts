@@ -0,0 +1,57 @@
+import { expect, test } from '@playwright/test';
+import { createInvoice, resetNode, scriptPayments } from './simulator';
+
+const INPUT_LABEL = 'Invoice, offer, LNURL or Lightning Address';
+
+test.beforeEach(async ({ page, request }) => {
+  await resetNode(request);
+  await page.goto('/');
+});
+
+test('decodes and pays an invoice', async ({ page, request }) => {
+  const invoice = await createInvoice(request, 2100, 'E2E coffee');
+
+  await page.getByLabel(INPUT_LABEL).fill(invoice);
+  await expect(page.getByText('Decoded Invoice')).toBeVisible();
+  await expect(page.getByText('2100 sats')).toBeVisible();
+  await expect(page.getByText('E2E coffee')).toBeVisible();
+
+  await page.getByRole('button', { name: 'Confirm & Send' }).click();
+  await expect(page.getByText('Payment Successful')).toBeVisible();
+  await expect(page.getByText('Sent 2100 sats')).toBeVisible();
+});
+
+test('shows each failed attempt before the payment succeeds', async ({ page, request }) => {
+  await scriptPayments(request, [{ failed_attempts: 2 }]);
+  const invoice = await createInvoice(request, 500, 'E2E retries');
+
+  await page.getByLabel(INPUT_LABEL).fill(invoice);
+  await page.getByRole('button', { name: 'Confirm & Send' }).click();
+
+  await expect(page.getByText(/Payment in progress\.\.\. \(attempt \d\)/)).toBeVisible();
+  await expect(page.getByText('Payment Successful')).toBeVisible();
+  await expect(page.getByText('Payment Attempts (3)')).toBeVisible();
+});
+
+test('reports why a payment failed', async ({ page, request }) => {
+  await scriptPayments(request, [{ failure_reason: 'FAILURE_REASON_NO_ROUTE' }]);
+  const invoice = await createInvoice(request, 500, 'E2E no route');
+
+  await page.getByLabel(INPUT_LABEL).fill(invoice);
+  await page.getByRole('button', { name: 'Confirm & Send' }).click();
+
+  await expect(page.getByText('Payment Failed')).toBeVisible();
+  await expect(page.getByText('Payment failed: FAILURE_REASON_NO_ROUTE')).toBeVisible();
+});
+
+test('keeps showing a payment that stays in flight', async ({ page, request }) => {
+  await scriptPayments(request, [{ in_flight: true }]);
+  const invoice = await createInvoice(request, 500, 'E2E stuck');
+
+  await page.getByLabel(INPUT_LABEL).fill(invoice);
+  await page.getByRole('button', { name: 'Confirm & Send' }).click();
+
+  await expect(page.getByText(/Payment in progress/)).toBeVisible();
+  await expect(page.getByText('In flight').first()).toBeVisible();
+  await expect(page.getByRole('button', { name: 'Sending...' })).toBeDisabled();
+});
@@ -0,0 +1,28 @@
+import type { APIRequestContext } from '@playwright/test';
+
+// Start over with fresh channels, seeded history and no payment scripts
+export async function resetNode(request: APIRequestContext) {
+  const response = await request.delete('/api/simulator');
+  if (!response.ok()) throw new Error(`Resetting the simulated node failed: ${response.status()}`);
+}
+
+// Decide how the next payment goes, see PUT /api/simulator
+export async function scriptPayments(request: APIRequestContext, scripts: Record<string, unknown>[]) {
+  const response = await request.put('/api/simulator', { data: { scripts } });
+  if (!response.ok()) throw new Error(`Scripting payments failed: ${await response.text()}`);
+}
+
+// An invoice of the wallet's own node, which the wallet can pay to itself
+export async function createInvoice(request: APIRequestContext, amountSat: number, memo: string): Promise<string> {
+  const response = await request.post('/api/invoices', {
+    data: { value_msat: String(amountSat * 1000), memo },
+  });
+  if (!response.ok()) throw new Error(`Creating an invoice failed: ${await response.text()}`);
+  return (await response.json()).payment_request;
+}
+
+// Pay one of the wallet's invoices as if from another node
+export async function payFromOutside(request: APIRequestContext, paymentRequest: string) {
+  const response = await request.post('/api/simulator/receive', { data: { payment_request: paymentRequest } });
+  if (!response.ok()) throw new Error(`Paying the invoice failed: ${await response.text()}`);
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authRequired, getAccessToken, isPublicPath, isValidSession, isValidToken, SESSION_COOKIE } from './app/utils/auth';
+
+/**
+ * Keep the operator's pages and API routes behind WALLET_ACCESS_TOKEN
+ * API requests without a valid session cookie or bearer token get a 401;
+ * pages redirect to the sign-in page. The LNURL endpoints stay public.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (isPublicPath(pathname) || !authRequired()) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith('/api/');
+
+  if (!getAccessToken()) {
+    const message = 'Set WALLET_ACCESS_TOKEN to use the wallet in production';
+    return isApi
+      ? NextResponse.json({ error: message }, { status: 503 })
+      : new NextResponse(message, { status: 503 });
+  }
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const cookie = request.cookies.get(SESSION_COOKIE)?.value;
+
+  if ((bearer && await isValidToken(bearer)) || (cookie && await isValidSession(cookie))) {
+    return NextResponse.next();
+  }
+
+  if (isApi) {
+    return NextResponse.json({ error: 'Sign in to use the wallet' }, { status: 401 });
+  }
+
+  const login = new URL('/login', request.url);
+  login.searchParams.set('next', `${pathname}${search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  // Static assets are served to everyone
+  matcher: ['/((?!_next/static|_next/image|favicon.ico|.*\\.svg$).*)'],
+};
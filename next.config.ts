@@ -1,7 +1,15 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async rewrites() {
+    return [
+      // Lightning Address lookups (LUD-16) are served by the LNURL-pay endpoint
+      {
+        source: "/.well-known/lnurlp/:name",
+        destination: "/api/lnurlp/:name",
+      },
+    ];
+  },
 };
 
 export default nextConfig;
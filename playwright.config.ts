@@ -0,0 +1,36 @@
+import { defineConfig, devices } from '@playwright/test';
+
+const PORT = 3100;
+// Sent as a bearer token with every request, so the tests also run behind the sign-in middleware
+export const E2E_ACCESS_TOKEN = 'e2e-access-token';
+
+/**
+ * Browser tests against the simulated node
+ * The node lives in the dev server's memory, so tests run one at a time and
+ * each starts by resetting it.
+ */
+export default defineConfig({
+  testDir: 'e2e',
+  workers: 1,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  use: {
+    baseURL: `http://localhost:${PORT}`,
+    extraHTTPHeaders: { Authorization: `Bearer ${E2E_ACCESS_TOKEN}` },
+    trace: 'retain-on-failure',
+  },
+  projects: [
+    { name: 'chromium', use: { ...devices['Desktop Chrome'] } },
+  ],
+  webServer: {
+    command: `next dev --port ${PORT}`,
+    url: `http://localhost:${PORT}/login`,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      LIGHTNING_BACKEND: 'simulated',
+      WALLET_ACCESS_TOKEN: E2E_ACCESS_TOKEN,
+      SIMULATED_HISTORY_SIZE: '60',
+      SIMULATED_ATTEMPT_DELAY_MS: '100',
+    },
+  },
+});
@@ -0,0 +1,82 @@
+/**
+ * Fake HTTP APIs for tests
+ * Replaces fetch with a handler that answers the requests walletApi makes in
+ * component tests, or the node's REST calls in route tests, and records each
+ * request so tests can check what was sent.
+ */
+
+import { vi } from 'vitest';
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown> | undefined;
+}
+
+export type ApiHandler = (request: ApiRequest) => Response | Promise<Response>;
+
+export function mockApi(handler: ApiHandler): ApiRequest[] {
+  const requests: ApiRequest[] = [];
+
+  vi.stubGlobal('fetch', vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = new URL(String(input), 'http://localhost');
+    const request: ApiRequest = {
+      method: init?.method ?? 'GET',
+      path: url.pathname,
+      query: url.searchParams,
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined,
+    };
+    requests.push(request);
+    return handler(request);
+  }));
+
+  return requests;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+export function notFound(request: ApiRequest): Response {
+  return jsonResponse({ error: `No fake for ${request.method} ${request.path}` }, 404);
+}
+
+/**
+ * NDJSON response whose lines are pushed by the test
+ * Each push is cut into small chunks, so lines arrive split across reads
+ * the way they can over a real connection.
+ */
+export function ndjsonStream(chunkSize = 7) {
+  const encoder = new TextEncoder();
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const body = new ReadableStream<Uint8Array>({
+    start(streamController) {
+      controller = streamController;
+    },
+  });
+
+  return {
+    response: new Response(body, { headers: { 'Content-Type': 'application/x-ndjson' } }),
+    push(...messages: unknown[]) {
+      const text = messages.map(message => `${JSON.stringify(message)}\n`).join('');
+      for (let i = 0; i < text.length; i += chunkSize) {
+        controller.enqueue(encoder.encode(text.slice(i, i + chunkSize)));
+      }
+    },
+    close() {
+      controller.close();
+    },
+  };
+}
+
+// A complete NDJSON response with the given lines
+export function ndjsonResponse(...messages: unknown[]): Response {
+  const stream = ndjsonStream();
+  stream.push(...messages);
+  stream.close();
+  return stream.response;
+}
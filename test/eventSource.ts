@@ -0,0 +1,54 @@
+/**
+ * Stand-in for the browser's EventSource, which jsdom doesn't have
+ * Tests reach the connections a component opened through instances and
+ * drive them with open(), send() and fail().
+ */
+
+import { vi } from 'vitest';
+
+type Listener = (event: MessageEvent) => void;
+
+export class FakeEventSource {
+  static instances: FakeEventSource[] = [];
+
+  onopen: ((event: Event) => void) | null = null;
+  onerror: ((event: Event) => void) | null = null;
+  closed = false;
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(public url: string) {
+    FakeEventSource.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: Listener) {
+    this.listeners.set(type, [...(this.listeners.get(type) ?? []), listener]);
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  open() {
+    this.onopen?.(new Event('open'));
+  }
+
+  send(type: string, data: unknown) {
+    const event = new MessageEvent(type, { data: JSON.stringify(data) });
+    this.listeners.get(type)?.forEach(listener => listener(event));
+  }
+
+  // The connection dropped, as EventSource reports it
+  fail() {
+    this.onerror?.(new Event('error'));
+  }
+}
+
+export function installEventSource() {
+  FakeEventSource.instances = [];
+  vi.stubGlobal('EventSource', FakeEventSource);
+}
+
+// The most recent connection to a URL
+export function latestEventSource(url: string): FakeEventSource | undefined {
+  return FakeEventSource.instances.filter(source => source.url === url).at(-1);
+}
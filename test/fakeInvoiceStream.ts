@@ -0,0 +1,89 @@
+/**
+ * Fake LND invoice stream for exercising InvoiceSubscription without a node
+ *
+ * Usage:
+ *   const fake = createFakeInvoiceStream();
+ *   const subscription = new InvoiceSubscription(fake.source, { initialDelayMs: 10, maxDelayMs: 100 });
+ *   subscription.subscribe(listener);
+ *   fake.emit({ r_hash, state: 'SETTLED', ... });  // delivered to listener
+ *   fake.drop(new Error('connection reset'));       // triggers reconnect with backoff
+ */
+
+import type { InvoiceStreamSource, InvoiceUpdate } from '../app/utils/invoiceSubscription';
+
+type Item = { invoice: InvoiceUpdate } | { error: Error } | { end: true };
+
+interface FakeConnection {
+  queue: Item[];
+  wake: (() => void) | null;
+}
+
+export interface FakeInvoiceStream {
+  source: InvoiceStreamSource;
+  // Push an invoice update to the currently open connection
+  emit(invoice: InvoiceUpdate): void;
+  // Break the current connection with an error
+  drop(error?: Error): void;
+  // End the current connection cleanly, as LND does when it restarts
+  end(): void;
+  // Total number of connections opened so far
+  readonly connections: number;
+  // Whether a connection is currently open
+  readonly connected: boolean;
+}
+
+export function createFakeInvoiceStream(): FakeInvoiceStream {
+  let current: FakeConnection | null = null;
+  let connections = 0;
+
+  const push = (item: Item) => {
+    if (!current) return;
+    current.queue.push(item);
+    current.wake?.();
+  };
+
+  async function* source(signal: AbortSignal): AsyncGenerator<InvoiceUpdate> {
+    const connection: FakeConnection = { queue: [], wake: null };
+    current = connection;
+    connections += 1;
+
+    const onAbort = () => connection.wake?.();
+    signal.addEventListener('abort', onAbort);
+
+    try {
+      while (!signal.aborted) {
+        const item = connection.queue.shift();
+
+        if (!item) {
+          await new Promise<void>(resolve => {
+            connection.wake = resolve;
+          });
+          connection.wake = null;
+          continue;
+        }
+
+        if ('error' in item) throw item.error;
+        if ('end' in item) return;
+        yield item.invoice;
+      }
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+      if (current === connection) {
+        current = null;
+      }
+    }
+  }
+
+  return {
+    source,
+    emit: invoice => push({ invoice }),
+    drop: (error = new Error('Fake stream dropped')) => push({ error }),
+    end: () => push({ end: true }),
+    get connections() {
+      return connections;
+    },
+    get connected() {
+      return current !== null;
+    },
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * Invoices and payments for tests
+ * Invoices are encoded and signed like the simulated node's, so they decode
+ * and verify like real ones.
+ */
+
+import { randomBytes } from 'crypto';
+import type { Transaction } from 'flndr';
+import { Bolt11Fields, encodeBolt11 } from '../app/utils/bolt11';
+import type { HTLC, PaymentData } from '../app/utils/payments';
+
+const PAYEE_KEY = new Uint8Array(32).fill(7);
+
+const randomHex = () => randomBytes(32).toString('hex');
+
+export function makeInvoice(fields: Partial<Bolt11Fields> = {}): string {
+  return encodeBolt11({
+    network: 'regtest',
+    payment_hash: randomHex(),
+    payment_secret: randomHex(),
+    description: 'Coffee',
+    ...fields,
+  }, PAYEE_KEY);
+}
+
+export function makeHtlc(status: HTLC['status'], overrides: Partial<HTLC> = {}): HTLC {
+  return {
+    status,
+    attempt_id: String(Math.floor(Math.random() * 1e6)),
+    attempt_time_ns: '1700000000000000000',
+    resolve_time_ns: status === 'IN_FLIGHT' ? '0' : '1700000000250000000',
+    failure: null,
+    preimage: '',
+    route: {
+      total_time_lock: 800,
+      total_fees: '1',
+      total_amt: '21001',
+      total_fees_msat: '1000',
+      total_amt_msat: '21001000',
+      hops: [],
+    },
+    ...overrides,
+  };
+}
+
+export function makePayment(status: string, overrides: Partial<PaymentData> = {}): PaymentData {
+  return {
+    payment_hash: 'ab'.repeat(32),
+    payment_preimage: status === 'SUCCEEDED' ? 'cd'.repeat(32) : '',
+    value_msat: '21000000',
+    value_sat: '21000',
+    fee_msat: '1000',
+    fee_sat: '1',
+    status,
+    creation_time_ns: '1700000000000000000',
+    htlcs: [],
+    ...overrides,
+  };
+}
+
+// History rows numbered from newest (0) to oldest
+export function makeTransactions(count: number, from = 0): Transaction[] {
+  return Array.from({ length: count }, (_, i) => {
+    const n = from + i;
+    return {
+      id: `tx-${n}`,
+      type: n % 2 === 0 ? 'received' : 'sent',
+      amount: 1000 + n,
+      fee: 0,
+      status: n % 2 === 0 ? 'settled' : 'succeeded',
+      timestamp: 1700000000 - n * 60,
+      description: `Transaction ${n}`,
+      payment_hash: n.toString(16).padStart(64, '0'),
+    };
+  });
+}
@@ -0,0 +1,15 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  // The tsconfig leaves JSX to Next.js; tests compile it with the React 17+ runtime
+  esbuild: {
+    jsx: 'automatic',
+  },
+  test: {
+    include: ['app/**/*.test.{ts,tsx}'],
+    setupFiles: ['test/setup.ts'],
+    restoreMocks: true,
+    unstubGlobals: true,
+    unstubEnvs: true,
+  },
+});